@@ -0,0 +1,77 @@
+import { DeliveryChannel } from './types.js';
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from './retry.js';
+import { LogChannel } from './log.js';
+import { SmtpChannel } from './smtp.js';
+import { WebhookChannel } from './webhook.js';
+
+export * from './types.js';
+export * from './retry.js';
+export * from './log.js';
+export * from './smtp.js';
+export * from './webhook.js';
+
+/**
+ * Build delivery channels from environment variables
+ * DELIVERY_LOG=stdout|<file> enables the log channel; SMTP_HOST (with SMTP_PORT, SMTP_SECURE,
+ * SMTP_USER, SMTP_PASSWORD, SMTP_FROM, SMTP_TO) enables email; WEBHOOK_URL (with
+ * WEBHOOK_SECRET) enables webhooks
+ * @returns Configured channels (empty when delivery is not configured)
+ * @throws Error if a channel is only partially configured
+ */
+export function deliveryChannelsFromEnv(): DeliveryChannel[] {
+  const env = process.env;
+  const channels: DeliveryChannel[] = [];
+
+  if (env.DELIVERY_LOG) {
+    channels.push(new LogChannel(env.DELIVERY_LOG));
+  }
+
+  if (env.SMTP_HOST) {
+    const to = (env.SMTP_TO ?? '').split(',').map((address) => address.trim()).filter(Boolean);
+    if (to.length === 0) {
+      throw new Error('SMTP_TO is required when SMTP_HOST is set');
+    }
+
+    const secure = env.SMTP_SECURE === 'true';
+    channels.push(
+      new SmtpChannel({
+        host: env.SMTP_HOST,
+        port: parseInt(env.SMTP_PORT ?? '', 10) || (secure ? 465 : 25),
+        secure,
+        startTls: env.SMTP_STARTTLS !== 'false',
+        rejectUnauthorized: env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false',
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+        from: env.SMTP_FROM ?? `KeepClos <keepclos@${env.SMTP_HOST}>`,
+        to,
+      }),
+    );
+  }
+
+  if (env.WEBHOOK_URL) {
+    channels.push(new WebhookChannel({ url: env.WEBHOOK_URL, secret: env.WEBHOOK_SECRET }));
+  }
+
+  return channels;
+}
+
+/**
+ * Read the delivery retry policy from environment variables
+ * DELIVERY_MAX_ATTEMPTS and DELIVERY_RETRY_DELAY_MS override the defaults
+ * @returns Retry policy
+ */
+export function retryPolicyFromEnv(): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY };
+
+  const maxAttempts = parseInt(process.env.DELIVERY_MAX_ATTEMPTS ?? '', 10);
+  if (maxAttempts > 0) {
+    policy.maxAttempts = maxAttempts;
+  }
+
+  const delayMs = parseInt(process.env.DELIVERY_RETRY_DELAY_MS ?? '', 10);
+  if (delayMs >= 0) {
+    policy.initialDelayMs = delayMs;
+  }
+
+  return policy;
+}
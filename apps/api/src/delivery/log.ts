@@ -0,0 +1,38 @@
+import { appendFile } from 'node:fs/promises';
+import { DeliveryChannel, DeliveryMessage } from './types.js';
+
+/**
+ * Local delivery channel
+ * Writes each reminder or digest as one JSON line to stdout or appends it to a file
+ */
+
+export class LogChannel implements DeliveryChannel {
+  readonly name = 'log';
+
+  /**
+   * @param target "stdout" or the path of a file to append to
+   */
+  constructor(private target: string = 'stdout') {}
+
+  async send(message: DeliveryMessage): Promise<void> {
+    const line =
+      JSON.stringify({
+        deliveredAt: new Date().toISOString(),
+        kind: message.digest ? 'digest' : 'reminder',
+        reminderId: message.reminder?.id,
+        contactId: message.reminder?.contactId,
+        contactName: message.contact?.name,
+        dueDate: message.reminder?.dueDate,
+        subject: message.subject,
+        text: message.text,
+        digest: message.digest,
+      }) + '\n';
+
+    if (this.target === 'stdout') {
+      process.stdout.write(line);
+      return;
+    }
+
+    await appendFile(this.target, line, 'utf8');
+  }
+}
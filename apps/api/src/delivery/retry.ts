@@ -0,0 +1,69 @@
+/**
+ * Retry with exponential backoff for delivery attempts
+ */
+
+export interface RetryPolicy {
+  maxAttempts: number; // Attempts per delivery round, including the first
+  initialDelayMs: number; // Wait after the first failure
+  maxDelayMs: number; // Upper bound for any single wait
+  factor: number; // Growth of the wait after each further failure
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30 * 1000,
+  factor: 2,
+};
+
+/**
+ * Wait before the attempt following a failed one
+ * @param failedAttempt 1-based number of the attempt that failed
+ * @param policy Retry policy
+ * @returns Delay in milliseconds
+ */
+export function backoffDelay(failedAttempt: number, policy: RetryPolicy): number {
+  return Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.factor, failedAttempt - 1));
+}
+
+/**
+ * Run an operation until it succeeds or the policy's attempts are used up
+ * @param operation Operation to run, given the 1-based attempt number
+ * @param policy Retry policy
+ * @param onAttempt Called after every attempt with its outcome
+ * @param sleep Wait function (injectable for tests)
+ * @returns Result of the first successful attempt
+ * @throws The last attempt's error if every attempt fails
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  onAttempt?: (attempt: number, error?: unknown) => void,
+  sleep: (ms: number) => Promise<void> = defaultSleep,
+): Promise<T> {
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= Math.max(1, policy.maxAttempts); attempt++) {
+    try {
+      const result = await operation(attempt);
+      onAttempt?.(attempt);
+      return result;
+    } catch (error) {
+      lastError = error;
+      onAttempt?.(attempt, error);
+
+      if (attempt < policy.maxAttempts) {
+        await sleep(backoffDelay(attempt, policy));
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Resolve after a delay
+ */
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
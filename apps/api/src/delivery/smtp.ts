@@ -0,0 +1,324 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import os from 'node:os';
+import { DeliveryChannel, DeliveryMessage } from './types.js';
+
+/**
+ * SMTP email channel
+ * A minimal SMTP client (RFC 5321): EHLO, optional STARTTLS or implicit TLS, AUTH PLAIN,
+ * one message per connection. Works against local SMTP sinks (e.g. MailHog, smtp4dev) as
+ * well as relays
+ */
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure?: boolean; // Implicit TLS (port 465); otherwise STARTTLS is used when offered
+  startTls?: boolean; // Upgrade plain connections when the server offers STARTTLS (default: true)
+  rejectUnauthorized?: boolean; // Verify TLS certificates (default: true)
+  user?: string;
+  password?: string;
+  from: string; // e.g. "KeepClos <reminders@example.com>"
+  to: string[];
+  timeoutMs?: number; // Socket inactivity timeout (default: 30 seconds)
+  clientName?: string; // EHLO name (default: the host name)
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpChannel implements DeliveryChannel {
+  readonly name = 'smtp';
+
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: DeliveryMessage): Promise<void> {
+    const session = await SmtpSession.connect(this.config);
+
+    try {
+      await session.expect(await session.read(), [220]);
+      let features = await session.command(`EHLO ${this.config.clientName ?? os.hostname()}`, [250]);
+
+      if (!this.config.secure && this.config.startTls !== false && hasExtension(features, 'STARTTLS')) {
+        await session.command('STARTTLS', [220]);
+        await session.upgrade(this.config);
+        features = await session.command(`EHLO ${this.config.clientName ?? os.hostname()}`, [250]);
+      }
+
+      if (this.config.user) {
+        if (!hasExtension(features, 'AUTH')) {
+          throw new Error('SMTP server does not support authentication');
+        }
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.password ?? ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await session.command(`MAIL FROM:<${mailboxAddress(this.config.from)}>`, [250]);
+      for (const recipient of this.config.to) {
+        await session.command(`RCPT TO:<${mailboxAddress(recipient)}>`, [250, 251]);
+      }
+
+      await session.command('DATA', [354]);
+      await session.command(`${dotStuff(buildMessage(this.config, message))}\r\n.`, [250]);
+      await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+}
+
+/**
+ * Build an RFC 5322 message with base64-encoded UTF-8 bodies
+ * Messages with HTML are sent as multipart/alternative with the text part first
+ * @param config SMTP configuration (sender and recipients)
+ * @param message Rendered reminder or digest
+ * @returns Message with CRLF line endings
+ */
+export function buildMessage(config: Pick<SmtpConfig, 'from' | 'to'>, message: DeliveryMessage): string {
+  const domain = mailboxAddress(config.from).split('@')[1] ?? 'localhost';
+  const headers = [
+    `From: ${headerValue(config.from)}`,
+    `To: ${config.to.map(headerValue).join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${message.reminder?.id ?? 'digest'}.${Date.now()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    headers.push('Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: base64');
+    return `${headers.join('\r\n')}\r\n\r\n${base64Body(message.text)}`;
+  }
+
+  const boundary = `keepclos-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`;
+  headers.push(`Content-Type: multipart/alternative; boundary="${boundary}"`);
+
+  const parts = [
+    ['text/plain', message.text],
+    ['text/html', message.html],
+  ].map(
+    ([type, content]) =>
+      `--${boundary}\r\nContent-Type: ${type}; charset=utf-8\r\n` +
+      `Content-Transfer-Encoding: base64\r\n\r\n${base64Body(content)}`,
+  );
+
+  return `${headers.join('\r\n')}\r\n\r\n${parts.join('\r\n')}\r\n--${boundary}--`;
+}
+
+/**
+ * Base64-encode a UTF-8 body with CRLF line endings, wrapped at 76 characters
+ */
+function base64Body(content: string): string {
+  return Buffer.from(content.replace(/\r?\n/g, '\r\n'), 'utf8')
+    .toString('base64')
+    .replace(/.{1,76}/g, '$&\r\n')
+    .trimEnd();
+}
+
+/**
+ * Extract the address from "Name <address>" or a bare address
+ */
+function mailboxAddress(mailbox: string): string {
+  const match = /<([^>]+)>/.exec(mailbox);
+  return headerValue(match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Strip line breaks so values cannot inject headers or commands
+ */
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * RFC 2047 encode a header value containing non-ASCII characters
+ */
+function encodeHeader(value: string): string {
+  const clean = headerValue(value);
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Escape lines starting with "." so they do not end the DATA section
+ */
+function dotStuff(data: string): string {
+  return data.replace(/^\./gm, '..');
+}
+
+/**
+ * Check whether an EHLO reply advertises an extension
+ */
+function hasExtension(reply: SmtpReply, extension: string): boolean {
+  return reply.lines.some((line) => line.toUpperCase().split(' ')[0] === extension);
+}
+
+/**
+ * One SMTP connection: sends command lines and reads (multi-line) replies
+ */
+class SmtpSession {
+  private buffer = '';
+  private current: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  /**
+   * Open a connection (TLS from the start when config.secure is set)
+   */
+  static connect(config: SmtpConfig): Promise<SmtpSession> {
+    const timeoutMs = config.timeoutMs ?? 30 * 1000;
+
+    return new Promise((resolve, reject) => {
+      const socket = config.secure
+        ? tls.connect({
+            host: config.host,
+            port: config.port,
+            servername: config.host,
+            rejectUnauthorized: config.rejectUnauthorized ?? true,
+          })
+        : net.connect({ host: config.host, port: config.port });
+
+      const ready = config.secure ? 'secureConnect' : 'connect';
+      const onError = (error: Error) => reject(new Error(`SMTP connection failed: ${error.message}`));
+
+      socket.once('error', onError);
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`timed out after ${timeoutMs}ms`)));
+      socket.once(ready, () => {
+        socket.off('error', onError);
+        resolve(new SmtpSession(socket, timeoutMs));
+      });
+    });
+  }
+
+  /**
+   * Send a command and require one of the expected reply codes
+   */
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    if (this.failure) {
+      throw this.failure;
+    }
+
+    this.socket.write(`${line}\r\n`);
+    return this.expect(await this.read(), expected);
+  }
+
+  /**
+   * Fail unless a reply has one of the expected codes
+   */
+  async expect(reply: SmtpReply, expected: number[]): Promise<SmtpReply> {
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Wait for the next complete reply
+   */
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /**
+   * Switch the connection to TLS after a successful STARTTLS
+   */
+  upgrade(config: SmtpConfig): Promise<void> {
+    this.detach(this.socket);
+
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({
+        socket: this.socket,
+        servername: config.host,
+        rejectUnauthorized: config.rejectUnauthorized ?? true,
+      });
+
+      secure.once('error', reject);
+      secure.once('secureConnect', () => {
+        secure.off('error', reject);
+        secure.setTimeout(this.timeoutMs, () => secure.destroy(new Error(`timed out after ${this.timeoutMs}ms`)));
+        this.socket = secure;
+        this.buffer = '';
+        this.attach(secure);
+        resolve();
+      });
+    });
+  }
+
+  close(): void {
+    this.detach(this.socket);
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private detach(socket: net.Socket): void {
+    socket.off('data', this.onData);
+    socket.off('error', this.onError);
+    socket.off('close', this.onClose);
+  }
+
+  private onData = (chunk: Buffer): void => {
+    this.buffer += chunk.toString('utf8');
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+
+      // "250-..." continues a reply, "250 ..." (or a bare code) ends it
+      this.current.push(line.slice(4));
+      if (line[3] !== '-') {
+        this.deliver({ code: parseInt(line.slice(0, 3), 10), lines: this.current });
+        this.current = [];
+      }
+    }
+  };
+
+  private onError = (error: Error): void => {
+    this.fail(new Error(`SMTP connection error: ${error.message}`));
+  };
+
+  private onClose = (): void => {
+    this.fail(new Error('SMTP connection closed unexpectedly'));
+  };
+
+  private deliver(reply: SmtpReply): void {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure ?? error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.failure);
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { Contact, Reminder } from '@keepclos/shared';
+import { ReminderDigest } from '@keepclos/reminder-engine';
+
+/**
+ * Delivery channel contracts
+ * A channel sends one rendered reminder or digest; it resolves on success and throws on
+ * failure so the dispatcher can retry
+ */
+
+export interface DeliveryMessage {
+  reminder?: Reminder; // Set for single reminders
+  contact?: Contact;
+  digest?: ReminderDigest; // Set for digests
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface DeliveryChannel {
+  readonly name: string;
+  send(message: DeliveryMessage): Promise<void>;
+}
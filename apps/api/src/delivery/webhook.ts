@@ -0,0 +1,141 @@
+import http from 'node:http';
+import https from 'node:https';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { DeliveryChannel, DeliveryMessage } from './types.js';
+
+/**
+ * Generic HTTP webhook channel
+ * POSTs a JSON payload per reminder or digest. With a secret, requests carry
+ * X-KeepClos-Timestamp and X-KeepClos-Signature: sha256=HMAC(secret, "<timestamp>.<body>")
+ * so receivers can verify origin and reject replays
+ */
+
+export interface WebhookConfig {
+  url: string;
+  secret?: string; // HMAC-SHA256 signing secret
+  timeoutMs?: number; // default: 10 seconds
+  headers?: Record<string, string>;
+}
+
+export const WEBHOOK_EVENT = 'reminder.due';
+export const WEBHOOK_DIGEST_EVENT = 'reminder.digest';
+
+/**
+ * Compute the signature header value for a webhook body
+ * @param body Raw request body
+ * @param timestamp Unix timestamp in seconds sent as X-KeepClos-Timestamp
+ * @param secret Shared secret
+ * @returns "sha256=<hex digest>"
+ */
+export function signWebhookPayload(body: string, timestamp: number, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Verify a received webhook signature (for receivers)
+ * @param body Raw request body
+ * @param timestamp X-KeepClos-Timestamp header
+ * @param signature X-KeepClos-Signature header
+ * @param secret Shared secret
+ * @param toleranceSeconds Maximum age of the timestamp (default: 5 minutes)
+ * @returns true if the signature matches and the timestamp is recent
+ */
+export function verifyWebhookSignature(
+  body: string,
+  timestamp: string | number,
+  signature: string,
+  secret: string,
+  toleranceSeconds: number = 300,
+): boolean {
+  const seconds = Number(timestamp);
+  if (!Number.isFinite(seconds) || Math.abs(Date.now() / 1000 - seconds) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(body, seconds, secret));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export class WebhookChannel implements DeliveryChannel {
+  readonly name = 'webhook';
+
+  constructor(private config: WebhookConfig) {}
+
+  async send(message: DeliveryMessage): Promise<void> {
+    const { reminder, contact, digest } = message;
+    const event = digest ? WEBHOOK_DIGEST_EVENT : WEBHOOK_EVENT;
+    const body = JSON.stringify({
+      event,
+      sentAt: new Date().toISOString(),
+      reminder: reminder && {
+        id: reminder.id,
+        contactId: reminder.contactId,
+        message: reminder.message,
+        dueDate: reminder.dueDate,
+        ruleId: reminder.rule?.id,
+      },
+      digest,
+      contact: contact && {
+        id: contact.id,
+        name: contact.name,
+        email: contact.email,
+        phone: contact.phone,
+      },
+      subject: message.subject,
+      text: message.text,
+    });
+
+    const headers: Record<string, string> = {
+      ...this.config.headers,
+      'Content-Type': 'application/json',
+      'Content-Length': String(Buffer.byteLength(body)),
+      'User-Agent': 'KeepClos-Webhook/1.0',
+      'X-KeepClos-Event': event,
+      'X-KeepClos-Delivery': reminder?.id ?? `digest-${digest?.generatedAt.getTime() ?? Date.now()}`,
+    };
+
+    if (this.config.secret) {
+      const timestamp = Math.floor(Date.now() / 1000);
+      headers['X-KeepClos-Timestamp'] = String(timestamp);
+      headers['X-KeepClos-Signature'] = signWebhookPayload(body, timestamp, this.config.secret);
+    }
+
+    await postJson(this.config.url, body, headers, this.config.timeoutMs ?? 10 * 1000);
+  }
+}
+
+/**
+ * POST a body and require a 2xx response
+ * @throws Error on network failure, timeout or a non-2xx status
+ */
+function postJson(
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  timeoutMs: number,
+): Promise<void> {
+  const target = new URL(url);
+  const transport = target.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = transport.request(target, { method: 'POST', headers }, (response) => {
+      // Drain the body so the socket is released
+      response.resume();
+      response.on('end', () => {
+        const status = response.statusCode ?? 0;
+        if (status >= 200 && status < 300) {
+          resolve();
+        } else {
+          reject(new Error(`Webhook responded with HTTP ${status}`));
+        }
+      });
+    });
+
+    request.setTimeout(timeoutMs, () => {
+      request.destroy(new Error(`Webhook timed out after ${timeoutMs}ms`));
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
@@ -2,13 +2,35 @@ import express, { Request, Response, NextFunction, ErrorRequestHandler } from 'e
 import cors from 'cors';
 import { v4 as uuidv4 } from 'uuid';
 import { Contact, Reminder, Rule, RelationshipScore, Interaction, ValidationError, NotFoundError } from '@keepclos/shared';
-import contactsRouter from './routes/contacts.js';
-import remindersRouter from './routes/reminders.js';
-import relationshipsRouter from './routes/relationships.js';
+import { createContactsRouter } from './routes/contacts.js';
+import { createImportRouter } from './routes/imports.js';
+import { createExportRouter } from './routes/exports.js';
+import { createRemindersRouter } from './routes/reminders.js';
+import { createRelationshipsRouter } from './routes/relationships.js';
+import { createRulesRouter } from './routes/rules.js';
+import { createAdminRouter } from './routes/admin.js';
+import { createProfileRouter } from './routes/profile.js';
+import { createRepositories } from './storage/index.js';
+import { DataService } from './services/data-service.js';
+import { createApiScheduler, createCycleCallback, schedulerConfigFromEnv } from './services/scheduler.js';
+import { ReminderDispatcher } from './services/delivery.js';
+import { deliveryChannelsFromEnv, retryPolicyFromEnv } from './delivery/index.js';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Storage: PostgreSQL when DATABASE_URL is set, in-memory otherwise
+// All routers and the scheduler share one data service
+const data = new DataService(createRepositories(process.env.DATABASE_URL));
+
+// Reminder scheduler evaluates live data; set SCHEDULER_ENABLED=false to disable
+const scheduler = createApiScheduler(data, schedulerConfigFromEnv());
+const schedulerEnabled = process.env.SCHEDULER_ENABLED !== 'false';
+
+// Reminder delivery after every scheduler cycle; channels come from DELIVERY_LOG, SMTP_* and WEBHOOK_*
+const dispatcher = new ReminderDispatcher(data, deliveryChannelsFromEnv(), retryPolicyFromEnv());
+const onCycle = createCycleCallback(data, dispatcher);
+
 // Middleware
 app.use(cors());
 app.use(express.json());
@@ -43,9 +65,14 @@ app.get('/health', (req: Request, res: Response) => {
 });
 
 // API routes
-app.use('/api/contacts', contactsRouter);
-app.use('/api/reminders', remindersRouter);
-app.use('/api/relationships', relationshipsRouter);
+app.use('/api/contacts/import', createImportRouter(data));
+app.use('/api/contacts/export', createExportRouter(data));
+app.use('/api/contacts', createContactsRouter(data));
+app.use('/api/reminders', createRemindersRouter(data));
+app.use('/api/relationships', createRelationshipsRouter(data));
+app.use('/api/rules', createRulesRouter(data));
+app.use('/api/profile', createProfileRouter(data));
+app.use('/api/admin', createAdminRouter(data, scheduler, dispatcher));
 
 // 404 handler
 app.use((req: Request, res: Response) => {
@@ -97,22 +124,60 @@ const errorHandler: ErrorRequestHandler = (err: any, req: Request, res: Response
 
 app.use(errorHandler);
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`KeepClos API listening on port ${PORT}`);
-  console.log(`Health check: http://localhost:${PORT}/health`);
-  console.log(`API endpoints:`);
-  console.log(`  POST   /api/contacts - Create contact`);
-  console.log(`  GET    /api/contacts - List contacts`);
-  console.log(`  GET    /api/contacts/:id - Get contact`);
-  console.log(`  PUT    /api/contacts/:id - Update contact`);
-  console.log(`  DELETE /api/contacts/:id - Delete contact`);
-  console.log(`  POST   /api/reminders - Create reminder`);
-  console.log(`  GET    /api/reminders - List reminders`);
-  console.log(`  PUT    /api/reminders/:id - Update reminder`);
-  console.log(`  DELETE /api/reminders/:id - Dismiss reminder`);
-  console.log(`  GET    /api/relationships/scores - Get relationship scores`);
-  console.log(`  GET    /api/relationships/graph - Get relationship graph`);
-});
+// Start server once storage is ready (applies pending migrations)
+data
+  .init()
+  .then(() => {
+    const server = app.listen(PORT, () => {
+      console.log(`KeepClos API listening on port ${PORT}`);
+      console.log(`Health check: http://localhost:${PORT}/health`);
+      console.log(`API endpoints:`);
+      console.log(`  POST   /api/contacts - Create contact`);
+      console.log(`  GET    /api/contacts - List contacts`);
+      console.log(`  GET    /api/contacts/:id - Get contact`);
+      console.log(`  PUT    /api/contacts/:id - Update contact`);
+      console.log(`  DELETE /api/contacts/:id - Delete contact`);
+      console.log(`  POST   /api/contacts/import/vcard - Import vCard file`);
+      console.log(`  POST   /api/contacts/import/csv - Import CSV file`);
+      console.log(`  GET    /api/contacts/export?format=vcf|csv - Export contacts`);
+      console.log(`  POST   /api/contacts/:id/interactions - Record interaction`);
+      console.log(`  GET    /api/contacts/:id/interactions - List interactions`);
+      console.log(`  POST   /api/reminders - Create reminder`);
+      console.log(`  GET    /api/reminders - List reminders`);
+      console.log(`  PUT    /api/reminders/:id - Update reminder`);
+      console.log(`  DELETE /api/reminders/:id - Dismiss reminder`);
+      console.log(`  POST   /api/rules - Create rule`);
+      console.log(`  GET    /api/rules - List rules`);
+      console.log(`  GET    /api/rules/:id/preview - Preview rule matches`);
+      console.log(`  GET    /api/relationships/scores - Get relationship scores`);
+      console.log(`  GET    /api/relationships/graph - Get relationship graph`);
+      console.log(`  PUT    /api/profile - Update profile (time zone)`);
+      console.log(`  POST   /api/admin/scheduler/run - Run reminder evaluation now`);
+      console.log(`  POST   /api/admin/delivery/run - Deliver due reminders now`);
+      console.log(
+        `Reminder delivery: ${dispatcher.isEnabled() ? dispatcher.getChannelNames().join(', ') : 'disabled'}`,
+      );
+    });
+
+    if (schedulerEnabled) {
+      scheduler.start(onCycle);
+    }
+
+    // Graceful shutdown: stop accepting requests, finish the current cycle, close storage
+    const shutdown = async (signal: string) => {
+      console.log(`${signal} received, shutting down`);
+      server.close();
+      await scheduler.stop();
+      await data.close();
+      process.exit(0);
+    };
+
+    process.once('SIGTERM', () => void shutdown('SIGTERM'));
+    process.once('SIGINT', () => void shutdown('SIGINT'));
+  })
+  .catch((error) => {
+    console.error('Failed to initialize storage:', error);
+    process.exit(1);
+  });
 
 export default app;
@@ -0,0 +1,116 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ValidationError } from '@keepclos/shared';
+import { ReminderScheduler } from '@keepclos/reminder-engine';
+import { DataService } from '../services/data-service.js';
+import { ReminderDispatcher } from '../services/delivery.js';
+import { createCycleCallback } from '../services/scheduler.js';
+
+/**
+ * Create the admin router
+ * @param data Shared data service
+ * @param scheduler Reminder scheduler running in this process
+ * @param dispatcher Reminder delivery running in this process
+ * @returns Express router mounted at /api/admin
+ */
+export function createAdminRouter(
+  data: DataService,
+  scheduler: ReminderScheduler,
+  dispatcher: ReminderDispatcher,
+): Router {
+  const router = Router();
+
+  /**
+   * GET /api/admin/scheduler - Scheduler state and last cycle summary
+   */
+  router.get('/scheduler', (_req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: {
+        active: scheduler.isActive(),
+        lastRun: scheduler.getLastRun(),
+      },
+    });
+  });
+
+  /**
+   * POST /api/admin/scheduler/run - Trigger an evaluation cycle now
+   * Generated reminders are persisted and returned; due reminders are delivered
+   */
+  router.post('/scheduler/run', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const reminders = await scheduler.runOnce(createCycleCallback(data, dispatcher));
+
+      res.json({
+        success: true,
+        message: `Generated ${reminders.length} reminders`,
+        data: reminders,
+        summary: scheduler.getLastRun(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/admin/delivery - Configured delivery channels and last run summary
+   */
+  router.get('/delivery', (_req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: {
+        enabled: dispatcher.isEnabled(),
+        channels: dispatcher.getChannelNames(),
+        lastRun: dispatcher.getLastRun(),
+      },
+    });
+  });
+
+  /**
+   * POST /api/admin/delivery/run - Deliver due pending reminders now
+   */
+  router.post('/delivery/run', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const summary = await dispatcher.deliverDue();
+
+      res.json({
+        success: true,
+        message: `Delivered ${summary.delivered} of ${summary.attempted} due reminders`,
+        data: summary,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/admin/delivery/digest - Send the digest now, regardless of its schedule
+   */
+  router.post('/delivery/digest', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!dispatcher.isEnabled()) {
+        throw new ValidationError('No delivery channels are configured');
+      }
+
+      const profile = await data.getProfile();
+      if (!profile.digest) {
+        throw new ValidationError('Digests are not enabled in the user profile');
+      }
+
+      const result = await dispatcher.deliverDigest(profile);
+
+      res.json({
+        success: true,
+        message: result.delivered
+          ? `Digest with ${result.digest.total} reminders delivered via ${result.channels.join(', ')}`
+          : result.digest.total === 0
+            ? 'No open reminders; nothing to send'
+            : 'Digest delivery failed on all channels',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -1,11 +1,31 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { Contact, ValidationError, NotFoundError } from '@keepclos/shared';
-
-const router = Router();
-
-// In-memory storage (production would use database)
-const contacts = new Map<string, Contact>();
+import {
+  Contact,
+  ContactFieldValue,
+  ImportantDate,
+  ImportantDateType,
+  Interaction,
+  PostalAddress,
+  ValidationError,
+  NotFoundError,
+  isValidTimeZone,
+} from '@keepclos/shared';
+import { extractSignals } from '@keepclos/context-engine';
+import {
+  isValidMonthDay,
+  normalizeFieldValues,
+  normalizeImportantDates,
+  postalAddressKey,
+  setPrimaryFieldValue,
+  syncPrimaryFields,
+} from '@keepclos/contact-sync';
+import { DataService } from '../services/data-service.js';
+import { validateInteraction } from './validation.js';
+
+const ADDRESS_PARTS: (keyof PostalAddress)[] = ['street', 'city', 'region', 'postalCode', 'country'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const IMPORTANT_DATE_TYPES: ImportantDateType[] = ['birthday', 'anniversary', 'custom'];
 
 /**
  * Validate contact data
@@ -30,182 +50,485 @@ function validateContact(data: any): void {
   if (data.notes && typeof data.notes !== 'string') {
     throw new ValidationError('Notes must be a string');
   }
+
+  if (data.timeZone !== undefined && data.timeZone !== null && !isValidTimeZone(data.timeZone)) {
+    throw new ValidationError('Time zone must be an IANA time zone (e.g. "Europe/Berlin")');
+  }
+
+  validateFieldValues(data.emails, 'Emails', (value) => {
+    if (typeof value !== 'string' || !EMAIL_PATTERN.test(value)) {
+      throw new ValidationError('Email values must be valid email addresses');
+    }
+  });
+
+  validateFieldValues(data.phones, 'Phones', (value) => {
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw new ValidationError('Phone values must be non-empty strings');
+    }
+  });
+
+  validateFieldValues(data.addresses, 'Addresses', (value) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError(`Address values must be objects with: ${ADDRESS_PARTS.join(', ')}`);
+    }
+    for (const [key, part] of Object.entries(value)) {
+      if (!ADDRESS_PARTS.includes(key as keyof PostalAddress) || (part !== undefined && typeof part !== 'string')) {
+        throw new ValidationError(`Address values must be objects with: ${ADDRESS_PARTS.join(', ')}`);
+      }
+    }
+  });
+
+  validateFieldValues(data.urls, 'URLs', (value) => {
+    if (typeof value !== 'string' || !isAbsoluteUrl(value)) {
+      throw new ValidationError('URL values must be absolute URLs');
+    }
+  });
+
+  validateImportantDates(data.importantDates);
 }
 
 /**
- * POST /api/contacts - Create a new contact
+ * Validate important dates: entries of { type, month, day, year?, label? }
+ * @param dates Important dates (undefined when not provided)
  */
-router.post('/', (req: Request, res: Response, next: NextFunction) => {
-  try {
-    validateContact(req.body);
-
-    const contact: Contact = {
-      id: uuidv4(),
-      name: req.body.name,
-      email: req.body.email,
-      phone: req.body.phone,
-      tags: req.body.tags || [],
-      notes: req.body.notes || '',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-
-    contacts.set(contact.id, contact);
-
-    res.status(201).json({
-      success: true,
-      data: contact,
-    });
-  } catch (error) {
-    next(error);
-  }
-});
+function validateImportantDates(dates: unknown): void {
+  if (dates === undefined) {
+    return;
+  }
+
+  if (!Array.isArray(dates)) {
+    throw new ValidationError('Important dates must be an array');
+  }
+
+  for (const date of dates) {
+    if (typeof date !== 'object' || date === null) {
+      throw new ValidationError('Important dates must be objects with type, month and day');
+    }
+    if (!IMPORTANT_DATE_TYPES.includes(date.type)) {
+      throw new ValidationError(`Important date type must be one of: ${IMPORTANT_DATE_TYPES.join(', ')}`);
+    }
+    if (!isValidMonthDay(date.month, date.day)) {
+      throw new ValidationError('Important dates must have a valid month (1-12) and day');
+    }
+    if (date.year !== undefined && (!Number.isInteger(date.year) || date.year < 1)) {
+      throw new ValidationError('Important date year must be a positive integer');
+    }
+    if (date.label !== undefined && typeof date.label !== 'string') {
+      throw new ValidationError('Important date labels must be strings');
+    }
+  }
+}
 
 /**
- * GET /api/contacts - List all contacts
+ * Whether a string parses as an absolute URL
  */
-router.get('/', (req: Request, res: Response) => {
-  const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
-  const offset = parseInt(req.query.offset as string) || 0;
-  const tag = req.query.tag as string;
-
-  let contactArray = Array.from(contacts.values());
+function isAbsoluteUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-  // Filter by tag if provided
-  if (tag) {
-    contactArray = contactArray.filter((c) => c.tags.includes(tag));
+/**
+ * Validate a multi-value field: entries of { label, value, primary? } with at most one primary
+ * @param entries Field entries (undefined when not provided)
+ * @param field Field name for error messages
+ * @param validateValue Value validator, throws ValidationError
+ */
+function validateFieldValues(
+  entries: unknown,
+  field: string,
+  validateValue: (value: unknown) => void,
+): void {
+  if (entries === undefined) {
+    return;
   }
 
-  // Sort by creation date (newest first)
-  contactArray.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  if (!Array.isArray(entries)) {
+    throw new ValidationError(`${field} must be an array`);
+  }
 
-  // Pagination
-  const total = contactArray.length;
-  const paginatedContacts = contactArray.slice(offset, offset + limit);
+  for (const entry of entries) {
+    if (typeof entry !== 'object' || entry === null) {
+      throw new ValidationError(`${field} entries must be objects with label and value`);
+    }
+    if (entry.label !== undefined && typeof entry.label !== 'string') {
+      throw new ValidationError(`${field} labels must be strings`);
+    }
+    if (entry.primary !== undefined && typeof entry.primary !== 'boolean') {
+      throw new ValidationError(`${field} primary flags must be booleans`);
+    }
+    validateValue(entry.value);
+  }
 
-  res.json({
-    success: true,
-    data: paginatedContacts,
-    pagination: {
-      offset,
-      limit,
-      total,
-      hasMore: offset + limit < total,
-    },
-  });
-});
+  if (entries.filter((entry) => entry.primary === true).length > 1) {
+    throw new ValidationError(`${field} may have only one primary entry`);
+  }
+}
 
 /**
- * GET /api/contacts/:id - Get a specific contact
+ * Apply multi-value fields and important dates from a request body to a contact
+ * A list replaces the stored list; a single email/phone replaces the primary entry
+ * @param contact Contact to update in place
+ * @param body Validated request body
  */
-router.get('/:id', (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const contact = contacts.get(req.params.id);
+function applyFieldValues(contact: Contact, body: any): void {
+  const entries = <T>(list: ContactFieldValue<T>[]) =>
+    list.map((entry) => ({ label: entry.label ?? '', value: entry.value, primary: entry.primary ?? false }));
+
+  if (body.emails !== undefined) {
+    contact.emails = normalizeFieldValues(entries<string>(body.emails));
+  } else if (body.email !== undefined) {
+    contact.emails = setPrimaryFieldValue(contact.emails ?? [], body.email ?? undefined);
+  }
 
-    if (!contact) {
-      throw new NotFoundError(`Contact with ID ${req.params.id} not found`);
-    }
+  if (body.phones !== undefined) {
+    contact.phones = normalizeFieldValues(entries<string>(body.phones));
+  } else if (body.phone !== undefined) {
+    contact.phones = setPrimaryFieldValue(contact.phones ?? [], body.phone ?? undefined);
+  }
+
+  if (body.addresses !== undefined) {
+    contact.addresses = normalizeFieldValues(entries<PostalAddress>(body.addresses), postalAddressKey);
+  }
 
-    res.json({
-      success: true,
-      data: contact,
-    });
-  } catch (error) {
-    next(error);
+  if (body.urls !== undefined) {
+    contact.urls = normalizeFieldValues(entries<string>(body.urls), (url) => url);
   }
-});
+
+  if (body.importantDates !== undefined) {
+    contact.importantDates = normalizeImportantDates(
+      body.importantDates.map(({ type, label, month, day, year }: ImportantDate) => ({
+        type,
+        month,
+        day,
+        ...(year !== undefined && { year }),
+        ...(label && { label }),
+      })),
+    );
+  }
+
+  syncPrimaryFields(contact);
+}
 
 /**
- * PUT /api/contacts/:id - Update a contact
+ * Create the contacts router
+ * @param data Shared data service
+ * @returns Express router mounted at /api/contacts
  */
-router.put('/:id', (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const contact = contacts.get(req.params.id);
+export function createContactsRouter(data: DataService): Router {
+  const router = Router();
+  const { contacts, interactions } = data;
+
+  /**
+   * POST /api/contacts - Create a new contact
+   */
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      validateContact(req.body);
+
+      const contact: Contact = {
+        id: uuidv4(),
+        name: req.body.name,
+        email: req.body.email,
+        phone: req.body.phone,
+        tags: req.body.tags || [],
+        notes: req.body.notes || '',
+        timeZone: req.body.timeZone ?? undefined,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      applyFieldValues(contact, req.body);
+
+      await contacts.save(contact);
+
+      res.status(201).json({
+        success: true,
+        data: contact,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/contacts - List all contacts
+   */
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const tag = req.query.tag as string;
+
+      let contactArray = await contacts.list();
+
+      // Filter by tag if provided
+      if (tag) {
+        contactArray = contactArray.filter((c) => c.tags.includes(tag));
+      }
+
+      // Sort by creation date (newest first)
+      contactArray.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+      // Pagination
+      const total = contactArray.length;
+      const paginatedContacts = contactArray.slice(offset, offset + limit);
+
+      res.json({
+        success: true,
+        data: paginatedContacts,
+        pagination: {
+          offset,
+          limit,
+          total,
+          hasMore: offset + limit < total,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
 
-    if (!contact) {
-      throw new NotFoundError(`Contact with ID ${req.params.id} not found`);
+  /**
+   * GET /api/contacts/:id - Get a specific contact
+   */
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const contact = await contacts.get(req.params.id);
+
+      if (!contact) {
+        throw new NotFoundError(`Contact with ID ${req.params.id} not found`);
+      }
+
+      res.json({
+        success: true,
+        data: contact,
+      });
+    } catch (error) {
+      next(error);
     }
+  });
+
+  /**
+   * PUT /api/contacts/:id - Update a contact
+   */
+  router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const contact = await contacts.get(req.params.id);
+
+      if (!contact) {
+        throw new NotFoundError(`Contact with ID ${req.params.id} not found`);
+      }
 
-    // Validate provided fields
-    if (req.body.name !== undefined || req.body.email !== undefined || req.body.phone !== undefined) {
+      // Validate provided fields
       validateContact({
         name: req.body.name ?? contact.name,
         email: req.body.email ?? contact.email,
         phone: req.body.phone ?? contact.phone,
         tags: req.body.tags ?? contact.tags,
         notes: req.body.notes ?? contact.notes,
+        emails: req.body.emails,
+        phones: req.body.phones,
+        addresses: req.body.addresses,
+        urls: req.body.urls,
+        importantDates: req.body.importantDates,
+        timeZone: req.body.timeZone,
       });
-    }
 
-    // Update fields
-    if (req.body.name !== undefined) contact.name = req.body.name;
-    if (req.body.email !== undefined) contact.email = req.body.email;
-    if (req.body.phone !== undefined) contact.phone = req.body.phone;
-    if (req.body.tags !== undefined) contact.tags = req.body.tags;
-    if (req.body.notes !== undefined) contact.notes = req.body.notes;
-    if (req.body.lastContactedAt !== undefined) {
-      contact.lastContactedAt = new Date(req.body.lastContactedAt);
+      // Update fields
+      if (req.body.name !== undefined) contact.name = req.body.name;
+      if (req.body.email !== undefined) contact.email = req.body.email;
+      if (req.body.phone !== undefined) contact.phone = req.body.phone;
+      applyFieldValues(contact, req.body);
+      if (req.body.tags !== undefined) contact.tags = req.body.tags;
+      if (req.body.notes !== undefined) contact.notes = req.body.notes;
+      if (req.body.timeZone !== undefined) contact.timeZone = req.body.timeZone ?? undefined;
+      if (req.body.lastContactedAt !== undefined) {
+        contact.lastContactedAt = new Date(req.body.lastContactedAt);
+      }
+
+      contact.updatedAt = new Date();
+      await contacts.save(contact);
+
+      res.json({
+        success: true,
+        data: contact,
+      });
+    } catch (error) {
+      next(error);
     }
+  });
 
-    contact.updatedAt = new Date();
-    contacts.set(contact.id, contact);
-
-    res.json({
-      success: true,
-      data: contact,
-    });
-  } catch (error) {
-    next(error);
-  }
-});
+  /**
+   * DELETE /api/contacts/:id - Delete a contact
+   * Cascades to the contact's interactions, reminders, relationship score and score history
+   */
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const deletion = await data.deleteContact(req.params.id);
+
+      res.json({
+        success: true,
+        message: `Contact ${req.params.id} deleted`,
+        data: deletion.contact,
+        deleted: {
+          interactions: deletion.deletedInteractions,
+          reminders: deletion.deletedReminders,
+          score: deletion.deletedScore,
+          scoreSnapshots: deletion.deletedSnapshots,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
 
-/**
- * DELETE /api/contacts/:id - Delete a contact
- */
-router.delete('/:id', (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const contact = contacts.get(req.params.id);
+  /**
+   * Load an interaction belonging to a contact or fail with NotFoundError
+   */
+  async function requireInteraction(contactId: string, interactionId: string): Promise<Interaction> {
+    const interaction = await interactions.get(interactionId);
 
-    if (!contact) {
-      throw new NotFoundError(`Contact with ID ${req.params.id} not found`);
+    if (!interaction || interaction.contactId !== contactId) {
+      throw new NotFoundError(`Interaction with ID ${interactionId} not found for contact ${contactId}`);
     }
 
-    contacts.delete(req.params.id);
-
-    res.json({
-      success: true,
-      message: `Contact ${req.params.id} deleted`,
-      data: contact,
-    });
-  } catch (error) {
-    next(error);
+    return interaction;
   }
-});
 
-/**
- * GET /api/contacts/:id/interactions - Get interactions for a contact
- * (Utility endpoint for testing)
- */
-router.get('/:id/interactions', (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const contact = contacts.get(req.params.id);
+  /**
+   * GET /api/contacts/:id/interactions - Get interactions for a contact
+   */
+  router.get('/:id/interactions', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await data.requireContact(req.params.id);
+
+      const contactInteractions = await interactions.listByContact(req.params.id);
+
+      // Sort by timestamp (newest first)
+      contactInteractions.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+      res.json({
+        success: true,
+        data: {
+          contactId: req.params.id,
+          interactions: contactInteractions,
+          totalCount: contactInteractions.length,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
 
-    if (!contact) {
-      throw new NotFoundError(`Contact with ID ${req.params.id} not found`);
+  /**
+   * POST /api/contacts/:id/interactions - Record an interaction
+   * Quality is derived via signal extraction; lastContactedAt and the score are refreshed
+   */
+  router.post('/:id/interactions', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const contact = await data.requireContact(req.params.id);
+      validateInteraction(req.body);
+
+      const { interaction, signals, score } = await data.recordInteraction(contact, {
+        type: req.body.type,
+        timestamp: req.body.timestamp !== undefined ? new Date(req.body.timestamp) : undefined,
+        duration: req.body.duration ?? undefined,
+        notes: req.body.notes ?? undefined,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: interaction,
+        signals,
+        score,
+      });
+    } catch (error) {
+      next(error);
     }
+  });
 
-    // In production, would query interaction database
-    res.json({
-      success: true,
-      data: {
-        contactId: req.params.id,
-        interactions: [],
-        totalCount: 0,
-      },
-    });
-  } catch (error) {
-    next(error);
-  }
-});
+  /**
+   * GET /api/contacts/:id/interactions/:interactionId - Get a specific interaction
+   */
+  router.get(
+    '/:id/interactions/:interactionId',
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        await data.requireContact(req.params.id);
+        const interaction = await requireInteraction(req.params.id, req.params.interactionId);
+
+        res.json({
+          success: true,
+          data: interaction,
+        });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  /**
+   * PUT /api/contacts/:id/interactions/:interactionId - Update an interaction
+   */
+  router.put(
+    '/:id/interactions/:interactionId',
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const contact = await data.requireContact(req.params.id);
+        const interaction = await requireInteraction(req.params.id, req.params.interactionId);
+        validateInteraction(req.body, true);
+
+        // Update fields (null clears optional fields)
+        if (req.body.type !== undefined) interaction.type = req.body.type;
+        if (req.body.timestamp !== undefined) interaction.timestamp = new Date(req.body.timestamp);
+        if (req.body.duration !== undefined) interaction.duration = req.body.duration ?? undefined;
+        if (req.body.notes !== undefined) interaction.notes = req.body.notes ?? undefined;
+
+        const signals = extractSignals(interaction, await data.getTimeZone(contact));
+        interaction.quality = signals.qualityScore;
+
+        await interactions.save(interaction);
+        const activity = await data.syncContactActivity(contact);
+
+        res.json({
+          success: true,
+          data: interaction,
+          signals,
+          score: activity.score,
+        });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  /**
+   * DELETE /api/contacts/:id/interactions/:interactionId - Delete an interaction
+   */
+  router.delete(
+    '/:id/interactions/:interactionId',
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const contact = await data.requireContact(req.params.id);
+        const interaction = await requireInteraction(req.params.id, req.params.interactionId);
+
+        await interactions.delete(interaction.id);
+        const activity = await data.syncContactActivity(contact);
+
+        res.json({
+          success: true,
+          message: `Interaction ${interaction.id} deleted`,
+          data: interaction,
+          score: activity.score,
+        });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
 
-export default router;
+  return router;
+}
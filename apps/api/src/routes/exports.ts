@@ -0,0 +1,151 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { Contact, ValidationError } from '@keepclos/shared';
+import {
+  CSVExportConfig,
+  CSVExportFieldColumn,
+  VCardVersion,
+  exportToCSV,
+  serializeVCardBatch,
+  validateExportConfig,
+} from '@keepclos/contact-sync';
+import { DataService } from '../services/data-service.js';
+
+const EXPORT_FORMATS = ['vcf', 'csv'] as const;
+const VCARD_VERSIONS: VCardVersion[] = ['3.0', '4.0'];
+
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Read requested tags from ?tag=a&tag=b or ?tags=a,b
+ * @param query Request query
+ * @returns Tags to filter by (empty for no filter)
+ */
+function tagsFromQuery(query: Request['query']): string[] {
+  const values = [query.tag, query.tags].flat().filter((value): value is string => typeof value === 'string');
+
+  return values
+    .flatMap((value) => value.split(','))
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+}
+
+/**
+ * Build CSV export configuration from query parameters
+ * Column parameters name the header to write; an empty value omits the column
+ */
+function csvConfigFromQuery(query: Request['query']): Partial<CSVExportConfig> {
+  const config: Partial<CSVExportConfig> = {};
+  const optionalColumns = [
+    'emailColumn',
+    'phoneColumn',
+    'tagsColumn',
+    'notesColumn',
+    'birthdayColumn',
+    'anniversaryColumn',
+  ] as const;
+
+  if (typeof query.nameColumn === 'string') {
+    config.nameColumn = query.nameColumn;
+  }
+
+  for (const key of optionalColumns) {
+    const value = query[key];
+    if (typeof value === 'string') {
+      config[key] = value.length > 0 ? value : null;
+    }
+  }
+
+  // Labeled columns: "Office:work,Private:home" (label defaults to "other")
+  const labeledKeys = ['emailColumns', 'phoneColumns', 'addressColumns', 'urlColumns'] as const;
+
+  for (const key of labeledKeys) {
+    const value = query[key];
+    if (typeof value === 'string' && value.length > 0) {
+      config[key] = parseLabeledColumns(value);
+    }
+  }
+
+  if (query.hasHeader !== undefined) {
+    config.hasHeader = query.hasHeader !== 'false';
+  }
+  if (typeof query.delimiter === 'string' && query.delimiter.length > 0) {
+    config.delimiter = query.delimiter === '\\t' ? '\t' : query.delimiter;
+  }
+  if (typeof query.tagSeparator === 'string' && query.tagSeparator.length > 0) {
+    config.tagSeparator = query.tagSeparator;
+  }
+
+  const errors = validateExportConfig(config);
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '));
+  }
+
+  return config;
+}
+
+/**
+ * Parse a comma-separated list of header[:label] columns
+ */
+function parseLabeledColumns(value: string): CSVExportFieldColumn[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+    .map((item) => {
+      const separator = item.lastIndexOf(':');
+      return separator > 0
+        ? { column: item.substring(0, separator).trim(), label: item.substring(separator + 1).trim() }
+        : { column: item, label: 'other' };
+    });
+}
+
+/**
+ * Create the contact export router
+ * @param data Shared data service
+ * @returns Express router mounted at /api/contacts/export
+ */
+export function createExportRouter(data: DataService): Router {
+  const router = Router();
+
+  /**
+   * GET /api/contacts/export?format=vcf|csv - Download contacts
+   * Optional tag filter (?tag= or ?tags=a,b) keeps contacts with any of the tags
+   */
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const format = (req.query.format ?? 'vcf') as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        throw new ValidationError(`Export format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+      }
+
+      const version = (req.query.version ?? '4.0') as VCardVersion;
+      if (!VCARD_VERSIONS.includes(version)) {
+        throw new ValidationError(`vCard version must be one of: ${VCARD_VERSIONS.join(', ')}`);
+      }
+
+      const tags = tagsFromQuery(req.query);
+      let contactArray: Contact[] = await data.contacts.list();
+
+      // Filter by tags if provided
+      if (tags.length > 0) {
+        contactArray = contactArray.filter((c) => c.tags.some((tag) => tags.includes(tag)));
+      }
+
+      // Sort by name for a stable file
+      contactArray.sort((a, b) => a.name.localeCompare(b.name));
+
+      const body = format === 'vcf'
+        ? serializeVCardBatch(contactArray, { version })
+        : exportToCSV(contactArray, csvConfigFromQuery(req.query));
+
+      res.setHeader('Content-Type', format === 'vcf' ? 'text/vcard; charset=utf-8' : 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="contacts.${format}"`);
+      res.setHeader('X-Export-Count', String(contactArray.length));
+      res.send(body);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,298 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { v4 as uuidv4 } from 'uuid';
+import { Contact, ValidationError } from '@keepclos/shared';
+import {
+  CSVFieldColumn,
+  CSVImportConfig,
+  CSVImportError,
+  importFromCSV,
+  importFromCSVAutoDetect,
+  parseVCardBatch,
+} from '@keepclos/contact-sync';
+import { DataService } from '../services/data-service.js';
+
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024; // 5 MB
+
+export interface ImportJobSummary {
+  id: string;
+  format: 'vcard' | 'csv';
+  fileName?: string;
+  startedAt: Date;
+  finishedAt: Date;
+  rowsProcessed: number;
+  importedCount: number;
+  errorCount: number;
+  errors: CSVImportError[];
+  contactIds: string[];
+}
+
+interface ParsedImport {
+  contacts: Contact[];
+  errors: CSVImportError[];
+  rowsProcessed: number;
+}
+
+interface ImportUpload {
+  content: string;
+  fileName?: string;
+  fields: Record<string, unknown>;
+}
+
+/**
+ * Read the uploaded file from a multipart form ("file" field) or the raw request body
+ * Form fields and query parameters are both accepted as options
+ */
+function readUpload(req: Request): ImportUpload {
+  const fields: Record<string, unknown> = { ...req.query };
+  let content: string | undefined;
+  let fileName: string | undefined;
+
+  if (req.file) {
+    content = req.file.buffer.toString('utf-8');
+    fileName = req.file.originalname;
+    Object.assign(fields, req.body);
+  } else if (typeof req.body === 'string') {
+    content = req.body;
+  }
+
+  if (!content || content.trim().length === 0) {
+    throw new ValidationError(
+      'Upload a file in the "file" field of a multipart form or send it as the raw request body',
+    );
+  }
+
+  // Strip a UTF-8 byte order mark left by some exporters
+  return { content: content.replace(/^\uFEFF/, ''), fileName, fields };
+}
+
+/**
+ * Translate a multer upload error into an HTTP error
+ * Oversized files are rejected with 413, other malformed uploads (e.g. an unexpected field) with 400
+ */
+function uploadError(error: multer.MulterError): Error {
+  if (error.code === 'LIMIT_FILE_SIZE') {
+    return Object.assign(new Error(`Upload exceeds the ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB limit`), {
+      status: 413,
+    });
+  }
+
+  return new ValidationError(`Invalid upload: ${error.message}`);
+}
+
+/**
+ * Whether the request asks for a dry run (?dryRun=true or a dryRun form field)
+ */
+function isDryRun(fields: Record<string, unknown>): boolean {
+  return fields.dryRun === 'true' || fields.dryRun === true;
+}
+
+/**
+ * Build CSV import configuration from request options
+ * Column references may be header names or zero-based indices
+ */
+function csvConfigFromFields(fields: Record<string, unknown>): Partial<CSVImportConfig> {
+  const config: Partial<CSVImportConfig> = {};
+  const columnKeys = [
+    'nameColumn',
+    'emailColumn',
+    'phoneColumn',
+    'tagsColumn',
+    'notesColumn',
+    'birthdayColumn',
+    'anniversaryColumn',
+  ] as const;
+
+  for (const key of columnKeys) {
+    const value = fields[key];
+    if (typeof value === 'string' && value.length > 0) {
+      config[key] = /^\d+$/.test(value) ? parseInt(value, 10) : value;
+    }
+  }
+
+  // Labeled columns: "Work Email:work,Personal Email:home" (label defaults to "other")
+  const labeledKeys = ['emailColumns', 'phoneColumns', 'addressColumns', 'urlColumns', 'dateColumns'] as const;
+
+  for (const key of labeledKeys) {
+    const value = fields[key];
+    if (typeof value === 'string' && value.length > 0) {
+      config[key] = parseLabeledColumns(value);
+    }
+  }
+
+  if (fields.hasHeader !== undefined) {
+    config.hasHeader = fields.hasHeader !== 'false' && fields.hasHeader !== false;
+  }
+  if (typeof fields.delimiter === 'string' && fields.delimiter.length > 0) {
+    config.delimiter = fields.delimiter === '\\t' ? '\t' : fields.delimiter;
+  }
+  if (typeof fields.tagSeparator === 'string' && fields.tagSeparator.length > 0) {
+    config.tagSeparator = fields.tagSeparator;
+  }
+
+  return config;
+}
+
+/**
+ * Parse a comma-separated list of column[:label] references
+ */
+function parseLabeledColumns(value: string): CSVFieldColumn[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+    .map((item) => {
+      const separator = item.lastIndexOf(':');
+      const column = separator > 0 ? item.substring(0, separator).trim() : item;
+      const label = separator > 0 ? item.substring(separator + 1).trim() : 'other';
+      return { column: /^\d+$/.test(column) ? parseInt(column, 10) : column, label };
+    });
+}
+
+/**
+ * Parse vCard content into contacts and per-card errors
+ */
+function parseVCardImport(content: string): ParsedImport {
+  const results = parseVCardBatch(content);
+
+  if (results.length === 0) {
+    throw new ValidationError('No vCards found (expected BEGIN:VCARD ... END:VCARD blocks)');
+  }
+
+  const contacts: Contact[] = [];
+  const errors: CSVImportError[] = [];
+
+  results.forEach((result, index) => {
+    if (result.success && result.contact) {
+      contacts.push(result.contact);
+    } else {
+      errors.push({ rowIndex: index + 1, message: result.errors.join('; ') });
+    }
+  });
+
+  return { contacts, errors, rowsProcessed: results.length };
+}
+
+/**
+ * Parse CSV content into contacts and per-row errors
+ * Falls back to header auto-detection when no name column is given
+ */
+function parseCSVImport(content: string, config: Partial<CSVImportConfig>): ParsedImport {
+  try {
+    const result = config.nameColumn !== undefined
+      ? importFromCSV(content, config)
+      : importFromCSVAutoDetect(content, config);
+
+    return {
+      contacts: result.contacts,
+      errors: result.errors,
+      rowsProcessed: result.rowsProcessed,
+    };
+  } catch (error) {
+    throw new ValidationError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Create the contact import router
+ * @param data Shared data service
+ * @returns Express router mounted at /api/contacts/import
+ */
+export function createImportRouter(data: DataService): Router {
+  const router = Router();
+  const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_UPLOAD_BYTES } });
+  // Multer errors carry no HTTP status; translate them before they reach the error handler
+  const uploadFile = (req: Request, res: Response, next: NextFunction) =>
+    upload.single('file')(req, res, (error?: unknown) =>
+      next(error instanceof multer.MulterError ? uploadError(error) : error),
+    );
+  const rawBody = express.text({
+    type: ['text/*', 'application/octet-stream'],
+    limit: MAX_UPLOAD_BYTES,
+  });
+
+  /**
+   * Respond with a dry-run preview or persist contacts and respond with a job summary
+   */
+  async function completeImport(
+    res: Response,
+    format: ImportJobSummary['format'],
+    file: ImportUpload,
+    parsed: ParsedImport,
+    startedAt: Date,
+  ): Promise<void> {
+    if (isDryRun(file.fields)) {
+      res.json({
+        success: true,
+        dryRun: true,
+        data: parsed,
+      });
+      return;
+    }
+
+    for (const contact of parsed.contacts) {
+      await data.contacts.save(contact);
+    }
+
+    const job: ImportJobSummary = {
+      id: uuidv4(),
+      format,
+      fileName: file.fileName,
+      startedAt,
+      finishedAt: new Date(),
+      rowsProcessed: parsed.rowsProcessed,
+      importedCount: parsed.contacts.length,
+      errorCount: parsed.errors.length,
+      errors: parsed.errors,
+      contactIds: parsed.contacts.map((contact) => contact.id),
+    };
+
+    res.status(201).json({
+      success: true,
+      dryRun: false,
+      data: job,
+    });
+  }
+
+  /**
+   * POST /api/contacts/import/vcard - Import contacts from a .vcf file
+   */
+  router.post(
+    '/vcard',
+    uploadFile,
+    rawBody,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const startedAt = new Date();
+        const file = readUpload(req);
+        const parsed = parseVCardImport(file.content);
+
+        await completeImport(res, 'vcard', file, parsed, startedAt);
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  /**
+   * POST /api/contacts/import/csv - Import contacts from a CSV file
+   */
+  router.post(
+    '/csv',
+    uploadFile,
+    rawBody,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const startedAt = new Date();
+        const file = readUpload(req);
+        const parsed = parseCSVImport(file.content, csvConfigFromFields(file.fields));
+
+        await completeImport(res, 'csv', file, parsed, startedAt);
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  return router;
+}
@@ -0,0 +1,182 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  DigestSettings,
+  ReminderPolicy,
+  ScoringProfile,
+  UserProfile,
+  ValidationError,
+  isValidTimeZone,
+} from '@keepclos/shared';
+import { validateDigestSettings, validateReminderPolicy } from '@keepclos/reminder-engine';
+import { validateScoringProfiles } from '@keepclos/context-engine';
+import { DataService } from '../services/data-service.js';
+
+/**
+ * Validate profile data
+ * @param data Request body
+ */
+function validateProfile(data: any): void {
+  if (data.timeZone !== undefined && (typeof data.timeZone !== 'string' || !isValidTimeZone(data.timeZone))) {
+    throw new ValidationError('Time zone must be an IANA time zone (e.g. "Europe/Berlin")');
+  }
+
+  if (data.name !== undefined && data.name !== null && typeof data.name !== 'string') {
+    throw new ValidationError('Name must be a string');
+  }
+
+  if (data.digest !== undefined && data.digest !== null) {
+    if (typeof data.digest !== 'object') {
+      throw new ValidationError('Digest must be an object with period, hour and optional weekday');
+    }
+    try {
+      validateDigestSettings(toDigestSettings(data.digest));
+    } catch (error) {
+      throw new ValidationError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (data.reminderPolicy !== undefined && data.reminderPolicy !== null) {
+    if (typeof data.reminderPolicy !== 'object') {
+      throw new ValidationError('Reminder policy must be an object');
+    }
+    try {
+      validateReminderPolicy(data.reminderPolicy);
+    } catch (error) {
+      throw new ValidationError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (data.scoringProfiles !== undefined && data.scoringProfiles !== null) {
+    const errors = validateScoringProfiles(data.scoringProfiles);
+    if (errors.length > 0) {
+      throw new ValidationError(errors.join('; '));
+    }
+  }
+}
+
+/**
+ * Digest settings from a request body (hour defaults to 8)
+ * @param digest Request digest object
+ * @returns Digest settings
+ */
+function toDigestSettings(digest: any): DigestSettings {
+  return {
+    period: digest.period,
+    hour: digest.hour ?? 8,
+    ...(digest.weekday !== undefined && { weekday: digest.weekday }),
+  };
+}
+
+/**
+ * Reminder policy from a request body, keeping only known fields
+ * @param policy Request policy object
+ * @returns Reminder policy
+ */
+function toReminderPolicy(policy: any): ReminderPolicy {
+  const result: ReminderPolicy = {};
+
+  if (policy.quietHours !== undefined) {
+    result.quietHours = { start: policy.quietHours.start, end: policy.quietHours.end };
+  }
+  for (const field of ['daysOff', 'maxPerDay', 'maxPerWeek', 'priorityTags'] as const) {
+    if (policy[field] !== undefined) {
+      result[field] = policy[field];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Scoring profile from a request body, keeping only known fields
+ * @param profile Request scoring profile object
+ * @returns Scoring profile
+ */
+function toScoringProfile(profile: any): ScoringProfile {
+  const result: ScoringProfile = { name: profile.name };
+
+  for (const field of [
+    'tags',
+    'contactIds',
+    'recencyWeight',
+    'frequencyWeight',
+    'engagementWeight',
+    'halfLife',
+    'cadenceDays',
+    'decay',
+    'interactionDecay',
+  ] as const) {
+    if (profile[field] !== undefined) {
+      result[field] = profile[field];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Create the user profile router
+ * @param data Shared data service
+ * @returns Express router mounted at /api/profile
+ */
+export function createProfileRouter(data: DataService): Router {
+  const router = Router();
+
+  /**
+   * GET /api/profile - Get the user profile (defaults until one is saved)
+   */
+  router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json({
+        success: true,
+        data: await data.getProfile(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PUT /api/profile - Update the user profile
+   * digest: { period, hour, weekday } switches delivery to digests; null turns them off
+   * reminderPolicy: { quietHours, daysOff, maxPerDay, maxPerWeek, priorityTags }; null removes it
+   * scoringProfiles: [{ name, tags, contactIds, weights, halfLife, cadenceDays, decay }]; null removes them
+   */
+  router.put('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      validateProfile(req.body);
+
+      const current = await data.getProfile();
+      const profile: UserProfile = {
+        ...current,
+        timeZone: req.body.timeZone ?? current.timeZone,
+        updatedAt: new Date(),
+      };
+      if (req.body.name !== undefined) {
+        profile.name = req.body.name ?? undefined;
+      }
+      if (req.body.digest !== undefined) {
+        profile.digest = req.body.digest === null ? undefined : toDigestSettings(req.body.digest);
+      }
+      if (req.body.reminderPolicy !== undefined) {
+        profile.reminderPolicy =
+          req.body.reminderPolicy === null ? undefined : toReminderPolicy(req.body.reminderPolicy);
+      }
+      if (req.body.scoringProfiles !== undefined) {
+        profile.scoringProfiles =
+          req.body.scoringProfiles === null ? undefined : req.body.scoringProfiles.map(toScoringProfile);
+      }
+
+      await data.profile.save(profile);
+
+      res.json({
+        success: true,
+        data: profile,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -1,267 +1,524 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { RelationshipScore, RelationshipGraph, NotFoundError } from '@keepclos/shared';
 import {
-  calculateRelationshipScore,
+  Contact,
+  RelationshipScore,
+  RelationshipGraph,
+  ValidationError,
+  NotFoundError,
+  formatZonedDate,
+} from '@keepclos/shared';
+import {
+  ForecastOptions,
   calculateRelationshipScoresBatch,
+  forecastScore,
+  scorerConfigFor,
+  validateForecastOptions,
+  validateScorerConfig,
 } from '@keepclos/context-engine';
+import { DataService } from '../services/data-service.js';
+import { HistoryResolution } from '../services/score-history.js';
+import { parseAsOf } from './validation.js';
 
-const router = Router();
+const HISTORY_RESOLUTIONS: HistoryResolution[] = ['daily', 'weekly'];
+const DEFAULT_FORECAST_THRESHOLD = 30;
 
-// In-memory storage for relationship data
-const relationshipScores = new Map<string, RelationshipScore>();
-const interactions = new Map<string, any[]>();
-const contacts = new Map<string, any>();
+/**
+ * Type guard for filtering out missing contacts
+ */
+function isContact(contact: Contact | undefined): contact is Contact {
+  return contact !== undefined;
+}
 
 /**
- * GET /api/relationships/scores - Get relationship health scores
+ * Compare a previous score against a recalculated one
+ * @param before Previously stored score (if any)
+ * @param after Newly calculated score
+ * @returns Diff with per-component deltas
  */
-router.get('/scores', (req: Request, res: Response) => {
-  const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
-  const offset = parseInt(req.query.offset as string) || 0;
-  const sortBy = (req.query.sortBy as string) || 'overall';
-  const order = (req.query.order as string) || 'desc';
-  const minScore = parseInt(req.query.minScore as string) || 0;
-  const maxScore = parseInt(req.query.maxScore as string) || 100;
-
-  let scores = Array.from(relationshipScores.values());
-
-  // Filter by score range
-  scores = scores.filter((s) => s.overall >= minScore && s.overall <= maxScore);
-
-  // Sort
-  const sortFn = (a: RelationshipScore, b: RelationshipScore) => {
-    let aVal = 0;
-    let bVal = 0;
-
-    switch (sortBy) {
-      case 'recency':
-        aVal = a.recency;
-        bVal = b.recency;
-        break;
-      case 'frequency':
-        aVal = a.frequency;
-        bVal = b.frequency;
-        break;
-      case 'engagement':
-        aVal = a.engagement;
-        bVal = b.engagement;
-        break;
-      case 'overall':
-      default:
-        aVal = a.overall;
-        bVal = b.overall;
+function diffScores(before: RelationshipScore | undefined, after: RelationshipScore) {
+  const delta = (key: 'overall' | 'recency' | 'frequency' | 'engagement') =>
+    before ? after[key] - before[key] : after[key];
+
+  return {
+    contactId: after.contactId,
+    before: before ?? null,
+    after,
+    delta: {
+      overall: delta('overall'),
+      recency: delta('recency'),
+      frequency: delta('frequency'),
+      engagement: delta('engagement'),
+    },
+    trendChanged: before ? before.trend !== after.trend : true,
+  };
+}
+
+/**
+ * Parse ?threshold=, ?horizon= and ?step= for score forecasts
+ * @param query Request query
+ * @returns Threshold and forecast options
+ */
+function parseForecastQuery(query: Request['query']): { threshold: number; options: ForecastOptions } {
+  const number = (value: unknown) => (value === undefined || value === '' ? undefined : Number(value));
+  const threshold = number(query.threshold) ?? DEFAULT_FORECAST_THRESHOLD;
+  const options: ForecastOptions = { horizonDays: number(query.horizon), stepDays: number(query.step) };
+
+  const errors = validateForecastOptions(threshold, options);
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '));
+  }
+
+  return { threshold, options };
+}
+
+/**
+ * Create the relationships router
+ * @param data Shared data service
+ * @returns Express router mounted at /api/relationships
+ */
+export function createRelationshipsRouter(data: DataService): Router {
+  const router = Router();
+  const { contacts, interactions, scores: relationshipScores } = data;
+
+  /**
+   * GET /api/relationships/scores - Get relationship health scores
+   * ?asOf= recalculates scores from stored interactions as of that time (nothing is saved)
+   */
+  router.get('/scores', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const sortBy = (req.query.sortBy as string) || 'overall';
+      const order = (req.query.order as string) || 'desc';
+      const minScore = parseInt(req.query.minScore as string) || 0;
+      const maxScore = parseInt(req.query.maxScore as string) || 100;
+      const asOf = parseAsOf(req.query.asOf);
+
+      let scores = await data.listScores(asOf);
+
+      // Filter by score range
+      scores = scores.filter((s) => s.overall >= minScore && s.overall <= maxScore);
+
+      // Sort
+      const sortFn = (a: RelationshipScore, b: RelationshipScore) => {
+        let aVal = 0;
+        let bVal = 0;
+
+        switch (sortBy) {
+          case 'recency':
+            aVal = a.recency;
+            bVal = b.recency;
+            break;
+          case 'frequency':
+            aVal = a.frequency;
+            bVal = b.frequency;
+            break;
+          case 'engagement':
+            aVal = a.engagement;
+            bVal = b.engagement;
+            break;
+          case 'overall':
+          default:
+            aVal = a.overall;
+            bVal = b.overall;
+        }
+
+        return order === 'asc' ? aVal - bVal : bVal - aVal;
+      };
+
+      scores.sort(sortFn);
+
+      // Pagination
+      const total = scores.length;
+      const paginatedScores = scores.slice(offset, offset + limit);
+
+      res.json({
+        success: true,
+        data: paginatedScores,
+        pagination: {
+          offset,
+          limit,
+          total,
+          hasMore: offset + limit < total,
+        },
+        stats: {
+          avgScore: scores.length > 0 ? scores.reduce((sum, s) => sum + s.overall, 0) / scores.length : 0,
+          highestScore: scores.length > 0 ? Math.max(...scores.map((s) => s.overall)) : 0,
+          lowestScore: scores.length > 0 ? Math.min(...scores.map((s) => s.overall)) : 0,
+          atRiskCount: scores.filter((s) => s.overall < 30).length,
+          strongCount: scores.filter((s) => s.overall > 80).length,
+        },
+      });
+    } catch (error) {
+      next(error);
     }
+  });
 
-    return order === 'asc' ? aVal - bVal : bVal - aVal;
-  };
+  /**
+   * GET /api/relationships/scores/:contactId - Get score for specific contact
+   * ?asOf= recalculates the score as of that time
+   */
+  router.get('/scores/:contactId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const score = await data.getScore(req.params.contactId, parseAsOf(req.query.asOf));
 
-  scores.sort(sortFn);
+      if (!score) {
+        throw new NotFoundError(`No relationship score found for contact ${req.params.contactId}`);
+      }
 
-  // Pagination
-  const total = scores.length;
-  const paginatedScores = scores.slice(offset, offset + limit);
+      // Include contact info if available
+      const contact = await contacts.get(req.params.contactId);
 
-  res.json({
-    success: true,
-    data: paginatedScores,
-    pagination: {
-      offset,
-      limit,
-      total,
-      hasMore: offset + limit < total,
-    },
-    stats: {
-      avgScore: scores.length > 0 ? scores.reduce((sum, s) => sum + s.overall, 0) / scores.length : 0,
-      highestScore: scores.length > 0 ? Math.max(...scores.map((s) => s.overall)) : 0,
-      lowestScore: scores.length > 0 ? Math.min(...scores.map((s) => s.overall)) : 0,
-      atRiskCount: scores.filter((s) => s.overall < 30).length,
-      strongCount: scores.filter((s) => s.overall > 80).length,
-    },
+      res.json({
+        success: true,
+        data: score,
+        contact: contact || null,
+      });
+    } catch (error) {
+      next(error);
+    }
   });
-});
 
-/**
- * GET /api/relationships/scores/:contactId - Get score for specific contact
- */
-router.get('/scores/:contactId', (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const score = relationshipScores.get(req.params.contactId);
+  /**
+   * GET /api/relationships/scores/:contactId/explain - Why a contact has its score
+   * Recalculates the score (as of ?asOf=, default now) with each component's value, weight
+   * and contribution, the interactions behind it and the action that would raise it most
+   */
+  router.get('/scores/:contactId/explain', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const score = await data.explainScore(req.params.contactId, parseAsOf(req.query.asOf));
+
+      res.json({
+        success: true,
+        data: score,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
 
-    if (!score) {
-      throw new NotFoundError(`No relationship score found for contact ${req.params.contactId}`);
+  /**
+   * GET /api/relationships/scores/:contactId/forecast - Projected score without new interactions
+   * ?threshold= (default 30) is the score to watch for, ?horizon= the days to look ahead
+   * (default 365) and ?step= the spacing of the projected points (default 7); the contact's
+   * scoring profile applies
+   */
+  router.get('/scores/:contactId/forecast', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const contact = await data.requireContact(req.params.contactId);
+      const { threshold, options } = parseForecastQuery(req.query);
+      const profiles = (await data.getProfile()).scoringProfiles ?? [];
+
+      res.json({
+        success: true,
+        data: forecastScore(contact, await interactions.listByContact(contact.id), threshold, {
+          ...options,
+          config: scorerConfigFor(contact, profiles),
+        }),
+      });
+    } catch (error) {
+      next(error);
     }
+  });
 
-    // Include contact info if available
-    const contact = contacts.get(req.params.contactId);
+  /**
+   * GET /api/relationships/forecast - Contacts whose score will drop below a threshold
+   * Same parameters as the per-contact forecast; lists the contacts that cross within the
+   * horizon (including those already below), soonest first
+   */
+  router.get('/forecast', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { threshold, options } = parseForecastQuery(req.query);
+      const contactsById = await data.getContactsById();
+      const interactionsByContact = await data.getInteractionsByContact();
+      const profiles = (await data.getProfile()).scoringProfiles ?? [];
+      const forecasts = Array.from(contactsById.values()).map((contact) =>
+        forecastScore(contact, interactionsByContact.get(contact.id) ?? [], threshold, {
+          ...options,
+          config: scorerConfigFor(contact, profiles),
+        }),
+      );
+
+      const crossing = forecasts
+        .filter((forecast) => forecast.crossesAt !== undefined)
+        .sort((a, b) => a.crossesAt!.getTime() - b.crossesAt!.getTime())
+        .map(({ points: _points, ...forecast }) => ({
+          ...forecast,
+          contactName: contactsById.get(forecast.contactId)?.name ?? '',
+        }));
+
+      res.json({
+        success: true,
+        data: crossing,
+        threshold,
+        total: forecasts.length,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
 
-    res.json({
-      success: true,
-      data: score,
-      contact: contact || null,
-    });
-  } catch (error) {
-    next(error);
-  }
-});
+  /**
+   * GET /api/relationships/scores/:contactId/history - Score history over time
+   * ?resolution=daily|weekly (default: daily) keeps the last snapshot per day or week;
+   * ?from= and ?to= limit the days; ?window= sets the trend window in days (default: 90), which
+   * always ends now
+   */
+  router.get('/scores/:contactId/history', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const contact = await data.requireContact(req.params.contactId);
+      const resolution = (req.query.resolution as HistoryResolution) || 'daily';
+      if (!HISTORY_RESOLUTIONS.includes(resolution)) {
+        throw new ValidationError(`resolution must be one of: ${HISTORY_RESOLUTIONS.join(', ')}`);
+      }
 
-/**
- * POST /api/relationships/scores/calculate - Calculate/recalculate scores
- * Used for manual recalculation
- */
-router.post('/scores/calculate', (req: Request, res: Response) => {
-  const { contactIds, config } = req.body;
-
-  // In production, would query database
-  // For demo, just return updated scores
-  const calculatedScores: RelationshipScore[] = [];
-
-  if (Array.isArray(contactIds)) {
-    for (const contactId of contactIds) {
-      const existingScore = relationshipScores.get(contactId);
-
-      if (existingScore) {
-        const updatedScore: RelationshipScore = {
-          ...existingScore,
-          lastUpdated: new Date(),
-        };
-
-        // Apply config if provided (e.g., different weights)
-        if (config) {
-          // Would apply custom config here
+      let trendWindow: number | undefined;
+      if (req.query.window !== undefined) {
+        trendWindow = Number(req.query.window);
+        if (!Number.isInteger(trendWindow) || trendWindow <= 0) {
+          throw new ValidationError('window must be a positive number of days');
         }
+      }
 
-        relationshipScores.set(contactId, updatedScore);
-        calculatedScores.push(updatedScore);
+      // Snapshot days are calendar days in the user's time zone
+      const timeZone = await data.getTimeZone();
+      const day = (name: string) => {
+        const date = parseAsOf(req.query[name]);
+        return date ? formatZonedDate(date, timeZone) : undefined;
+      };
+      let from: string | undefined;
+      let to: string | undefined;
+      try {
+        from = day('from');
+        to = day('to');
+      } catch {
+        throw new ValidationError('from and to must be valid dates');
       }
-    }
-  }
 
-  res.json({
-    success: true,
-    message: `Calculated scores for ${calculatedScores.length} contacts`,
-    data: calculatedScores,
+      res.json({
+        success: true,
+        data: await data.getScoreHistory(contact.id, { resolution, from, to, trendWindow }),
+      });
+    } catch (error) {
+      next(error);
+    }
   });
-});
 
-/**
- * GET /api/relationships/graph - Get relationship graph summary
- */
-router.get('/graph', (req: Request, res: Response) => {
-  const scores = Array.from(relationshipScores.values());
-  const contactCount = contacts.size;
-  const interactionCount = Array.from(interactions.values()).reduce((sum, arr) => sum + arr.length, 0);
-
-  const atRisk = scores.filter((s) => s.overall < 30).map((s) => contacts.get(s.contactId)).filter(Boolean);
-
-  const strong = scores.filter((s) => s.overall > 80).map((s) => contacts.get(s.contactId)).filter(Boolean);
-
-  const graph: RelationshipGraph = {
-    nodeCount: contactCount,
-    edgeCount: interactionCount,
-    avgScore: scores.length > 0 ? scores.reduce((sum, s) => sum + s.overall, 0) / scores.length : 0,
-    highestScore: scores.length > 0 ? Math.max(...scores.map((s) => s.overall)) : 0,
-    lowestScore: scores.length > 0 ? Math.min(...scores.map((s) => s.overall)) : 0,
-    atRiskContacts: atRisk,
-    strongRelationships: strong,
-  };
+  /**
+   * POST /api/relationships/scores/calculate - Recalculate scores from stored data
+   * Body: { contactIds?: string[], all?: boolean, config?: Partial<ScorerConfig>, dryRun?: boolean }
+   * Returns a per-contact diff of old vs new scores; dryRun skips saving (and snapshotting).
+   * Each contact's scoring profile applies, with the settings in config taking precedence
+   */
+  router.post('/scores/calculate', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { contactIds, all, config = {}, dryRun = false } = req.body;
+
+      if (!all && !Array.isArray(contactIds)) {
+        throw new ValidationError('Provide contactIds as an array or set all to true');
+      }
 
-  res.json({
-    success: true,
-    data: graph,
-  });
-});
+      if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+        throw new ValidationError('Config must be an object');
+      }
 
-/**
- * GET /api/relationships/trends - Get relationship trends
- */
-router.get('/trends', (req: Request, res: Response) => {
-  const scores = Array.from(relationshipScores.values());
+      const configErrors = validateScorerConfig(config);
+      if (configErrors.length > 0) {
+        throw new ValidationError(configErrors.join('; '));
+      }
 
-  const trends = {
-    improving: scores.filter((s) => s.trend === 'improving').length,
-    stable: scores.filter((s) => s.trend === 'stable').length,
-    declining: scores.filter((s) => s.trend === 'declining').length,
-  };
+      // Resolve target contacts
+      const contactsById = await data.getContactsById();
+      const notFound: string[] = [];
+      let targets: Contact[];
+
+      if (all) {
+        targets = Array.from(contactsById.values());
+      } else {
+        targets = [];
+        for (const contactId of contactIds) {
+          const contact = contactsById.get(contactId);
+          if (contact) {
+            targets.push(contact);
+          } else {
+            notFound.push(contactId);
+          }
+        }
+      }
 
-  const byScore = {
-    excellent: scores.filter((s) => s.overall >= 80).length, // 80-100
-    good: scores.filter((s) => s.overall >= 60 && s.overall < 80).length, // 60-79
-    fair: scores.filter((s) => s.overall >= 30 && s.overall < 60).length, // 30-59
-    atRisk: scores.filter((s) => s.overall < 30).length, // 0-29
-  };
+      const interactionsByContact = await data.getInteractionsByContact();
+      const calculatedScores = calculateRelationshipScoresBatch(
+        targets,
+        interactionsByContact,
+        config,
+        new Date(),
+        await data.getScoreHistoryByContact(),
+        (await data.getProfile()).scoringProfiles,
+      );
+
+      const diffs = [];
+      for (const score of calculatedScores) {
+        const previous = await relationshipScores.get(score.contactId);
+        diffs.push(diffScores(previous, score));
+
+        if (!dryRun) {
+          await data.saveScore(score);
+        }
+      }
 
-  res.json({
-    success: true,
-    data: {
-      trends,
-      byScore,
-      totalContacts: scores.length,
-    },
+      res.json({
+        success: true,
+        message: `${dryRun ? 'Previewed' : 'Calculated'} scores for ${calculatedScores.length} contacts`,
+        data: calculatedScores,
+        diff: diffs,
+        notFound,
+        dryRun,
+      });
+    } catch (error) {
+      next(error);
+    }
   });
-});
 
-/**
- * GET /api/relationships/comparison - Compare relationships
- */
-router.get('/comparison', (req: Request, res: Response) => {
-  const metric = (req.query.metric as string) || 'overall';
-  const limit = parseInt(req.query.limit as string) || 10;
-
-  const scores = Array.from(relationshipScores.values());
-
-  // Get values for metric
-  const metricValues = scores.map((score) => ({
-    contactId: score.contactId,
-    contact: contacts.get(score.contactId),
-    value: (score as any)[metric] || 0,
-  }));
-
-  // Sort by metric descending
-  metricValues.sort((a, b) => b.value - a.value);
-
-  const top = metricValues.slice(0, limit);
-  const bottom = metricValues.slice(-limit).reverse();
-
-  res.json({
-    success: true,
-    metric,
-    top,
-    bottom,
+  /**
+   * GET /api/relationships/graph - Get relationship graph summary
+   * ?asOf= uses scores recalculated as of that time
+   */
+  router.get('/graph', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const scores = await data.listScores(parseAsOf(req.query.asOf));
+      const contactsById = await data.getContactsById();
+      const contactCount = contactsById.size;
+      const interactionCount = (await interactions.list()).length;
+
+      const atRisk = scores.filter((s) => s.overall < 30).map((s) => contactsById.get(s.contactId)).filter(isContact);
+
+      const strong = scores.filter((s) => s.overall > 80).map((s) => contactsById.get(s.contactId)).filter(isContact);
+
+      const graph: RelationshipGraph = {
+        nodeCount: contactCount,
+        edgeCount: interactionCount,
+        avgScore: scores.length > 0 ? scores.reduce((sum, s) => sum + s.overall, 0) / scores.length : 0,
+        highestScore: scores.length > 0 ? Math.max(...scores.map((s) => s.overall)) : 0,
+        lowestScore: scores.length > 0 ? Math.min(...scores.map((s) => s.overall)) : 0,
+        atRiskContacts: atRisk,
+        strongRelationships: strong,
+      };
+
+      res.json({
+        success: true,
+        data: graph,
+      });
+    } catch (error) {
+      next(error);
+    }
   });
-});
 
-/**
- * Helper: Register a score update (for testing)
- * In production, this would be called internally
- */
-router.post('/scores/update', (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const { contactId, score } = req.body;
+  /**
+   * GET /api/relationships/trends - Get relationship trends
+   * ?asOf= uses scores recalculated as of that time
+   */
+  router.get('/trends', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const scores = await data.listScores(parseAsOf(req.query.asOf));
+
+      const trends = {
+        improving: scores.filter((s) => s.trend === 'improving').length,
+        stable: scores.filter((s) => s.trend === 'stable').length,
+        declining: scores.filter((s) => s.trend === 'declining').length,
+      };
+
+      const byScore = {
+        excellent: scores.filter((s) => s.overall >= 80).length, // 80-100
+        good: scores.filter((s) => s.overall >= 60 && s.overall < 80).length, // 60-79
+        fair: scores.filter((s) => s.overall >= 30 && s.overall < 60).length, // 30-59
+        atRisk: scores.filter((s) => s.overall < 30).length, // 0-29
+      };
+
+      res.json({
+        success: true,
+        data: {
+          trends,
+          byScore,
+          totalContacts: scores.length,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
 
-    if (!contactId || !score) {
-      throw new Error('contactId and score required');
+  /**
+   * GET /api/relationships/comparison - Compare relationships
+   * ?asOf= uses scores recalculated as of that time
+   */
+  router.get('/comparison', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const metric = (req.query.metric as string) || 'overall';
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      const scores = await data.listScores(parseAsOf(req.query.asOf));
+      const contactsById = await data.getContactsById();
+
+      // Get values for metric
+      const metricValues = scores.map((score) => ({
+        contactId: score.contactId,
+        contact: contactsById.get(score.contactId),
+        value: (score as any)[metric] || 0,
+      }));
+
+      // Sort by metric descending
+      metricValues.sort((a, b) => b.value - a.value);
+
+      const top = metricValues.slice(0, limit);
+      const bottom = metricValues.slice(-limit).reverse();
+
+      res.json({
+        success: true,
+        metric,
+        top,
+        bottom,
+      });
+    } catch (error) {
+      next(error);
     }
+  });
 
-    const relationshipScore: RelationshipScore = {
-      contactId,
-      overall: score.overall || 0,
-      recency: score.recency || 0,
-      frequency: score.frequency || 0,
-      engagement: score.engagement || 0,
-      trend: score.trend || 'stable',
-      lastUpdated: new Date(),
-    };
-
-    relationshipScores.set(contactId, relationshipScore);
-
-    res.json({
-      success: true,
-      message: 'Score updated',
-      data: relationshipScore,
-    });
-  } catch (error) {
-    next(error);
-  }
-});
+  /**
+   * Helper: Register a score update (for testing)
+   * In production, this would be called internally
+   */
+  router.post('/scores/update', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { contactId, score } = req.body;
+
+      if (!contactId || !score) {
+        throw new ValidationError('contactId and score required');
+      }
+
+      // Scores only exist for known contacts
+      await data.requireContact(contactId);
+
+      const relationshipScore: RelationshipScore = {
+        contactId,
+        overall: score.overall || 0,
+        recency: score.recency || 0,
+        frequency: score.frequency || 0,
+        engagement: score.engagement || 0,
+        trend: score.trend || 'stable',
+        lastUpdated: new Date(),
+      };
+
+      await relationshipScores.save(relationshipScore);
+
+      res.json({
+        success: true,
+        message: 'Score updated',
+        data: relationshipScore,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
 
-export default router;
+  return router;
+}
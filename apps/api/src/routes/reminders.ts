@@ -1,12 +1,33 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { Reminder, ValidationError, NotFoundError, ReminderStatus } from '@keepclos/shared';
-import { createRule, generateReminderMessage } from '@keepclos/reminder-engine';
-
-const router = Router();
-
-// In-memory storage (production would use database)
-const reminders = new Map<string, Reminder>();
+import {
+  Reminder,
+  ValidationError,
+  NotFoundError,
+  ReminderStatus,
+  addZonedDays,
+  formatZonedDate,
+  isValidTimeZone,
+  startOfZonedDay,
+} from '@keepclos/shared';
+import {
+  REMINDER_STATUSES,
+  completeReminder,
+  isReminderStatus,
+  renderDigestHtml,
+  renderDigestText,
+  snoozeReminder,
+  transitionReminder,
+} from '@keepclos/reminder-engine';
+import { DataService } from '../services/data-service.js';
+import { parseAsOf, validateInteraction } from './validation.js';
+
+const DIGEST_FORMATS = ['json', 'text', 'html'];
+const SNOOZE_UNITS_MS: Record<string, number> = {
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+};
 
 /**
  * Validate reminder data
@@ -24,234 +45,457 @@ function validateReminder(data: any): void {
     throw new ValidationError('Due date is required');
   }
 
-  if (data.status && !['pending', 'sent', 'dismissed'].includes(data.status)) {
-    throw new ValidationError("Status must be 'pending', 'sent', or 'dismissed'");
+  if (data.status && !isReminderStatus(data.status)) {
+    throw new ValidationError(`Status must be one of: ${REMINDER_STATUSES.join(', ')}`);
+  }
+
+  if (data.expiresAt !== undefined && isNaN(new Date(data.expiresAt).getTime())) {
+    throw new ValidationError('Expiry must be a valid date');
   }
 }
 
 /**
- * POST /api/reminders - Create a new reminder
+ * Apply a lifecycle change, reporting disallowed transitions as validation errors
+ * @param change Change to apply
  */
-router.post('/', (req: Request, res: Response, next: NextFunction) => {
+function applyLifecycle(change: () => void): void {
   try {
-    validateReminder(req.body);
-
-    const reminder: Reminder = {
-      id: uuidv4(),
-      contactId: req.body.contactId,
-      message: req.body.message,
-      dueDate: new Date(req.body.dueDate),
-      status: 'pending',
-      rule: req.body.rule,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-
-    // Validate due date is in future or today
-    const now = new Date();
-    now.setHours(0, 0, 0, 0);
-    if (reminder.dueDate < now && req.body.validateFutureDate !== false) {
-      throw new ValidationError('Due date must be today or in the future');
-    }
-
-    reminders.set(reminder.id, reminder);
-
-    res.status(201).json({
-      success: true,
-      data: reminder,
-    });
+    change();
   } catch (error) {
-    next(error);
+    throw new ValidationError(error instanceof Error ? error.message : String(error));
   }
-});
+}
 
 /**
- * GET /api/reminders - List reminders with filtering
+ * Resolve the wake-up time of a snooze request
+ * Accepts { until } or a duration ({ minutes }, { hours } or { days })
+ * @param data Request body
+ * @param now Current time
+ * @returns Wake-up time
  */
-router.get('/', (req: Request, res: Response) => {
-  const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
-  const offset = parseInt(req.query.offset as string) || 0;
-  const status = req.query.status as ReminderStatus;
-  const contactId = req.query.contactId as string;
-
-  let reminderArray = Array.from(reminders.values());
+function snoozeUntil(data: any, now: Date): Date {
+  if (data.until !== undefined) {
+    const until = new Date(data.until);
+    if (isNaN(until.getTime())) {
+      throw new ValidationError('until must be a valid date');
+    }
+    return until;
+  }
 
-  // Filter by status if provided
-  if (status && ['pending', 'sent', 'dismissed'].includes(status)) {
-    reminderArray = reminderArray.filter((r) => r.status === status);
+  const units = Object.keys(SNOOZE_UNITS_MS).filter((unit) => data[unit] !== undefined);
+  if (units.length !== 1) {
+    throw new ValidationError('Provide either until or one of: minutes, hours, days');
   }
 
-  // Filter by contact if provided
-  if (contactId) {
-    reminderArray = reminderArray.filter((r) => r.contactId === contactId);
+  const amount = data[units[0]];
+  if (typeof amount !== 'number' || amount <= 0) {
+    throw new ValidationError(`${units[0]} must be a positive number`);
   }
 
-  // Sort by due date (earliest first)
-  reminderArray.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
-
-  // Pagination
-  const total = reminderArray.length;
-  const paginatedReminders = reminderArray.slice(offset, offset + limit);
-
-  res.json({
-    success: true,
-    data: paginatedReminders,
-    pagination: {
-      offset,
-      limit,
-      total,
-      hasMore: offset + limit < total,
-    },
-    stats: {
-      pending: reminderArray.filter((r) => r.status === 'pending').length,
-      sent: reminderArray.filter((r) => r.status === 'sent').length,
-      dismissed: reminderArray.filter((r) => r.status === 'dismissed').length,
-    },
-  });
-});
+  return new Date(now.getTime() + amount * SNOOZE_UNITS_MS[units[0]]);
+}
 
 /**
- * GET /api/reminders/:id - Get a specific reminder
+ * Time zone for day-based views: ?timeZone= or the user's profile zone
+ * @param data Shared data service
+ * @param query Request query
+ * @returns IANA time zone
  */
-router.get('/:id', (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const reminder = reminders.get(req.params.id);
-
-    if (!reminder) {
-      throw new NotFoundError(`Reminder with ID ${req.params.id} not found`);
-    }
+async function viewTimeZone(data: DataService, query: Request['query']): Promise<string> {
+  if (query.timeZone === undefined) {
+    return data.getTimeZone();
+  }
 
-    res.json({
-      success: true,
-      data: reminder,
-    });
-  } catch (error) {
-    next(error);
+  if (typeof query.timeZone !== 'string' || !isValidTimeZone(query.timeZone)) {
+    throw new ValidationError('timeZone must be an IANA time zone (e.g. "Europe/Berlin")');
   }
-});
+
+  return query.timeZone;
+}
 
 /**
- * PUT /api/reminders/:id - Update a reminder status or fields
+ * Create the reminders router
+ * @param data Shared data service
+ * @returns Express router mounted at /api/reminders
  */
-router.put('/:id', (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const reminder = reminders.get(req.params.id);
+export function createRemindersRouter(data: DataService): Router {
+  const router = Router();
+  const { reminders } = data;
+
+  /**
+   * POST /api/reminders - Create a new reminder
+   */
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      validateReminder(req.body);
+
+      const reminder: Reminder = {
+        id: uuidv4(),
+        contactId: req.body.contactId,
+        message: req.body.message,
+        dueDate: new Date(req.body.dueDate),
+        status: 'pending',
+        rule: req.body.rule,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        expiresAt: req.body.expiresAt !== undefined ? new Date(req.body.expiresAt) : undefined,
+      };
+
+      // Validate due date is in future or today (in the user's time zone)
+      const today = startOfZonedDay(new Date(), await data.getTimeZone());
+      if (reminder.dueDate < today && req.body.validateFutureDate !== false) {
+        throw new ValidationError('Due date must be today or in the future');
+      }
+
+      await reminders.save(reminder);
 
-    if (!reminder) {
-      throw new NotFoundError(`Reminder with ID ${req.params.id} not found`);
+      res.status(201).json({
+        success: true,
+        data: reminder,
+      });
+    } catch (error) {
+      next(error);
     }
+  });
 
-    // Update status
-    if (req.body.status !== undefined) {
-      if (!['pending', 'sent', 'dismissed'].includes(req.body.status)) {
-        throw new ValidationError("Status must be 'pending', 'sent', or 'dismissed'");
+  /**
+   * GET /api/reminders - List reminders with filtering
+   * ?asOf= lists reminders as they stood at that time (nothing is saved)
+   */
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const status = req.query.status as ReminderStatus;
+      const contactId = req.query.contactId as string;
+      const asOf = parseAsOf(req.query.asOf);
+
+      let reminderArray = await data.listReminders(asOf);
+
+      // Filter by status if provided
+      if (status && isReminderStatus(status)) {
+        reminderArray = reminderArray.filter((r) => r.status === status);
       }
-      reminder.status = req.body.status;
 
-      // Set sentAt if status is being marked as sent
-      if (req.body.status === 'sent' && !reminder.sentAt) {
-        reminder.sentAt = new Date();
+      // Filter by contact if provided
+      if (contactId) {
+        reminderArray = reminderArray.filter((r) => r.contactId === contactId);
       }
+
+      // Sort by due date (earliest first)
+      reminderArray.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+
+      // Pagination
+      const total = reminderArray.length;
+      const paginatedReminders = reminderArray.slice(offset, offset + limit);
+
+      res.json({
+        success: true,
+        data: paginatedReminders,
+        pagination: {
+          offset,
+          limit,
+          total,
+          hasMore: offset + limit < total,
+        },
+        stats: Object.fromEntries(
+          REMINDER_STATUSES.map((state) => [state, reminderArray.filter((r) => r.status === state).length]),
+        ),
+      });
+    } catch (error) {
+      next(error);
     }
+  });
+
+  /**
+   * GET /api/reminders/digest - Open reminders as a daily or weekly digest
+   * ?period=daily|weekly (default: the profile's digest period, else daily),
+   * ?format=json|text|html (default: json), ?timeZone= overrides the user's zone,
+   * ?asOf= builds the digest for that time instead of now
+   */
+  router.get('/digest', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const period = req.query.period ?? (await data.getProfile()).digest?.period ?? 'daily';
+      if (period !== 'daily' && period !== 'weekly') {
+        throw new ValidationError("period must be 'daily' or 'weekly'");
+      }
+
+      const format = (req.query.format as string) ?? 'json';
+      if (!DIGEST_FORMATS.includes(format)) {
+        throw new ValidationError(`format must be one of: ${DIGEST_FORMATS.join(', ')}`);
+      }
 
-    // Update message if provided
-    if (req.body.message !== undefined) {
-      if (typeof req.body.message !== 'string') {
-        throw new ValidationError('Message must be a string');
+      const timeZone = await viewTimeZone(data, req.query);
+      const asOf = parseAsOf(req.query.asOf);
+      if (!asOf) {
+        await data.refreshReminderStates();
       }
-      reminder.message = req.body.message;
+      const digest = await data.buildDigest(period, timeZone, asOf);
+
+      if (format === 'text') {
+        res.type('text/plain').send(renderDigestText(digest));
+      } else if (format === 'html') {
+        res.type('html').send(renderDigestHtml(digest));
+      } else {
+        res.json({
+          success: true,
+          data: digest,
+        });
+      }
+    } catch (error) {
+      next(error);
     }
+  });
+
+  /**
+   * GET /api/reminders/:id - Get a specific reminder
+   */
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const reminder = await reminders.get(req.params.id);
+
+      if (!reminder) {
+        throw new NotFoundError(`Reminder with ID ${req.params.id} not found`);
+      }
 
-    // Update due date if provided
-    if (req.body.dueDate !== undefined) {
-      reminder.dueDate = new Date(req.body.dueDate);
+      res.json({
+        success: true,
+        data: reminder,
+      });
+    } catch (error) {
+      next(error);
     }
+  });
 
-    reminder.updatedAt = new Date();
-    reminders.set(reminder.id, reminder);
+  /**
+   * PUT /api/reminders/:id - Update a reminder status or fields
+   * Status changes follow the reminder lifecycle; 'snoozed' also needs snoozedUntil. Only
+   * delivery marks a reminder 'sent'
+   */
+  router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const reminder = await reminders.get(req.params.id);
+
+      if (!reminder) {
+        throw new NotFoundError(`Reminder with ID ${req.params.id} not found`);
+      }
 
-    res.json({
-      success: true,
-      data: reminder,
-    });
-  } catch (error) {
-    next(error);
-  }
-});
+      // Update status (sets sentAt / completedAt as appropriate)
+      if (req.body.status !== undefined) {
+        if (!isReminderStatus(req.body.status)) {
+          throw new ValidationError(`Status must be one of: ${REMINDER_STATUSES.join(', ')}`);
+        }
+
+        if (req.body.status === 'sent' && reminder.status !== 'sent') {
+          throw new ValidationError("Reminders are marked 'sent' by delivery, not by updates");
+        }
+
+        if (req.body.status === 'snoozed') {
+          const until = snoozeUntil({ until: req.body.snoozedUntil }, new Date());
+          applyLifecycle(() => snoozeReminder(reminder, until));
+        } else {
+          applyLifecycle(() => transitionReminder(reminder, req.body.status));
+        }
+      }
 
-/**
- * DELETE /api/reminders/:id - Dismiss/delete a reminder
- */
-router.delete('/:id', (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const reminder = reminders.get(req.params.id);
+      // Update message if provided
+      if (req.body.message !== undefined) {
+        if (typeof req.body.message !== 'string') {
+          throw new ValidationError('Message must be a string');
+        }
+        reminder.message = req.body.message;
+      }
 
-    if (!reminder) {
-      throw new NotFoundError(`Reminder with ID ${req.params.id} not found`);
-    }
+      // Update due date if provided
+      if (req.body.dueDate !== undefined) {
+        reminder.dueDate = new Date(req.body.dueDate);
+      }
 
-    // Hard delete or soft delete (mark as dismissed)
-    const hardDelete = req.query.hard === 'true';
+      // Update or clear expiry if provided
+      if (req.body.expiresAt !== undefined) {
+        if (req.body.expiresAt !== null && isNaN(new Date(req.body.expiresAt).getTime())) {
+          throw new ValidationError('Expiry must be a valid date');
+        }
+        reminder.expiresAt = req.body.expiresAt === null ? undefined : new Date(req.body.expiresAt);
+      }
 
-    if (hardDelete) {
-      reminders.delete(req.params.id);
-    } else {
-      reminder.status = 'dismissed';
       reminder.updatedAt = new Date();
-      reminders.set(reminder.id, reminder);
+      await reminders.save(reminder);
+
+      res.json({
+        success: true,
+        data: reminder,
+      });
+    } catch (error) {
+      next(error);
     }
+  });
 
-    res.json({
-      success: true,
-      message: `Reminder ${req.params.id} ${hardDelete ? 'deleted' : 'dismissed'}`,
-      data: reminder,
-    });
-  } catch (error) {
-    next(error);
-  }
-});
+  /**
+   * DELETE /api/reminders/:id - Dismiss/delete a reminder
+   */
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const reminder = await reminders.get(req.params.id);
 
-/**
- * GET /api/reminders/today - Get reminders due today
- */
-router.get('/schedule/today', (req: Request, res: Response) => {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-
-  const todayReminders = Array.from(reminders.values())
-    .filter(
-      (r) =>
-        r.status === 'pending' &&
-        r.dueDate >= today &&
-        r.dueDate < tomorrow,
-    )
-    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
-
-  res.json({
-    success: true,
-    date: today.toISOString().split('T')[0],
-    data: todayReminders,
-    count: todayReminders.length,
+      if (!reminder) {
+        throw new NotFoundError(`Reminder with ID ${req.params.id} not found`);
+      }
+
+      // Hard delete or soft delete (mark as dismissed)
+      const hardDelete = req.query.hard === 'true';
+
+      if (hardDelete) {
+        await reminders.delete(req.params.id);
+      } else {
+        applyLifecycle(() => transitionReminder(reminder, 'dismissed'));
+        await reminders.save(reminder);
+      }
+
+      res.json({
+        success: true,
+        message: `Reminder ${req.params.id} ${hardDelete ? 'deleted' : 'dismissed'}`,
+        data: reminder,
+      });
+    } catch (error) {
+      next(error);
+    }
   });
-});
 
-/**
- * GET /api/reminders/overdue - Get overdue reminders
- */
-router.get('/schedule/overdue', (req: Request, res: Response) => {
-  const now = new Date();
+  /**
+   * POST /api/reminders/:id/snooze - Snooze a reminder
+   * Body: { until } or { minutes | hours | days }; the reminder is pending again afterwards
+   */
+  router.post('/:id/snooze', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const reminder = await reminders.get(req.params.id);
 
-  const overdueReminders = Array.from(reminders.values())
-    .filter((r) => r.status === 'pending' && r.dueDate < now)
-    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+      if (!reminder) {
+        throw new NotFoundError(`Reminder with ID ${req.params.id} not found`);
+      }
+
+      const now = new Date();
+      const until = snoozeUntil(req.body, now);
+      applyLifecycle(() => snoozeReminder(reminder, until, now));
+      await reminders.save(reminder);
+
+      res.json({
+        success: true,
+        data: reminder,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/reminders/:id/complete - Mark a reminder as done
+   * With { interaction: { type, timestamp?, duration?, notes? } } the outreach is also logged
+   * as an interaction, refreshing the contact's last contact date and score
+   */
+  router.post('/:id/complete', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const reminder = await reminders.get(req.params.id);
+
+      if (!reminder) {
+        throw new NotFoundError(`Reminder with ID ${req.params.id} not found`);
+      }
+
+      const input = req.body.interaction;
+      if (input !== undefined && (typeof input !== 'object' || input === null)) {
+        throw new ValidationError('Interaction must be an object');
+      }
+      if (input !== undefined) {
+        validateInteraction(input);
+      }
+
+      const contact = input !== undefined ? await data.requireContact(reminder.contactId) : undefined;
+      const now = new Date();
+      applyLifecycle(() => completeReminder(reminder, now));
+
+      let recorded;
+      if (contact) {
+        recorded = await data.recordInteraction(contact, {
+          type: input.type,
+          timestamp: input.timestamp !== undefined ? new Date(input.timestamp) : now,
+          duration: input.duration ?? undefined,
+          notes: input.notes ?? undefined,
+        });
+        reminder.interactionId = recorded.interaction.id;
+      }
+
+      await reminders.save(reminder);
+
+      res.json({
+        success: true,
+        data: reminder,
+        interaction: recorded?.interaction,
+        score: recorded?.score,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
 
-  res.json({
-    success: true,
-    data: overdueReminders,
-    count: overdueReminders.length,
+  /**
+   * GET /api/reminders/today - Get reminders due today
+   * "Today" is the current day in the user's time zone (override with ?timeZone=), or the
+   * day of ?asOf=
+   */
+  router.get('/schedule/today', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const timeZone = await viewTimeZone(data, req.query);
+      const asOf = parseAsOf(req.query.asOf);
+      const now = asOf ?? new Date();
+      const today = startOfZonedDay(now, timeZone);
+      const tomorrow = addZonedDays(now, 1, timeZone);
+
+      const todayReminders = (await data.listReminders(asOf))
+        .filter(
+          (r) =>
+            r.status === 'pending' &&
+            r.dueDate >= today &&
+            r.dueDate < tomorrow,
+        )
+        .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+
+      res.json({
+        success: true,
+        date: formatZonedDate(now, timeZone),
+        timeZone,
+        data: todayReminders,
+        count: todayReminders.length,
+      });
+    } catch (error) {
+      next(error);
+    }
   });
-});
 
-export default router;
+  /**
+   * GET /api/reminders/overdue - Get overdue reminders
+   * Overdue means due before today in the user's time zone (override with ?timeZone=);
+   * reminders due earlier today are listed under today. ?asOf= takes "today" at that time
+   */
+  router.get('/schedule/overdue', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const timeZone = await viewTimeZone(data, req.query);
+      const asOf = parseAsOf(req.query.asOf);
+      const today = startOfZonedDay(asOf ?? new Date(), timeZone);
+
+      const overdueReminders = (await data.listReminders(asOf))
+        .filter((r) => r.status === 'pending' && r.dueDate < today)
+        .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+
+      res.json({
+        success: true,
+        timeZone,
+        data: overdueReminders,
+        count: overdueReminders.length,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,444 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { Rule, RuleConfig, RuleType, ValidationError, NotFoundError } from '@keepclos/shared';
+import {
+  contactTimeZone,
+  createRule,
+  evaluateRule,
+  generateReminderMessage,
+  simulateRules,
+  validateSimulationOptions,
+} from '@keepclos/reminder-engine';
+import { scorerConfigFor } from '@keepclos/context-engine';
+import { DataService } from '../services/data-service.js';
+import { parseDateParam } from './validation.js';
+
+const RULE_TYPES: RuleType[] = ['inactivity', 'recurring', 'date', 'decay', 'composite'];
+const DEFAULT_SIMULATION_DAYS = 30;
+
+interface SimulationParams {
+  from?: Date;
+  to?: Date;
+  followUpDays?: number;
+  includeReminders: boolean;
+}
+
+/**
+ * Narrow request data to a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRuleType(value: unknown): value is RuleType {
+  return RULE_TYPES.some((type) => type === value);
+}
+
+/**
+ * Validate rule data and build a rule through the reminder engine
+ * createRule's configuration errors are surfaced as ValidationErrors
+ * @param input Request body
+ * @returns Validated rule (with a fresh ID)
+ */
+function buildRule(input: unknown): Rule {
+  const data = isRecord(input) ? input : {};
+
+  if (!isRuleType(data.type)) {
+    throw new ValidationError(`Rule type must be one of: ${RULE_TYPES.join(', ')}`);
+  }
+
+  if (!data.name || typeof data.name !== 'string') {
+    throw new ValidationError('Rule name is required and must be a string');
+  }
+
+  if (data.description !== undefined && typeof data.description !== 'string') {
+    throw new ValidationError('Description must be a string');
+  }
+
+  if (data.enabled !== undefined && typeof data.enabled !== 'boolean') {
+    throw new ValidationError('Enabled must be a boolean');
+  }
+
+  if (data.config !== undefined && !isRecord(data.config)) {
+    throw new ValidationError('Config must be an object');
+  }
+
+  // Field by field validation of the config is left to createRule
+  const config: RuleConfig = data.config ?? {};
+
+  if (config.tags !== undefined && !Array.isArray(config.tags)) {
+    throw new ValidationError('Config tags must be an array');
+  }
+
+  let rule: Rule;
+  try {
+    rule = createRule(data.type, data.name, config);
+  } catch (error) {
+    throw new ValidationError(error instanceof Error ? error.message : String(error));
+  }
+
+  rule.description = data.description ?? '';
+  rule.enabled = data.enabled ?? true;
+  return rule;
+}
+
+/**
+ * Simulation parameters from a request body or query string
+ * @param input Body or query object
+ * @returns Typed parameters
+ */
+function parseSimulationParams(input: unknown): SimulationParams {
+  const params = isRecord(input) ? input : {};
+
+  return {
+    from: parseDateParam(params.from, 'from'),
+    to: parseDateParam(params.to, 'to'),
+    followUpDays: params.followUpDays !== undefined ? Number(params.followUpDays) : undefined,
+    includeReminders: params.includeReminders === true || params.includeReminders === 'true',
+  };
+}
+
+/**
+ * Create the rules router
+ * @param data Shared data service
+ * @returns Express router mounted at /api/rules
+ */
+export function createRulesRouter(data: DataService): Router {
+  const router = Router();
+  const { rules } = data;
+
+  /**
+   * Load a rule or fail with NotFoundError
+   */
+  async function requireRule(id: string): Promise<Rule> {
+    const rule = await rules.get(id);
+
+    if (!rule) {
+      throw new NotFoundError(`Rule with ID ${id} not found`);
+    }
+
+    return rule;
+  }
+
+  /**
+   * Evaluate a rule against all stored contacts, ignoring its enabled flag
+   * @param rule Rule to preview
+   * @returns Contacts the rule would fire for right now, with the checks that matched
+   */
+  async function previewRule(rule: Rule) {
+    const context = await data.buildSchedulerContext();
+
+    return context.contacts
+      .map((contact) => {
+        const interactions = context.interactions.get(contact.id) ?? [];
+        const score = context.relationshipScores.get(contact.id) ?? 0;
+
+        return {
+          contact,
+          score: typeof score === 'number' ? score : score.overall,
+          evaluation: evaluateRule(
+            contact,
+            rule,
+            interactions,
+            score,
+            context.timeZone,
+            new Date(),
+            scorerConfigFor(contact, context.scoringProfiles ?? []),
+          ),
+        };
+      })
+      .filter((result) => result.evaluation.fires)
+      .map(({ contact, score, evaluation }) => ({
+        contactId: contact.id,
+        contactName: contact.name,
+        relationshipScore: score,
+        message: generateReminderMessage(
+          contact,
+          rule,
+          contactTimeZone(contact, context.timeZone),
+          new Date(),
+          evaluation.trigger?.forecast,
+        ),
+        reasons: evaluation.matched,
+      }));
+  }
+
+  /**
+   * Backtest rules over the stored interaction history
+   * @param rulesToRun Rules to replay (enabled or not)
+   * @param params from, to (default: the last 30 days), followUpDays and includeReminders
+   * @returns Simulation report
+   */
+  async function simulate(rulesToRun: Rule[], params: SimulationParams) {
+    const to = params.to ?? new Date();
+    const options = {
+      from: params.from ?? new Date(to.getTime() - DEFAULT_SIMULATION_DAYS * 24 * 60 * 60 * 1000),
+      to,
+      followUpDays: params.followUpDays,
+      includeReminders: params.includeReminders,
+    };
+
+    try {
+      validateSimulationOptions(options);
+    } catch (error) {
+      throw new ValidationError(error instanceof Error ? error.message : String(error));
+    }
+
+    const context = await data.buildSchedulerContext();
+
+    return simulateRules(
+      {
+        contacts: context.contacts,
+        interactions: context.interactions,
+        rules: rulesToRun,
+        timeZone: context.timeZone,
+        scoringProfiles: context.scoringProfiles,
+      },
+      options,
+    );
+  }
+
+  /**
+   * POST /api/rules - Create a new rule
+   */
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rule = buildRule(req.body);
+
+      await rules.save(rule);
+
+      res.status(201).json({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/rules - List rules
+   */
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const type = req.query.type as string;
+      const enabled = req.query.enabled as string;
+
+      let ruleArray = await rules.list();
+
+      // Filter by type if provided
+      if (type) {
+        ruleArray = ruleArray.filter((r) => r.type === type);
+      }
+
+      // Filter by enabled state if provided
+      if (enabled === 'true' || enabled === 'false') {
+        ruleArray = ruleArray.filter((r) => r.enabled === (enabled === 'true'));
+      }
+
+      // Sort by creation date (oldest first)
+      ruleArray.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+      res.json({
+        success: true,
+        data: ruleArray,
+        count: ruleArray.length,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/rules/preview - Preview an unsaved rule
+   */
+  router.post('/preview', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rule = buildRule(req.body);
+      const matches = await previewRule(rule);
+
+      res.json({
+        success: true,
+        data: matches,
+        count: matches.length,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/rules/simulate - Backtest rules over a past date range
+   * Body: from, to, followUpDays, includeReminders and either unsaved rule definitions
+   * (rules), stored rule IDs (ruleIds) or neither for all enabled rules
+   */
+  router.post('/simulate', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = req.body ?? {};
+
+      if (body.rules !== undefined && !Array.isArray(body.rules)) {
+        throw new ValidationError('rules must be an array of rule definitions');
+      }
+      if (body.ruleIds !== undefined && !Array.isArray(body.ruleIds)) {
+        throw new ValidationError('ruleIds must be an array');
+      }
+
+      const rulesToRun: Rule[] = body.rules
+        ? body.rules.map(buildRule)
+        : body.ruleIds
+          ? await Promise.all(body.ruleIds.map((id: string) => requireRule(String(id))))
+          : (await rules.list()).filter((rule) => rule.enabled);
+
+      res.json({
+        success: true,
+        data: await simulate(rulesToRun, parseSimulationParams(body)),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/rules/:id - Get a specific rule
+   */
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rule = await requireRule(req.params.id);
+
+      res.json({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PUT /api/rules/:id - Update a rule
+   * The merged rule is revalidated through createRule
+   */
+  router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rule = await requireRule(req.params.id);
+
+      const validated = buildRule({
+        type: req.body.type ?? rule.type,
+        name: req.body.name ?? rule.name,
+        description: req.body.description ?? rule.description,
+        enabled: req.body.enabled ?? rule.enabled,
+        config: req.body.config ?? rule.config,
+      });
+
+      const updated: Rule = {
+        ...validated,
+        id: rule.id,
+        createdAt: rule.createdAt,
+        updatedAt: new Date(),
+      };
+
+      await rules.save(updated);
+
+      res.json({
+        success: true,
+        data: updated,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/rules/:id - Delete a rule
+   */
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rule = await requireRule(req.params.id);
+
+      await rules.delete(rule.id);
+
+      res.json({
+        success: true,
+        message: `Rule ${rule.id} deleted`,
+        data: rule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/rules/:id/enable - Enable a rule
+   */
+  router.post('/:id/enable', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rule = await requireRule(req.params.id);
+
+      rule.enabled = true;
+      rule.updatedAt = new Date();
+      await rules.save(rule);
+
+      res.json({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/rules/:id/disable - Disable a rule
+   */
+  router.post('/:id/disable', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rule = await requireRule(req.params.id);
+
+      rule.enabled = false;
+      rule.updatedAt = new Date();
+      await rules.save(rule);
+
+      res.json({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/rules/:id/preview - Contacts the rule would fire for right now
+   */
+  router.get('/:id/preview', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rule = await requireRule(req.params.id);
+      const matches = await previewRule(rule);
+
+      res.json({
+        success: true,
+        data: matches,
+        count: matches.length,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/rules/:id/simulate - Backtest a rule (?from, ?to, ?followUpDays, ?includeReminders)
+   */
+  router.get('/:id/simulate', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rule = await requireRule(req.params.id);
+
+      res.json({
+        success: true,
+        data: await simulate([rule], parseSimulationParams(req.query)),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,66 @@
+import { InteractionType, ValidationError } from '@keepclos/shared';
+
+/**
+ * Request validators shared by several routers
+ */
+
+export const INTERACTION_TYPES: InteractionType[] = ['call', 'message', 'meeting', 'email', 'other'];
+
+/**
+ * Validate interaction data
+ * @param data Request body
+ * @param partial Whether fields may be omitted (updates)
+ */
+export function validateInteraction(data: any, partial: boolean = false): void {
+  if (data.type === undefined) {
+    if (!partial) {
+      throw new ValidationError('Interaction type is required');
+    }
+  } else if (!INTERACTION_TYPES.includes(data.type)) {
+    throw new ValidationError(`Interaction type must be one of: ${INTERACTION_TYPES.join(', ')}`);
+  }
+
+  if (data.timestamp !== undefined && isNaN(new Date(data.timestamp).getTime())) {
+    throw new ValidationError('Timestamp must be a valid date');
+  }
+
+  if (
+    data.duration !== undefined &&
+    data.duration !== null &&
+    (typeof data.duration !== 'number' || data.duration < 0)
+  ) {
+    throw new ValidationError('Duration must be a non-negative number of minutes');
+  }
+
+  if (data.notes !== undefined && data.notes !== null && typeof data.notes !== 'string') {
+    throw new ValidationError('Notes must be a string');
+  }
+}
+
+/**
+ * Parse an ?asOf= query parameter
+ * @param value Query value
+ * @returns Point in time, or undefined when not given
+ */
+export function parseAsOf(value: unknown): Date | undefined {
+  return parseDateParam(value, 'asOf');
+}
+
+/**
+ * Parse a date request parameter
+ * @param value Query or body value
+ * @param name Parameter name for the error message
+ * @returns Point in time, or undefined when not given
+ */
+export function parseDateParam(value: unknown, name: string): Date | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const date = typeof value === 'string' ? new Date(value) : new Date(NaN);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`${name} must be a valid date`);
+  }
+
+  return date;
+}
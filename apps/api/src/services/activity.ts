@@ -0,0 +1,96 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Contact, Interaction, RelationshipScore, SignalExtractionResult } from '@keepclos/shared';
+import { extractSignals } from '@keepclos/context-engine';
+import { Repositories } from '../storage/index.js';
+import { saveScore, scoreContact } from './score-history.js';
+
+/**
+ * Contact activity synchronization
+ * Keeps derived contact state in line with the recorded interactions
+ */
+
+export interface ContactActivity {
+  contact: Contact;
+  score: RelationshipScore;
+}
+
+export type InteractionInput = Pick<Interaction, 'type'> &
+  Partial<Pick<Interaction, 'timestamp' | 'duration' | 'notes'>>;
+
+export interface RecordedInteraction extends ContactActivity {
+  interaction: Interaction;
+  signals: SignalExtractionResult;
+}
+
+/**
+ * Find the most recent interaction timestamp
+ * @param interactions Interactions to search
+ * @returns Latest timestamp or undefined if there are none
+ */
+export function latestInteractionDate(interactions: Interaction[]): Date | undefined {
+  if (interactions.length === 0) {
+    return undefined;
+  }
+
+  return interactions.reduce((latest, current) =>
+    current.timestamp > latest.timestamp ? current : latest,
+  ).timestamp;
+}
+
+/**
+ * Recompute lastContactedAt and the cached relationship score for a contact
+ * The new score is also recorded as the contact's snapshot for today
+ * Call after any interaction for the contact is created, updated or deleted
+ * @param repositories Storage backend
+ * @param contact Contact whose interactions changed
+ * @returns Updated contact and score
+ */
+export async function syncContactActivity(
+  repositories: Repositories,
+  contact: Contact,
+): Promise<ContactActivity> {
+  const interactions = await repositories.interactions.listByContact(contact.id);
+
+  contact.lastContactedAt = latestInteractionDate(interactions);
+  contact.updatedAt = new Date();
+  await repositories.contacts.save(contact);
+
+  const score = await scoreContact(repositories, contact, interactions);
+  await saveScore(repositories, score);
+
+  return { contact, score };
+}
+
+/**
+ * Record a new interaction for a contact
+ * Quality is derived via signal extraction; lastContactedAt and the score are refreshed
+ * @param repositories Storage backend
+ * @param contact Contact the interaction was with
+ * @param input Interaction fields (timestamp defaults to now)
+ * @param timeZone Time zone for time-of-day signals
+ * @returns Saved interaction, its signals and the updated contact and score
+ */
+export async function recordInteraction(
+  repositories: Repositories,
+  contact: Contact,
+  input: InteractionInput,
+  timeZone: string,
+): Promise<RecordedInteraction> {
+  const interaction: Interaction = {
+    id: uuidv4(),
+    contactId: contact.id,
+    type: input.type,
+    timestamp: input.timestamp ?? new Date(),
+    duration: input.duration,
+    notes: input.notes,
+    quality: 0,
+  };
+
+  const signals = extractSignals(interaction, timeZone);
+  interaction.quality = signals.qualityScore;
+
+  await repositories.interactions.save(interaction);
+  const activity = await syncContactActivity(repositories, contact);
+
+  return { ...activity, interaction, signals };
+}
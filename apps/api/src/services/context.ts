@@ -0,0 +1,78 @@
+import { Interaction, Reminder, RelationshipScore } from '@keepclos/shared';
+import { SchedulerContext } from '@keepclos/reminder-engine';
+import { Repositories } from '../storage/index.js';
+
+/**
+ * Builds reminder-engine evaluation context from stored data
+ */
+
+/**
+ * Group interactions by contact ID
+ * @param interactions Interactions to group
+ * @returns Map of contactId to interactions
+ */
+export function groupInteractionsByContact(interactions: Interaction[]): Map<string, Interaction[]> {
+  const byContact = new Map<string, Interaction[]>();
+
+  for (const interaction of interactions) {
+    if (!byContact.has(interaction.contactId)) {
+      byContact.set(interaction.contactId, []);
+    }
+    byContact.get(interaction.contactId)!.push(interaction);
+  }
+
+  return byContact;
+}
+
+/**
+ * Index the most recent reminder per contact/rule pair
+ * @param reminders Reminders to index
+ * @returns Map of "contactId:ruleId" to the newest reminder
+ */
+export function indexLatestReminders(reminders: Reminder[]): Map<string, Reminder> {
+  const latest = new Map<string, Reminder>();
+
+  for (const reminder of reminders) {
+    if (!reminder.rule) {
+      continue;
+    }
+
+    const key = `${reminder.contactId}:${reminder.rule.id}`;
+    const existing = latest.get(key);
+    if (!existing || reminder.createdAt > existing.createdAt) {
+      latest.set(key, reminder);
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Snapshot the current contacts, interactions, rules, scores, reminders and user settings
+ * @param repositories Storage backend
+ * @returns Scheduler context reflecting the stored data
+ */
+export async function buildSchedulerContext(repositories: Repositories): Promise<SchedulerContext> {
+  const [contacts, interactions, rules, scores, reminders, profile] = await Promise.all([
+    repositories.contacts.list(),
+    repositories.interactions.list(),
+    repositories.rules.list(),
+    repositories.scores.list(),
+    repositories.reminders.list(),
+    repositories.profile.get(),
+  ]);
+
+  return {
+    contacts,
+    interactions: groupInteractionsByContact(interactions),
+    rules,
+    relationshipScores: new Map<string, RelationshipScore>(
+      scores.map((score) => [score.contactId, score]),
+    ),
+    existingReminders: indexLatestReminders(reminders),
+    timeZone: profile?.timeZone,
+    policy: profile?.reminderPolicy,
+    reminders,
+    scoringProfiles: profile?.scoringProfiles,
+  };
+}
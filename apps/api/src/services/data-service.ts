@@ -0,0 +1,354 @@
+import {
+  Contact,
+  DigestPeriod,
+  Interaction,
+  NotFoundError,
+  RelationshipScore,
+  Reminder,
+  ScoreSnapshot,
+  UserProfile,
+  systemTimeZone,
+} from '@keepclos/shared';
+import {
+  ExplainedRelationshipScore,
+  calculateRelationshipScore,
+  calculateRelationshipScoresBatch,
+} from '@keepclos/context-engine';
+import { ReminderDigest, SchedulerContext, refreshReminderState, reminderAsOf } from '@keepclos/reminder-engine';
+import {
+  ContactRepository,
+  InteractionRepository,
+  ReminderRepository,
+  RuleRepository,
+  RelationshipScoreRepository,
+  ScoreHistoryRepository,
+  ProfileRepository,
+  Repositories,
+} from '../storage/index.js';
+import {
+  ContactActivity,
+  InteractionInput,
+  RecordedInteraction,
+  recordInteraction,
+  syncContactActivity,
+} from './activity.js';
+import { buildSchedulerContext, groupInteractionsByContact } from './context.js';
+import { buildReminderDigest } from './digest.js';
+import {
+  ScoreHistory,
+  ScoreHistoryOptions,
+  contactScorerConfig,
+  getScoreHistory,
+  saveScore,
+  scoreContact,
+  snapshotScores,
+} from './score-history.js';
+
+/**
+ * Shared data service
+ * The single source of contacts, interactions, reminders, rules and scores for all
+ * routers and the scheduler, with cross-entity operations such as cascading deletes
+ */
+
+export interface ContactDeletion {
+  contact: Contact;
+  deletedInteractions: number;
+  deletedReminders: number;
+  deletedScore: boolean;
+  deletedSnapshots: number;
+}
+
+export class DataService {
+  readonly contacts: ContactRepository;
+  readonly interactions: InteractionRepository;
+  readonly reminders: ReminderRepository;
+  readonly rules: RuleRepository;
+  readonly scores: RelationshipScoreRepository;
+  readonly scoreHistory: ScoreHistoryRepository;
+  readonly profile: ProfileRepository;
+
+  constructor(private repositories: Repositories) {
+    this.contacts = repositories.contacts;
+    this.interactions = repositories.interactions;
+    this.reminders = repositories.reminders;
+    this.rules = repositories.rules;
+    this.scores = repositories.scores;
+    this.scoreHistory = repositories.scoreHistory;
+    this.profile = repositories.profile;
+  }
+
+  /**
+   * Prepare the backing store
+   */
+  init(): Promise<void> {
+    return this.repositories.init();
+  }
+
+  /**
+   * Release the backing store
+   */
+  close(): Promise<void> {
+    return this.repositories.close();
+  }
+
+  /**
+   * Load a contact or fail with NotFoundError
+   * @param id Contact ID
+   * @returns Contact
+   */
+  async requireContact(id: string): Promise<Contact> {
+    const contact = await this.contacts.get(id);
+
+    if (!contact) {
+      throw new NotFoundError(`Contact with ID ${id} not found`);
+    }
+
+    return contact;
+  }
+
+  /**
+   * Load the user profile, falling back to defaults (server time zone) until one is saved
+   * @returns User profile
+   */
+  async getProfile(): Promise<UserProfile> {
+    const profile = await this.profile.get();
+    if (profile) {
+      return profile;
+    }
+
+    const now = new Date();
+    return { timeZone: systemTimeZone(), createdAt: now, updatedAt: now };
+  }
+
+  /**
+   * Time zone for calendar-day logic: the contact's own zone, otherwise the user's
+   * @param contact Contact the calculation is about (omit for user-level views)
+   * @returns IANA time zone
+   */
+  async getTimeZone(contact?: Contact): Promise<string> {
+    return contact?.timeZone ?? (await this.getProfile()).timeZone;
+  }
+
+  /**
+   * Load all contacts keyed by ID
+   * @returns Map of contactId to contact
+   */
+  async getContactsById(): Promise<Map<string, Contact>> {
+    const contacts = await this.contacts.list();
+    return new Map(contacts.map((contact) => [contact.id, contact]));
+  }
+
+  /**
+   * Load all interactions grouped by contact
+   * @returns Map of contactId to interactions
+   */
+  async getInteractionsByContact(): Promise<Map<string, Interaction[]>> {
+    return groupInteractionsByContact(await this.interactions.list());
+  }
+
+  /**
+   * Delete a contact together with its interactions, reminders, score and score history
+   * @param id Contact ID
+   * @returns Deleted contact and counts of removed dependent records
+   */
+  async deleteContact(id: string): Promise<ContactDeletion> {
+    const contact = await this.requireContact(id);
+
+    const deletedInteractions = await this.interactions.deleteByContact(id);
+    const deletedReminders = await this.reminders.deleteByContact(id);
+    const deletedScore = await this.scores.delete(id);
+    const deletedSnapshots = await this.scoreHistory.deleteByContact(id);
+    await this.contacts.delete(id);
+
+    return { contact, deletedInteractions, deletedReminders, deletedScore, deletedSnapshots };
+  }
+
+  /**
+   * Refresh lastContactedAt and the cached score after interactions changed
+   * @param contact Contact whose interactions changed
+   * @returns Updated contact and score
+   */
+  syncContactActivity(contact: Contact): Promise<ContactActivity> {
+    return syncContactActivity(this.repositories, contact);
+  }
+
+  /**
+   * Record an interaction and refresh the contact's activity
+   * @param contact Contact the interaction was with
+   * @param input Interaction fields (timestamp defaults to now)
+   * @returns Saved interaction, its signals and the updated contact and score
+   */
+  async recordInteraction(contact: Contact, input: InteractionInput): Promise<RecordedInteraction> {
+    return recordInteraction(this.repositories, contact, input, await this.getTimeZone(contact));
+  }
+
+  /**
+   * Wake snoozed reminders whose snooze has passed and expire overdue ones
+   * @param now Current time (default: now)
+   * @returns Reminders that changed state
+   */
+  async refreshReminderStates(now: Date = new Date()): Promise<Reminder[]> {
+    const changed: Reminder[] = [];
+
+    for (const reminder of await this.reminders.list()) {
+      if (refreshReminderState(reminder, now)) {
+        await this.reminders.save(reminder);
+        changed.push(reminder);
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Load reminders as they stand now, or as they stood at a point in time
+   * Without asOf, due snoozes and expiries are applied and saved first; with asOf the
+   * reminders are rebuilt as of that time on copies and nothing is saved
+   * @param asOf Point in time (default: now)
+   * @returns Reminders
+   */
+  async listReminders(asOf?: Date): Promise<Reminder[]> {
+    if (!asOf) {
+      await this.refreshReminderStates();
+      return this.reminders.list();
+    }
+
+    return (await this.reminders.list())
+      .map((reminder) => reminderAsOf(reminder, asOf))
+      .filter((reminder): reminder is Reminder => reminder !== undefined);
+  }
+
+  /**
+   * Load relationship scores: the stored ones, or recalculated from stored data as of a
+   * point in time (nothing is saved)
+   * @param asOf Point in time (default: the stored scores)
+   * @returns Scores
+   */
+  async listScores(asOf?: Date): Promise<RelationshipScore[]> {
+    if (!asOf) {
+      return this.scores.list();
+    }
+
+    const [contacts, interactionsByContact, history, profile] = await Promise.all([
+      this.contacts.list(),
+      this.getInteractionsByContact(),
+      this.getScoreHistoryByContact(asOf),
+      this.profile.get(),
+    ]);
+    return calculateRelationshipScoresBatch(
+      contacts,
+      interactionsByContact,
+      {},
+      asOf,
+      history,
+      profile?.scoringProfiles,
+    );
+  }
+
+  /**
+   * Load a contact's relationship score, stored or recalculated as of a point in time
+   * @param contactId Contact ID
+   * @param asOf Point in time (default: the stored score)
+   * @returns Score, or undefined if there is none (or no such contact)
+   */
+  async getScore(contactId: string, asOf?: Date): Promise<RelationshipScore | undefined> {
+    if (!asOf) {
+      return this.scores.get(contactId);
+    }
+
+    const contact = await this.contacts.get(contactId);
+    if (!contact) {
+      return undefined;
+    }
+
+    return scoreContact(this.repositories, contact, await this.interactions.listByContact(contactId), asOf);
+  }
+
+  /**
+   * Recalculate a contact's score with a breakdown of how it came about (nothing is saved)
+   * @param contactId Contact ID
+   * @param asOf Point in time (default: now)
+   * @returns Score with per-component contributions, driving interactions and suggestions
+   */
+  async explainScore(contactId: string, asOf: Date = new Date()): Promise<ExplainedRelationshipScore> {
+    const contact = await this.requireContact(contactId);
+    const [interactions, history, config] = await Promise.all([
+      this.interactions.listByContact(contactId),
+      this.scoreHistory.listByContact(contactId),
+      contactScorerConfig(this.repositories, contact),
+    ]);
+
+    return calculateRelationshipScore(contact, interactions, config, asOf, {
+      history: history.filter((snapshot) => snapshot.takenAt <= asOf),
+      explain: true,
+    });
+  }
+
+  /**
+   * Load recorded score snapshots grouped by contact
+   * @param asOf Only snapshots taken up to this time (default: all)
+   * @returns Map of contactId to snapshots, oldest first
+   */
+  async getScoreHistoryByContact(asOf?: Date): Promise<Map<string, ScoreSnapshot[]>> {
+    const byContact = new Map<string, ScoreSnapshot[]>();
+
+    for (const snapshot of await this.scoreHistory.list()) {
+      if (asOf && snapshot.takenAt > asOf) {
+        continue;
+      }
+      if (!byContact.has(snapshot.contactId)) {
+        byContact.set(snapshot.contactId, []);
+      }
+      byContact.get(snapshot.contactId)!.push(snapshot);
+    }
+
+    return byContact;
+  }
+
+  /**
+   * Load a contact's score history
+   * @param contactId Contact ID
+   * @param options Resolution, day range and trend window
+   * @returns History points and trend
+   */
+  getScoreHistory(contactId: string, options: ScoreHistoryOptions): Promise<ScoreHistory> {
+    return getScoreHistory(this.repositories, contactId, options);
+  }
+
+  /**
+   * Save a score and record it as the contact's snapshot for today
+   * @param score Score to save
+   * @returns Recorded snapshot
+   */
+  saveScore(score: RelationshipScore): Promise<ScoreSnapshot> {
+    return saveScore(this.repositories, score);
+  }
+
+  /**
+   * Recalculate and snapshot the scores of contacts without a snapshot for today
+   * @param now Current time (default: now)
+   * @returns Number of contacts snapshotted
+   */
+  snapshotScores(now: Date = new Date()): Promise<number> {
+    return snapshotScores(this.repositories, now);
+  }
+
+  /**
+   * Build a daily or weekly digest of open reminders
+   * @param period Digest period
+   * @param timeZone Time zone for the period's days (default: the user's)
+   * @param now Current time (default: now)
+   * @returns Digest
+   */
+  async buildDigest(period: DigestPeriod, timeZone?: string, now: Date = new Date()): Promise<ReminderDigest> {
+    return buildReminderDigest(this.repositories, period, timeZone ?? (await this.getTimeZone()), now);
+  }
+
+  /**
+   * Snapshot stored data for reminder evaluation
+   * @returns Scheduler context
+   */
+  buildSchedulerContext(): Promise<SchedulerContext> {
+    return buildSchedulerContext(this.repositories);
+  }
+}
@@ -0,0 +1,310 @@
+import { Contact, DeliveryAttempt, Reminder, UserProfile, formatZonedDate } from '@keepclos/shared';
+import {
+  ReminderDigest,
+  isDigestDue,
+  renderDigestHtml,
+  renderDigestText,
+  transitionReminder,
+} from '@keepclos/reminder-engine';
+import {
+  DEFAULT_RETRY_POLICY,
+  DeliveryChannel,
+  DeliveryMessage,
+  RetryPolicy,
+  withRetry,
+} from '../delivery/index.js';
+import { DataService } from './data-service.js';
+
+/**
+ * Reminder delivery
+ * Sends due pending reminders through every configured channel with retry and backoff,
+ * records each attempt on the reminder and marks it sent only once a channel succeeded.
+ * When the user profile enables digests, open reminders go out as one scheduled digest
+ * instead of one message each
+ */
+
+const MAX_RECORDED_ATTEMPTS = 50;
+
+export interface DeliveryResult {
+  reminder: Reminder;
+  delivered: boolean;
+  channels: string[]; // Channels that accepted the reminder
+}
+
+export interface DeliverySummary {
+  startedAt: Date;
+  finishedAt: Date;
+  mode: 'individual' | 'digest';
+  attempted: number; // Reminders (including those in a digest) that were sent out
+  delivered: number;
+  failed: number;
+}
+
+export interface DigestDeliveryResult {
+  digest: ReminderDigest;
+  delivered: boolean;
+  channels: string[];
+}
+
+interface ChannelOutcome {
+  attempts: DeliveryAttempt[];
+  channels: string[]; // Channels that accepted the message
+}
+
+/**
+ * Render a digest for delivery
+ * @param digest Digest to render
+ * @returns Subject, plain-text and HTML bodies
+ */
+export function renderDigest(digest: ReminderDigest): DeliveryMessage {
+  return {
+    digest,
+    subject: digest.title,
+    text: renderDigestText(digest),
+    html: renderDigestHtml(digest),
+  };
+}
+
+/**
+ * Render a reminder for delivery
+ * @param reminder Reminder to render
+ * @param contact Contact the reminder is about (if it still exists)
+ * @param timeZone Time zone for the due date
+ * @returns Subject and plain-text body
+ */
+export function renderReminder(
+  reminder: Reminder,
+  contact: Contact | undefined,
+  timeZone: string,
+): DeliveryMessage {
+  const lines = [reminder.message, ''];
+
+  if (contact) {
+    lines.push(`Contact: ${contact.name}`);
+    if (contact.email) {
+      lines.push(`Email: ${contact.email}`);
+    }
+    if (contact.phone) {
+      lines.push(`Phone: ${contact.phone}`);
+    }
+  }
+  lines.push(`Due: ${formatZonedDate(reminder.dueDate, timeZone)}`);
+  if (reminder.reasons && reminder.reasons.length > 0) {
+    lines.push(`Why: ${reminder.reasons.join('; ')}`);
+  }
+
+  return {
+    reminder,
+    contact,
+    subject: `Reminder: ${contact?.name ?? reminder.message}`,
+    text: lines.join('\n'),
+  };
+}
+
+export class ReminderDispatcher {
+  private currentRun: Promise<DeliverySummary> | null = null;
+  private lastRun: DeliverySummary | null = null;
+
+  /**
+   * @param data Shared data service
+   * @param channels Channels every reminder is sent through
+   * @param retryPolicy Retry policy per channel and delivery round
+   * @param sleep Wait function between retries (injectable for tests)
+   */
+  constructor(
+    private data: DataService,
+    private channels: DeliveryChannel[],
+    private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+    private sleep?: (ms: number) => Promise<void>,
+  ) {}
+
+  /**
+   * Whether any channel is configured
+   */
+  isEnabled(): boolean {
+    return this.channels.length > 0;
+  }
+
+  /**
+   * Names of the configured channels
+   */
+  getChannelNames(): string[] {
+    return this.channels.map((channel) => channel.name);
+  }
+
+  /**
+   * Summary of the last delivery run, or null if none has run yet
+   */
+  getLastRun(): DeliverySummary | null {
+    return this.lastRun;
+  }
+
+  /**
+   * Deliver every pending reminder that is due
+   * Waits for an in-flight run instead of starting an overlapping one
+   * @param now Current time (default: now)
+   * @returns Run summary
+   */
+  async deliverDue(now: Date = new Date()): Promise<DeliverySummary> {
+    if (this.currentRun) {
+      return this.currentRun;
+    }
+
+    this.currentRun = this.runDelivery(now);
+    try {
+      return await this.currentRun;
+    } finally {
+      this.currentRun = null;
+    }
+  }
+
+  /**
+   * Deliver one reminder through all channels
+   * The reminder is marked sent when at least one channel succeeded; otherwise it stays
+   * pending and is retried on the next run
+   * @param reminder Reminder to deliver
+   * @returns Outcome and the channels that accepted the reminder
+   */
+  async deliver(reminder: Reminder): Promise<DeliveryResult> {
+    const contact = await this.data.contacts.get(reminder.contactId);
+    const message = renderReminder(reminder, contact, await this.data.getTimeZone(contact));
+    const { attempts, channels } = await this.sendToChannels(message);
+    const delivered = channels.length > 0;
+
+    const latest = await this.recordDelivery(reminder, attempts, delivered);
+    return { reminder: latest, delivered, channels };
+  }
+
+  /**
+   * Build and send the user's digest, marking its pending reminders as sent on success
+   * @param profile User profile with digest settings
+   * @param now Current time (default: now)
+   * @returns Digest and outcome
+   */
+  async deliverDigest(profile: UserProfile, now: Date = new Date()): Promise<DigestDeliveryResult> {
+    const digest = await this.data.buildDigest(profile.digest?.period ?? 'daily', profile.timeZone, now);
+
+    // Nothing to report still counts as this period's digest
+    if (digest.total === 0) {
+      await this.data.profile.save({ ...profile, lastDigestAt: now });
+      return { digest, delivered: false, channels: [] };
+    }
+
+    const { attempts, channels } = await this.sendToChannels(renderDigest(digest));
+    const delivered = channels.length > 0;
+
+    for (const group of digest.groups) {
+      for (const entry of group.entries) {
+        const reminder = await this.data.reminders.get(entry.reminderId);
+        if (reminder) {
+          await this.recordDelivery(reminder, attempts, delivered);
+        }
+      }
+    }
+
+    if (delivered) {
+      await this.data.profile.save({ ...profile, lastDigestAt: now });
+    }
+
+    return { digest, delivered, channels };
+  }
+
+  /**
+   * Send a message through every channel with retries
+   * A failing channel does not stop the remaining ones
+   */
+  private async sendToChannels(message: DeliveryMessage): Promise<ChannelOutcome> {
+    const attempts: DeliveryAttempt[] = [];
+    const channels: string[] = [];
+
+    for (const channel of this.channels) {
+      try {
+        await withRetry(
+          () => channel.send(message),
+          this.retryPolicy,
+          (attempt, error) => {
+            attempts.push({
+              channel: channel.name,
+              attempt,
+              attemptedAt: new Date(),
+              success: error === undefined,
+              error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+            });
+          },
+          this.sleep,
+        );
+        channels.push(channel.name);
+      } catch {
+        // Recorded in attempts
+      }
+    }
+
+    return { attempts, channels };
+  }
+
+  /**
+   * Append delivery attempts to a reminder and mark it sent if delivery succeeded
+   * @returns The saved reminder
+   */
+  private async recordDelivery(
+    reminder: Reminder,
+    attempts: DeliveryAttempt[],
+    delivered: boolean,
+  ): Promise<Reminder> {
+    // The reminder may have been snoozed, completed or dismissed while sending
+    const latest = (await this.data.reminders.get(reminder.id)) ?? reminder;
+    latest.deliveryAttempts = [...(latest.deliveryAttempts ?? []), ...attempts].slice(-MAX_RECORDED_ATTEMPTS);
+    latest.updatedAt = new Date();
+
+    if (delivered && latest.status === 'pending') {
+      transitionReminder(latest, 'sent');
+    }
+
+    await this.data.reminders.save(latest);
+    return latest;
+  }
+
+  /**
+   * Deliver due pending reminders earliest first, or the digest when one is due
+   */
+  private async runDelivery(now: Date): Promise<DeliverySummary> {
+    const startedAt = new Date();
+    const profile = await this.data.getProfile();
+    const mode = profile.digest ? 'digest' : 'individual';
+    let attempted = 0;
+    let delivered = 0;
+
+    if (this.isEnabled()) {
+      await this.data.refreshReminderStates(now);
+
+      if (profile.digest) {
+        if (isDigestDue(profile.digest, profile.lastDigestAt, now, profile.timeZone)) {
+          const result = await this.deliverDigest(profile, now);
+          attempted = result.digest.total;
+          delivered = result.delivered ? attempted : 0;
+        }
+      } else {
+        const due = (await this.data.reminders.list())
+          .filter((reminder) => reminder.status === 'pending' && reminder.dueDate <= now)
+          .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+
+        for (const reminder of due) {
+          attempted++;
+          if ((await this.deliver(reminder)).delivered) {
+            delivered++;
+          }
+        }
+      }
+    }
+
+    this.lastRun = {
+      startedAt,
+      finishedAt: new Date(),
+      mode,
+      attempted,
+      delivered,
+      failed: attempted - delivered,
+    };
+    return this.lastRun;
+  }
+}
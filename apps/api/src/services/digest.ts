@@ -0,0 +1,38 @@
+import { DigestPeriod, RelationshipScore, Reminder } from '@keepclos/shared';
+import { ReminderDigest, buildDigest, reminderAsOf } from '@keepclos/reminder-engine';
+import { Repositories } from '../storage/index.js';
+
+/**
+ * Builds reminder digests from stored data
+ */
+
+/**
+ * Build a digest of open reminders with contact names and relationship scores
+ * Reminders are taken as they stood at `now`, so past and future digests can be previewed
+ * @param repositories Storage backend
+ * @param period Daily or weekly digest
+ * @param timeZone Time zone the period's days are taken in
+ * @param now Current time (default: now)
+ * @returns Digest
+ */
+export async function buildReminderDigest(
+  repositories: Repositories,
+  period: DigestPeriod,
+  timeZone: string,
+  now: Date = new Date(),
+): Promise<ReminderDigest> {
+  const [reminders, contacts, scores] = await Promise.all([
+    repositories.reminders.list(),
+    repositories.contacts.list(),
+    repositories.scores.list(),
+  ]);
+
+  return buildDigest(
+    reminders
+      .map((reminder) => reminderAsOf(reminder, now))
+      .filter((reminder): reminder is Reminder => reminder !== undefined),
+    new Map(contacts.map((contact) => [contact.id, contact])),
+    new Map<string, RelationshipScore>(scores.map((score) => [score.contactId, score])),
+    { period, timeZone, now },
+  );
+}
@@ -0,0 +1,76 @@
+import { Reminder } from '@keepclos/shared';
+import { ReminderScheduler, SchedulerConfig } from '@keepclos/reminder-engine';
+import { DataService } from './data-service.js';
+import { ReminderDispatcher } from './delivery.js';
+
+/**
+ * Reminder scheduler wired to API storage
+ * Every cycle reads live data and persists generated reminders
+ */
+
+/**
+ * Persist generated reminders into the reminders store
+ * @param data Shared data service
+ * @param reminders Reminders to save
+ */
+export async function persistReminders(
+  data: DataService,
+  reminders: Reminder[],
+): Promise<void> {
+  for (const reminder of reminders) {
+    await data.reminders.save(reminder);
+  }
+}
+
+/**
+ * Per-cycle callback: persist generated reminders, then deliver everything that is due
+ * @param data Shared data service
+ * @param dispatcher Reminder delivery (omit to only persist)
+ * @returns Callback for ReminderScheduler.start and runOnce
+ */
+export function createCycleCallback(
+  data: DataService,
+  dispatcher?: ReminderDispatcher,
+): (reminders: Reminder[]) => Promise<void> {
+  return async (reminders) => {
+    await persistReminders(data, reminders);
+    if (dispatcher) {
+      await dispatcher.deliverDue();
+    }
+  };
+}
+
+/**
+ * Create a scheduler that builds its context from storage on each cycle
+ * Each cycle first applies due snooze wake-ups and expiries, and recalculates and
+ * snapshots the scores of contacts that have no snapshot for today
+ * @param data Shared data service
+ * @param config Scheduler configuration
+ * @returns Scheduler; call start() with createCycleCallback to run it
+ */
+export function createApiScheduler(
+  data: DataService,
+  config: Partial<SchedulerConfig> = {},
+): ReminderScheduler {
+  return new ReminderScheduler(async () => {
+    await data.refreshReminderStates();
+    await data.snapshotScores();
+    return data.buildSchedulerContext();
+  }, config);
+}
+
+/**
+ * Read scheduler configuration from environment variables
+ * SCHEDULER_INTERVAL_MS sets the evaluation interval
+ * @returns Partial scheduler configuration
+ */
+export function schedulerConfigFromEnv(): Partial<SchedulerConfig> {
+  const config: Partial<SchedulerConfig> = { enableLogging: true };
+
+  const intervalMs = parseInt(process.env.SCHEDULER_INTERVAL_MS ?? '', 10);
+  if (intervalMs > 0) {
+    config.evaluationIntervalMs = intervalMs;
+  }
+
+  return config;
+}
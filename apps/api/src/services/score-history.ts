@@ -0,0 +1,216 @@
+import {
+  Contact,
+  Interaction,
+  RelationshipScore,
+  ScoreSnapshot,
+  formatZonedDate,
+  systemTimeZone,
+} from '@keepclos/shared';
+import {
+  DEFAULT_TREND_WINDOW,
+  ScoreTrend,
+  ScorerConfig,
+  calculateRelationshipScore,
+  calculateScoreTrend,
+  scorerConfigFor,
+} from '@keepclos/context-engine';
+import { Repositories } from '../storage/index.js';
+import { groupInteractionsByContact } from './context.js';
+
+/**
+ * Relationship score history
+ * Every saved score is also recorded as the contact's snapshot for the day (in the user's
+ * time zone); the scheduler fills in a snapshot for contacts nobody interacted with
+ */
+
+export type HistoryResolution = 'daily' | 'weekly';
+
+export interface ScoreHistoryOptions {
+  resolution: HistoryResolution;
+  from?: string; // First day (YYYY-MM-DD) to include
+  to?: string; // Last day (YYYY-MM-DD) to include
+  trendWindow?: number; // Days the trend is fitted over (default: 90, as in the scorer)
+}
+
+export interface ScoreHistory {
+  contactId: string;
+  resolution: HistoryResolution;
+  points: Array<ScoreSnapshot & { period: string }>; // Last snapshot per day or week (starting Monday)
+  trend: ScoreTrend & { window: number };
+}
+
+/**
+ * User's time zone for snapshot days
+ */
+async function userTimeZone(repositories: Repositories): Promise<string> {
+  return (await repositories.profile.get())?.timeZone ?? systemTimeZone();
+}
+
+/**
+ * Scorer configuration from the scoring profile that applies to a contact
+ * @param repositories Storage backend
+ * @param contact Contact to score
+ * @returns The profile's settings (empty when no profile applies)
+ */
+export async function contactScorerConfig(
+  repositories: Repositories,
+  contact: Contact,
+): Promise<Partial<ScorerConfig>> {
+  return scorerConfigFor(contact, (await repositories.profile.get())?.scoringProfiles ?? []);
+}
+
+/**
+ * Calculate a contact's score with its recorded history and scoring profile
+ * @param repositories Storage backend
+ * @param contact Contact to score
+ * @param interactions The contact's interactions
+ * @param now Time to score at (default: now); later snapshots are ignored
+ * @returns Relationship score
+ */
+export async function scoreContact(
+  repositories: Repositories,
+  contact: Contact,
+  interactions: Interaction[],
+  now: Date = new Date(),
+): Promise<RelationshipScore> {
+  const [history, config] = await Promise.all([
+    repositories.scoreHistory.listByContact(contact.id),
+    contactScorerConfig(repositories, contact),
+  ]);
+  return scoreWithHistory(contact, interactions, config, history, now);
+}
+
+/**
+ * Calculate a contact's score from already loaded history and scorer settings
+ */
+function scoreWithHistory(
+  contact: Contact,
+  interactions: Interaction[],
+  config: Partial<ScorerConfig>,
+  history: ScoreSnapshot[],
+  now: Date,
+): RelationshipScore {
+  return calculateRelationshipScore(contact, interactions, config, now, {
+    history: history.filter((snapshot) => snapshot.takenAt <= now),
+  });
+}
+
+/**
+ * Save a contact's current score and record it as the day's snapshot
+ * @param repositories Storage backend
+ * @param score Score to save
+ * @param timeZone Time zone for the snapshot's day (default: the user's)
+ * @returns Recorded snapshot
+ */
+export async function saveScore(
+  repositories: Repositories,
+  score: RelationshipScore,
+  timeZone?: string,
+): Promise<ScoreSnapshot> {
+  await repositories.scores.save(score);
+
+  return repositories.scoreHistory.save({
+    contactId: score.contactId,
+    date: formatZonedDate(score.lastUpdated, timeZone ?? (await userTimeZone(repositories))),
+    takenAt: score.lastUpdated,
+    overall: score.overall,
+    recency: score.recency,
+    frequency: score.frequency,
+    engagement: score.engagement,
+  });
+}
+
+/**
+ * Recalculate and snapshot the scores of contacts that have no snapshot for today yet
+ * Scores decay without interactions, so this keeps the history (and stored scores) current
+ * @param repositories Storage backend
+ * @param now Current time (default: now)
+ * @returns Number of contacts snapshotted
+ */
+export async function snapshotScores(repositories: Repositories, now: Date = new Date()): Promise<number> {
+  const profile = await repositories.profile.get();
+  const timeZone = profile?.timeZone ?? systemTimeZone();
+  const [contacts, interactions, history, done] = await Promise.all([
+    repositories.contacts.list(),
+    repositories.interactions.list(),
+    repositories.scoreHistory.list(),
+    repositories.scoreHistory.listContactIdsOn(formatZonedDate(now, timeZone)),
+  ]);
+  const snapshotted = new Set(done);
+  const interactionsByContact = groupInteractionsByContact(interactions);
+  const historyByContact = new Map<string, ScoreSnapshot[]>();
+  for (const snapshot of history) {
+    if (!historyByContact.has(snapshot.contactId)) {
+      historyByContact.set(snapshot.contactId, []);
+    }
+    historyByContact.get(snapshot.contactId)!.push(snapshot);
+  }
+
+  let count = 0;
+  for (const contact of contacts) {
+    if (snapshotted.has(contact.id)) {
+      continue;
+    }
+
+    const score = scoreWithHistory(
+      contact,
+      interactionsByContact.get(contact.id) ?? [],
+      scorerConfigFor(contact, profile?.scoringProfiles ?? []),
+      historyByContact.get(contact.id) ?? [],
+      now,
+    );
+    await saveScore(repositories, score, timeZone);
+    count++;
+  }
+
+  return count;
+}
+
+/**
+ * Load a contact's score history at daily or weekly resolution
+ * The trend is fitted the way the scorer fits it, over the window ending now, whatever
+ * days the points are limited to
+ * @param repositories Storage backend
+ * @param contactId Contact ID
+ * @param options Resolution, day range and trend window
+ * @param now End of the trend window (default: now)
+ * @returns One point per day or week with snapshots, and the trend over the window
+ */
+export async function getScoreHistory(
+  repositories: Repositories,
+  contactId: string,
+  options: ScoreHistoryOptions,
+  now: Date = new Date(),
+): Promise<ScoreHistory> {
+  const history = await repositories.scoreHistory.listByContact(contactId);
+  const snapshots = history.filter(
+    (snapshot) => (!options.from || snapshot.date >= options.from) && (!options.to || snapshot.date <= options.to),
+  );
+
+  // Snapshots are oldest first, so the last one written per period wins
+  const byPeriod = new Map<string, ScoreSnapshot & { period: string }>();
+  for (const snapshot of snapshots) {
+    const period = options.resolution === 'weekly' ? weekStart(snapshot.date) : snapshot.date;
+    byPeriod.set(period, { ...snapshot, period });
+  }
+
+  const window = options.trendWindow ?? DEFAULT_TREND_WINDOW;
+
+  return {
+    contactId,
+    resolution: options.resolution,
+    points: Array.from(byPeriod.values()),
+    trend: { ...calculateScoreTrend(history, window, undefined, now), window },
+  };
+}
+
+/**
+ * Monday of the week containing a calendar day
+ * @param date Day as YYYY-MM-DD
+ * @returns Monday as YYYY-MM-DD
+ */
+function weekStart(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
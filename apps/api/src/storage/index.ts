@@ -0,0 +1,21 @@
+import { Repositories } from './types.js';
+import { createMemoryRepositories } from './memory.js';
+import { createPostgresRepositories } from './postgres.js';
+
+export * from './types.js';
+export * from './memory.js';
+export * from './postgres.js';
+export * from './migrations.js';
+
+/**
+ * Select the storage backend
+ * Uses PostgreSQL when a connection URL is given, otherwise in-memory storage
+ * @param databaseUrl PostgreSQL connection URL
+ * @returns Repositories for the chosen backend
+ */
+export function createRepositories(databaseUrl?: string): Repositories {
+  if (databaseUrl) {
+    return createPostgresRepositories(databaseUrl);
+  }
+  return createMemoryRepositories();
+}
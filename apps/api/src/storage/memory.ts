@@ -0,0 +1,158 @@
+import { Contact, Interaction, Reminder, Rule, RelationshipScore, ScoreSnapshot, UserProfile } from '@keepclos/shared';
+import {
+  ContactRepository,
+  InteractionRepository,
+  ReminderRepository,
+  RuleRepository,
+  RelationshipScoreRepository,
+  ScoreHistoryRepository,
+  ProfileRepository,
+  Repositories,
+} from './types.js';
+
+/**
+ * In-memory repositories backed by Maps
+ * Used for tests and local development when no DATABASE_URL is configured
+ */
+
+class MemoryStore<T> {
+  protected items = new Map<string, T>();
+
+  constructor(private keyOf: (item: T) => string) {}
+
+  async list(): Promise<T[]> {
+    return Array.from(this.items.values());
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    return this.items.get(id);
+  }
+
+  async save(item: T): Promise<T> {
+    this.items.set(this.keyOf(item), item);
+    return item;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.items.delete(id);
+  }
+
+  protected deleteWhere(predicate: (item: T) => boolean): number {
+    let deleted = 0;
+    for (const [key, item] of this.items) {
+      if (predicate(item)) {
+        this.items.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
+
+export class InMemoryContactRepository extends MemoryStore<Contact> implements ContactRepository {
+  constructor() {
+    super((contact) => contact.id);
+  }
+}
+
+export class InMemoryInteractionRepository
+  extends MemoryStore<Interaction>
+  implements InteractionRepository
+{
+  constructor() {
+    super((interaction) => interaction.id);
+  }
+
+  async listByContact(contactId: string): Promise<Interaction[]> {
+    return Array.from(this.items.values()).filter((i) => i.contactId === contactId);
+  }
+
+  async deleteByContact(contactId: string): Promise<number> {
+    return this.deleteWhere((i) => i.contactId === contactId);
+  }
+}
+
+export class InMemoryReminderRepository extends MemoryStore<Reminder> implements ReminderRepository {
+  constructor() {
+    super((reminder) => reminder.id);
+  }
+
+  async listByContact(contactId: string): Promise<Reminder[]> {
+    return Array.from(this.items.values()).filter((r) => r.contactId === contactId);
+  }
+
+  async deleteByContact(contactId: string): Promise<number> {
+    return this.deleteWhere((r) => r.contactId === contactId);
+  }
+}
+
+export class InMemoryRuleRepository extends MemoryStore<Rule> implements RuleRepository {
+  constructor() {
+    super((rule) => rule.id);
+  }
+}
+
+export class InMemoryRelationshipScoreRepository
+  extends MemoryStore<RelationshipScore>
+  implements RelationshipScoreRepository
+{
+  constructor() {
+    super((score) => score.contactId);
+  }
+}
+
+export class InMemoryScoreHistoryRepository
+  extends MemoryStore<ScoreSnapshot>
+  implements ScoreHistoryRepository
+{
+  constructor() {
+    super((snapshot) => `${snapshot.contactId}:${snapshot.date}`);
+  }
+
+  async listByContact(contactId: string): Promise<ScoreSnapshot[]> {
+    return Array.from(this.items.values())
+      .filter((s) => s.contactId === contactId)
+      .sort((a, b) => a.takenAt.getTime() - b.takenAt.getTime());
+  }
+
+  async listContactIdsOn(date: string): Promise<string[]> {
+    return Array.from(this.items.values())
+      .filter((s) => s.date === date)
+      .map((s) => s.contactId);
+  }
+
+  async deleteByContact(contactId: string): Promise<number> {
+    return this.deleteWhere((s) => s.contactId === contactId);
+  }
+}
+
+export class InMemoryProfileRepository implements ProfileRepository {
+  private profile: UserProfile | undefined;
+
+  async get(): Promise<UserProfile | undefined> {
+    return this.profile;
+  }
+
+  async save(profile: UserProfile): Promise<UserProfile> {
+    this.profile = profile;
+    return profile;
+  }
+}
+
+/**
+ * Create a fresh set of in-memory repositories
+ * @returns Repositories with empty stores
+ */
+export function createMemoryRepositories(): Repositories {
+  return {
+    contacts: new InMemoryContactRepository(),
+    interactions: new InMemoryInteractionRepository(),
+    reminders: new InMemoryReminderRepository(),
+    rules: new InMemoryRuleRepository(),
+    scores: new InMemoryRelationshipScoreRepository(),
+    scoreHistory: new InMemoryScoreHistoryRepository(),
+    profile: new InMemoryProfileRepository(),
+    init: async () => {},
+    close: async () => {},
+  };
+}
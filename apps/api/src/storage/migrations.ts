@@ -0,0 +1,235 @@
+import pg from 'pg';
+
+/**
+ * Versioned SQL migrations for the PostgreSQL store
+ * Migrations are applied in order and recorded in schema_migrations; never edit an applied one
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    sql: `
+      CREATE TABLE contacts (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        email TEXT,
+        phone TEXT,
+        tags TEXT[] NOT NULL DEFAULT '{}',
+        notes TEXT NOT NULL DEFAULT '',
+        last_contacted_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL
+      );
+
+      CREATE TABLE interactions (
+        id TEXT PRIMARY KEY,
+        contact_id TEXT NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+        type TEXT NOT NULL,
+        timestamp TIMESTAMPTZ NOT NULL,
+        duration DOUBLE PRECISION,
+        notes TEXT,
+        quality DOUBLE PRECISION NOT NULL
+      );
+      CREATE INDEX interactions_contact_id_idx ON interactions (contact_id, timestamp);
+
+      CREATE TABLE rules (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT,
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        config JSONB NOT NULL DEFAULT '{}',
+        created_at TIMESTAMPTZ NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL
+      );
+
+      CREATE TABLE reminders (
+        id TEXT PRIMARY KEY,
+        contact_id TEXT NOT NULL,
+        message TEXT NOT NULL,
+        due_date TIMESTAMPTZ NOT NULL,
+        status TEXT NOT NULL,
+        rule JSONB,
+        created_at TIMESTAMPTZ NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL,
+        sent_at TIMESTAMPTZ
+      );
+      CREATE INDEX reminders_contact_id_idx ON reminders (contact_id);
+      CREATE INDEX reminders_status_due_date_idx ON reminders (status, due_date);
+
+      CREATE TABLE relationship_scores (
+        contact_id TEXT PRIMARY KEY,
+        overall DOUBLE PRECISION NOT NULL,
+        recency DOUBLE PRECISION NOT NULL,
+        frequency DOUBLE PRECISION NOT NULL,
+        engagement DOUBLE PRECISION NOT NULL,
+        trend TEXT NOT NULL,
+        last_updated TIMESTAMPTZ NOT NULL
+      );
+    `,
+  },
+  {
+    version: 2,
+    name: 'contact_multi_value_fields',
+    sql: `
+      ALTER TABLE contacts
+        ADD COLUMN emails JSONB,
+        ADD COLUMN phones JSONB,
+        ADD COLUMN addresses JSONB,
+        ADD COLUMN urls JSONB;
+
+      UPDATE contacts
+        SET emails = jsonb_build_array(jsonb_build_object('label', 'other', 'value', email, 'primary', true))
+        WHERE email IS NOT NULL AND email <> '';
+      UPDATE contacts
+        SET phones = jsonb_build_array(jsonb_build_object('label', 'other', 'value', phone, 'primary', true))
+        WHERE phone IS NOT NULL AND phone <> '';
+    `,
+  },
+  {
+    version: 3,
+    name: 'contact_important_dates',
+    sql: `
+      ALTER TABLE contacts ADD COLUMN important_dates JSONB;
+    `,
+  },
+  {
+    version: 4,
+    name: 'time_zones',
+    sql: `
+      ALTER TABLE contacts ADD COLUMN time_zone TEXT;
+
+      CREATE TABLE user_profile (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        name TEXT,
+        time_zone TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL
+      );
+    `,
+  },
+  {
+    version: 5,
+    name: 'reminder_lifecycle',
+    sql: `
+      ALTER TABLE reminders
+        ADD COLUMN snoozed_until TIMESTAMPTZ,
+        ADD COLUMN completed_at TIMESTAMPTZ,
+        ADD COLUMN expires_at TIMESTAMPTZ,
+        ADD COLUMN interaction_id TEXT;
+    `,
+  },
+  {
+    version: 6,
+    name: 'reminder_delivery_attempts',
+    sql: `
+      ALTER TABLE reminders ADD COLUMN delivery_attempts JSONB;
+    `,
+  },
+  {
+    version: 7,
+    name: 'reminder_digests',
+    sql: `
+      ALTER TABLE user_profile
+        ADD COLUMN digest JSONB,
+        ADD COLUMN last_digest_at TIMESTAMPTZ;
+    `,
+  },
+  {
+    version: 8,
+    name: 'reminder_policy',
+    sql: `
+      ALTER TABLE user_profile ADD COLUMN reminder_policy JSONB;
+    `,
+  },
+  {
+    version: 9,
+    name: 'reminder_reasons',
+    sql: `
+      ALTER TABLE reminders ADD COLUMN reasons TEXT[];
+    `,
+  },
+  {
+    version: 10,
+    name: 'score_history',
+    sql: `
+      CREATE TABLE score_history (
+        contact_id TEXT NOT NULL,
+        date DATE NOT NULL,
+        taken_at TIMESTAMPTZ NOT NULL,
+        overall DOUBLE PRECISION NOT NULL,
+        recency DOUBLE PRECISION NOT NULL,
+        frequency DOUBLE PRECISION NOT NULL,
+        engagement DOUBLE PRECISION NOT NULL,
+        PRIMARY KEY (contact_id, date)
+      );
+      CREATE INDEX score_history_date_idx ON score_history (date);
+
+      ALTER TABLE relationship_scores ADD COLUMN trend_slope DOUBLE PRECISION;
+    `,
+  },
+  {
+    version: 11,
+    name: 'scoring_profiles',
+    sql: `
+      ALTER TABLE user_profile ADD COLUMN scoring_profiles JSONB;
+    `,
+  },
+];
+
+/**
+ * Apply all pending migrations inside individual transactions
+ * @param pool Connection pool
+ * @param migrations Migrations to apply (default: MIGRATIONS)
+ * @returns Versions that were applied in this run
+ */
+export async function runMigrations(
+  pool: pg.Pool,
+  migrations: Migration[] = MIGRATIONS,
+): Promise<number[]> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+
+  const result = await pool.query<{ version: number }>('SELECT version FROM schema_migrations');
+  const appliedVersions = new Set(result.rows.map((row) => row.version));
+  const applied: number[] = [];
+
+  const pending = [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter((migration) => !appliedVersions.has(migration.version));
+
+  for (const migration of pending) {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(migration.sql);
+      await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [
+        migration.version,
+        migration.name,
+      ]);
+      await client.query('COMMIT');
+      applied.push(migration.version);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  return applied;
+}
@@ -0,0 +1,665 @@
+import pg from 'pg';
+import {
+  Contact,
+  DeliveryAttempt,
+  Interaction,
+  Reminder,
+  Rule,
+  RelationshipScore,
+  ScoreSnapshot,
+  UserProfile,
+} from '@keepclos/shared';
+import {
+  ContactRepository,
+  InteractionRepository,
+  ReminderRepository,
+  RuleRepository,
+  RelationshipScoreRepository,
+  ScoreHistoryRepository,
+  ProfileRepository,
+  Repositories,
+} from './types.js';
+import { runMigrations } from './migrations.js';
+
+/**
+ * PostgreSQL repositories
+ * Each repository maps between snake_case rows and the shared domain types
+ */
+
+/**
+ * Rows as pg returns them: TIMESTAMPTZ as Date, JSONB parsed, TEXT[] as arrays, NULL as null
+ */
+
+type ContactRow = {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  emails: Contact['emails'] | null;
+  phones: Contact['phones'] | null;
+  addresses: Contact['addresses'] | null;
+  urls: Contact['urls'] | null;
+  important_dates: Contact['importantDates'] | null;
+  time_zone: string | null;
+  tags: string[] | null;
+  notes: string;
+  last_contacted_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+type InteractionRow = {
+  id: string;
+  contact_id: string;
+  type: Interaction['type'];
+  timestamp: Date;
+  duration: number | null;
+  notes: string | null;
+  quality: number;
+};
+
+type ReminderRow = {
+  id: string;
+  contact_id: string;
+  message: string;
+  due_date: Date;
+  status: Reminder['status'];
+  rule: SerializedRule | null;
+  created_at: Date;
+  updated_at: Date;
+  sent_at: Date | null;
+  snoozed_until: Date | null;
+  completed_at: Date | null;
+  expires_at: Date | null;
+  interaction_id: string | null;
+  delivery_attempts: SerializedDeliveryAttempt[] | null;
+  reasons: string[] | null;
+};
+
+type RuleRow = {
+  id: string;
+  type: Rule['type'];
+  name: string;
+  description: string | null;
+  enabled: boolean;
+  config: Rule['config'];
+  created_at: Date;
+  updated_at: Date;
+};
+
+type ScoreRow = {
+  contact_id: string;
+  overall: number;
+  recency: number;
+  frequency: number;
+  engagement: number;
+  trend: RelationshipScore['trend'];
+  trend_slope: number | null;
+  last_updated: Date;
+};
+
+type SnapshotRow = {
+  contact_id: string;
+  date: string; // Selected as YYYY-MM-DD text (see SNAPSHOT_COLUMNS)
+  taken_at: Date;
+  overall: number;
+  recency: number;
+  frequency: number;
+  engagement: number;
+};
+
+type ProfileRow = {
+  name: string | null;
+  time_zone: string;
+  digest: UserProfile['digest'] | null;
+  last_digest_at: Date | null;
+  reminder_policy: UserProfile['reminderPolicy'] | null;
+  scoring_profiles: UserProfile['scoringProfiles'] | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+// JSONB copies of domain objects carry their dates as ISO strings
+type SerializedRule = Omit<Rule, 'createdAt' | 'updatedAt'> & { createdAt: string; updatedAt: string };
+type SerializedDeliveryAttempt = Omit<DeliveryAttempt, 'attemptedAt'> & { attemptedAt: string };
+
+/**
+ * Convert a nullable column to an optional field
+ */
+function optional<T>(value: T | null): T | undefined {
+  return value === null ? undefined : value;
+}
+
+/**
+ * Serialize an optional value for a JSONB column (pg would send arrays as Postgres arrays)
+ */
+function jsonOrNull(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+/**
+ * Rebuild a Rule from its JSON form (dates are serialized as strings)
+ */
+function reviveRule(data: SerializedRule): Rule {
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+  };
+}
+
+/**
+ * Rebuild delivery attempts from their JSON form (dates are serialized as strings)
+ */
+function reviveDeliveryAttempts(data: SerializedDeliveryAttempt[] | null): DeliveryAttempt[] | undefined {
+  return data?.map((attempt) => ({ ...attempt, attemptedAt: new Date(attempt.attemptedAt) }));
+}
+
+function toContact(row: ContactRow): Contact {
+  return {
+    id: row.id,
+    name: row.name,
+    email: optional(row.email),
+    phone: optional(row.phone),
+    emails: optional(row.emails),
+    phones: optional(row.phones),
+    addresses: optional(row.addresses),
+    urls: optional(row.urls),
+    importantDates: optional(row.important_dates),
+    timeZone: optional(row.time_zone),
+    tags: row.tags ?? [],
+    notes: row.notes,
+    lastContactedAt: optional(row.last_contacted_at),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toInteraction(row: InteractionRow): Interaction {
+  return {
+    id: row.id,
+    contactId: row.contact_id,
+    type: row.type,
+    timestamp: row.timestamp,
+    duration: optional(row.duration),
+    notes: optional(row.notes),
+    quality: row.quality,
+  };
+}
+
+function toReminder(row: ReminderRow): Reminder {
+  return {
+    id: row.id,
+    contactId: row.contact_id,
+    message: row.message,
+    dueDate: row.due_date,
+    status: row.status,
+    rule: row.rule ? reviveRule(row.rule) : undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    sentAt: optional(row.sent_at),
+    snoozedUntil: optional(row.snoozed_until),
+    completedAt: optional(row.completed_at),
+    expiresAt: optional(row.expires_at),
+    interactionId: optional(row.interaction_id),
+    deliveryAttempts: reviveDeliveryAttempts(row.delivery_attempts),
+    reasons: optional(row.reasons),
+  };
+}
+
+function toRule(row: RuleRow): Rule {
+  return {
+    id: row.id,
+    type: row.type,
+    name: row.name,
+    description: optional(row.description),
+    enabled: row.enabled,
+    config: row.config,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toScore(row: ScoreRow): RelationshipScore {
+  return {
+    contactId: row.contact_id,
+    overall: row.overall,
+    recency: row.recency,
+    frequency: row.frequency,
+    engagement: row.engagement,
+    trend: row.trend,
+    trendSlope: optional(row.trend_slope),
+    lastUpdated: row.last_updated,
+  };
+}
+
+function toSnapshot(row: SnapshotRow): ScoreSnapshot {
+  return {
+    contactId: row.contact_id,
+    date: row.date,
+    takenAt: row.taken_at,
+    overall: row.overall,
+    recency: row.recency,
+    frequency: row.frequency,
+    engagement: row.engagement,
+  };
+}
+
+function toProfile(row: ProfileRow): UserProfile {
+  return {
+    name: optional(row.name),
+    timeZone: row.time_zone,
+    digest: optional(row.digest),
+    lastDigestAt: optional(row.last_digest_at),
+    reminderPolicy: optional(row.reminder_policy),
+    scoringProfiles: optional(row.scoring_profiles),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class PostgresContactRepository implements ContactRepository {
+  constructor(private pool: pg.Pool) {}
+
+  async list(): Promise<Contact[]> {
+    const result = await this.pool.query<ContactRow>('SELECT * FROM contacts');
+    return result.rows.map(toContact);
+  }
+
+  async get(id: string): Promise<Contact | undefined> {
+    const result = await this.pool.query<ContactRow>('SELECT * FROM contacts WHERE id = $1', [id]);
+    return result.rows[0] ? toContact(result.rows[0]) : undefined;
+  }
+
+  async save(contact: Contact): Promise<Contact> {
+    await this.pool.query(
+      `INSERT INTO contacts (id, name, email, phone, emails, phones, addresses, urls, important_dates,
+                             time_zone, tags, notes, last_contacted_at, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+       ON CONFLICT (id) DO UPDATE SET
+         name = EXCLUDED.name,
+         email = EXCLUDED.email,
+         phone = EXCLUDED.phone,
+         emails = EXCLUDED.emails,
+         phones = EXCLUDED.phones,
+         addresses = EXCLUDED.addresses,
+         urls = EXCLUDED.urls,
+         important_dates = EXCLUDED.important_dates,
+         time_zone = EXCLUDED.time_zone,
+         tags = EXCLUDED.tags,
+         notes = EXCLUDED.notes,
+         last_contacted_at = EXCLUDED.last_contacted_at,
+         updated_at = EXCLUDED.updated_at`,
+      [
+        contact.id,
+        contact.name,
+        contact.email ?? null,
+        contact.phone ?? null,
+        jsonOrNull(contact.emails),
+        jsonOrNull(contact.phones),
+        jsonOrNull(contact.addresses),
+        jsonOrNull(contact.urls),
+        jsonOrNull(contact.importantDates),
+        contact.timeZone ?? null,
+        contact.tags,
+        contact.notes,
+        contact.lastContactedAt ?? null,
+        contact.createdAt,
+        contact.updatedAt,
+      ],
+    );
+    return contact;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM contacts WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+export class PostgresInteractionRepository implements InteractionRepository {
+  constructor(private pool: pg.Pool) {}
+
+  async list(): Promise<Interaction[]> {
+    const result = await this.pool.query<InteractionRow>('SELECT * FROM interactions ORDER BY timestamp');
+    return result.rows.map(toInteraction);
+  }
+
+  async listByContact(contactId: string): Promise<Interaction[]> {
+    const result = await this.pool.query<InteractionRow>(
+      'SELECT * FROM interactions WHERE contact_id = $1 ORDER BY timestamp',
+      [contactId],
+    );
+    return result.rows.map(toInteraction);
+  }
+
+  async get(id: string): Promise<Interaction | undefined> {
+    const result = await this.pool.query<InteractionRow>('SELECT * FROM interactions WHERE id = $1', [id]);
+    return result.rows[0] ? toInteraction(result.rows[0]) : undefined;
+  }
+
+  async save(interaction: Interaction): Promise<Interaction> {
+    await this.pool.query(
+      `INSERT INTO interactions (id, contact_id, type, timestamp, duration, notes, quality)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (id) DO UPDATE SET
+         contact_id = EXCLUDED.contact_id,
+         type = EXCLUDED.type,
+         timestamp = EXCLUDED.timestamp,
+         duration = EXCLUDED.duration,
+         notes = EXCLUDED.notes,
+         quality = EXCLUDED.quality`,
+      [
+        interaction.id,
+        interaction.contactId,
+        interaction.type,
+        interaction.timestamp,
+        interaction.duration ?? null,
+        interaction.notes ?? null,
+        interaction.quality,
+      ],
+    );
+    return interaction;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM interactions WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteByContact(contactId: string): Promise<number> {
+    const result = await this.pool.query('DELETE FROM interactions WHERE contact_id = $1', [
+      contactId,
+    ]);
+    return result.rowCount ?? 0;
+  }
+}
+
+export class PostgresReminderRepository implements ReminderRepository {
+  constructor(private pool: pg.Pool) {}
+
+  async list(): Promise<Reminder[]> {
+    const result = await this.pool.query<ReminderRow>('SELECT * FROM reminders');
+    return result.rows.map(toReminder);
+  }
+
+  async listByContact(contactId: string): Promise<Reminder[]> {
+    const result = await this.pool.query<ReminderRow>('SELECT * FROM reminders WHERE contact_id = $1', [
+      contactId,
+    ]);
+    return result.rows.map(toReminder);
+  }
+
+  async get(id: string): Promise<Reminder | undefined> {
+    const result = await this.pool.query<ReminderRow>('SELECT * FROM reminders WHERE id = $1', [id]);
+    return result.rows[0] ? toReminder(result.rows[0]) : undefined;
+  }
+
+  async save(reminder: Reminder): Promise<Reminder> {
+    await this.pool.query(
+      `INSERT INTO reminders (id, contact_id, message, due_date, status, rule, created_at, updated_at, sent_at,
+         snoozed_until, completed_at, expires_at, interaction_id, delivery_attempts, reasons)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+       ON CONFLICT (id) DO UPDATE SET
+         contact_id = EXCLUDED.contact_id,
+         message = EXCLUDED.message,
+         due_date = EXCLUDED.due_date,
+         status = EXCLUDED.status,
+         rule = EXCLUDED.rule,
+         updated_at = EXCLUDED.updated_at,
+         sent_at = EXCLUDED.sent_at,
+         snoozed_until = EXCLUDED.snoozed_until,
+         completed_at = EXCLUDED.completed_at,
+         expires_at = EXCLUDED.expires_at,
+         interaction_id = EXCLUDED.interaction_id,
+         delivery_attempts = EXCLUDED.delivery_attempts,
+         reasons = EXCLUDED.reasons`,
+      [
+        reminder.id,
+        reminder.contactId,
+        reminder.message,
+        reminder.dueDate,
+        reminder.status,
+        reminder.rule ? JSON.stringify(reminder.rule) : null,
+        reminder.createdAt,
+        reminder.updatedAt,
+        reminder.sentAt ?? null,
+        reminder.snoozedUntil ?? null,
+        reminder.completedAt ?? null,
+        reminder.expiresAt ?? null,
+        reminder.interactionId ?? null,
+        jsonOrNull(reminder.deliveryAttempts),
+        reminder.reasons ?? null,
+      ],
+    );
+    return reminder;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM reminders WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteByContact(contactId: string): Promise<number> {
+    const result = await this.pool.query('DELETE FROM reminders WHERE contact_id = $1', [
+      contactId,
+    ]);
+    return result.rowCount ?? 0;
+  }
+}
+
+export class PostgresRuleRepository implements RuleRepository {
+  constructor(private pool: pg.Pool) {}
+
+  async list(): Promise<Rule[]> {
+    const result = await this.pool.query<RuleRow>('SELECT * FROM rules ORDER BY created_at');
+    return result.rows.map(toRule);
+  }
+
+  async get(id: string): Promise<Rule | undefined> {
+    const result = await this.pool.query<RuleRow>('SELECT * FROM rules WHERE id = $1', [id]);
+    return result.rows[0] ? toRule(result.rows[0]) : undefined;
+  }
+
+  async save(rule: Rule): Promise<Rule> {
+    await this.pool.query(
+      `INSERT INTO rules (id, type, name, description, enabled, config, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (id) DO UPDATE SET
+         type = EXCLUDED.type,
+         name = EXCLUDED.name,
+         description = EXCLUDED.description,
+         enabled = EXCLUDED.enabled,
+         config = EXCLUDED.config,
+         updated_at = EXCLUDED.updated_at`,
+      [
+        rule.id,
+        rule.type,
+        rule.name,
+        rule.description ?? null,
+        rule.enabled,
+        JSON.stringify(rule.config),
+        rule.createdAt,
+        rule.updatedAt,
+      ],
+    );
+    return rule;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM rules WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+export class PostgresRelationshipScoreRepository implements RelationshipScoreRepository {
+  constructor(private pool: pg.Pool) {}
+
+  async list(): Promise<RelationshipScore[]> {
+    const result = await this.pool.query<ScoreRow>('SELECT * FROM relationship_scores');
+    return result.rows.map(toScore);
+  }
+
+  async get(contactId: string): Promise<RelationshipScore | undefined> {
+    const result = await this.pool.query<ScoreRow>(
+      'SELECT * FROM relationship_scores WHERE contact_id = $1',
+      [contactId],
+    );
+    return result.rows[0] ? toScore(result.rows[0]) : undefined;
+  }
+
+  async save(score: RelationshipScore): Promise<RelationshipScore> {
+    await this.pool.query(
+      `INSERT INTO relationship_scores
+         (contact_id, overall, recency, frequency, engagement, trend, last_updated, trend_slope)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (contact_id) DO UPDATE SET
+         overall = EXCLUDED.overall,
+         recency = EXCLUDED.recency,
+         frequency = EXCLUDED.frequency,
+         engagement = EXCLUDED.engagement,
+         trend = EXCLUDED.trend,
+         last_updated = EXCLUDED.last_updated,
+         trend_slope = EXCLUDED.trend_slope`,
+      [
+        score.contactId,
+        score.overall,
+        score.recency,
+        score.frequency,
+        score.engagement,
+        score.trend,
+        score.lastUpdated,
+        score.trendSlope ?? null,
+      ],
+    );
+    return score;
+  }
+
+  async delete(contactId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'DELETE FROM relationship_scores WHERE contact_id = $1',
+      [contactId],
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+// Dates are read back as text; pg would turn DATE columns into local-midnight Date objects
+const SNAPSHOT_COLUMNS =
+  "contact_id, to_char(date, 'YYYY-MM-DD') AS date, taken_at, overall, recency, frequency, engagement";
+
+export class PostgresScoreHistoryRepository implements ScoreHistoryRepository {
+  constructor(private pool: pg.Pool) {}
+
+  async list(): Promise<ScoreSnapshot[]> {
+    const result = await this.pool.query<SnapshotRow>(
+      `SELECT ${SNAPSHOT_COLUMNS} FROM score_history ORDER BY taken_at`,
+    );
+    return result.rows.map(toSnapshot);
+  }
+
+  async listByContact(contactId: string): Promise<ScoreSnapshot[]> {
+    const result = await this.pool.query<SnapshotRow>(
+      `SELECT ${SNAPSHOT_COLUMNS} FROM score_history WHERE contact_id = $1 ORDER BY taken_at`,
+      [contactId],
+    );
+    return result.rows.map(toSnapshot);
+  }
+
+  async listContactIdsOn(date: string): Promise<string[]> {
+    const result = await this.pool.query<Pick<SnapshotRow, 'contact_id'>>(
+      'SELECT contact_id FROM score_history WHERE date = $1',
+      [date],
+    );
+    return result.rows.map((row) => row.contact_id);
+  }
+
+  async save(snapshot: ScoreSnapshot): Promise<ScoreSnapshot> {
+    await this.pool.query(
+      `INSERT INTO score_history (contact_id, date, taken_at, overall, recency, frequency, engagement)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (contact_id, date) DO UPDATE SET
+         taken_at = EXCLUDED.taken_at,
+         overall = EXCLUDED.overall,
+         recency = EXCLUDED.recency,
+         frequency = EXCLUDED.frequency,
+         engagement = EXCLUDED.engagement`,
+      [
+        snapshot.contactId,
+        snapshot.date,
+        snapshot.takenAt,
+        snapshot.overall,
+        snapshot.recency,
+        snapshot.frequency,
+        snapshot.engagement,
+      ],
+    );
+    return snapshot;
+  }
+
+  async deleteByContact(contactId: string): Promise<number> {
+    const result = await this.pool.query('DELETE FROM score_history WHERE contact_id = $1', [contactId]);
+    return result.rowCount ?? 0;
+  }
+}
+
+export class PostgresProfileRepository implements ProfileRepository {
+  constructor(private pool: pg.Pool) {}
+
+  async get(): Promise<UserProfile | undefined> {
+    const result = await this.pool.query<ProfileRow>('SELECT * FROM user_profile WHERE id = 1');
+    return result.rows[0] ? toProfile(result.rows[0]) : undefined;
+  }
+
+  async save(profile: UserProfile): Promise<UserProfile> {
+    await this.pool.query(
+      `INSERT INTO user_profile
+         (id, name, time_zone, digest, last_digest_at, reminder_policy, scoring_profiles, created_at, updated_at)
+       VALUES (1, $1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (id) DO UPDATE SET
+         name = EXCLUDED.name,
+         time_zone = EXCLUDED.time_zone,
+         digest = EXCLUDED.digest,
+         last_digest_at = EXCLUDED.last_digest_at,
+         reminder_policy = EXCLUDED.reminder_policy,
+         scoring_profiles = EXCLUDED.scoring_profiles,
+         updated_at = EXCLUDED.updated_at`,
+      [
+        profile.name ?? null,
+        profile.timeZone,
+        jsonOrNull(profile.digest),
+        profile.lastDigestAt ?? null,
+        jsonOrNull(profile.reminderPolicy),
+        jsonOrNull(profile.scoringProfiles),
+        profile.createdAt,
+        profile.updatedAt,
+      ],
+    );
+    return profile;
+  }
+}
+
+/**
+ * Create PostgreSQL-backed repositories sharing one connection pool
+ * @param connectionString PostgreSQL connection URL (e.g. DATABASE_URL)
+ * @returns Repositories; call init() before use to apply migrations
+ */
+export function createPostgresRepositories(connectionString: string): Repositories {
+  const pool = new pg.Pool({ connectionString });
+
+  return {
+    contacts: new PostgresContactRepository(pool),
+    interactions: new PostgresInteractionRepository(pool),
+    reminders: new PostgresReminderRepository(pool),
+    rules: new PostgresRuleRepository(pool),
+    scores: new PostgresRelationshipScoreRepository(pool),
+    scoreHistory: new PostgresScoreHistoryRepository(pool),
+    profile: new PostgresProfileRepository(pool),
+    init: async () => {
+      await runMigrations(pool);
+    },
+    close: async () => {
+      await pool.end();
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { Contact, Interaction, Reminder, Rule, RelationshipScore, ScoreSnapshot, UserProfile } from '@keepclos/shared';
+
+/**
+ * Repository abstraction for API persistence
+ * Routers depend only on these interfaces; the backing store is chosen at startup
+ */
+
+export interface ContactRepository {
+  list(): Promise<Contact[]>;
+  get(id: string): Promise<Contact | undefined>;
+  save(contact: Contact): Promise<Contact>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface InteractionRepository {
+  list(): Promise<Interaction[]>;
+  listByContact(contactId: string): Promise<Interaction[]>;
+  get(id: string): Promise<Interaction | undefined>;
+  save(interaction: Interaction): Promise<Interaction>;
+  delete(id: string): Promise<boolean>;
+  deleteByContact(contactId: string): Promise<number>;
+}
+
+export interface ReminderRepository {
+  list(): Promise<Reminder[]>;
+  listByContact(contactId: string): Promise<Reminder[]>;
+  get(id: string): Promise<Reminder | undefined>;
+  save(reminder: Reminder): Promise<Reminder>;
+  delete(id: string): Promise<boolean>;
+  deleteByContact(contactId: string): Promise<number>;
+}
+
+export interface RuleRepository {
+  list(): Promise<Rule[]>;
+  get(id: string): Promise<Rule | undefined>;
+  save(rule: Rule): Promise<Rule>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface RelationshipScoreRepository {
+  list(): Promise<RelationshipScore[]>;
+  get(contactId: string): Promise<RelationshipScore | undefined>;
+  save(score: RelationshipScore): Promise<RelationshipScore>;
+  delete(contactId: string): Promise<boolean>;
+}
+
+export interface ScoreHistoryRepository {
+  list(): Promise<ScoreSnapshot[]>;
+  listByContact(contactId: string): Promise<ScoreSnapshot[]>; // Oldest first
+  listContactIdsOn(date: string): Promise<string[]>; // Contacts with a snapshot on that day
+  save(snapshot: ScoreSnapshot): Promise<ScoreSnapshot>; // Replaces the contact's snapshot for that day
+  deleteByContact(contactId: string): Promise<number>;
+}
+
+export interface ProfileRepository {
+  get(): Promise<UserProfile | undefined>;
+  save(profile: UserProfile): Promise<UserProfile>;
+}
+
+export interface Repositories {
+  contacts: ContactRepository;
+  interactions: InteractionRepository;
+  reminders: ReminderRepository;
+  rules: RuleRepository;
+  scores: RelationshipScoreRepository;
+  scoreHistory: ScoreHistoryRepository;
+  profile: ProfileRepository;
+
+  /**
+   * Prepare the backing store (e.g. run pending migrations)
+   */
+  init(): Promise<void>;
+
+  /**
+   * Release connections held by the backing store
+   */
+  close(): Promise<void>;
+}
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Reminder } from '@keepclos/shared';
+import { snoozeReminder } from '@keepclos/reminder-engine';
+import { DataService } from '../src/services/data-service.js';
+import { createRelationshipsRouter } from '../src/routes/relationships.js';
+import { createRemindersRouter } from '../src/routes/reminders.js';
+import { createMemoryRepositories } from '../src/storage/index.js';
+import { TestServer, startServer } from './http.js';
+
+// Queries look back at this time; everything recorded since must not change their answers
+const AS_OF = '2025-03-01T12:00:00.000Z';
+const CREATED = new Date('2025-01-01T00:00:00Z');
+
+let server: TestServer | undefined;
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+function reminder(id: string, changes: Partial<Reminder> = {}): Reminder {
+  return {
+    id,
+    contactId: 'ann',
+    message: `${id} message`,
+    dueDate: new Date('2025-02-25T12:00:00Z'),
+    status: 'pending',
+    createdAt: CREATED,
+    updatedAt: CREATED,
+    ...changes,
+  };
+}
+
+async function setup() {
+  const data = new DataService(createMemoryRepositories());
+  await data.contacts.save({ id: 'ann', name: 'Ann', tags: [], notes: '', createdAt: CREATED, updatedAt: CREATED });
+  for (const date of ['2025-01-20', '2025-02-10']) {
+    await data.recordInteraction((await data.contacts.get('ann'))!, {
+      type: 'call',
+      timestamp: new Date(`${date}T12:00:00Z`),
+      duration: 30,
+    });
+  }
+  await data.reminders.save(reminder('open'));
+  const sentAt = new Date('2025-02-26T12:00:00Z');
+  await data.reminders.save(reminder('sent', { status: 'sent', sentAt, updatedAt: sentAt }));
+  server = await startServer({
+    '/api/relationships': createRelationshipsRouter(data),
+    '/api/reminders': createRemindersRouter(data),
+  });
+  return { data, server };
+}
+
+// What happens after AS_OF: a new call, a completion, a snooze and a new reminder
+async function changeLater(data: DataService): Promise<void> {
+  await data.recordInteraction((await data.contacts.get('ann'))!, {
+    type: 'meeting',
+    timestamp: new Date('2025-03-05T12:00:00Z'),
+    duration: 120,
+  });
+
+  const later = new Date('2025-03-02T12:00:00Z');
+  const open = (await data.reminders.get('open'))!;
+  await data.reminders.save({ ...open, status: 'completed', completedAt: later, updatedAt: later });
+  const sent = (await data.reminders.get('sent'))!;
+  await data.reminders.save(snoozeReminder({ ...sent }, new Date('2025-03-20T12:00:00Z'), later));
+  await data.reminders.save(reminder('created-later', { createdAt: later, updatedAt: later }));
+}
+
+describe('?asOf= queries', () => {
+  it('score a contact from the interactions recorded by then', async () => {
+    const { data, server } = await setup();
+    const before = await server.request('GET', `/api/relationships/scores/ann?asOf=${AS_OF}`);
+
+    await changeLater(data);
+    const after = await server.request('GET', `/api/relationships/scores/ann?asOf=${AS_OF}`);
+
+    expect(before.status).toBe(200);
+    expect(after.body.data).toEqual(before.body.data);
+    // The stored score has moved on with the new call
+    expect((await data.scores.get('ann'))?.overall).not.toBe(before.body.data.overall);
+  });
+
+  it('list scores the same way', async () => {
+    const { data, server } = await setup();
+    const single = await server.request('GET', `/api/relationships/scores/ann?asOf=${AS_OF}`);
+
+    await changeLater(data);
+    const list = await server.request('GET', `/api/relationships/scores?asOf=${AS_OF}`);
+
+    expect(list.body.data).toEqual([single.body.data]);
+  });
+
+  it('list reminders as they stood then', async () => {
+    const { data, server } = await setup();
+    const before = await server.request('GET', `/api/reminders?asOf=${AS_OF}`);
+
+    await changeLater(data);
+    const after = await server.request('GET', `/api/reminders?asOf=${AS_OF}`);
+
+    expect(after.body).toEqual(before.body);
+    const reminders: Reminder[] = after.body.data;
+    expect(reminders.map((entry) => [entry.id, entry.status])).toEqual([
+      ['open', 'pending'],
+      ['sent', 'sent'],
+    ]);
+    expect(after.body.stats).toMatchObject({ pending: 1, sent: 1, snoozed: 0, completed: 0 });
+  });
+
+  it('leave the stored reminders alone', async () => {
+    const { data, server } = await setup();
+    await changeLater(data);
+
+    await server.request('GET', `/api/reminders?asOf=${AS_OF}`);
+
+    expect((await data.reminders.get('open'))?.status).toBe('completed');
+    expect((await data.reminders.get('sent'))?.status).toBe('snoozed');
+  });
+
+  it('reject an invalid time', async () => {
+    const { server } = await setup();
+
+    expect((await server.request('GET', '/api/reminders?asOf=yesterday')).status).toBe(400);
+    expect((await server.request('GET', '/api/relationships/scores/ann?asOf=yesterday')).status).toBe(400);
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Interaction } from '@keepclos/shared';
+import { extractSignals } from '@keepclos/context-engine';
+import { DataService } from '../src/services/data-service.js';
+import { createContactsRouter } from '../src/routes/contacts.js';
+import { createMemoryRepositories } from '../src/storage/index.js';
+import { TestServer, startServer } from './http.js';
+
+let server: TestServer | undefined;
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+async function setup() {
+  const data = new DataService(createMemoryRepositories());
+  server = await startServer({ '/api/contacts': createContactsRouter(data) });
+  return { data, server };
+}
+
+describe('contact multi-value fields', () => {
+  it('stores normalized values and mirrors the primary email and phone', async () => {
+    const { data, server } = await setup();
+
+    const response = await server.request('POST', '/api/contacts', {
+      name: 'Ann',
+      emails: [
+        { label: 'Work', value: 'ann@work.example' },
+        { label: 'home', value: 'ann@home.example', primary: true },
+        { value: 'ANN@work.example' },
+      ],
+      phones: [{ label: 'cell', value: '+1 555 0100' }],
+      addresses: [{ label: 'home', value: { street: '1 Main St', city: 'Springfield' } }],
+      urls: [{ label: 'homepage', value: 'https://ann.example' }],
+    });
+
+    expect(response.status).toBe(201);
+    const contact = await data.contacts.get(response.body.data.id);
+    expect(contact?.emails).toEqual([
+      { label: 'work', value: 'ann@work.example', primary: false },
+      { label: 'home', value: 'ann@home.example', primary: true },
+    ]);
+    expect(contact?.email).toBe('ann@home.example');
+    expect(contact?.phone).toBe('+1 555 0100');
+    expect(contact?.phones).toEqual([{ label: 'mobile', value: '+1 555 0100', primary: true }]);
+    expect(contact?.urls).toEqual([{ label: 'home', value: 'https://ann.example', primary: true }]);
+  });
+
+  it.each([
+    [
+      'two primaries',
+      {
+        emails: [
+          { value: 'a@example.com', primary: true },
+          { value: 'b@example.com', primary: true },
+        ],
+      },
+      'Emails may have only one primary entry',
+    ],
+    ['a non-array field', { phones: '+1 555 0100' }, 'Phones must be an array'],
+    ['an entry without a value object', { urls: ['https://ann.example'] }, 'URLs entries must be objects'],
+    ['a non-boolean primary flag', { phones: [{ value: '1', primary: 'yes' }] }, 'Phones primary flags must be'],
+    ['a numeric label', { emails: [{ label: 1, value: 'a@example.com' }] }, 'Emails labels must be strings'],
+    ['an invalid email', { emails: [{ value: 'not an email' }] }, 'Email values must be valid email addresses'],
+    ['a blank phone', { phones: [{ value: '  ' }] }, 'Phone values must be non-empty strings'],
+    ['an address string', { addresses: [{ value: '1 Main St' }] }, 'Address values must be objects with: street'],
+    ['an unknown address part', { addresses: [{ value: { zip: '62701' } }] }, 'Address values must be objects with'],
+    ['a relative URL', { urls: [{ value: 'ann.example' }] }, 'URL values must be absolute URLs'],
+  ])('rejects %s', async (_case, fields, message) => {
+    const { data, server } = await setup();
+
+    const response = await server.request('POST', '/api/contacts', { name: 'Ann', ...fields });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain(message);
+    expect(await data.contacts.list()).toEqual([]);
+  });
+
+  it('validates replacement lists on update', async () => {
+    const { data, server } = await setup();
+    const created = await server.request('POST', '/api/contacts', {
+      name: 'Ann',
+      emails: [{ label: 'home', value: 'ann@home.example' }],
+    });
+
+    const response = await server.request('PUT', `/api/contacts/${created.body.data.id}`, {
+      emails: [
+        { value: 'a@example.com', primary: true },
+        { value: 'b@example.com', primary: true },
+      ],
+    });
+
+    expect(response.status).toBe(400);
+    expect((await data.contacts.get(created.body.data.id))?.email).toBe('ann@home.example');
+  });
+});
+
+describe('contact interactions', () => {
+  const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+  function daysAgo(days: number): string {
+    return new Date(Date.now() - days * MS_PER_DAY).toISOString();
+  }
+
+  async function setupWithContact() {
+    const { data, server } = await setup();
+    const created = await server.request('POST', '/api/contacts', { name: 'Ann', timeZone: 'UTC' });
+    const id: string = created.body.data.id;
+    const record = (body: object) => server.request('POST', `/api/contacts/${id}/interactions`, body);
+    return { data, server, id, record };
+  }
+
+  // Quality as signal extraction rates the stored interaction
+  function expectedQuality(interaction: Interaction): number {
+    return extractSignals({ ...interaction, timestamp: new Date(interaction.timestamp) }, 'UTC').qualityScore;
+  }
+
+  it('derives quality on create and refreshes lastContactedAt and the cached score', async () => {
+    const { data, id, record } = await setupWithContact();
+
+    const response = await record({ type: 'call', timestamp: daysAgo(3), duration: 45, notes: 'Caught up' });
+
+    expect(response.status).toBe(201);
+    const stored = await data.interactions.get(response.body.data.id);
+    expect(stored?.quality).toBe(expectedQuality(stored!));
+    expect(response.body.signals.qualityScore).toBe(stored?.quality);
+    expect((await data.contacts.get(id))?.lastContactedAt?.toISOString()).toBe(response.body.data.timestamp);
+    expect(await data.scores.get(id)).toMatchObject({ overall: response.body.score.overall });
+    expect(await data.scoreHistory.listByContact(id)).toHaveLength(1);
+  });
+
+  it('re-rates an updated interaction and moves lastContactedAt with it', async () => {
+    const { data, server, id, record } = await setupWithContact();
+    const created = await record({ type: 'message', timestamp: daysAgo(40) });
+    const before = await data.scores.get(id);
+
+    const timestamp = daysAgo(1);
+    const response = await server.request('PUT', `/api/contacts/${id}/interactions/${created.body.data.id}`, {
+      type: 'meeting',
+      timestamp,
+      duration: 90,
+    });
+
+    expect(response.status).toBe(200);
+    const stored = await data.interactions.get(created.body.data.id);
+    expect(stored?.quality).toBe(expectedQuality(stored!));
+    expect(stored?.quality).toBeGreaterThan(created.body.data.quality);
+    expect((await data.contacts.get(id))?.lastContactedAt?.toISOString()).toBe(timestamp);
+    const after = await data.scores.get(id);
+    expect(after?.overall).toBe(response.body.score.overall);
+    expect(after!.overall).toBeGreaterThan(before!.overall);
+  });
+
+  it('rolls lastContactedAt and the score back when the latest interaction is deleted', async () => {
+    const { data, server, id, record } = await setupWithContact();
+    const older = daysAgo(30);
+    await record({ type: 'call', timestamp: older, duration: 20 });
+    const latest = await record({ type: 'call', timestamp: daysAgo(2), duration: 20 });
+    const before = await data.scores.get(id);
+
+    const response = await server.request('DELETE', `/api/contacts/${id}/interactions/${latest.body.data.id}`);
+
+    expect(response.status).toBe(200);
+    expect(await data.interactions.get(latest.body.data.id)).toBeUndefined();
+    expect((await data.contacts.get(id))?.lastContactedAt?.toISOString()).toBe(older);
+    const after = await data.scores.get(id);
+    expect(after?.overall).toBe(response.body.score.overall);
+    expect(after!.overall).toBeLessThan(before!.overall);
+  });
+
+  it('clears lastContactedAt when the last interaction is deleted', async () => {
+    const { data, server, id, record } = await setupWithContact();
+    const only = await record({ type: 'email', timestamp: daysAgo(5) });
+
+    await server.request('DELETE', `/api/contacts/${id}/interactions/${only.body.data.id}`);
+
+    expect((await data.contacts.get(id))?.lastContactedAt).toBeUndefined();
+  });
+});
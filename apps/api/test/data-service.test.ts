@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { NotFoundError } from '@keepclos/shared';
+import { DataService } from '../src/services/data-service.js';
+import { createMemoryRepositories } from '../src/storage/index.js';
+
+const NOW = new Date('2024-05-01T12:00:00Z');
+
+// A contact with one record of every dependent kind
+async function seed(data: DataService, id: string): Promise<void> {
+  await data.contacts.save({ id, name: id, tags: [], notes: '', createdAt: NOW, updatedAt: NOW });
+  for (const n of [1, 2]) {
+    await data.interactions.save({ id: `${id}-call-${n}`, contactId: id, type: 'call', timestamp: NOW, quality: 70 });
+  }
+  await data.reminders.save({
+    id: `${id}-reminder`,
+    contactId: id,
+    message: `Call ${id}`,
+    dueDate: NOW,
+    status: 'pending',
+    createdAt: NOW,
+    updatedAt: NOW,
+  });
+  await data.scores.save({
+    contactId: id,
+    overall: 60,
+    recency: 60,
+    frequency: 60,
+    engagement: 60,
+    trend: 'stable',
+    lastUpdated: NOW,
+  });
+  for (const date of ['2024-04-30', '2024-05-01']) {
+    await data.scoreHistory.save({
+      contactId: id,
+      date,
+      takenAt: new Date(`${date}T12:00:00Z`),
+      overall: 60,
+      recency: 60,
+      frequency: 60,
+      engagement: 60,
+    });
+  }
+}
+
+describe('DataService.deleteContact', () => {
+  it('deletes the contact with its interactions, reminders, score and snapshots', async () => {
+    const data = new DataService(createMemoryRepositories());
+    await seed(data, 'ann');
+    await seed(data, 'bob');
+
+    const deletion = await data.deleteContact('ann');
+
+    expect(deletion).toMatchObject({
+      contact: { id: 'ann' },
+      deletedInteractions: 2,
+      deletedReminders: 1,
+      deletedScore: true,
+      deletedSnapshots: 2,
+    });
+    expect(await data.contacts.get('ann')).toBeUndefined();
+    expect(await data.interactions.listByContact('ann')).toEqual([]);
+    expect(await data.reminders.listByContact('ann')).toEqual([]);
+    expect(await data.scores.get('ann')).toBeUndefined();
+    expect(await data.scoreHistory.listByContact('ann')).toEqual([]);
+  });
+
+  it('leaves other contacts’ records alone', async () => {
+    const data = new DataService(createMemoryRepositories());
+    await seed(data, 'ann');
+    await seed(data, 'bob');
+
+    await data.deleteContact('ann');
+
+    expect(await data.contacts.get('bob')).toBeDefined();
+    expect(await data.interactions.list()).toHaveLength(2);
+    expect(await data.reminders.list()).toHaveLength(1);
+    expect(await data.scores.list()).toHaveLength(1);
+    expect(await data.scoreHistory.list()).toHaveLength(2);
+  });
+
+  it('reports nothing else deleted for a contact without records', async () => {
+    const data = new DataService(createMemoryRepositories());
+    await data.contacts.save({ id: 'cy', name: 'cy', tags: [], notes: '', createdAt: NOW, updatedAt: NOW });
+
+    expect(await data.deleteContact('cy')).toMatchObject({
+      deletedInteractions: 0,
+      deletedReminders: 0,
+      deletedScore: false,
+      deletedSnapshots: 0,
+    });
+    await expect(data.deleteContact('cy')).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { Reminder } from '@keepclos/shared';
+import { DeliveryChannel, DeliveryMessage } from '../src/delivery/index.js';
+import { DataService } from '../src/services/data-service.js';
+import { ReminderDispatcher } from '../src/services/delivery.js';
+import { createMemoryRepositories } from '../src/storage/index.js';
+
+const NOW = new Date('2025-05-01T09:00:00Z');
+const POLICY = { maxAttempts: 2, initialDelayMs: 10, maxDelayMs: 10, factor: 2 };
+
+class TestChannel implements DeliveryChannel {
+  readonly sent: DeliveryMessage[] = [];
+
+  constructor(readonly name: string, private failure?: string) {}
+
+  async send(message: DeliveryMessage): Promise<void> {
+    if (this.failure) {
+      throw new Error(this.failure);
+    }
+    this.sent.push(message);
+  }
+}
+
+async function setup(channels: DeliveryChannel[]) {
+  const data = new DataService(createMemoryRepositories());
+  await data.contacts.save({ id: 'a', name: 'Ann', tags: [], notes: '', createdAt: NOW, updatedAt: NOW });
+  const reminder: Reminder = {
+    id: 'r1',
+    contactId: 'a',
+    message: 'Call Ann',
+    dueDate: new Date(NOW.getTime() - 60 * 1000),
+    status: 'pending',
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+  await data.reminders.save(reminder);
+
+  const delays: number[] = [];
+  const dispatcher = new ReminderDispatcher(data, channels, POLICY, async (ms) => {
+    delays.push(ms);
+  });
+  return { data, dispatcher, delays };
+}
+
+describe('ReminderDispatcher', () => {
+  it('keeps a reminder pending when every channel fails, with the attempts recorded', async () => {
+    const { data, dispatcher, delays } = await setup([new TestChannel('webhook', 'HTTP 500')]);
+
+    const summary = await dispatcher.deliverDue(NOW);
+    const reminder = await data.reminders.get('r1');
+
+    expect(summary).toMatchObject({ mode: 'individual', attempted: 1, delivered: 0, failed: 1 });
+    expect(reminder?.status).toBe('pending');
+    expect(reminder?.sentAt).toBeUndefined();
+    expect(reminder?.deliveryAttempts).toMatchObject([
+      { channel: 'webhook', attempt: 1, success: false, error: 'HTTP 500' },
+      { channel: 'webhook', attempt: 2, success: false, error: 'HTTP 500' },
+    ]);
+    expect(delays).toEqual([10]);
+  });
+
+  it('marks a reminder sent once a channel accepts it', async () => {
+    const log = new TestChannel('log');
+    const { data, dispatcher } = await setup([new TestChannel('smtp', 'connection refused'), log]);
+
+    const summary = await dispatcher.deliverDue(NOW);
+    const reminder = await data.reminders.get('r1');
+
+    expect(summary).toMatchObject({ attempted: 1, delivered: 1, failed: 0 });
+    expect(reminder?.status).toBe('sent');
+    expect(reminder?.sentAt).toBeInstanceOf(Date);
+    expect(reminder?.deliveryAttempts?.map((attempt) => [attempt.channel, attempt.success])).toEqual([
+      ['smtp', false],
+      ['smtp', false],
+      ['log', true],
+    ]);
+    expect(log.sent[0].subject).toBe('Reminder: Ann');
+    expect(log.sent[0].text).toContain('Due: ');
+  });
+
+  it('does not send reminders before they are due', async () => {
+    const log = new TestChannel('log');
+    const { data, dispatcher } = await setup([log]);
+
+    expect(await dispatcher.deliverDue(new Date(NOW.getTime() - 60 * 60 * 1000))).toMatchObject({ attempted: 0 });
+    expect(log.sent).toEqual([]);
+    expect((await data.reminders.get('r1'))?.status).toBe('pending');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  backoffDelay,
+  buildMessage,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  withRetry,
+} from '../src/delivery/index.js';
+
+const POLICY: RetryPolicy = { maxAttempts: 4, initialDelayMs: 100, maxDelayMs: 250, factor: 2 };
+
+describe('backoffDelay', () => {
+  it('grows by the factor after each failure up to the maximum', () => {
+    expect([1, 2, 3, 4].map((attempt) => backoffDelay(attempt, POLICY))).toEqual([100, 200, 250, 250]);
+    expect(backoffDelay(1, DEFAULT_RETRY_POLICY)).toBe(1000);
+  });
+});
+
+describe('withRetry', () => {
+  function failing(failures: number) {
+    const calls: number[] = [];
+    const operation = async (attempt: number) => {
+      calls.push(attempt);
+      if (attempt <= failures) {
+        throw new Error(`failure ${attempt}`);
+      }
+      return 'ok';
+    };
+    return { calls, operation };
+  }
+
+  it('retries with backoff until an attempt succeeds', async () => {
+    const { calls, operation } = failing(2);
+    const delays: number[] = [];
+    const outcomes: Array<[number, string | undefined]> = [];
+
+    const result = await withRetry(
+      operation,
+      POLICY,
+      (attempt, error) => outcomes.push([attempt, error instanceof Error ? error.message : undefined]),
+      async (ms) => {
+        delays.push(ms);
+      },
+    );
+
+    expect(result).toBe('ok');
+    expect(calls).toEqual([1, 2, 3]);
+    expect(delays).toEqual([100, 200]);
+    expect(outcomes).toEqual([
+      [1, 'failure 1'],
+      [2, 'failure 2'],
+      [3, undefined],
+    ]);
+  });
+
+  it('throws the last error once the attempts are used up, without waiting after it', async () => {
+    const { calls, operation } = failing(10);
+    const delays: number[] = [];
+
+    await expect(
+      withRetry(operation, POLICY, undefined, async (ms) => {
+        delays.push(ms);
+      }),
+    ).rejects.toThrow('failure 4');
+    expect(calls).toEqual([1, 2, 3, 4]);
+    expect(delays).toEqual([100, 200, 250]);
+  });
+});
+
+describe('webhook signatures', () => {
+  const body = JSON.stringify({ event: 'reminder.due', reminder: { id: 'r1' } });
+  const secret = 'shh';
+
+  it('accepts a matching signature with a recent timestamp', () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = signWebhookPayload(body, timestamp, secret);
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(body, String(timestamp), signature, secret)).toBe(true);
+  });
+
+  it('rejects a tampered body, another secret and a stale timestamp', () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = signWebhookPayload(body, timestamp, secret);
+    const stale = timestamp - 301;
+
+    expect(verifyWebhookSignature(body.replace('r1', 'r2'), timestamp, signature, secret)).toBe(false);
+    expect(verifyWebhookSignature(body, timestamp, signature, 'other')).toBe(false);
+    expect(verifyWebhookSignature(body, stale, signWebhookPayload(body, stale, secret), secret)).toBe(false);
+    expect(verifyWebhookSignature(body, 'soon', signature, secret)).toBe(false);
+  });
+});
+
+describe('buildMessage', () => {
+  const config = { from: 'KeepClos <reminders@example.com>', to: ['ann@example.com'] };
+
+  function decodePart(message: string, type: string): string {
+    const pattern = `Content-Type: ${type}; charset=utf-8\\r\\n[^\\r]+\\r\\n\\r\\n([A-Za-z0-9+/=\\r\\n]+)`;
+    const match = new RegExp(pattern).exec(message);
+    return Buffer.from(match![1].replace(/\r\n/g, ''), 'base64').toString('utf8');
+  }
+
+  it('strips line breaks from header values', () => {
+    const injected = {
+      from: 'KeepClos <reminders@example.com>\r\nBcc: eve@example.com',
+      to: ['ann@example.com\nCc: eve@example.com'],
+    };
+    const message = buildMessage(injected, { subject: 'Hi\r\nX-Injected: yes', text: 'Body' });
+    const headers = message.split('\r\n\r\n')[0].split('\r\n');
+
+    expect(headers.filter((line) => /^(Bcc|Cc|X-Injected):/i.test(line))).toEqual([]);
+    expect(headers).toContain('Subject: Hi X-Injected: yes');
+  });
+
+  it('encodes non-ASCII subjects per RFC 2047 and bodies as base64 UTF-8', () => {
+    const message = buildMessage(config, { subject: 'Erinnerung: Zoë', text: 'Grüße\nZoë' });
+
+    expect(message).toContain(`Subject: =?UTF-8?B?${Buffer.from('Erinnerung: Zoë').toString('base64')}?=`);
+    expect(message).toContain('Content-Type: text/plain; charset=utf-8');
+    expect(decodePart(message, 'text/plain')).toBe('Grüße\r\nZoë');
+  });
+
+  it('sends HTML as multipart/alternative with the text part first', () => {
+    const message = buildMessage(config, { subject: 'Digest', text: 'Plain', html: '<p>Rich</p>' });
+    const boundary = /boundary="([^"]+)"/.exec(message)![1];
+
+    expect(message).toContain('Content-Type: multipart/alternative');
+    expect(message.indexOf('text/plain')).toBeLessThan(message.indexOf('text/html'));
+    expect(message.endsWith(`--${boundary}--`)).toBe(true);
+    expect(decodePart(message, 'text/plain')).toBe('Plain');
+    expect(decodePart(message, 'text/html')).toBe('<p>Rich</p>');
+  });
+});
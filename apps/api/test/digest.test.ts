@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { Reminder } from '@keepclos/shared';
+import { buildReminderDigest } from '../src/services/digest.js';
+import { createMemoryRepositories } from '../src/storage/index.js';
+
+const NOW = new Date('2025-03-05T14:00:00Z');
+const CREATED = new Date('2025-03-01T12:00:00Z');
+
+function reminder(id: string, contactId: string, due: string, changes: Partial<Reminder> = {}): Reminder {
+  return {
+    id,
+    contactId,
+    message: `${id} message`,
+    dueDate: new Date(due),
+    status: 'pending',
+    createdAt: CREATED,
+    updatedAt: CREATED,
+    ...changes,
+  };
+}
+
+async function setup() {
+  const repositories = createMemoryRepositories();
+  for (const [id, name, overall] of [
+    ['ann', 'Ann', 35],
+    ['bob', 'Bob', 75],
+  ] as const) {
+    await repositories.contacts.save({ id, name, tags: [], notes: '', createdAt: CREATED, updatedAt: CREATED });
+    await repositories.scores.save({
+      contactId: id,
+      overall,
+      recency: overall,
+      frequency: overall,
+      engagement: overall,
+      trend: 'stable',
+      lastUpdated: CREATED,
+    });
+  }
+  return repositories;
+}
+
+describe('buildReminderDigest', () => {
+  it('names contacts and ranks them by their stored scores', async () => {
+    const repositories = await setup();
+    await repositories.reminders.save(reminder('for-ann', 'ann', '2025-03-05T15:00:00Z'));
+    await repositories.reminders.save(reminder('for-bob', 'bob', '2025-03-05T16:00:00Z'));
+
+    const digest = await buildReminderDigest(repositories, 'daily', 'America/New_York', NOW);
+
+    expect(digest.groups).toHaveLength(1);
+    expect(digest.groups[0].entries.map((entry) => [entry.contactName, entry.score])).toEqual([
+      ['Bob', 75],
+      ['Ann', 35],
+    ]);
+  });
+
+  it('takes reminders as they stood at the digest time', async () => {
+    const repositories = await setup();
+    // Completed after the digest time, so still open then
+    await repositories.reminders.save(
+      reminder('completed-later', 'ann', '2025-03-03T15:00:00Z', {
+        status: 'completed',
+        completedAt: new Date('2025-03-06T10:00:00Z'),
+        updatedAt: new Date('2025-03-06T10:00:00Z'),
+      }),
+    );
+    // Created after the digest time
+    await repositories.reminders.save(
+      reminder('created-later', 'bob', '2025-03-05T15:00:00Z', { createdAt: new Date('2025-03-05T20:00:00Z') }),
+    );
+    await repositories.reminders.save(
+      reminder('completed-before', 'bob', '2025-03-04T15:00:00Z', {
+        status: 'completed',
+        completedAt: new Date('2025-03-04T16:00:00Z'),
+      }),
+    );
+
+    const digest = await buildReminderDigest(repositories, 'weekly', 'America/New_York', NOW);
+
+    expect(digest.total).toBe(1);
+    expect(digest.overdue).toBe(1);
+    expect(digest.groups[0].entries[0]).toMatchObject({
+      reminderId: 'completed-later',
+      status: 'pending',
+      overdueDays: 2,
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import express, { ErrorRequestHandler, Router } from 'express';
+import { AddressInfo } from 'node:net';
+import { NotFoundError, ValidationError } from '@keepclos/shared';
+
+/**
+ * Minimal HTTP harness for router tests: mounts routers on a fresh app on a free port
+ */
+
+export interface TestServer {
+  url: string;
+  request(method: string, path: string, body?: unknown): Promise<{ status: number; body: any }>;
+  close(): Promise<void>;
+}
+
+const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  if (err instanceof ValidationError) {
+    res.status(400).json({ error: 'Validation Error', message: err.message });
+  } else if (err instanceof NotFoundError) {
+    res.status(404).json({ error: 'Not Found', message: err.message });
+  } else {
+    res.status(err.statusCode || err.status || 500).json({ error: 'Server Error', message: err.message });
+  }
+};
+
+/**
+ * Start an app with routers mounted at their paths
+ * @param routers Mount path to router
+ * @returns Server with a JSON request helper
+ */
+export async function startServer(routers: Record<string, Router>): Promise<TestServer> {
+  const app = express();
+  app.use(express.json());
+  for (const [path, router] of Object.entries(routers)) {
+    app.use(path, router);
+  }
+  app.use(errorHandler);
+
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    async request(method, path, body) {
+      // Forms are sent as multipart and strings as raw text uploads; anything else as JSON
+      const init: RequestInit = { method };
+      if (body instanceof FormData) {
+        init.body = body;
+      } else if (typeof body === 'string') {
+        init.headers = { 'Content-Type': 'text/plain' };
+        init.body = body;
+      } else if (body !== undefined) {
+        init.headers = { 'Content-Type': 'application/json' };
+        init.body = JSON.stringify(body);
+      }
+      const response = await fetch(`${url}${path}`, init);
+      return { status: response.status, body: await response.json() };
+    },
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
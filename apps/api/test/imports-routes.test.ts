@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DataService } from '../src/services/data-service.js';
+import { createImportRouter } from '../src/routes/imports.js';
+import { createMemoryRepositories } from '../src/storage/index.js';
+import { TestServer, startServer } from './http.js';
+
+const CSV = ['name,email,tags,birthday', 'Ann,ann@example.com,family;close,1988-02-29', 'Bob,,,soon'].join('\n');
+
+let server: TestServer | undefined;
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+async function setup() {
+  const data = new DataService(createMemoryRepositories());
+  server = await startServer({ '/api/contacts/import': createImportRouter(data) });
+  return { data, server };
+}
+
+function csvForm(content: string | Buffer, fields: Record<string, string> = {}, field: string = 'file'): FormData {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    form.append(name, value);
+  }
+  form.append(field, new Blob([content], { type: 'text/csv' }), 'contacts.csv');
+  return form;
+}
+
+describe('POST /api/contacts/import/csv', () => {
+  it('previews parsed contacts and row errors on a dry run without saving them', async () => {
+    const { data, server } = await setup();
+
+    const response = await server.request('POST', '/api/contacts/import/csv', csvForm(CSV, { dryRun: 'true' }));
+
+    expect(response.status).toBe(200);
+    expect(response.body.dryRun).toBe(true);
+    expect(response.body.data.rowsProcessed).toBe(2);
+    expect(response.body.data.contacts).toHaveLength(1);
+    expect(response.body.data.contacts[0]).toMatchObject({
+      name: 'Ann',
+      email: 'ann@example.com',
+      tags: ['imported-csv', 'family', 'close'],
+      importantDates: [{ type: 'birthday', year: 1988, month: 2, day: 29 }],
+    });
+    expect(response.body.data.errors).toEqual([{ rowIndex: 3, message: 'Row 3: Invalid birthday date "soon"' }]);
+    expect(await data.contacts.list()).toEqual([]);
+  });
+
+  it('saves the contacts and returns the job summary', async () => {
+    const { data, server } = await setup();
+
+    const response = await server.request('POST', '/api/contacts/import/csv', csvForm(CSV));
+    const saved = await data.contacts.list();
+
+    expect(response.status).toBe(201);
+    expect(response.body.dryRun).toBe(false);
+    expect(response.body.data).toMatchObject({
+      format: 'csv',
+      fileName: 'contacts.csv',
+      rowsProcessed: 2,
+      importedCount: 1,
+      errorCount: 1,
+      errors: [{ rowIndex: 3 }],
+    });
+    expect(saved.map((contact) => contact.name)).toEqual(['Ann']);
+    expect(response.body.data.contactIds).toEqual([saved[0].id]);
+  });
+
+  it('accepts the file as a raw body with options in the query', async () => {
+    const { data, server } = await setup();
+    const content = ['Ann|ann@example.com', 'Bob|bob@example.com'].join('\n');
+
+    const response = await server.request(
+      'POST',
+      '/api/contacts/import/csv?hasHeader=false&delimiter=|&nameColumn=0&emailColumn=1',
+      content,
+    );
+
+    expect(response.status).toBe(201);
+    expect((await data.contacts.list()).map((contact) => contact.email)).toEqual([
+      'ann@example.com',
+      'bob@example.com',
+    ]);
+  });
+
+  it('rejects files over the upload limit with 413', async () => {
+    const { data, server } = await setup();
+    const oversized = Buffer.alloc(5 * 1024 * 1024 + 1, 'a');
+
+    const response = await server.request('POST', '/api/contacts/import/csv', csvForm(oversized));
+
+    expect(response.status).toBe(413);
+    expect(response.body.message).toBe('Upload exceeds the 5 MB limit');
+    expect(await data.contacts.list()).toEqual([]);
+  });
+
+  it('rejects files in another form field with 400', async () => {
+    const { server } = await setup();
+
+    const response = await server.request('POST', '/api/contacts/import/csv', csvForm(CSV, {}, 'upload'));
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe('Invalid upload: Unexpected field');
+  });
+});
+
+describe('POST /api/contacts/import/vcard', () => {
+  it('reports cards without a name as errors', async () => {
+    const { data, server } = await setup();
+    const vcards = [
+      'BEGIN:VCARD\r\nVERSION:3.0\r\nFN:Ann Lee\r\nEMAIL:ann@example.com\r\nEND:VCARD',
+      'BEGIN:VCARD\r\nVERSION:3.0\r\nEMAIL:nobody@example.com\r\nEND:VCARD',
+    ].join('\r\n');
+
+    const response = await server.request('POST', '/api/contacts/import/vcard', vcards);
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({ format: 'vcard', importedCount: 1, errorCount: 1 });
+    expect(response.body.data.errors[0]).toEqual({ rowIndex: 2, message: 'No name found (FN or N field required)' });
+    expect((await data.contacts.list()).map((contact) => contact.name)).toEqual(['Ann Lee']);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { Contact, ScoreSnapshot } from '@keepclos/shared';
+import { createMemoryRepositories } from '../src/storage/index.js';
+
+function contact(id: string): Contact {
+  const now = new Date('2024-05-01T12:00:00Z');
+  return { id, name: `Contact ${id}`, tags: [], notes: '', createdAt: now, updatedAt: now };
+}
+
+function snapshot(contactId: string, date: string, overall: number): ScoreSnapshot {
+  return {
+    contactId,
+    date,
+    takenAt: new Date(`${date}T12:00:00Z`),
+    overall,
+    recency: overall,
+    frequency: overall,
+    engagement: overall,
+  };
+}
+
+describe('in-memory repositories', () => {
+  it('saves, replaces and deletes items by ID', async () => {
+    const { contacts } = createMemoryRepositories();
+
+    await contacts.save(contact('a'));
+    await contacts.save({ ...contact('a'), name: 'Renamed' });
+
+    expect(await contacts.list()).toHaveLength(1);
+    expect((await contacts.get('a'))?.name).toBe('Renamed');
+    expect(await contacts.delete('a')).toBe(true);
+    expect(await contacts.delete('a')).toBe(false);
+    expect(await contacts.get('a')).toBeUndefined();
+  });
+
+  it('keeps one score snapshot per contact and day, oldest first', async () => {
+    const { scoreHistory } = createMemoryRepositories();
+
+    await scoreHistory.save(snapshot('a', '2024-05-02', 60));
+    await scoreHistory.save(snapshot('a', '2024-05-01', 70));
+    await scoreHistory.save(snapshot('a', '2024-05-02', 55));
+    await scoreHistory.save(snapshot('b', '2024-05-02', 40));
+
+    expect((await scoreHistory.listByContact('a')).map((s) => s.overall)).toEqual([70, 55]);
+    expect((await scoreHistory.listContactIdsOn('2024-05-02')).sort()).toEqual(['a', 'b']);
+    expect(await scoreHistory.deleteByContact('a')).toBe(2);
+    expect(await scoreHistory.list()).toHaveLength(1);
+  });
+
+  it('deletes interactions by contact', async () => {
+    const { interactions } = createMemoryRepositories();
+    const at = new Date('2024-05-01T12:00:00Z');
+
+    await interactions.save({ id: '1', contactId: 'a', type: 'call', timestamp: at, quality: 50 });
+    await interactions.save({ id: '2', contactId: 'a', type: 'email', timestamp: at, quality: 30 });
+    await interactions.save({ id: '3', contactId: 'b', type: 'email', timestamp: at, quality: 30 });
+
+    expect(await interactions.deleteByContact('a')).toBe(2);
+    expect((await interactions.listByContact('b')).map((i) => i.id)).toEqual(['3']);
+  });
+});
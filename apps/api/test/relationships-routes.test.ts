@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { RelationshipScore } from '@keepclos/shared';
+import { DataService } from '../src/services/data-service.js';
+import { createRelationshipsRouter } from '../src/routes/relationships.js';
+import { createMemoryRepositories } from '../src/storage/index.js';
+import { TestServer, startServer } from './http.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+let server: TestServer | undefined;
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+const STORED: RelationshipScore = {
+  contactId: 'ann',
+  overall: 50,
+  recency: 50,
+  frequency: 50,
+  engagement: 50,
+  trend: 'stable',
+  lastUpdated: new Date('2024-01-01T00:00:00Z'),
+};
+
+async function setup() {
+  const data = new DataService(createMemoryRepositories());
+  const created = new Date('2024-01-01T00:00:00Z');
+  await data.contacts.save({ id: 'ann', name: 'Ann', tags: [], notes: '', createdAt: created, updatedAt: created });
+  for (const days of [3, 20, 45]) {
+    await data.interactions.save({
+      id: `call-${days}`,
+      contactId: 'ann',
+      type: 'call',
+      timestamp: new Date(Date.now() - days * MS_PER_DAY),
+      quality: 70,
+    });
+  }
+  await data.scores.save(STORED);
+  server = await startServer({ '/api/relationships': createRelationshipsRouter(data) });
+  return { data, server };
+}
+
+describe('POST /api/relationships/scores/calculate', () => {
+  // All weight on recency, so the overall score is the recency component
+  const recencyOnly = { recencyWeight: 1, frequencyWeight: 0, engagementWeight: 0 };
+
+  it('previews scores under the supplied config without saving them', async () => {
+    const { data, server } = await setup();
+
+    const response = await server.request('POST', '/api/relationships/scores/calculate', {
+      contactIds: ['ann', 'ghost'],
+      config: recencyOnly,
+      dryRun: true,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      message: 'Previewed scores for 1 contacts',
+      notFound: ['ghost'],
+      dryRun: true,
+    });
+    const [diff] = response.body.diff;
+    expect(diff.after.overall).toBe(diff.after.recency);
+    expect(diff.after.overall).not.toBe(50);
+    expect(diff.before).toMatchObject({ overall: 50, recency: 50 });
+    expect(diff.delta).toEqual({
+      overall: diff.after.overall - 50,
+      recency: diff.after.recency - 50,
+      frequency: diff.after.frequency - 50,
+      engagement: diff.after.engagement - 50,
+    });
+    expect(await data.scores.get('ann')).toEqual(STORED);
+    expect(await data.scoreHistory.listByContact('ann')).toEqual([]);
+  });
+
+  it('reflects the config in the diff', async () => {
+    const { server } = await setup();
+    const calculate = async (config: object) =>
+      (await server.request('POST', '/api/relationships/scores/calculate', { all: true, config, dryRun: true }))
+        .body.diff[0];
+
+    const byDefault = await calculate({});
+    const byRecency = await calculate(recencyOnly);
+
+    // The components do not depend on the weights; only their blend does (recency moves with the clock)
+    expect(byRecency.after.recency).toBeCloseTo(byDefault.after.recency, 3);
+    expect(byRecency.after.overall).not.toBe(byDefault.after.overall);
+    expect(byRecency.delta.overall).toBe(byRecency.after.overall - 50);
+  });
+
+  it('saves and snapshots the new scores without dryRun', async () => {
+    const { data, server } = await setup();
+
+    const response = await server.request('POST', '/api/relationships/scores/calculate', {
+      contactIds: ['ann'],
+      config: recencyOnly,
+    });
+
+    expect(response.body.dryRun).toBe(false);
+    expect((await data.scores.get('ann'))?.overall).toBe(response.body.data[0].overall);
+    expect(await data.scoreHistory.listByContact('ann')).toHaveLength(1);
+  });
+
+  it('rejects a request without targets or with an invalid config', async () => {
+    const { server } = await setup();
+    const calculate = (body: object) => server.request('POST', '/api/relationships/scores/calculate', body);
+
+    expect((await calculate({ config: recencyOnly })).body.message).toBe(
+      'Provide contactIds as an array or set all to true',
+    );
+    expect((await calculate({ all: true, config: [] })).status).toBe(400);
+    expect((await calculate({ all: true, config: { recencyWeight: 2 } })).status).toBe(400);
+  });
+});
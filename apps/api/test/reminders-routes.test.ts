@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DataService } from '../src/services/data-service.js';
+import { createRemindersRouter } from '../src/routes/reminders.js';
+import { createMemoryRepositories } from '../src/storage/index.js';
+import { TestServer, startServer } from './http.js';
+
+let server: TestServer | undefined;
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+async function setup() {
+  const data = new DataService(createMemoryRepositories());
+  const now = new Date();
+  await data.reminders.save({
+    id: 'r1',
+    contactId: 'a',
+    message: 'Call Ann',
+    dueDate: now,
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now,
+  });
+  server = await startServer({ '/api/reminders': createRemindersRouter(data) });
+  return { data, server };
+}
+
+describe('PUT /api/reminders/:id', () => {
+  it('does not let clients mark a reminder sent', async () => {
+    const { data, server } = await setup();
+
+    const response = await server.request('PUT', '/api/reminders/r1', { status: 'sent' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain("marked 'sent' by delivery");
+    const reminder = await data.reminders.get('r1');
+    expect(reminder?.status).toBe('pending');
+    expect(reminder?.sentAt).toBeUndefined();
+  });
+
+  it('still applies other lifecycle changes', async () => {
+    const { data, server } = await setup();
+
+    const response = await server.request('PUT', '/api/reminders/r1', { status: 'completed' });
+
+    expect(response.status).toBe(200);
+    expect((await data.reminders.get('r1'))?.status).toBe('completed');
+  });
+});
@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Contact } from '@keepclos/shared';
+import { DataService } from '../src/services/data-service.js';
+import { createRulesRouter } from '../src/routes/rules.js';
+import { createMemoryRepositories } from '../src/storage/index.js';
+import { TestServer, startServer } from './http.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+let server: TestServer | undefined;
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+function contact(id: string, lastContactDaysAgo: number | undefined, tags: string[] = []): Contact {
+  const created = new Date('2024-01-01T00:00:00Z');
+  return {
+    id,
+    name: id.toUpperCase(),
+    tags,
+    notes: '',
+    lastContactedAt:
+      lastContactDaysAgo === undefined ? undefined : new Date(Date.now() - lastContactDaysAgo * MS_PER_DAY),
+    createdAt: created,
+    updatedAt: created,
+  };
+}
+
+async function setup() {
+  const data = new DataService(createMemoryRepositories());
+  await data.contacts.save(contact('ann', 40, ['family']));
+  await data.contacts.save(contact('bob', 5, ['family']));
+  await data.contacts.save(contact('cy', undefined));
+  await data.scores.save({
+    contactId: 'ann',
+    overall: 35,
+    recency: 20,
+    frequency: 40,
+    engagement: 50,
+    trend: 'declining',
+    lastUpdated: new Date(),
+  });
+  server = await startServer({ '/api/rules': createRulesRouter(data) });
+  return { data, server };
+}
+
+describe('POST /api/rules', () => {
+  it('creates a rule with defaults', async () => {
+    const { data, server } = await setup();
+
+    const response = await server.request('POST', '/api/rules', {
+      type: 'inactivity',
+      name: 'Monthly',
+      config: { inactivityDays: 30 },
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({ type: 'inactivity', name: 'Monthly', description: '', enabled: true });
+    expect(await data.rules.get(response.body.data.id)).toBeDefined();
+  });
+
+  it.each([
+    [{ type: 'weekly', name: 'x' }, 'Rule type must be one of: inactivity, recurring, date, decay, composite'],
+    [{ type: 'inactivity', config: { inactivityDays: 30 } }, 'Rule name is required and must be a string'],
+    [{ type: 'inactivity', name: 'x', description: 5 }, 'Description must be a string'],
+    [{ type: 'inactivity', name: 'x', enabled: 'yes' }, 'Enabled must be a boolean'],
+    [{ type: 'inactivity', name: 'x', config: [] }, 'Config must be an object'],
+    [{ type: 'inactivity', name: 'x', config: { inactivityDays: 30, tags: 'family' } }, 'Config tags must be an array'],
+    // Configuration errors from the reminder engine
+    [{ type: 'inactivity', name: 'x', config: { inactivityDays: 0 } }, 'inactivityDays must be positive'],
+    [{ type: 'recurring', name: 'x', config: {} }, 'recurringDays must be positive'],
+    [{ type: 'date', name: 'x', config: {} }, 'datePattern is required'],
+    [{ type: 'date', name: 'x', config: { dateSource: 'contact', dateTypes: ['nameday'] } }, 'dateTypes must only'],
+    [{ type: 'decay', name: 'x', config: { scoreThreshold: 101 } }, 'scoreThreshold must be between 0 and 100'],
+    [{ type: 'composite', name: 'x', config: {} }, 'conditions are required for composite rules'],
+    [
+      { type: 'inactivity', name: 'x', config: { inactivityDays: 30, excludeTags: [1] } },
+      'excludeTags must be an array of strings',
+    ],
+  ])('rejects %j', async (body, message) => {
+    const { data, server } = await setup();
+
+    const response = await server.request('POST', '/api/rules', body);
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain(message);
+    expect(await data.rules.list()).toEqual([]);
+  });
+});
+
+describe('rule preview', () => {
+  const familyRule = { type: 'inactivity', name: 'Family', config: { inactivityDays: 30, tags: ['family'] } };
+
+  it('lists the contacts an unsaved rule fires for, without saving it', async () => {
+    const { data, server } = await setup();
+
+    const response = await server.request('POST', '/api/rules/preview', familyRule);
+
+    expect(response.status).toBe(200);
+    expect(response.body.count).toBe(1);
+    expect(response.body.data).toEqual([
+      {
+        contactId: 'ann',
+        contactName: 'ANN',
+        relationshipScore: 35,
+        message: "Time to reach out to ANN! You haven't connected in 30 days.",
+        reasons: ['no contact in 30 days (last 40 days ago)', 'tagged family'],
+      },
+    ]);
+    expect(await data.rules.list()).toEqual([]);
+  });
+
+  it('previews a stored rule even when it is disabled, scoring unscored contacts 0', async () => {
+    const { server } = await setup();
+    const created = await server.request('POST', '/api/rules', {
+      type: 'inactivity',
+      name: 'Anyone',
+      enabled: false,
+      config: { inactivityDays: 30 },
+    });
+
+    const response = await server.request('GET', `/api/rules/${created.body.data.id}/preview`);
+
+    const matches: Array<{ contactId: string; relationshipScore: number }> = response.body.data;
+    expect(matches.map((match) => [match.contactId, match.relationshipScore])).toEqual([
+      ['ann', 35],
+      ['cy', 0],
+    ]);
+  });
+
+  it('rejects an invalid rule and answers 404 for an unknown one', async () => {
+    const { server } = await setup();
+
+    expect((await server.request('POST', '/api/rules/preview', { ...familyRule, config: {} })).status).toBe(400);
+    expect((await server.request('GET', '/api/rules/missing/preview')).status).toBe(404);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { Contact, Interaction, ScoreSnapshot } from '@keepclos/shared';
+import { createMemoryRepositories } from '../src/storage/index.js';
+import { getScoreHistory, scoreContact, snapshotScores } from '../src/services/score-history.js';
+
+const NOW = new Date('2024-06-30T12:00:00Z');
+
+function contact(id: string, tags: string[] = []): Contact {
+  const created = new Date('2024-01-01T00:00:00Z');
+  return { id, name: `Contact ${id}`, tags, notes: '', createdAt: created, updatedAt: created };
+}
+
+function snapshot(contactId: string, date: string, overall: number): ScoreSnapshot {
+  return {
+    contactId,
+    date,
+    takenAt: new Date(`${date}T12:00:00Z`),
+    overall,
+    recency: overall,
+    frequency: overall,
+    engagement: overall,
+  };
+}
+
+function call(contactId: string, date: string): Interaction {
+  return { id: `${contactId}-${date}`, contactId, type: 'call', timestamp: new Date(`${date}T12:00:00Z`), quality: 70 };
+}
+
+describe('getScoreHistory', () => {
+  it('fits the trend over the window ending now whatever days the points are limited to', async () => {
+    const repositories = createMemoryRepositories();
+    // Declining through May, then a flat final week
+    for (let day = 1; day <= 31; day++) {
+      await repositories.scoreHistory.save(snapshot('a', `2024-05-${String(day).padStart(2, '0')}`, 90 - day));
+    }
+    for (let day = 24; day <= 30; day++) {
+      await repositories.scoreHistory.save(snapshot('a', `2024-06-${day}`, 59));
+    }
+
+    const all = await getScoreHistory(repositories, 'a', { resolution: 'daily' }, NOW);
+    const lastWeek = await getScoreHistory(repositories, 'a', { resolution: 'daily', from: '2024-06-24' }, NOW);
+    const may = await getScoreHistory(repositories, 'a', { resolution: 'weekly', to: '2024-05-31' }, NOW);
+
+    expect(all.trend).toMatchObject({ trend: 'declining', points: 38, window: 90 });
+    expect(lastWeek.points).toHaveLength(7);
+    expect(lastWeek.trend).toEqual(all.trend);
+    expect(may.points.map((point) => point.period)).toEqual([
+      '2024-04-29',
+      '2024-05-06',
+      '2024-05-13',
+      '2024-05-20',
+      '2024-05-27',
+    ]);
+    expect(may.trend).toEqual(all.trend);
+  });
+});
+
+describe('snapshotScores', () => {
+  it('snapshots each contact without a snapshot today as scoreContact scores it', async () => {
+    const repositories = createMemoryRepositories();
+    await repositories.profile.save({
+      timeZone: 'Europe/Berlin',
+      scoringProfiles: [{ name: 'Family', tags: ['family'], halfLife: 90 }],
+      createdAt: NOW,
+      updatedAt: NOW,
+    });
+    for (const item of [contact('a', ['family']), contact('b'), contact('c')]) {
+      await repositories.contacts.save(item);
+    }
+    for (const item of [call('a', '2024-05-01'), call('b', '2024-05-01'), call('b', '2024-06-20')]) {
+      await repositories.interactions.save(item);
+    }
+    await repositories.scoreHistory.save(snapshot('a', '2024-06-01', 80));
+    await repositories.scoreHistory.save(snapshot('c', '2024-06-30', 10));
+
+    const expected = await scoreContact(
+      repositories,
+      contact('a', ['family']),
+      await repositories.interactions.listByContact('a'),
+      NOW,
+    );
+
+    expect(await snapshotScores(repositories, NOW)).toBe(2);
+    expect(await snapshotScores(repositories, NOW)).toBe(0);
+
+    const [, today] = await repositories.scoreHistory.listByContact('a');
+    expect(today).toMatchObject({ date: '2024-06-30', overall: expected.overall });
+    expect((await repositories.scores.get('a'))?.trend).toBe(expected.trend);
+    expect((await repositories.scoreHistory.listByContact('b')).map((item) => item.date)).toEqual(['2024-06-30']);
+    expect(await repositories.scoreHistory.listByContact('c')).toEqual([snapshot('c', '2024-06-30', 10)]);
+  });
+});
@@ -0,0 +1,166 @@
+import { Contact, ContactFieldValue, PostalAddress } from '@keepclos/shared';
+
+/**
+ * Helpers for multi-valued contact fields (emails, phones, addresses, URLs)
+ * Keeps exactly one primary entry per field and the email/phone mirrors in sync
+ */
+
+export const DEFAULT_FIELD_LABEL = 'other';
+
+// Labels that describe the transport rather than the kind of address
+const IGNORED_TYPE_LABELS = ['internet', 'pref', 'voice', 'x400', 'msg', 'text', 'uri'];
+
+const LABEL_ALIASES: Record<string, string> = {
+  cell: 'mobile',
+  iphone: 'mobile',
+  personal: 'home',
+  business: 'work',
+  homepage: 'home',
+};
+
+/**
+ * Normalize a label from vCard TYPE values, Apple X-ABLabel values or CSV headers
+ * @param raw Raw label (e.g. "CELL", "_$!<Home>!$_", "Work")
+ * @returns Lowercased label, or undefined if the label carries no meaning
+ */
+export function normalizeFieldLabel(raw: string | undefined): string | undefined {
+  if (!raw) {
+    return undefined;
+  }
+
+  // Apple wraps built-in labels: _$!<Mobile>!$_
+  const label = raw.replace(/^_\$!<(.*)>!\$_$/, '$1').trim().toLowerCase();
+
+  if (label.length === 0 || IGNORED_TYPE_LABELS.includes(label)) {
+    return undefined;
+  }
+
+  return LABEL_ALIASES[label] ?? label;
+}
+
+/**
+ * Normalize a list of field values
+ * Drops empty and duplicate values and guarantees exactly one primary entry (the first flagged one,
+ * otherwise the first entry)
+ * @param values Field values
+ * @param keyOf Identity of a value for de-duplication
+ * @returns Normalized field values
+ */
+export function normalizeFieldValues<T>(
+  values: ContactFieldValue<T>[],
+  keyOf: (value: T) => string = (value) => String(value).trim().toLowerCase(),
+): ContactFieldValue<T>[] {
+  const seen = new Set<string>();
+  const normalized: ContactFieldValue<T>[] = [];
+
+  for (const entry of values) {
+    const key = keyOf(entry.value);
+    if (key.length === 0 || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    normalized.push({
+      label: normalizeFieldLabel(entry.label) ?? DEFAULT_FIELD_LABEL,
+      value: entry.value,
+      primary: entry.primary === true,
+    });
+  }
+
+  const primaryIndex = Math.max(
+    normalized.findIndex((entry) => entry.primary),
+    0,
+  );
+  return normalized.map((entry, index) => ({ ...entry, primary: index === primaryIndex }));
+}
+
+/**
+ * Get the primary value of a field
+ * @param values Field values
+ * @returns Primary value (or the first value) or undefined if empty
+ */
+export function primaryFieldValue<T>(values: ContactFieldValue<T>[] | undefined): T | undefined {
+  if (!values || values.length === 0) {
+    return undefined;
+  }
+
+  return (values.find((entry) => entry.primary) ?? values[0]).value;
+}
+
+/**
+ * Replace the primary value of a field, keeping its label
+ * An empty value removes the primary entry and promotes the next one
+ * @param values Current field values
+ * @param value New primary value
+ * @returns Updated field values
+ */
+export function setPrimaryFieldValue(
+  values: ContactFieldValue[] | undefined,
+  value: string | undefined,
+): ContactFieldValue[] {
+  const current = values ?? [];
+  const primary = current.find((entry) => entry.primary) ?? current[0];
+  const others = current.filter((entry) => entry !== primary);
+
+  if (!value) {
+    return normalizeFieldValues(others);
+  }
+
+  const updated: ContactFieldValue = {
+    label: primary?.label ?? DEFAULT_FIELD_LABEL,
+    value,
+    primary: true,
+  };
+  return normalizeFieldValues([updated, ...others.map((entry) => ({ ...entry, primary: false }))]);
+}
+
+/**
+ * Identity of a postal address for de-duplication
+ * @param address Postal address
+ * @returns Normalized key ("" for an empty address)
+ */
+export function postalAddressKey(address: PostalAddress): string {
+  return [address.street, address.city, address.region, address.postalCode, address.country]
+    .map((part) => (part ?? '').trim().toLowerCase())
+    .filter((part) => part.length > 0)
+    .join('|');
+}
+
+/**
+ * Contact emails, falling back to the single email field for older records
+ * @param contact Contact
+ * @returns Email values
+ */
+export function contactEmails(contact: Contact): ContactFieldValue[] {
+  if (contact.emails && contact.emails.length > 0) {
+    return contact.emails;
+  }
+  return contact.email ? [{ label: DEFAULT_FIELD_LABEL, value: contact.email, primary: true }] : [];
+}
+
+/**
+ * Contact phones, falling back to the single phone field for older records
+ * @param contact Contact
+ * @returns Phone values
+ */
+export function contactPhones(contact: Contact): ContactFieldValue[] {
+  if (contact.phones && contact.phones.length > 0) {
+    return contact.phones;
+  }
+  return contact.phone ? [{ label: DEFAULT_FIELD_LABEL, value: contact.phone, primary: true }] : [];
+}
+
+/**
+ * Set the email/phone mirrors from the primary emails/phones entries
+ * Records without multi-value fields keep their single values
+ * @param contact Contact to update in place
+ * @returns The same contact
+ */
+export function syncPrimaryFields(contact: Contact): Contact {
+  if (contact.emails) {
+    contact.email = primaryFieldValue(contact.emails);
+  }
+  if (contact.phones) {
+    contact.phone = primaryFieldValue(contact.phones);
+  }
+  return contact;
+}
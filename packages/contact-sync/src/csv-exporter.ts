@@ -0,0 +1,267 @@
+import { Contact, ContactFieldValue, ImportantDateType, PostalAddress } from '@keepclos/shared';
+import { CSVFieldColumn, CSVImportConfig } from './csv-importer.js';
+import { DEFAULT_FIELD_LABEL, contactEmails, contactPhones, normalizeFieldLabel } from './contact-fields.js';
+import { formatDateValue } from './important-dates.js';
+
+/**
+ * CSV exporter for contacts with configurable columns
+ * Column options mirror CSVImportConfig so an export can be re-imported with the same mapping
+ */
+
+export interface CSVExportConfig {
+  nameColumn: string; // Header for the name column
+  emailColumn: string | null; // Header for the email column (null to omit)
+  phoneColumn: string | null;
+  tagsColumn: string | null;
+  notesColumn: string | null;
+  birthdayColumn: string | null; // Written as YYYY-MM-DD, or --MM-DD without a year
+  anniversaryColumn: string | null;
+  emailColumns: CSVExportFieldColumn[]; // Additional labeled email columns (default: none)
+  phoneColumns: CSVExportFieldColumn[];
+  addressColumns: CSVExportFieldColumn[]; // Addresses written on one line
+  urlColumns: CSVExportFieldColumn[];
+  hasHeader: boolean; // Whether to write a header row (default: true)
+  delimiter: string; // CSV delimiter (default: ',')
+  tagSeparator: string; // Separator for multi-value tags (default: ';')
+  lineEnding: string; // Record terminator (default: '\n')
+}
+
+export interface CSVExportFieldColumn {
+  column: string; // Header to write
+  label: string; // Values with this label, e.g. "work"; repeated labels take the next value
+}
+
+const DEFAULT_CONFIG: CSVExportConfig = {
+  nameColumn: 'name',
+  emailColumn: 'email',
+  phoneColumn: 'phone',
+  tagsColumn: 'tags',
+  notesColumn: 'notes',
+  birthdayColumn: 'birthday',
+  anniversaryColumn: 'anniversary',
+  emailColumns: [],
+  phoneColumns: [],
+  addressColumns: [],
+  urlColumns: [],
+  hasHeader: true,
+  delimiter: ',',
+  tagSeparator: ';',
+  lineEnding: '\n',
+};
+
+type ExportColumn = [header: string, value: (contact: Contact) => string];
+
+/**
+ * Export contacts to CSV
+ * @param contacts Contacts to export
+ * @param config Export configuration
+ * @returns CSV content
+ */
+export function exportToCSV(contacts: Contact[], config: Partial<CSVExportConfig> = {}): string {
+  const finalConfig = { ...DEFAULT_CONFIG, ...config };
+  const columns = getExportColumns(finalConfig);
+  const records: string[] = [];
+
+  if (finalConfig.hasHeader) {
+    records.push(formatCSVRecord(columns.map(([header]) => header), finalConfig.delimiter));
+  }
+
+  for (const contact of contacts) {
+    records.push(formatCSVRecord(columns.map(([, value]) => value(contact)), finalConfig.delimiter));
+  }
+
+  return records.join(finalConfig.lineEnding) + finalConfig.lineEnding;
+}
+
+/**
+ * Build the import configuration that reads back an export
+ * @param config Export configuration used to write the CSV
+ * @returns Matching import configuration
+ */
+export function csvImportConfigFor(config: Partial<CSVExportConfig> = {}): Partial<CSVImportConfig> {
+  const finalConfig = { ...DEFAULT_CONFIG, ...config };
+
+  // Without a header row, columns are referenced by position
+  const columns = getExportColumns(finalConfig).map(([header]) => header);
+  const refTo = (header: string): number | string => (finalConfig.hasHeader ? header : columns.indexOf(header));
+  const ref = (header: string | null): number | string | undefined => (header === null ? undefined : refTo(header));
+  const refs = (fieldColumns: CSVExportFieldColumn[]): CSVFieldColumn[] =>
+    fieldColumns.map(({ column, label }) => ({ column: refTo(column), label }));
+
+  return {
+    nameColumn: ref(finalConfig.nameColumn),
+    emailColumn: ref(finalConfig.emailColumn),
+    phoneColumn: ref(finalConfig.phoneColumn),
+    tagsColumn: ref(finalConfig.tagsColumn),
+    notesColumn: ref(finalConfig.notesColumn),
+    birthdayColumn: ref(finalConfig.birthdayColumn),
+    anniversaryColumn: ref(finalConfig.anniversaryColumn),
+    emailColumns: refs(finalConfig.emailColumns),
+    phoneColumns: refs(finalConfig.phoneColumns),
+    addressColumns: refs(finalConfig.addressColumns),
+    urlColumns: refs(finalConfig.urlColumns),
+    hasHeader: finalConfig.hasHeader,
+    delimiter: finalConfig.delimiter,
+    tagSeparator: finalConfig.tagSeparator,
+  };
+}
+
+/**
+ * Validate export configuration
+ * @param config Configuration to validate
+ */
+export function validateExportConfig(config: Partial<CSVExportConfig>): string[] {
+  const errors: string[] = [];
+
+  if (config.nameColumn !== undefined && config.nameColumn.trim().length === 0) {
+    errors.push('nameColumn must not be empty');
+  }
+
+  if (config.delimiter !== undefined && config.delimiter.length !== 1) {
+    errors.push('delimiter must be a single character');
+  }
+
+  if (config.delimiter === '"') {
+    errors.push('delimiter must not be a double quote');
+  }
+
+  if (config.tagSeparator !== undefined && config.tagSeparator.length === 0) {
+    errors.push('tagSeparator must not be empty');
+  }
+
+  if (config.tagSeparator !== undefined && config.tagSeparator === config.delimiter) {
+    errors.push('tagSeparator must differ from delimiter');
+  }
+
+  const fieldColumns = [
+    ...(config.emailColumns ?? []),
+    ...(config.phoneColumns ?? []),
+    ...(config.addressColumns ?? []),
+    ...(config.urlColumns ?? []),
+  ];
+  if (fieldColumns.some(({ column, label }) => !column?.trim() || !label?.trim())) {
+    errors.push('Labeled columns need a header and a label');
+  }
+
+  // Defaulted headers count too, so a labeled "email" column clashes with the default email column
+  const finalConfig = { ...DEFAULT_CONFIG, ...config };
+  const headers = [
+    finalConfig.nameColumn,
+    finalConfig.emailColumn,
+    finalConfig.phoneColumn,
+    finalConfig.tagsColumn,
+    finalConfig.notesColumn,
+    finalConfig.birthdayColumn,
+    finalConfig.anniversaryColumn,
+    ...fieldColumns.map(({ column }) => column),
+  ].filter((header): header is string => typeof header === 'string');
+  const normalized = headers.map((header) => header.toLowerCase().trim());
+  if (new Set(normalized).size !== normalized.length) {
+    errors.push('Column headers must be unique');
+  }
+
+  return errors;
+}
+
+/**
+ * Resolve the configured columns in output order (name, email, phone, tags, notes, birthday, anniversary,
+ * then the labeled email, phone, address and URL columns)
+ * @param config Export configuration
+ * @returns Header and value accessor per column
+ */
+function getExportColumns(config: CSVExportConfig): ExportColumn[] {
+  const columns: Array<[string | null, (contact: Contact) => string]> = [
+    [config.nameColumn, (contact) => contact.name],
+    [config.emailColumn, (contact) => contact.email ?? ''],
+    [config.phoneColumn, (contact) => contact.phone ?? ''],
+    [config.tagsColumn, (contact) => contact.tags.join(config.tagSeparator)],
+    [config.notesColumn, (contact) => contact.notes],
+    [config.birthdayColumn, (contact) => formatContactDate(contact, 'birthday')],
+    [config.anniversaryColumn, (contact) => formatContactDate(contact, 'anniversary')],
+  ];
+
+  // The single email/phone columns hold the primary values, so labeled columns skip them
+  return [
+    ...columns.filter((column): column is ExportColumn => column[0] !== null),
+    ...labeledColumns(config.emailColumns, (contact) => withoutPrimary(contactEmails(contact), config.emailColumn)),
+    ...labeledColumns(config.phoneColumns, (contact) => withoutPrimary(contactPhones(contact), config.phoneColumn)),
+    ...labeledColumns(config.addressColumns, (contact) => contact.addresses ?? [], formatAddress),
+    ...labeledColumns(config.urlColumns, (contact) => contact.urls ?? []),
+  ];
+}
+
+/**
+ * Columns for labeled field values
+ * The nth column with a label holds the contact's nth value with that label
+ * @param columns Labeled column configuration
+ * @param values Field values of a contact
+ * @param format Cell text of a value (default: the value itself)
+ * @returns Header and value accessor per column
+ */
+function labeledColumns<T>(
+  columns: CSVExportFieldColumn[],
+  values: (contact: Contact) => ContactFieldValue<T>[],
+  format: (value: T) => string = String,
+): ExportColumn[] {
+  return columns.map(({ column, label }, index) => {
+    const normalized = normalizeFieldLabel(label) ?? DEFAULT_FIELD_LABEL;
+    const occurrence = columns
+      .slice(0, index)
+      .filter((other) => (normalizeFieldLabel(other.label) ?? DEFAULT_FIELD_LABEL) === normalized).length;
+
+    return [
+      column,
+      (contact) => {
+        const entry = values(contact).filter((value) => value.label === normalized)[occurrence];
+        return entry ? format(entry.value) : '';
+      },
+    ];
+  });
+}
+
+/**
+ * Drop the primary entry when the single column already holds it
+ */
+function withoutPrimary(values: ContactFieldValue[], singleColumn: string | null): ContactFieldValue[] {
+  return singleColumn === null ? values : values.filter((entry) => !entry.primary);
+}
+
+/**
+ * Format a postal address on one line
+ * @param address Postal address
+ * @returns e.g. "1 Main St, Springfield, IL 62701, USA"
+ */
+function formatAddress(address: PostalAddress): string {
+  const regionLine = [address.region, address.postalCode].filter((part) => part).join(' ');
+  return [address.street?.replace(/\n/g, ', '), address.city, regionLine, address.country]
+    .filter((part) => part)
+    .join(', ');
+}
+
+/**
+ * Format a contact's first date of the given type
+ * @param contact Contact
+ * @param type Date type
+ * @returns Formatted date or an empty string
+ */
+function formatContactDate(contact: Contact, type: ImportantDateType): string {
+  const date = contact.importantDates?.find((entry) => entry.type === type);
+  return date ? formatDateValue(date) : '';
+}
+
+/**
+ * Format a CSV record, quoting fields that contain the delimiter, quotes or line breaks
+ * @param fields Field values
+ * @param delimiter CSV delimiter
+ * @returns Formatted record
+ */
+function formatCSVRecord(fields: string[], delimiter: string): string {
+  return fields
+    .map((field) => {
+      if (field.includes(delimiter) || /["\r\n]/.test(field) || field !== field.trim()) {
+        return `"${field.replace(/"/g, '""')}"`;
+      }
+      return field;
+    })
+    .join(delimiter);
+}
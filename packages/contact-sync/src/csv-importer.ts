@@ -1,4 +1,12 @@
-import { Contact } from '@keepclos/shared';
+import { Contact, ImportantDate, ImportantDateType, PostalAddress } from '@keepclos/shared';
+import {
+  DEFAULT_FIELD_LABEL,
+  normalizeFieldLabel,
+  normalizeFieldValues,
+  postalAddressKey,
+  primaryFieldValue,
+} from './contact-fields.js';
+import { normalizeImportantDates, toImportantDate } from './important-dates.js';
 
 /**
  * CSV importer for contacts with configurable column mapping
@@ -10,11 +18,40 @@ export interface CSVImportConfig {
   phoneColumn?: number | string;
   tagsColumn?: number | string;
   notesColumn?: number | string;
+  emailColumns?: CSVFieldColumn[]; // Additional labeled email columns
+  phoneColumns?: CSVFieldColumn[];
+  addressColumns?: CSVFieldColumn[]; // One-cell addresses, imported as the street line
+  urlColumns?: CSVFieldColumn[];
+  birthdayColumn?: number | string; // Dates as YYYY-MM-DD, --MM-DD or MM/DD[/YYYY]
+  anniversaryColumn?: number | string;
+  dateColumns?: CSVFieldColumn[]; // Custom dates; the label names the date
   hasHeader: boolean; // Whether first row is header (default: true)
   delimiter: string; // CSV delimiter (default: ',')
   tagSeparator: string; // Separator for multi-value tags (default: ';')
 }
 
+export interface CSVFieldColumn {
+  column: number | string; // Column index or header name
+  label: string; // e.g. "work", "home", "mobile"
+}
+
+type FieldColumnsKey = 'emailColumns' | 'phoneColumns' | 'addressColumns' | 'urlColumns';
+
+// Headers recognized as birthday columns during auto-detection
+const BIRTHDAY_HEADERS = ['birthday', 'birthdate', 'birth date', 'date of birth', 'dob', 'bday'];
+
+// Header words that identify multi-value columns during auto-detection
+const FIELD_HEADER_KINDS: Record<string, FieldColumnsKey> = {
+  email: 'emailColumns',
+  phone: 'phoneColumns',
+  telephone: 'phoneColumns',
+  mobile: 'phoneColumns',
+  address: 'addressColumns',
+  website: 'urlColumns',
+  url: 'urlColumns',
+  homepage: 'urlColumns',
+};
+
 export interface CSVImportResult {
   contacts: Contact[];
   errors: CSVImportError[];
@@ -42,14 +79,11 @@ const DEFAULT_CONFIG: CSVImportConfig = {
 export function importFromCSV(csvContent: string, config: Partial<CSVImportConfig> = {}): CSVImportResult {
   const finalConfig = { ...DEFAULT_CONFIG, ...config };
 
-  if (!finalConfig.nameColumn) {
+  if (finalConfig.nameColumn === undefined) {
     throw new Error('nameColumn configuration is required');
   }
 
-  const lines = csvContent
-    .split('\n')
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0);
+  const lines = splitCSVRecords(csvContent);
 
   const contacts: Contact[] = [];
   const errors: CSVImportError[] = [];
@@ -88,6 +122,35 @@ export function importFromCSV(csvContent: string, config: Partial<CSVImportConfi
   };
 }
 
+/**
+ * Split CSV content into records
+ * Line breaks inside quoted fields belong to the field, not the record boundary
+ * @param csvContent CSV content
+ * @returns Non-empty, trimmed records
+ */
+function splitCSVRecords(csvContent: string): string[] {
+  const records: string[] = [];
+  let current = '';
+  let insideQuotes = false;
+
+  for (const char of csvContent) {
+    if (char === '"') {
+      // Escaped quotes ("") toggle twice, leaving the state unchanged
+      insideQuotes = !insideQuotes;
+    }
+
+    if (char === '\n' && !insideQuotes) {
+      records.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  records.push(current);
+
+  return records.map((record) => record.trim()).filter((record) => record.length > 0);
+}
+
 /**
  * Parse CSV header to create column mapping
  * @param headerLine First line of CSV
@@ -162,10 +225,10 @@ function parseContactFromRow(
 ): Contact | null {
   // Get column indices
   const nameIndex = getColumnIndex(config.nameColumn, headerMap);
-  const emailIndex = config.emailColumn ? getColumnIndex(config.emailColumn, headerMap) : -1;
-  const phoneIndex = config.phoneColumn ? getColumnIndex(config.phoneColumn, headerMap) : -1;
-  const tagsIndex = config.tagsColumn ? getColumnIndex(config.tagsColumn, headerMap) : -1;
-  const notesIndex = config.notesColumn ? getColumnIndex(config.notesColumn, headerMap) : -1;
+  const emailIndex = getColumnIndex(config.emailColumn, headerMap);
+  const phoneIndex = getColumnIndex(config.phoneColumn, headerMap);
+  const tagsIndex = getColumnIndex(config.tagsColumn, headerMap);
+  const notesIndex = getColumnIndex(config.notesColumn, headerMap);
 
   // Extract name (required)
   if (nameIndex < 0 || nameIndex >= row.length) {
@@ -177,9 +240,46 @@ function parseContactFromRow(
     throw new Error(`Row ${rowIndex}: Name is required`);
   }
 
-  // Extract optional fields
-  const email = emailIndex >= 0 && emailIndex < row.length ? row[emailIndex] : undefined;
-  const phone = phoneIndex >= 0 && phoneIndex < row.length ? row[phoneIndex] : undefined;
+  // Extract multi-value fields; the single email/phone columns hold the primary values
+  const cell = (index: number) => (index >= 0 && index < row.length ? row[index].trim() : '');
+  const labeled = (columns: CSVFieldColumn[] | undefined) =>
+    (columns ?? []).map(({ column, label }) => ({
+      label,
+      value: cell(getColumnIndex(column, headerMap)),
+      primary: false,
+    }));
+
+  const emails = normalizeFieldValues([
+    { label: DEFAULT_FIELD_LABEL, value: cell(emailIndex), primary: true },
+    ...labeled(config.emailColumns),
+  ]);
+  const phones = normalizeFieldValues([
+    { label: DEFAULT_FIELD_LABEL, value: cell(phoneIndex), primary: true },
+    ...labeled(config.phoneColumns),
+  ]);
+  const addresses = normalizeFieldValues<PostalAddress>(
+    labeled(config.addressColumns).map((entry) => ({ ...entry, value: { street: entry.value } })),
+    postalAddressKey,
+  );
+  const urls = normalizeFieldValues(labeled(config.urlColumns));
+
+  // Parse important dates (unparseable values are reported as row errors)
+  const importantDates: ImportantDate[] = [];
+  const dateCells: Array<{ type: ImportantDateType; label?: string; value: string }> = [
+    { type: 'birthday', value: cell(getColumnIndex(config.birthdayColumn, headerMap)) },
+    { type: 'anniversary', value: cell(getColumnIndex(config.anniversaryColumn, headerMap)) },
+    ...labeled(config.dateColumns).map(({ label, value }) => ({ type: 'custom' as const, label, value })),
+  ];
+  for (const { type, label, value } of dateCells) {
+    if (!value) {
+      continue;
+    }
+    const date = toImportantDate(type, value, label);
+    if (!date) {
+      throw new Error(`Row ${rowIndex}: Invalid ${label ?? type} date "${value}"`);
+    }
+    importantDates.push(date);
+  }
 
   // Parse tags
   let tags: string[] = [];
@@ -199,9 +299,14 @@ function parseContactFromRow(
   const contact: Contact = {
     id: generateId(),
     name: name.trim(),
-    email: email?.trim(),
-    phone: phone?.trim(),
-    tags: ['imported-csv', ...tags],
+    email: primaryFieldValue(emails),
+    phone: primaryFieldValue(phones),
+    emails,
+    phones,
+    addresses,
+    urls,
+    importantDates: normalizeImportantDates(importantDates),
+    tags: [...new Set(['imported-csv', ...tags])],
     notes: notes?.trim() || '',
     createdAt: new Date(),
     updatedAt: new Date(),
@@ -210,6 +315,60 @@ function parseContactFromRow(
   return contact;
 }
 
+/**
+ * Detect labeled multi-value columns from headers such as "Work Email", "Home Phone",
+ * "Mobile", "Email 2", "Address" or "Website"
+ * @param headerMap Header mapping
+ * @param config Configuration (columns already mapped are skipped)
+ * @returns Detected columns per field
+ */
+function detectFieldColumns(
+  headerMap: Map<string, number>,
+  config: Partial<CSVImportConfig>,
+): Partial<Record<FieldColumnsKey, CSVFieldColumn[]>> {
+  const mapped = new Set(
+    [
+      config.nameColumn,
+      config.emailColumn,
+      config.phoneColumn,
+      config.tagsColumn,
+      config.notesColumn,
+      config.birthdayColumn,
+      config.anniversaryColumn,
+    ]
+      .map((column) => getColumnIndex(column, headerMap))
+      .filter((index) => index >= 0),
+  );
+  const detected: Partial<Record<FieldColumnsKey, CSVFieldColumn[]>> = {};
+
+  for (const [header, index] of headerMap) {
+    if (mapped.has(index)) {
+      continue;
+    }
+
+    // "[label] kind [qualifier]", e.g. "work e-mail", "email address", "phone 2", "home address"
+    const words = header.replace(/e-mail/g, 'email').split(/[\s_-]+/).filter((word) => word);
+    while (
+      words.length > 1 &&
+      /^(address|number|\d+)$/.test(words[words.length - 1]) &&
+      FIELD_HEADER_KINDS[words[words.length - 2]]
+    ) {
+      words.pop();
+    }
+
+    const [labelWord, kindWord] = words.length === 2 ? words : [undefined, words[0]];
+    const kind = words.length <= 2 ? FIELD_HEADER_KINDS[kindWord] : undefined;
+    if (!kind) {
+      continue;
+    }
+
+    const label = normalizeFieldLabel(labelWord ?? (kindWord === 'mobile' ? 'mobile' : undefined));
+    (detected[kind] ??= []).push({ column: header, label: label ?? DEFAULT_FIELD_LABEL });
+  }
+
+  return detected;
+}
+
 /**
  * Get column index from config (handles both numeric and string references)
  * @param columnRef Column reference (number or string)
@@ -244,7 +403,7 @@ function getColumnIndex(
 export function validateImportConfig(config: Partial<CSVImportConfig>): string[] {
   const errors: string[] = [];
 
-  if (!config.nameColumn) {
+  if (config.nameColumn === undefined || config.nameColumn === '') {
     errors.push('nameColumn is required');
   }
 
@@ -272,10 +431,7 @@ export function importFromCSVAutoDetect(
   csvContent: string,
   config: Partial<CSVImportConfig> = {},
 ): CSVImportResult {
-  const lines = csvContent
-    .split('\n')
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0);
+  const lines = splitCSVRecords(csvContent);
 
   if (lines.length === 0) {
     return {
@@ -292,7 +448,7 @@ export function importFromCSVAutoDetect(
   // Auto-detect columns
   const finalConfig = { ...DEFAULT_CONFIG, ...config };
 
-  if (!finalConfig.nameColumn) {
+  if (finalConfig.nameColumn === undefined) {
     // Try common name column headers
     for (const nameAlias of ['name', 'fullname', 'full name', 'contact name']) {
       if (headerMap.has(nameAlias)) {
@@ -314,5 +470,24 @@ export function importFromCSVAutoDetect(
     finalConfig.tagsColumn = 'tags';
   }
 
+  if (!finalConfig.notesColumn && headerMap.has('notes')) {
+    finalConfig.notesColumn = 'notes';
+  }
+
+  if (finalConfig.birthdayColumn === undefined) {
+    finalConfig.birthdayColumn = BIRTHDAY_HEADERS.find((header) => headerMap.has(header));
+  }
+
+  if (finalConfig.anniversaryColumn === undefined && headerMap.has('anniversary')) {
+    finalConfig.anniversaryColumn = 'anniversary';
+  }
+
+  // Labeled columns (work email, mobile, website, ...) unless configured explicitly
+  const detected = detectFieldColumns(headerMap, finalConfig);
+  finalConfig.emailColumns ??= detected.emailColumns;
+  finalConfig.phoneColumns ??= detected.phoneColumns;
+  finalConfig.addressColumns ??= detected.addressColumns;
+  finalConfig.urlColumns ??= detected.urlColumns;
+
   return importFromCSV(csvContent, finalConfig);
 }
@@ -0,0 +1,137 @@
+import { ImportantDate, ImportantDateType } from '@keepclos/shared';
+
+/**
+ * Parsing and formatting for contact important dates (birthdays, anniversaries, custom dates)
+ * The year is optional: "--06-15" style values keep only month and day
+ */
+
+export type DateParts = Pick<ImportantDate, 'month' | 'day' | 'year'>;
+
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * Parse a date value from vCard or CSV
+ * Supports YYYY-MM-DD, YYYYMMDD (optionally with a time part), --MM-DD, --MMDD,
+ * YYYY/MM/DD, and US-style MM/DD/YYYY or MM/DD
+ * @param value Raw date value
+ * @param omitYear Placeholder year that means "no year" (Apple's X-APPLE-OMIT-YEAR)
+ * @returns Date parts or undefined if the value is not a valid date
+ */
+export function parseDateValue(value: string, omitYear?: number): DateParts | undefined {
+  const trimmed = value.trim().replace(/T.*$/, '');
+  let year: number | undefined;
+  let month: number;
+  let day: number;
+
+  let match: RegExpMatchArray | null;
+  if ((match = trimmed.match(/^(\d{4})-?(\d{2})-?(\d{2})$/))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = trimmed.match(/^--(\d{2})-?(\d{2})$/))) {
+    [month, day] = [Number(match[1]), Number(match[2])];
+  } else if ((match = trimmed.match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})$/))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = trimmed.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?$/))) {
+    [month, day] = [Number(match[1]), Number(match[2])];
+    year = match[3] ? Number(match[3]) : undefined;
+  } else {
+    return undefined;
+  }
+
+  if (!isValidMonthDay(month, day)) {
+    return undefined;
+  }
+
+  if (year !== undefined && (year === omitYear || year < 1)) {
+    year = undefined;
+  }
+
+  // Feb 29 only exists in leap years
+  if (year !== undefined && month === 2 && day === 29 && !isLeapYear(year)) {
+    return undefined;
+  }
+
+  return year !== undefined ? { month, day, year } : { month, day };
+}
+
+/**
+ * Format a date as YYYY-MM-DD, or --MM-DD when the year is unknown
+ * @param date Date parts
+ * @param basic Use the basic format without hyphens in the date (YYYYMMDD / --MMDD)
+ * @returns Formatted date
+ */
+export function formatDateValue(date: DateParts, basic: boolean = false): string {
+  const separator = basic ? '' : '-';
+  const month = String(date.month).padStart(2, '0');
+  const day = String(date.day).padStart(2, '0');
+
+  if (date.year === undefined) {
+    return `--${month}${separator}${day}`;
+  }
+
+  return `${String(date.year).padStart(4, '0')}${separator}${month}${separator}${day}`;
+}
+
+/**
+ * Check whether a month/day combination exists in some year
+ * @param month Month (1-12)
+ * @param day Day of month
+ * @returns true if valid (Feb 29 is allowed)
+ */
+export function isValidMonthDay(month: number, day: number): boolean {
+  return (
+    Number.isInteger(month) &&
+    Number.isInteger(day) &&
+    month >= 1 &&
+    month <= 12 &&
+    day >= 1 &&
+    day <= DAYS_IN_MONTH[month - 1]
+  );
+}
+
+/**
+ * Build an important date from a raw value
+ * @param type Date type
+ * @param value Raw date value
+ * @param label Label for custom dates
+ * @param omitYear Placeholder year that means "no year"
+ * @returns Important date or undefined if the value is not a valid date
+ */
+export function toImportantDate(
+  type: ImportantDateType,
+  value: string,
+  label?: string,
+  omitYear?: number,
+): ImportantDate | undefined {
+  const parts = parseDateValue(value, omitYear);
+  if (!parts) {
+    return undefined;
+  }
+
+  return label ? { type, label, ...parts } : { type, ...parts };
+}
+
+/**
+ * Drop duplicate dates (same type, label, month and day), preferring entries with a year
+ * @param dates Important dates
+ * @returns De-duplicated dates in original order
+ */
+export function normalizeImportantDates(dates: ImportantDate[]): ImportantDate[] {
+  const byKey = new Map<string, ImportantDate>();
+
+  for (const date of dates) {
+    const key = [date.type, (date.label ?? '').toLowerCase(), date.month, date.day].join('|');
+    const existing = byKey.get(key);
+    if (!existing || (existing.year === undefined && date.year !== undefined)) {
+      byKey.set(key, date);
+    }
+  }
+
+  return [...byKey.values()];
+}
+
+/**
+ * Gregorian leap year check
+ */
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
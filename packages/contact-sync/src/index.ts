@@ -1,2 +1,7 @@
+export * from './contact-fields.js';
+export * from './important-dates.js';
 export * from './vcard-parser.js';
+export * from './vcard-content.js';
 export * from './csv-importer.js';
+export * from './vcard-writer.js';
+export * from './csv-exporter.js';
@@ -0,0 +1,300 @@
+/**
+ * vCard content-line parser (RFC 6350, with vCard 2.1/3.0 compatibility)
+ * Handles line unfolding, groups, parameters, value escaping and legacy encodings
+ */
+
+export interface VCardProperty {
+  group?: string; // Group prefix, e.g. "item1" in item1.EMAIL (lowercased)
+  name: string; // Property name (uppercased)
+  params: Record<string, string[]>; // Parameter values keyed by uppercased name
+  value: string; // Value after transfer decoding, still text-escaped
+}
+
+/**
+ * Unfold content lines
+ * A line break followed by a space or tab continues the previous line (RFC 6350 3.2).
+ * QUOTED-PRINTABLE values from vCard 2.1 continue after a trailing "=" soft line break.
+ * @param content Raw vCard content
+ * @returns Logical content lines (empty lines removed)
+ */
+export function unfoldLines(content: string): string[] {
+  const physical = content.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const lines: string[] = [];
+
+  for (let i = 0; i < physical.length; i++) {
+    let line = physical[i];
+
+    // Quoted-printable soft line breaks: "...=\n..."
+    if (isQuotedPrintableLine(line)) {
+      while (line.endsWith('=') && i + 1 < physical.length) {
+        line = line.slice(0, -1) + physical[++i];
+      }
+    }
+
+    if (line.trim().length > 0) {
+      lines.push(line);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Parse a single unfolded content line: [group "."] name *(";" param) ":" value
+ * @param line Unfolded content line
+ * @returns Parsed property, or null if the line is not a content line
+ */
+export function parseContentLine(line: string): VCardProperty | null {
+  const trimmed = line.replace(/^\s+/, '');
+  const separator = findValueSeparator(trimmed);
+  if (separator === -1) {
+    return null;
+  }
+
+  const [nameToken, ...paramTokens] = splitOutsideQuotes(trimmed.substring(0, separator), ';');
+  const dotIndex = nameToken.lastIndexOf('.');
+  const group = dotIndex > 0 ? nameToken.substring(0, dotIndex).trim().toLowerCase() : undefined;
+  const name = nameToken.substring(dotIndex + 1).trim().toUpperCase();
+
+  if (!/^[A-Z0-9-]+$/.test(name)) {
+    return null;
+  }
+
+  const params: Record<string, string[]> = {};
+  for (const token of paramTokens) {
+    const [paramName, paramValues] = parseParameter(token);
+    params[paramName] = [...(params[paramName] ?? []), ...paramValues];
+  }
+
+  const property: VCardProperty = {
+    name,
+    params,
+    value: trimmed.substring(separator + 1).replace(/\s+$/, ''),
+  };
+  if (group) {
+    property.group = group;
+  }
+
+  property.value = decodeTransferEncoding(property);
+  return property;
+}
+
+/**
+ * Parse every content line of a vCard
+ * @param vcard vCard content
+ * @returns Properties in document order (BEGIN/END markers excluded)
+ */
+export function parseVCardProperties(vcard: string): VCardProperty[] {
+  return unfoldLines(vcard)
+    .map(parseContentLine)
+    .filter((property): property is VCardProperty => property !== null)
+    .filter((property) => property.name !== 'BEGIN' && property.name !== 'END');
+}
+
+/**
+ * Decode escaped text: \n, \,, \; and \\ (RFC 6350 3.4)
+ * @param value Escaped vCard text value
+ * @returns Decoded text
+ */
+export function unescapeVCardText(value: string): string {
+  return value.replace(/\\([nN,;:\\])/g, (_match, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char,
+  );
+}
+
+/**
+ * Split a value on an unescaped separator and decode each component
+ * Use ";" for structured values (N, ADR, ORG) and "," for lists (CATEGORIES, NICKNAME)
+ * @param value Escaped vCard value
+ * @param separator Component separator
+ * @returns Decoded components
+ */
+export function splitVCardValue(value: string, separator: ';' | ','): string[] {
+  const components: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+
+    if (char === '\\' && i + 1 < value.length) {
+      // Keep escape sequences intact; they are decoded per component
+      current += char + value[++i];
+    } else if (char === separator) {
+      components.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  components.push(current);
+
+  return components.map(unescapeVCardText);
+}
+
+/**
+ * Check whether a property has a parameter value (case-insensitive)
+ * vCard 4.0 PREF=1 and 3.0 TYPE=pref both count as "pref"
+ * @param property Property to check
+ * @param paramName Parameter name, e.g. "TYPE"
+ * @param paramValue Parameter value, e.g. "home"
+ * @returns true if the value is present
+ */
+export function hasParamValue(property: VCardProperty, paramName: string, paramValue: string): boolean {
+  const values = property.params[paramName.toUpperCase()] ?? [];
+  return values.some((value) => value.toLowerCase() === paramValue.toLowerCase());
+}
+
+/**
+ * Whether the property is marked as preferred
+ * @param property Property to check
+ * @returns true for TYPE=pref (2.1/3.0) or any PREF parameter (4.0)
+ */
+export function isPreferred(property: VCardProperty): boolean {
+  return hasParamValue(property, 'TYPE', 'pref') || property.params.PREF !== undefined;
+}
+
+/**
+ * Find the colon that separates parameters from the value (ignores colons in quoted parameters)
+ */
+function findValueSeparator(line: string): number {
+  let insideQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      insideQuotes = !insideQuotes;
+    } else if (line[i] === ':' && !insideQuotes) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Split on a separator outside double-quoted sections
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let insideQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      insideQuotes = !insideQuotes;
+      current += char;
+    } else if (char === separator && !insideQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+/**
+ * Parse a parameter token into its name and values
+ * vCard 2.1 bare parameters (TEL;CELL;PREF) become TYPE values;
+ * bare encodings (QUOTED-PRINTABLE, BASE64) become ENCODING
+ */
+function parseParameter(token: string): [string, string[]] {
+  const equalsIndex = token.indexOf('=');
+
+  if (equalsIndex === -1) {
+    const bare = token.trim();
+    if (/^(QUOTED-PRINTABLE|BASE64|8BIT|7BIT)$/i.test(bare)) {
+      return ['ENCODING', [bare]];
+    }
+    return ['TYPE', [bare]];
+  }
+
+  const name = token.substring(0, equalsIndex).trim().toUpperCase();
+  const values = splitOutsideQuotes(token.substring(equalsIndex + 1), ',')
+    .map((value) => decodeParameterValue(value.trim()))
+    .filter((value) => value.length > 0);
+
+  return [name, values];
+}
+
+/**
+ * Strip quotes and decode RFC 6868 circumflex escapes (^n, ^', ^^)
+ */
+function decodeParameterValue(value: string): string {
+  const unquoted = value.length >= 2 && value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1)
+    : value;
+
+  return unquoted.replace(/\^([n'^])/g, (_match, char: string) => {
+    if (char === 'n') return '\n';
+    if (char === "'") return '"';
+    return '^';
+  });
+}
+
+/**
+ * Whether a raw content line declares QUOTED-PRINTABLE encoding
+ */
+function isQuotedPrintableLine(line: string): boolean {
+  const separator = findValueSeparator(line);
+  return separator !== -1 && /QUOTED-PRINTABLE/i.test(line.substring(0, separator));
+}
+
+/**
+ * Decode QUOTED-PRINTABLE and base64 text values using the CHARSET parameter
+ * Binary values (PHOTO, LOGO, SOUND, KEY) are left encoded
+ */
+function decodeTransferEncoding(property: VCardProperty): string {
+  const encoding = (property.params.ENCODING?.[0] ?? '').toUpperCase();
+  const charset = property.params.CHARSET?.[0] ?? 'utf-8';
+
+  if (encoding === 'QUOTED-PRINTABLE') {
+    // Encoded line breaks (=0D=0A) are normalized like literal ones
+    return decodeBytes(decodeQuotedPrintable(property.value), charset).replace(/\r\n?/g, '\n');
+  }
+
+  if ((encoding === 'B' || encoding === 'BASE64') && !isBinaryProperty(property.name)) {
+    return decodeBytes(Buffer.from(property.value.replace(/\s+/g, ''), 'base64'), charset);
+  }
+
+  return property.value;
+}
+
+/**
+ * Decode quoted-printable text (=XX hex octets) to bytes
+ */
+function decodeQuotedPrintable(value: string): Buffer {
+  const bytes: number[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    const hex = value.substring(i + 1, i + 3);
+
+    if (value[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(value[i], 'utf-8'));
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode bytes in the given charset, falling back to UTF-8 for unknown labels
+ */
+function decodeBytes(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return bytes.toString('utf-8');
+  }
+}
+
+/**
+ * Properties whose encoded values are binary data rather than text
+ */
+function isBinaryProperty(name: string): boolean {
+  return ['PHOTO', 'LOGO', 'SOUND', 'KEY'].includes(name);
+}
@@ -1,4 +1,26 @@
-import { Contact } from '@keepclos/shared';
+import {
+  Contact,
+  ContactFieldValue,
+  ImportantDate,
+  ImportantDateType,
+  PostalAddress,
+} from '@keepclos/shared';
+import {
+  VCardProperty,
+  isPreferred,
+  parseVCardProperties,
+  splitVCardValue,
+  unescapeVCardText,
+  unfoldLines,
+} from './vcard-content.js';
+import {
+  DEFAULT_FIELD_LABEL,
+  normalizeFieldLabel,
+  normalizeFieldValues,
+  postalAddressKey,
+  primaryFieldValue,
+} from './contact-fields.js';
+import { normalizeImportantDates, toImportantDate } from './important-dates.js';
 
 /**
  * vCard 3.0/4.0 parser
@@ -20,11 +42,7 @@ export function parseVCard(vcard: string): VCardParseResult {
   const errors: string[] = [];
 
   try {
-    // Split into lines and normalize
-    const lines = vcard
-      .split('\n')
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0);
+    const lines = unfoldLines(vcard);
 
     if (lines.length === 0) {
       return {
@@ -34,47 +52,41 @@ export function parseVCard(vcard: string): VCardParseResult {
     }
 
     // Check for BEGIN:VCARD
-    const hasBegin = lines.some((line) => line.toUpperCase() === 'BEGIN:VCARD');
+    const hasBegin = lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCARD');
     if (!hasBegin && lines.length > 1) {
       errors.push('Missing BEGIN:VCARD marker (partial format detected)');
     }
 
-    // Extract fields
-    const fields = new Map<string, string[]>();
+    // Group properties by name (group prefixes and parameters are parsed off)
+    const fields = new Map<string, VCardProperty[]>();
+    // Apple-style custom labels: item1.EMAIL + item1.X-ABLabel
+    const groupLabels = new Map<string, string>();
 
-    for (const line of lines) {
-      if (line.toUpperCase() === 'BEGIN:VCARD' || line.toUpperCase() === 'END:VCARD') {
-        continue;
+    for (const property of parseVCardProperties(vcard)) {
+      if (!fields.has(property.name)) {
+        fields.set(property.name, []);
       }
+      fields.get(property.name)!.push(property);
 
-      const colonIndex = line.indexOf(':');
-      if (colonIndex === -1) {
-        continue;
+      if (property.group && property.name === 'X-ABLABEL') {
+        groupLabels.set(property.group, unescapeVCardText(property.value));
       }
-
-      const key = line.substring(0, colonIndex).toUpperCase();
-      const value = line.substring(colonIndex + 1);
-
-      // Handle multi-value fields
-      if (!fields.has(key)) {
-        fields.set(key, []);
-      }
-      fields.get(key)!.push(value);
     }
 
     // Extract name (FN or N)
     let name = '';
     if (fields.has('FN')) {
-      name = fields.get('FN')![0];
-    } else if (fields.has('N')) {
-      const nameParts = fields.get('N')![0].split(';');
+      name = unescapeVCardText(fields.get('FN')![0].value);
+    }
+    if (!name.trim() && fields.has('N')) {
+      const nameParts = splitVCardValue(fields.get('N')![0].value, ';');
       // Format: LASTNAME;FIRSTNAME;MIDDLENAME;PREFIX;SUFFIX
       const lastName = nameParts[0];
       const firstName = nameParts[1];
       name = [firstName, lastName].filter((p) => p).join(' ');
     }
 
-    if (!name) {
+    if (!name.trim()) {
       errors.push('No name found (FN or N field required)');
       return {
         success: false,
@@ -82,43 +94,55 @@ export function parseVCard(vcard: string): VCardParseResult {
       };
     }
 
-    // Extract email
-    let email: string | undefined;
-    if (fields.has('EMAIL')) {
-      const emailValue = fields.get('EMAIL')![0];
-      email = extractEmailValue(emailValue);
-    }
+    // Extract every email, phone, address and URL with its label
+    const emails = collectFieldValues(fields.get('EMAIL'), groupLabels, extractEmailValue);
+    const phones = collectFieldValues(fields.get('TEL'), groupLabels, extractPhoneValue);
+    const addresses = collectFieldValues(
+      fields.get('ADR'),
+      groupLabels,
+      extractAddressValue,
+      postalAddressKey,
+    );
+    const urls = collectFieldValues(fields.get('URL'), groupLabels, extractUrlValue);
 
-    // Extract phone
-    let phone: string | undefined;
-    if (fields.has('TEL')) {
-      const telValue = fields.get('TEL')![0];
-      phone = extractPhoneValue(telValue);
-    }
-
-    // Extract birthday
-    let birthdayNote = '';
-    if (fields.has('BDAY')) {
-      const bday = fields.get('BDAY')![0];
-      birthdayNote = `Birthday: ${formatBirthday(bday)}`;
-    }
+    // Extract birthday, anniversary and custom dates
+    const importantDates = collectImportantDates(fields, groupLabels);
 
     // Extract organization
     let orgNote = '';
     if (fields.has('ORG')) {
-      const org = fields.get('ORG')![0].split(';')[0];
+      const org = splitVCardValue(fields.get('ORG')![0].value, ';')[0];
       orgNote = `Organization: ${org}`;
     }
 
+    // Extract free-text note
+    let noteText = '';
+    if (fields.has('NOTE')) {
+      noteText = unescapeVCardText(fields.get('NOTE')![0].value);
+    }
+
+    // Extract categories as tags
+    const categories: string[] = [];
+    if (fields.has('CATEGORIES')) {
+      for (const property of fields.get('CATEGORIES')!) {
+        categories.push(...splitVCardValue(property.value, ',').map((c) => c.trim()));
+      }
+    }
+
     // Combine notes
-    const notes = [birthdayNote, orgNote].filter((n) => n).join('\n');
+    const notes = [noteText, orgNote].filter((n) => n).join('\n');
 
     const contact: Contact = {
       id: generateId(),
       name: name.trim(),
-      email,
-      phone,
-      tags: ['imported-vcard'],
+      email: primaryFieldValue(emails),
+      phone: primaryFieldValue(phones),
+      emails,
+      phones,
+      addresses,
+      urls,
+      importantDates,
+      tags: [...new Set(['imported-vcard', ...categories.filter((c) => c.length > 0)])],
       notes,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -152,15 +176,119 @@ export function parseVCardBatch(content: string): VCardParseResult[] {
 }
 
 /**
- * Extract email from EMAIL field value
- * Handles TYPE parameter: EMAIL;TYPE=INTERNET:user@example.com
- * @param fieldValue EMAIL field value
+ * Collect all usable values of one property type
+ * The preferred (TYPE=pref / PREF) property becomes the primary entry
+ * @param properties Properties of one type (e.g. all EMAIL lines)
+ * @param groupLabels Custom labels keyed by property group
+ * @param extract Value extractor returning undefined for unusable values
+ * @param keyOf Identity of a value for de-duplication
+ * @returns Labeled field values
+ */
+function collectFieldValues<T>(
+  properties: VCardProperty[] | undefined,
+  groupLabels: Map<string, string>,
+  extract: (property: VCardProperty) => T | undefined,
+  keyOf?: (value: T) => string,
+): ContactFieldValue<T>[] {
+  const values: ContactFieldValue<T>[] = [];
+
+  for (const property of properties ?? []) {
+    const value = extract(property);
+    if (value === undefined) {
+      continue;
+    }
+
+    values.push({
+      label: fieldLabel(property, groupLabels),
+      value,
+      primary: isPreferred(property),
+    });
+  }
+
+  return normalizeFieldValues(values, keyOf);
+}
+
+/**
+ * Resolve a property's label from its group label or TYPE parameters
+ * @param property Property to label
+ * @param groupLabels Custom labels keyed by property group
+ * @returns Normalized label ("other" if none applies)
+ */
+function fieldLabel(property: VCardProperty, groupLabels: Map<string, string>): string {
+  const groupLabel = property.group ? normalizeFieldLabel(groupLabels.get(property.group)) : undefined;
+  if (groupLabel) {
+    return groupLabel;
+  }
+
+  for (const type of property.params.TYPE ?? []) {
+    const label = normalizeFieldLabel(type);
+    if (label) {
+      return label;
+    }
+  }
+
+  return DEFAULT_FIELD_LABEL;
+}
+
+/**
+ * Collect important dates from BDAY, ANNIVERSARY (4.0), X-ANNIVERSARY (3.0 extensions)
+ * and Apple's labeled X-ABDATE properties
+ * @param fields Properties grouped by name
+ * @param groupLabels Custom labels keyed by property group
+ * @returns Important dates
+ */
+function collectImportantDates(
+  fields: Map<string, VCardProperty[]>,
+  groupLabels: Map<string, string>,
+): ImportantDate[] {
+  const dates: ImportantDate[] = [];
+
+  const add = (property: VCardProperty, type: ImportantDateType, label?: string) => {
+    // Apple exports dates without a year as 1604-MM-DD;X-APPLE-OMIT-YEAR=1604
+    const omitYear = Number(property.params['X-APPLE-OMIT-YEAR']?.[0]) || undefined;
+    const date = toImportantDate(type, unescapeVCardText(property.value), label, omitYear);
+    if (date) {
+      dates.push(date);
+    }
+  };
+
+  for (const property of fields.get('BDAY') ?? []) {
+    add(property, 'birthday');
+  }
+
+  for (const property of [...(fields.get('ANNIVERSARY') ?? []), ...(fields.get('X-ANNIVERSARY') ?? [])]) {
+    add(property, 'anniversary');
+  }
+
+  for (const property of fields.get('X-ABDATE') ?? []) {
+    const label = property.group ? normalizeFieldLabel(groupLabels.get(property.group)) : undefined;
+    if (label === 'anniversary') {
+      add(property, 'anniversary');
+    } else if (label === 'birthday') {
+      add(property, 'birthday');
+    } else {
+      add(property, 'custom', displayLabel(property.group ? groupLabels.get(property.group) : undefined));
+    }
+  }
+
+  return normalizeImportantDates(dates);
+}
+
+/**
+ * Human-readable form of a custom label (Apple's _$!<Other>!$_ becomes "Other")
+ */
+function displayLabel(raw: string | undefined): string | undefined {
+  const label = raw?.replace(/^_\$!<(.*)>!\$_$/, '$1').trim();
+  return label ? label : undefined;
+}
+
+/**
+ * Extract email from an EMAIL property
+ * @param property EMAIL property (TYPE parameters already parsed off)
  * @returns Email address or undefined
  */
-function extractEmailValue(fieldValue: string): string | undefined {
-  // Handle format: TYPE=INTERNET:user@example.com or just user@example.com
-  const parts = fieldValue.split(':');
-  const email = parts.length > 1 ? parts[1] : parts[0];
+function extractEmailValue(property: VCardProperty): string | undefined {
+  const email = unescapeVCardText(property.value).trim().replace(/^mailto:/i, '');
 
   if (isValidEmail(email)) {
     return email;
@@ -170,15 +298,16 @@ function extractEmailValue(fieldValue: string): string | undefined {
 }
 
 /**
- * Extract phone from TEL field value
- * Handles TYPE parameter: TEL;TYPE=CELL:+1234567890
- * @param fieldValue TEL field value
+ * Extract phone from a TEL property
+ * Handles text values (+1234567890) and vCard 4.0 URIs (VALUE=uri:tel:+1-555-555-5555)
+ * @param property TEL property
  * @returns Phone number or undefined
  */
-function extractPhoneValue(fieldValue: string): string | undefined {
-  // Handle format: TYPE=CELL:+1234567890 or just +1234567890
-  const parts = fieldValue.split(':');
-  const phone = parts.length > 1 ? parts[1] : parts[0];
+function extractPhoneValue(property: VCardProperty): string | undefined {
+  const phone = unescapeVCardText(property.value)
+    .trim()
+    .replace(/^tel:/i, '')
+    .split(';')[0];
 
   if (phone && phone.length > 5) {
     // Basic validation: at least 5 characters
@@ -189,28 +318,36 @@ function extractPhoneValue(fieldValue: string): string | undefined {
 }
 
 /**
- * Format birthday to readable string
- * Handles both YYYY-MM-DD and MMDD formats
- * @param bday Birthday value from BDAY field
- * @returns Formatted birthday
+ * Extract a postal address from an ADR property
+ * Format: PO BOX;EXTENDED;STREET;LOCALITY;REGION;POSTAL CODE;COUNTRY
+ * @param property ADR property
+ * @returns Postal address or undefined if every component is empty
  */
-function formatBirthday(bday: string): string {
-  // Remove hyphens: 1980-06-15 -> 19800615
-  const cleaned = bday.replace(/-/g, '');
-
-  if (cleaned.length === 8) {
-    const year = cleaned.substring(0, 4);
-    const month = cleaned.substring(4, 6);
-    const day = cleaned.substring(6, 8);
-    return `${month}/${day}/${year}`;
-  } else if (cleaned.length === 4) {
-    // MMDD format (anniversary without year)
-    const month = cleaned.substring(0, 2);
-    const day = cleaned.substring(2, 4);
-    return `${month}/${day}`;
-  }
+function extractAddressValue(property: VCardProperty): PostalAddress | undefined {
+  const [poBox, extended, street, city, region, postalCode, country] = splitVCardValue(
+    property.value,
+    ';',
+  ).map((component) => component.trim());
+
+  const address: PostalAddress = {};
+  const streetLines = [poBox, extended, street].filter((part) => part);
+  if (streetLines.length > 0) address.street = streetLines.join('\n');
+  if (city) address.city = city;
+  if (region) address.region = region;
+  if (postalCode) address.postalCode = postalCode;
+  if (country) address.country = country;
+
+  return postalAddressKey(address) ? address : undefined;
+}
 
-  return bday;
+/**
+ * Extract a URL from a URL property
+ * @param property URL property
+ * @returns URL or undefined if empty
+ */
+function extractUrlValue(property: VCardProperty): string | undefined {
+  const url = unescapeVCardText(property.value).trim();
+  return url.length > 0 ? url : undefined;
 }
 
 /**
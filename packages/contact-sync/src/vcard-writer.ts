@@ -0,0 +1,268 @@
+import { Contact, ContactFieldValue, ImportantDate, PostalAddress } from '@keepclos/shared';
+import { DEFAULT_FIELD_LABEL, contactEmails, contactPhones } from './contact-fields.js';
+import { formatDateValue } from './important-dates.js';
+
+/**
+ * vCard 3.0/4.0 writer
+ * Serializes contacts to standard vCard format for export
+ */
+
+export type VCardVersion = '3.0' | '4.0';
+
+export interface VCardWriteOptions {
+  version: VCardVersion; // vCard version to emit (default: '4.0')
+  foldLines: boolean; // Fold content lines longer than 75 octets (default: true)
+  lineEnding: string; // Line terminator (default: CRLF as required by RFC 6350)
+}
+
+const DEFAULT_OPTIONS: VCardWriteOptions = {
+  version: '4.0',
+  foldLines: true,
+  lineEnding: '\r\n',
+};
+
+const MAX_LINE_OCTETS = 75;
+
+// Placeholder year for year-less dates in vCard 3.0
+const OMITTED_YEAR = 1604;
+
+/**
+ * Serialize a single contact to a vCard
+ * @param contact Contact to serialize
+ * @param options Write options
+ * @returns vCard content
+ */
+export function serializeVCard(contact: Contact, options: Partial<VCardWriteOptions> = {}): string {
+  const finalOptions = { ...DEFAULT_OPTIONS, ...options };
+  const lines: string[] = ['BEGIN:VCARD', `VERSION:${finalOptions.version}`];
+
+  lines.push(`FN:${escapeVCardText(contact.name)}`);
+
+  // N is required in 3.0 and recommended in 4.0: LASTNAME;FIRSTNAME;MIDDLENAME;PREFIX;SUFFIX
+  const { familyName, givenName } = splitName(contact.name);
+  lines.push(`N:${escapeVCardText(familyName)};${escapeVCardText(givenName)};;;`);
+
+  for (const entry of contactEmails(contact)) {
+    lines.push(`EMAIL${typeParams(entry, finalOptions.version)}:${escapeVCardText(entry.value)}`);
+  }
+
+  for (const entry of contactPhones(contact)) {
+    // vCard names mobile numbers "cell"
+    const label = entry.label === 'mobile' ? 'cell' : entry.label;
+    lines.push(`TEL${typeParams({ ...entry, label }, finalOptions.version)}:${escapeVCardText(entry.value)}`);
+  }
+
+  for (const entry of contact.addresses ?? []) {
+    lines.push(`ADR${typeParams(entry, finalOptions.version)}:${formatAddress(entry.value)}`);
+  }
+
+  for (const entry of contact.urls ?? []) {
+    // URL values are URIs and are not text-escaped
+    lines.push(`URL${typeParams(entry, finalOptions.version)}:${entry.value}`);
+  }
+
+  lines.push(...formatImportantDates(contact.importantDates ?? [], finalOptions.version));
+
+  if (contact.tags.length > 0) {
+    lines.push(`CATEGORIES:${contact.tags.map(escapeVCardText).join(',')}`);
+  }
+
+  if (contact.notes) {
+    lines.push(`NOTE:${escapeVCardText(contact.notes)}`);
+  }
+
+  lines.push(`UID:${escapeVCardText(contact.id)}`);
+  lines.push(`REV:${formatTimestamp(contact.updatedAt)}`);
+  lines.push('END:VCARD');
+
+  const contentLines = finalOptions.foldLines
+    ? lines.map((line) => foldLine(line, finalOptions.lineEnding))
+    : lines;
+  return contentLines.join(finalOptions.lineEnding) + finalOptions.lineEnding;
+}
+
+/**
+ * Serialize multiple contacts into one .vcf document
+ * @param contacts Contacts to serialize
+ * @param options Write options
+ * @returns Concatenated vCards
+ */
+export function serializeVCardBatch(
+  contacts: Contact[],
+  options: Partial<VCardWriteOptions> = {},
+): string {
+  return contacts.map((contact) => serializeVCard(contact, options)).join('');
+}
+
+/**
+ * Escape a text value: backslash, comma, semicolon and newlines
+ * @param value Raw text
+ * @returns Escaped text
+ */
+export function escapeVCardText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Format important dates as BDAY, ANNIVERSARY and labeled X-ABDATE properties
+ * vCard 3.0 has no year-less dates or ANNIVERSARY, so Apple's conventions are used
+ * (X-APPLE-OMIT-YEAR and X-ANNIVERSARY)
+ * @param dates Important dates
+ * @param version vCard version
+ * @returns Content lines
+ */
+function formatImportantDates(dates: ImportantDate[], version: VCardVersion): string[] {
+  const lines: string[] = [];
+  let customIndex = 0;
+
+  const value = (date: ImportantDate): string => {
+    if (version === '4.0' || date.year !== undefined) {
+      return `:${formatDateValue(date, version === '4.0')}`;
+    }
+    return `;X-APPLE-OMIT-YEAR=${OMITTED_YEAR}:${formatDateValue({ ...date, year: OMITTED_YEAR })}`;
+  };
+
+  for (const date of dates) {
+    switch (date.type) {
+      case 'birthday':
+        lines.push(`BDAY${value(date)}`);
+        break;
+
+      case 'anniversary':
+        lines.push(`${version === '4.0' ? 'ANNIVERSARY' : 'X-ANNIVERSARY'}${value(date)}`);
+        break;
+
+      case 'custom': {
+        const group = `date${++customIndex}`;
+        lines.push(`${group}.X-ABDATE${value(date)}`);
+        lines.push(`${group}.X-ABLabel:${escapeVCardText(date.label ?? 'Other')}`);
+        break;
+      }
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Format TYPE/PREF parameters for a labeled value
+ * vCard 4.0 marks the primary entry with PREF=1, 3.0 with TYPE=pref
+ * @param entry Labeled value
+ * @param version vCard version
+ * @returns Parameter string including the leading ";" (empty if none)
+ */
+function typeParams(entry: ContactFieldValue<unknown>, version: VCardVersion): string {
+  const types = entry.label !== DEFAULT_FIELD_LABEL ? [formatParamValue(entry.label)] : [];
+  let params = '';
+
+  if (entry.primary && version === '3.0') {
+    types.push('pref');
+  }
+  if (types.length > 0) {
+    params += `;TYPE=${types.join(',')}`;
+  }
+  if (entry.primary && version === '4.0') {
+    params += ';PREF=1';
+  }
+
+  return params;
+}
+
+/**
+ * Format a parameter value, quoting it (with RFC 6868 escapes) unless it is a plain token
+ * @param value Parameter value
+ * @returns Safe parameter value
+ */
+function formatParamValue(value: string): string {
+  if (/^[A-Za-z0-9-]+$/.test(value)) {
+    return value;
+  }
+
+  const escaped = value.replace(/\^/g, '^^').replace(/"/g, "^'").replace(/\r\n|\r|\n/g, '^n');
+  return `"${escaped}"`;
+}
+
+/**
+ * Format a postal address as an ADR value: PO BOX;EXTENDED;STREET;LOCALITY;REGION;POSTAL CODE;COUNTRY
+ * @param address Postal address
+ * @returns Structured ADR value
+ */
+function formatAddress(address: PostalAddress): string {
+  return [
+    '',
+    '',
+    address.street,
+    address.city,
+    address.region,
+    address.postalCode,
+    address.country,
+  ]
+    .map((component) => escapeVCardText(component ?? ''))
+    .join(';');
+}
+
+/**
+ * Fold a content line at 75 octets, continuation lines start with a space
+ * Never splits a multi-byte UTF-8 character
+ * @param line Unfolded content line
+ * @param lineEnding Line terminator
+ * @returns Folded line
+ */
+function foldLine(line: string, lineEnding: string): string {
+  if (Buffer.byteLength(line, 'utf-8') <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const charOctets = Buffer.byteLength(char, 'utf-8');
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += char;
+    currentOctets += charOctets;
+  }
+  parts.push(current);
+
+  return parts.join(`${lineEnding} `);
+}
+
+/**
+ * Split a display name into given and family name (last word is the family name)
+ * @param name Display name
+ * @returns Name components
+ */
+function splitName(name: string): { givenName: string; familyName: string } {
+  const words = name.trim().split(/\s+/);
+
+  if (words.length <= 1) {
+    return { givenName: words[0] ?? '', familyName: '' };
+  }
+
+  return {
+    givenName: words.slice(0, -1).join(' '),
+    familyName: words[words.length - 1],
+  };
+}
+
+/**
+ * Format a date as a vCard timestamp (e.g. 20240615T093000Z)
+ * @param date Date to format
+ * @returns UTC timestamp
+ */
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeFieldLabel, normalizeFieldValues, postalAddressKey } from '../src/contact-fields.js';
+
+describe('normalizeFieldValues', () => {
+  it('keeps the first flagged entry as the only primary', () => {
+    const values = normalizeFieldValues([
+      { label: 'home', value: 'a@example.com', primary: false },
+      { label: 'work', value: 'b@example.com', primary: true },
+      { label: 'other', value: 'c@example.com', primary: true },
+    ]);
+
+    expect(values.map((entry) => [entry.value, entry.primary])).toEqual([
+      ['a@example.com', false],
+      ['b@example.com', true],
+      ['c@example.com', false],
+    ]);
+  });
+
+  it('makes the first entry primary when none is flagged', () => {
+    const values = normalizeFieldValues([
+      { label: 'home', value: 'a@example.com', primary: false },
+      { label: 'work', value: 'b@example.com', primary: false },
+    ]);
+
+    expect(values.map((entry) => entry.primary)).toEqual([true, false]);
+  });
+
+  it('drops empty and duplicate values before choosing the primary', () => {
+    const values = normalizeFieldValues([
+      { label: 'home', value: '  ', primary: true },
+      { label: 'work', value: 'A@Example.com', primary: false },
+      { label: 'home', value: 'a@example.com ', primary: true },
+    ]);
+
+    expect(values).toEqual([{ label: 'work', value: 'A@Example.com', primary: true }]);
+  });
+
+  it('normalizes labels and de-duplicates with a custom key', () => {
+    const values = normalizeFieldValues(
+      [
+        { label: '_$!<Home>!$_', value: { street: '1 Main St', city: 'Springfield' }, primary: false },
+        { label: 'Business', value: { street: '1 main st', city: 'springfield' }, primary: true },
+        { label: 'internet', value: { city: 'Shelbyville' }, primary: false },
+      ],
+      postalAddressKey,
+    );
+
+    expect(values).toEqual([
+      { label: 'home', value: { street: '1 Main St', city: 'Springfield' }, primary: true },
+      { label: 'other', value: { city: 'Shelbyville' }, primary: false },
+    ]);
+  });
+});
+
+describe('normalizeFieldLabel', () => {
+  it.each([
+    ['CELL', 'mobile'],
+    ['_$!<Mobile>!$_', 'mobile'],
+    ['Personal', 'home'],
+    ['pref', undefined],
+    ['', undefined],
+    ['Studio', 'studio'],
+  ])('reads %j as %j', (raw, label) => {
+    expect(normalizeFieldLabel(raw)).toBe(label);
+  });
+});
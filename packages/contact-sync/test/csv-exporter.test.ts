@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import { Contact } from '@keepclos/shared';
+import { CSVExportConfig, csvImportConfigFor, exportToCSV, validateExportConfig } from '../src/csv-exporter.js';
+import { importFromCSV } from '../src/csv-importer.js';
+
+const CREATED = new Date('2025-01-01T00:00:00Z');
+
+const ann: Contact = {
+  id: 'ann',
+  name: 'Ann Lee',
+  email: 'ann@home.example',
+  phone: '+1 555 0100',
+  emails: [
+    { label: 'home', value: 'ann@home.example', primary: true },
+    { label: 'work', value: 'ann@work.example', primary: false },
+    { label: 'work', value: 'lee@work.example', primary: false },
+  ],
+  phones: [
+    { label: 'mobile', value: '+1 555 0100', primary: true },
+    { label: 'work', value: '+1 555 0200', primary: false },
+  ],
+  addresses: [
+    {
+      label: 'home',
+      value: { street: '1 Main St\nApt 2', city: 'Springfield', region: 'IL', postalCode: '62701', country: 'USA' },
+      primary: true,
+    },
+  ],
+  urls: [{ label: 'work', value: 'https://lee.example', primary: true }],
+  tags: ['friend'],
+  notes: '',
+  createdAt: CREATED,
+  updatedAt: CREATED,
+};
+
+const labeled: Partial<CSVExportConfig> = {
+  phoneColumn: null,
+  tagsColumn: null,
+  notesColumn: null,
+  birthdayColumn: null,
+  anniversaryColumn: null,
+  emailColumns: [
+    { column: 'Work Email', label: 'Work' },
+    { column: 'Work Email 2', label: 'business' },
+    { column: 'Home Email', label: 'home' },
+  ],
+  phoneColumns: [
+    { column: 'Mobile', label: 'cell' },
+    { column: 'Work Phone', label: 'work' },
+  ],
+  addressColumns: [{ column: 'Home Address', label: 'home' }],
+  urlColumns: [{ column: 'Website', label: 'work' }],
+};
+
+describe('labeled export columns', () => {
+  it('writes the nth value of each label after the fixed columns', () => {
+    const [header, row] = exportToCSV([ann], labeled).trimEnd().split('\n');
+
+    expect(header).toBe('name,email,Work Email,Work Email 2,Home Email,Mobile,Work Phone,Home Address,Website');
+    // The primary email is in the email column; without a phone column the primary phone is labeled
+    expect(row).toBe(
+      'Ann Lee,ann@home.example,ann@work.example,lee@work.example,,+1 555 0100,+1 555 0200,' +
+        '"1 Main St, Apt 2, Springfield, IL 62701, USA",https://lee.example',
+    );
+  });
+
+  it('reads back through the matching import configuration', () => {
+    const result = importFromCSV(exportToCSV([ann], labeled), csvImportConfigFor(labeled));
+    const contact = result.contacts[0];
+
+    expect(result.errors).toEqual([]);
+    // The single email column carries no label
+    expect(contact.emails).toEqual([{ ...ann.emails![0], label: 'other' }, ...ann.emails!.slice(1)]);
+    expect(contact.phones).toEqual(ann.phones);
+    expect(contact.addresses).toEqual([
+      { label: 'home', value: { street: '1 Main St, Apt 2, Springfield, IL 62701, USA' }, primary: true },
+    ]);
+    expect(contact.urls).toEqual(ann.urls);
+  });
+
+  it('references labeled columns by position without a header row', () => {
+    const config = { ...labeled, hasHeader: false };
+
+    expect(csvImportConfigFor(config)).toMatchObject({
+      nameColumn: 0,
+      emailColumn: 1,
+      emailColumns: [
+        { column: 2, label: 'Work' },
+        { column: 3, label: 'business' },
+        { column: 4, label: 'home' },
+      ],
+      urlColumns: [{ column: 8, label: 'work' }],
+    });
+    expect(importFromCSV(exportToCSV([ann], config), csvImportConfigFor(config)).contacts[0].phones).toEqual(
+      ann.phones,
+    );
+  });
+
+  it('rejects labeled columns without a header or label, or with a taken header', () => {
+    expect(validateExportConfig(labeled)).toEqual([]);
+    expect(validateExportConfig({ urlColumns: [{ column: 'Website', label: ' ' }] })).toEqual([
+      'Labeled columns need a header and a label',
+    ]);
+    expect(validateExportConfig({ emailColumns: [{ column: 'Email', label: 'work' }] })).toEqual([
+      'Column headers must be unique',
+    ]);
+  });
+});
+
+describe('CSV round trip', () => {
+  function contact(id: string, changes: Partial<Contact>): Contact {
+    return { id, name: id, tags: [], notes: '', createdAt: CREATED, updatedAt: CREATED, ...changes };
+  }
+
+  const contacts = [
+    contact('ann', {
+      name: 'Lee, Ann',
+      email: 'ann@example.com',
+      phone: '+1 555 0100',
+      tags: ['family', 'close friends'],
+      notes: 'Said "hi" at the reunion\nCall back, soon',
+    }),
+    contact('bob', { name: 'Bob', tags: [], notes: ' padded ' }),
+  ];
+
+  function roundTrip(config: Partial<CSVExportConfig>) {
+    return importFromCSV(exportToCSV(contacts, config), csvImportConfigFor(config));
+  }
+
+  function fields(result: ReturnType<typeof importFromCSV>) {
+    return result.contacts.map(({ name, email, phone, tags, notes }) => ({ name, email, phone, tags, notes }));
+  }
+
+  const expected = [
+    {
+      name: 'Lee, Ann',
+      email: 'ann@example.com',
+      phone: '+1 555 0100',
+      tags: ['imported-csv', 'family', 'close friends'],
+      notes: 'Said "hi" at the reunion\nCall back, soon',
+    },
+    // Imported notes are trimmed
+    { name: 'Bob', email: undefined, phone: undefined, tags: ['imported-csv'], notes: 'padded' },
+  ];
+
+  it('quotes delimiters, quotes and line breaks', () => {
+    const csv = exportToCSV(contacts);
+
+    expect(csv).toBe(
+      'name,email,phone,tags,notes,birthday,anniversary\n' +
+        '"Lee, Ann",ann@example.com,+1 555 0100,family;close friends,' +
+        '"Said ""hi"" at the reunion\nCall back, soon",,\n' +
+        'Bob,,,," padded ",,\n',
+    );
+    const result = roundTrip({});
+    expect(result.errors).toEqual([]);
+    expect(fields(result)).toEqual(expected);
+  });
+
+  it('reads columns by position without a header row', () => {
+    const config = { hasHeader: false, birthdayColumn: null, anniversaryColumn: null };
+
+    expect(exportToCSV(contacts, config).split('\n')[0]).toBe(
+      '"Lee, Ann",ann@example.com,+1 555 0100,family;close friends,"Said ""hi"" at the reunion',
+    );
+    expect(csvImportConfigFor(config)).toMatchObject({
+      nameColumn: 0,
+      emailColumn: 1,
+      phoneColumn: 2,
+      tagsColumn: 3,
+      notesColumn: 4,
+      hasHeader: false,
+    });
+    expect(fields(roundTrip(config))).toEqual(expected);
+  });
+
+  it('splits tags on a custom separator and delimiter', () => {
+    const config = { delimiter: ';', tagSeparator: '|', lineEnding: '\r\n' };
+
+    expect(exportToCSV(contacts, config)).toContain('\r\nLee, Ann;ann@example.com;+1 555 0100;family|close friends;');
+    expect(fields(roundTrip(config))).toEqual(expected);
+  });
+
+  it('keeps the default separator inside tags under a custom one', () => {
+    const tagged = [contact('cy', { tags: ['a;b', 'c'] })];
+    const config = { tagSeparator: '|' };
+
+    expect(importFromCSV(exportToCSV(tagged, config), csvImportConfigFor(config)).contacts[0].tags).toEqual([
+      'imported-csv',
+      'a;b',
+      'c',
+    ]);
+  });
+});
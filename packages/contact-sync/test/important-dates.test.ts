@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Contact } from '@keepclos/shared';
+import { exportToCSV } from '../src/csv-exporter.js';
+import { importFromCSV, importFromCSVAutoDetect } from '../src/csv-importer.js';
+import { parseDateValue } from '../src/important-dates.js';
+
+describe('parseDateValue', () => {
+  it('reads full, year-less and US-style dates', () => {
+    expect(parseDateValue('1988-02-29')).toEqual({ year: 1988, month: 2, day: 29 });
+    expect(parseDateValue('19880229T000000Z')).toEqual({ year: 1988, month: 2, day: 29 });
+    expect(parseDateValue('--06-15')).toEqual({ month: 6, day: 15 });
+    expect(parseDateValue('6/15/2015')).toEqual({ year: 2015, month: 6, day: 15 });
+    expect(parseDateValue('6/15')).toEqual({ month: 6, day: 15 });
+  });
+
+  it('rejects impossible dates and drops placeholder years', () => {
+    expect(parseDateValue('1987-02-29')).toBeUndefined();
+    expect(parseDateValue('2020-04-31')).toBeUndefined();
+    expect(parseDateValue('soon')).toBeUndefined();
+    expect(parseDateValue('1604-03-12', 1604)).toEqual({ month: 3, day: 12 });
+  });
+});
+
+describe('CSV birthday and anniversary columns', () => {
+  it('imports both columns as important dates', () => {
+    const csv = ['name,birthday,anniversary', 'Ann,1988-02-29,--06-15', 'Bob,,'].join('\n');
+    const result = importFromCSV(csv, { nameColumn: 'name', birthdayColumn: 'birthday', anniversaryColumn: 2 });
+
+    expect(result.errors).toEqual([]);
+    expect(result.contacts[0].importantDates).toEqual([
+      { type: 'birthday', year: 1988, month: 2, day: 29 },
+      { type: 'anniversary', month: 6, day: 15 },
+    ]);
+    expect(result.contacts[1].importantDates).toEqual([]);
+  });
+
+  it('reports unparseable dates as row errors', () => {
+    const csv = ['name,birthday', 'Ann,someday', 'Bob,1990-01-02'].join('\n');
+    const result = importFromCSV(csv, { nameColumn: 'name', birthdayColumn: 'birthday' });
+
+    expect(result.errors).toEqual([{ rowIndex: 2, message: 'Row 2: Invalid birthday date "someday"' }]);
+    expect(result.contacts.map((contact) => contact.name)).toEqual(['Bob']);
+  });
+
+  it('auto-detects common birthday headers', () => {
+    const result = importFromCSVAutoDetect(['Name,Date of Birth', 'Ann,3/1/1990'].join('\n'));
+
+    expect(result.contacts[0].importantDates).toEqual([{ type: 'birthday', year: 1990, month: 3, day: 1 }]);
+  });
+
+  it('exports dates as YYYY-MM-DD, or --MM-DD without a year', () => {
+    const contact: Contact = {
+      id: 'a',
+      name: 'Ann',
+      importantDates: [
+        { type: 'birthday', month: 2, day: 29, year: 1988 },
+        { type: 'anniversary', month: 6, day: 15 },
+      ],
+      tags: [],
+      notes: '',
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      updatedAt: new Date('2024-01-01T00:00:00Z'),
+    };
+    const [header, row] = exportToCSV([contact], { lineEnding: '\n' }).split('\n');
+
+    expect(header.split(',').slice(-2)).toEqual(['birthday', 'anniversary']);
+    expect(row.split(',').slice(-2)).toEqual(['1988-02-29', '--06-15']);
+  });
+});
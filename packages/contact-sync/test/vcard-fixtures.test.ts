@@ -0,0 +1,83 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { parseVCard, parseVCardBatch } from '../src/vcard-parser.js';
+
+// Exports as real address books write them: CRLF line endings, vendor extensions
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+}
+
+describe('vCard 2.1 export (Outlook style)', () => {
+  const result = parseVCard(fixture('outlook-2.1.vcf'));
+  const contact = result.contact!;
+
+  it('decodes QUOTED-PRINTABLE values in their CHARSET, across soft line breaks', () => {
+    expect(result.errors).toEqual([]);
+    expect(contact.name).toBe('Jürgen Müller');
+    expect(contact.addresses).toEqual([
+      {
+        label: 'work',
+        value: { street: 'Straße 1', city: 'Köln', postalCode: '50667', country: 'Deutschland' },
+        primary: true,
+      },
+    ]);
+    expect(contact.notes.split('\n')).toEqual([
+      'Grüße aus Köln,',
+      'zweite Zeile mit einem sehr langen Text, der umbrochen wird.',
+      'Organization: Schmidt; Partner',
+    ]);
+  });
+
+  it('reads bare parameters such as TEL;CELL;PREF as types', () => {
+    expect(contact.phones).toEqual([
+      { label: 'mobile', value: '+49 170 1234567', primary: true },
+      { label: 'home', value: '+49 30 7654321', primary: false },
+    ]);
+    expect(contact.phone).toBe('+49 170 1234567');
+    expect(contact.emails).toEqual([{ label: 'other', value: 'juergen@example.de', primary: true }]);
+  });
+
+  it('keeps escaped commas inside a category and reads basic-format dates', () => {
+    expect(contact.tags).toEqual(['imported-vcard', 'Family', 'Friends, close']);
+    expect(contact.importantDates).toEqual([{ type: 'birthday', year: 1975, month: 4, day: 12 }]);
+  });
+});
+
+describe('vCard 3.0 export (Apple Contacts style)', () => {
+  const result = parseVCard(fixture('apple-3.0.vcf'));
+  const contact = result.contact!;
+
+  it('labels grouped properties from their X-ABLabel', () => {
+    expect(result.errors).toEqual([]);
+    expect(contact.emails).toEqual([
+      { label: 'studio', value: 'ann@studio.example', primary: true },
+      { label: 'home', value: 'ann@home.example', primary: false },
+    ]);
+    expect(contact.phones).toEqual([
+      { label: 'mobile', value: '+1 (555) 010-2000', primary: true },
+      { label: 'other', value: '+1 555 010 3000', primary: false },
+    ]);
+    expect(contact.urls).toEqual([{ label: 'home', value: 'https://studio.example', primary: true }]);
+  });
+
+  it('drops the X-APPLE-OMIT-YEAR placeholder and types labeled X-ABDATEs', () => {
+    expect(contact.importantDates).toEqual([
+      { type: 'birthday', month: 6, day: 15 },
+      { type: 'anniversary', year: 2012, month: 9, day: 1 },
+      { type: 'custom', label: 'Graduation', year: 2010, month: 7, day: 1 },
+    ]);
+  });
+
+  it('unescapes commas in ORG and CATEGORIES', () => {
+    expect(contact.notes).toBe('Organization: Lee, Park & Co.');
+    expect(contact.tags).toEqual(['imported-vcard', 'Work', 'Design,UX']);
+  });
+});
+
+describe('mixed batch', () => {
+  it('parses cards of different versions from one file', () => {
+    const results = parseVCardBatch(fixture('outlook-2.1.vcf') + fixture('apple-3.0.vcf'));
+
+    expect(results.map((result) => result.contact?.name)).toEqual(['Jürgen Müller', 'Ann Lee']);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Contact } from '@keepclos/shared';
+import { parseVCard, parseVCardBatch } from '../src/vcard-parser.js';
+import { serializeVCard, serializeVCardBatch } from '../src/vcard-writer.js';
+
+const contact: Contact = {
+  id: 'c-1',
+  name: 'Zoë Müller-Lüdenscheidt',
+  email: 'zoe@work.example',
+  phone: '+49 30 1234567',
+  emails: [
+    { label: 'work', value: 'zoe@work.example', primary: true },
+    { label: 'home', value: 'zoe@home.example', primary: false },
+  ],
+  phones: [
+    { label: 'mobile', value: '+49 30 1234567', primary: true },
+    { label: 'home', value: '+49 30 7654321', primary: false },
+  ],
+  addresses: [
+    {
+      label: 'home',
+      value: { street: 'Straße 1; Hinterhaus', city: 'Berlin', postalCode: '10115', country: 'Germany' },
+      primary: true,
+    },
+  ],
+  urls: [{ label: 'work', value: 'https://example.com/a,b;c', primary: true }],
+  importantDates: [
+    { type: 'birthday', month: 2, day: 29, year: 1988 },
+    { type: 'anniversary', month: 6, day: 15 },
+    { type: 'custom', label: 'Graduation', month: 7, day: 1, year: 2010 },
+  ],
+  tags: ['family', 'close, very'],
+  notes:
+    'Likes long walks; hates rain.\nSecond line with a backslash \\ and ' +
+    `${'a long tail of text '.repeat(6)}to fold.`,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-02T03:04:05Z'),
+};
+
+// What an import keeps of an exported contact: everything but its identity and timestamps
+function imported(original: Contact) {
+  const { id, createdAt, updatedAt, ...fields } = original;
+  return { ...fields, tags: ['imported-vcard', ...original.tags] };
+}
+
+describe('vCard round trip', () => {
+  it.each(['4.0', '3.0'] as const)('parses a serialized vCard %s back into the same contact', (version) => {
+    const vcard = serializeVCard(contact, { version });
+    const result = parseVCard(vcard);
+
+    expect(result.errors).toEqual([]);
+    expect(result.contact).toMatchObject(imported(contact));
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const vcard = serializeVCard(contact);
+    const lines = vcard.split('\r\n').filter((line) => line.length > 0);
+
+    expect(lines.every((line) => Buffer.byteLength(line, 'utf8') <= 75)).toBe(true);
+    expect(lines.some((line) => line.startsWith(' '))).toBe(true);
+    expect(vcard).not.toContain('�');
+    expect(parseVCard(vcard).contact?.notes).toBe(contact.notes);
+  });
+
+  it('keeps contacts apart in a batch', () => {
+    const other: Contact = { ...contact, id: 'c-2', name: 'Ann Lee', emails: [], phones: [], email: undefined };
+    const results = parseVCardBatch(serializeVCardBatch([contact, other]));
+
+    expect(results.map((result) => result.contact?.name)).toEqual([contact.name, 'Ann Lee']);
+    expect(results[1].contact?.emails).toEqual([]);
+  });
+});
@@ -4,6 +4,9 @@ import { DecayConfig } from '@keepclos/shared';
  * Time decay functions for weighting recent interactions more heavily
  */
 
+const DECAY_TYPES: DecayConfig['type'][] = ['exponential', 'linear', 'custom'];
+export const DEFAULT_DECAY_HALF_LIFE = 30; // Exponential curves configured without a halfLife
+
 /**
  * Exponential decay: score decays by half every halfLife days
  * Formula: score = 100 * (0.5)^(daysSince / halfLife)
@@ -60,7 +63,7 @@ export function powerLawDecay(daysSince: number, curve: number): number {
 export function applyDecay(daysSince: number, config: DecayConfig): number {
   switch (config.type) {
     case 'exponential':
-      return exponentialDecay(daysSince, config.halfLife ?? 30);
+      return exponentialDecay(daysSince, config.halfLife ?? DEFAULT_DECAY_HALF_LIFE);
 
     case 'linear':
       return linearDecay(daysSince, config.maxAge ?? 365);
@@ -73,6 +76,37 @@ export function applyDecay(daysSince: number, config: DecayConfig): number {
   }
 }
 
+/**
+ * Weight of an interaction by its age
+ * @param daysSince Days since interaction
+ * @param config Decay configuration
+ * @returns Weight 0-1 (1 for an interaction happening now)
+ */
+export function interactionWeight(daysSince: number, config: DecayConfig): number {
+  return applyDecay(daysSince, config) / 100;
+}
+
+/**
+ * Validate a decay configuration
+ * @param config Configuration to validate
+ * @returns List of validation error messages (empty if valid)
+ */
+export function validateDecayConfig(config: DecayConfig): string[] {
+  if (!config || typeof config !== 'object' || !DECAY_TYPES.includes(config.type)) {
+    return [`decay type must be one of: ${DECAY_TYPES.join(', ')}`];
+  }
+
+  const errors: string[] = [];
+  for (const key of ['halfLife', 'maxAge', 'curve'] as const) {
+    const value = config[key];
+    if (value !== undefined && (typeof value !== 'number' || !isFinite(value) || value <= 0)) {
+      errors.push(`decay ${key} must be a positive number`);
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Calculate days between two dates
  */
@@ -83,7 +117,9 @@ export function daysBetween(from: Date, to: Date): number {
 
 /**
  * Calculate days since a given date (from that date until now)
+ * @param date Start date
+ * @param now Clock time to measure to (default: now)
  */
-export function daysSince(date: Date): number {
-  return daysBetween(date, new Date());
+export function daysSince(date: Date, now: Date = new Date()): number {
+  return daysBetween(date, now);
 }
@@ -0,0 +1,159 @@
+import { Contact, DecayConfig, Interaction, InteractionType } from '@keepclos/shared';
+import { DEFAULT_DECAY_HALF_LIFE, daysSince, interactionWeight } from './decay.js';
+import { extractQualityScore } from './signals.js';
+
+/**
+ * Score explanations
+ * Breaks an overall score into its weighted components, names the interactions behind each
+ * component and ranks the single interactions that would raise the score the most
+ */
+
+export type ScoreComponent = 'recency' | 'frequency' | 'engagement';
+
+export interface ScoreDriver {
+  interactionId: string;
+  type: InteractionType;
+  timestamp: Date;
+  quality: number;
+}
+
+export interface ComponentExplanation {
+  value: number; // Raw component score 0-100
+  weight: number; // Normalized weight (all weights sum to 1)
+  contribution: number; // value * weight: points this component adds to the overall score
+  summary: string; // e.g. "last contact 74 days ago (half-life 30 days)"
+  drivers: ScoreDriver[]; // Interactions behind the value, most relevant first
+}
+
+export interface SuggestedAction {
+  description: string; // e.g. "a 30-minute call"
+  interaction: Pick<Interaction, 'type' | 'duration'>;
+  overall: number; // Overall score right after the interaction
+  gain: number;
+}
+
+export interface ScoreExplanation {
+  components: Record<ScoreComponent, ComponentExplanation>;
+  bestAction?: SuggestedAction; // Raises the score the most; absent when nothing would
+  suggestions: SuggestedAction[]; // All candidate actions, best first
+}
+
+export interface ExplanationInput {
+  contact: Contact; // With lastContactedAt as of the scoring time
+  interactions: Interaction[]; // Interactions known at the scoring time
+  values: Record<ScoreComponent, number>;
+  weights: Record<ScoreComponent, number>; // Normalized
+  overall: number;
+  halfLife: number;
+  decay?: DecayConfig;
+  frequencyWindow: number;
+  cadenceDays: number;
+  interactionDecay: DecayConfig; // Weighting of interactions by age in frequency and engagement
+  now: Date;
+  overallWith: (interaction: Interaction) => number; // Overall score with one more interaction
+}
+
+const MAX_DRIVERS = 5;
+
+const CANDIDATE_ACTIONS: Array<Omit<SuggestedAction, 'overall' | 'gain'>> = [
+  { description: 'a message', interaction: { type: 'message' } },
+  { description: 'an email', interaction: { type: 'email' } },
+  { description: 'a 15-minute call', interaction: { type: 'call', duration: 15 } },
+  { description: 'a 30-minute call', interaction: { type: 'call', duration: 30 } },
+  { description: 'a 60-minute meeting', interaction: { type: 'meeting', duration: 60 } },
+];
+
+/**
+ * Explain a calculated score
+ * @param input Component values, weights and the facts they were calculated from
+ * @returns Per-component breakdown and ranked suggestions
+ */
+export function explainScore(input: ExplanationInput): ScoreExplanation {
+  const { contact, interactions, values, weights, now } = input;
+  const component = (key: ScoreComponent, summary: string, drivers: Interaction[]): ComponentExplanation => ({
+    value: values[key],
+    weight: weights[key],
+    contribution: values[key] * weights[key],
+    summary,
+    drivers: drivers.slice(0, MAX_DRIVERS).map(toDriver),
+  });
+
+  const newestFirst = [...interactions].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  const windowStart = new Date(now);
+  windowStart.setDate(windowStart.getDate() - input.frequencyWindow);
+  const inWindow = newestFirst.filter((interaction) => interaction.timestamp > windowStart);
+
+  // What each interaction adds to engagement: its quality, faded by its age
+  const weightedQuality = (interaction: Interaction) =>
+    interaction.quality * interactionWeight(daysSince(interaction.timestamp, now), input.interactionDecay);
+
+  const lastContact = contact.lastContactedAt;
+  const recencySummary = lastContact
+    ? `last contact ${Math.floor(daysSince(lastContact, now))} days ago (${describeDecay(input.halfLife, input.decay)})`
+    : 'no contact yet';
+
+  // Each candidate happens right now, on top of the known interactions
+  const suggestions = CANDIDATE_ACTIONS.map((action) => {
+    const interaction: Interaction = {
+      id: 'suggested',
+      contactId: contact.id,
+      timestamp: now,
+      quality: 0,
+      ...action.interaction,
+    };
+    interaction.quality = extractQualityScore(interaction);
+
+    const overall = input.overallWith(interaction);
+    return { ...action, overall, gain: overall - input.overall };
+  }).sort((a, b) => b.gain - a.gain);
+
+  return {
+    components: {
+      recency: component(
+        'recency',
+        recencySummary,
+        newestFirst.filter((interaction) => interaction.timestamp.getTime() === lastContact?.getTime()),
+      ),
+      frequency: component(
+        'frequency',
+        `${plural(inWindow.length, 'interaction')} in the last ${input.frequencyWindow} days ` +
+          `(expected every ${input.cadenceDays} days)`,
+        inWindow,
+      ),
+      engagement: component(
+        'engagement',
+        interactions.length > 0
+          ? `average quality ${Math.round(values.engagement)} over ${plural(interactions.length, 'interaction')}, ` +
+              `recent ones weighted more (${describeDecay(DEFAULT_DECAY_HALF_LIFE, input.interactionDecay)})`
+          : 'no interactions yet',
+        [...newestFirst].sort((a, b) => weightedQuality(b) - weightedQuality(a)),
+      ),
+    },
+    bestAction: suggestions[0] && suggestions[0].gain > 0 ? suggestions[0] : undefined,
+    suggestions,
+  };
+}
+
+function toDriver(interaction: Interaction): ScoreDriver {
+  return {
+    interactionId: interaction.id,
+    type: interaction.type,
+    timestamp: interaction.timestamp,
+    quality: interaction.quality,
+  };
+}
+
+function describeDecay(halfLife: number, decay?: DecayConfig): string {
+  switch (decay?.type) {
+    case 'linear':
+      return `linear decay over ${decay.maxAge ?? 365} days`;
+    case 'custom':
+      return `power-law decay, curve ${decay.curve ?? 0.5}`;
+    default:
+      return `half-life ${decay?.halfLife ?? halfLife} days`;
+  }
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
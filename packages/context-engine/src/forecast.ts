@@ -0,0 +1,142 @@
+import { Contact, Interaction } from '@keepclos/shared';
+import { ScorerConfig, calculateComponentScores } from './scorer.js';
+
+/**
+ * Score forecasting
+ * Projects a contact's overall score forward assuming no new interactions: recency keeps
+ * decaying, interactions fade and drop out of the frequency window, and engagement only
+ * shifts as older interactions fade. The threshold crossing is found by stepping day by day
+ * and narrowing the last day down by bisection
+ */
+
+export interface ForecastOptions {
+  horizonDays?: number; // How far ahead to look (default: 365)
+  stepDays?: number; // Spacing of the projected points (default: 7)
+  config?: Partial<ScorerConfig>; // Scoring configuration (default: the scorer's)
+}
+
+export interface ScoreForecast {
+  contactId: string;
+  threshold: number;
+  current: number; // Overall score now
+  crossesAt?: Date; // First drop below the threshold (now if already below); absent beyond the horizon
+  daysUntilCrossing?: number;
+  points: Array<{ at: Date; overall: number }>; // Projection from now to the horizon
+}
+
+export const MAX_FORECAST_DAYS = 730;
+const DEFAULT_HORIZON_DAYS = 365;
+const DEFAULT_STEP_DAYS = 7;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const BISECTION_STEPS = 20; // Narrows a day down to under 90 seconds
+
+/**
+ * Forecast when a contact's score will drop below a threshold
+ * @param contact Contact to forecast
+ * @param interactions All interactions with this contact (later ones than now are ignored)
+ * @param threshold Overall score to watch for
+ * @param options Horizon, point spacing and scoring configuration
+ * @param now Start of the projection (default: now)
+ * @returns Current score, crossing time (if within the horizon) and projected points
+ */
+export function forecastScore(
+  contact: Contact,
+  interactions: Interaction[],
+  threshold: number,
+  options: ForecastOptions = {},
+  now: Date = new Date(),
+): ScoreForecast {
+  const horizonDays = options.horizonDays ?? DEFAULT_HORIZON_DAYS;
+  const stepDays = options.stepDays ?? DEFAULT_STEP_DAYS;
+
+  // No new interactions: drop anything recorded after now
+  const known = interactions.filter((interaction) => interaction.timestamp <= now);
+  const state = {
+    ...contact,
+    lastContactedAt: contact.lastContactedAt && contact.lastContactedAt <= now ? contact.lastContactedAt : undefined,
+  };
+  const overallAt = (ms: number) =>
+    calculateComponentScores(state, known, options.config ?? {}, new Date(ms)).overall;
+
+  const start = now.getTime();
+  const current = overallAt(start);
+
+  const points = [];
+  for (let day = 0; day <= horizonDays; day += stepDays) {
+    const at = start + day * MS_PER_DAY;
+    points.push({ at: new Date(at), overall: day === 0 ? current : overallAt(at) });
+  }
+
+  let crossing: number | undefined = current < threshold ? start : undefined;
+  for (let day = 1; crossing === undefined && day <= horizonDays; day++) {
+    const at = start + day * MS_PER_DAY;
+    if (overallAt(at) < threshold) {
+      let above = at - MS_PER_DAY;
+      let below = at;
+      for (let step = 0; step < BISECTION_STEPS; step++) {
+        const middle = (above + below) / 2;
+        if (overallAt(middle) < threshold) {
+          below = middle;
+        } else {
+          above = middle;
+        }
+      }
+      crossing = Math.round(below);
+    }
+  }
+
+  return {
+    contactId: contact.id,
+    threshold,
+    current,
+    crossesAt: crossing !== undefined ? new Date(crossing) : undefined,
+    daysUntilCrossing: crossing !== undefined ? Math.round(((crossing - start) / MS_PER_DAY) * 100) / 100 : undefined,
+    points,
+  };
+}
+
+/**
+ * Forecast threshold crossings for multiple contacts
+ * @param contacts Contacts to forecast
+ * @param interactionsByContact Map of contactId to interactions
+ * @param threshold Overall score to watch for
+ * @param options Horizon, point spacing and scoring configuration
+ * @param now Start of the projection (default: now)
+ * @returns One forecast per contact
+ */
+export function forecastScores(
+  contacts: Contact[],
+  interactionsByContact: Map<string, Interaction[]>,
+  threshold: number,
+  options: ForecastOptions = {},
+  now: Date = new Date(),
+): ScoreForecast[] {
+  return contacts.map((contact) =>
+    forecastScore(contact, interactionsByContact.get(contact.id) ?? [], threshold, options, now),
+  );
+}
+
+/**
+ * Validate forecast parameters
+ * @param threshold Overall score to watch for
+ * @param options Horizon and point spacing
+ * @returns List of validation error messages (empty if valid)
+ */
+export function validateForecastOptions(threshold: number, options: ForecastOptions = {}): string[] {
+  const errors: string[] = [];
+
+  if (typeof threshold !== 'number' || !(threshold >= 0 && threshold <= 100)) {
+    errors.push('threshold must be a number between 0 and 100');
+  }
+  if (
+    options.horizonDays !== undefined &&
+    (!Number.isInteger(options.horizonDays) || options.horizonDays <= 0 || options.horizonDays > MAX_FORECAST_DAYS)
+  ) {
+    errors.push(`horizonDays must be a positive integer up to ${MAX_FORECAST_DAYS}`);
+  }
+  if (options.stepDays !== undefined && (!Number.isInteger(options.stepDays) || options.stepDays <= 0)) {
+    errors.push('stepDays must be a positive integer');
+  }
+
+  return errors;
+}
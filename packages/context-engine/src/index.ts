@@ -1,3 +1,7 @@
 export * from './scorer.js';
 export * from './decay.js';
+export * from './trend.js';
+export * from './explain.js';
+export * from './forecast.js';
+export * from './profiles.js';
 export * from './signals.js';
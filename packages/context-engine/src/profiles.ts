@@ -0,0 +1,63 @@
+import { Contact, ScoringProfile } from '@keepclos/shared';
+import { ScorerConfig } from './scorer.js';
+
+/**
+ * Scoring profiles
+ * Per-tag or per-contact scorer settings, so a close family member and a quarterly business
+ * contact are each judged against their own half-life, decay curve and expected cadence
+ */
+
+/**
+ * Find the scoring profile that applies to a contact
+ * A profile listing the contact's ID wins; otherwise the first profile sharing a tag
+ * @param contact Contact to look up
+ * @param profiles Scoring profiles in priority order
+ * @returns Applicable profile, or undefined if none applies
+ */
+export function findScoringProfile(contact: Contact, profiles: ScoringProfile[]): ScoringProfile | undefined {
+  return (
+    profiles.find((profile) => profile.contactIds?.includes(contact.id)) ??
+    profiles.find((profile) => profile.tags?.some((tag) => contact.tags.includes(tag)))
+  );
+}
+
+/**
+ * Scorer settings of a profile
+ * @param profile Scoring profile
+ * @returns The profile's scorer fields that are set
+ */
+export function profileScorerConfig(profile: ScoringProfile): Partial<ScorerConfig> {
+  const config: Partial<ScorerConfig> = {
+    recencyWeight: profile.recencyWeight,
+    frequencyWeight: profile.frequencyWeight,
+    engagementWeight: profile.engagementWeight,
+    halfLife: profile.halfLife,
+    cadenceDays: profile.cadenceDays,
+    decay: profile.decay,
+    interactionDecay: profile.interactionDecay,
+  };
+
+  for (const key of Object.keys(config) as Array<keyof ScorerConfig>) {
+    if (config[key] === undefined) {
+      delete config[key];
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Scorer configuration for a contact
+ * @param contact Contact to score
+ * @param profiles Scoring profiles in priority order
+ * @param overrides Settings that take precedence over the profile (default: none)
+ * @returns The applicable profile's settings with the overrides on top
+ */
+export function scorerConfigFor(
+  contact: Contact,
+  profiles: ScoringProfile[],
+  overrides: Partial<ScorerConfig> = {},
+): Partial<ScorerConfig> {
+  const profile = findScoringProfile(contact, profiles);
+  return { ...(profile ? profileScorerConfig(profile) : {}), ...overrides };
+}
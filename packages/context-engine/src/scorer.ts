@@ -1,5 +1,8 @@
-import { Contact, Interaction, RelationshipScore } from '@keepclos/shared';
-import { exponentialDecay, daysSince } from './decay.js';
+import { Contact, DecayConfig, Interaction, RelationshipScore, ScoringProfile } from '@keepclos/shared';
+import { applyDecay, exponentialDecay, daysSince, interactionWeight, validateDecayConfig } from './decay.js';
+import { DEFAULT_TREND_THRESHOLD, DEFAULT_TREND_WINDOW, TrendPoint, calculateScoreTrend } from './trend.js';
+import { ScoreComponent, ScoreExplanation, explainScore } from './explain.js';
+import { profileScorerConfig, scorerConfigFor } from './profiles.js';
 
 /**
  * Relationship health scorer
@@ -11,7 +14,21 @@ export interface ScorerConfig {
   frequencyWeight: number; // 0-1, default 0.3
   engagementWeight: number; // 0-1, default 0.3
   halfLife: number; // days for exponential decay, default 30
+  decay?: DecayConfig; // recency decay curve, default exponential with halfLife
   frequencyWindow: number; // days to measure frequency over, default 90
+  cadenceDays: number; // expected days between interactions (frequency 100 when met), default 10
+  interactionDecay: DecayConfig; // how fast interactions lose weight in frequency and engagement, default half-life 180
+  trendWindow: number; // days of score history the trend is fitted over, default 90
+  trendThreshold: number; // score change over the trend window that counts as a trend, default 5
+}
+
+export interface ScoreOptions {
+  history?: TrendPoint[]; // Previously recorded scores of this contact (default: none)
+  explain?: boolean; // Attach a breakdown of the score (default: false)
+}
+
+export interface ExplainedRelationshipScore extends RelationshipScore {
+  explanation: ScoreExplanation;
 }
 
 const DEFAULT_CONFIG: ScorerConfig = {
@@ -20,64 +37,238 @@ const DEFAULT_CONFIG: ScorerConfig = {
   engagementWeight: 0.3,
   halfLife: 30,
   frequencyWindow: 90,
+  cadenceDays: 10,
+  interactionDecay: { type: 'exponential', halfLife: 180 },
+  trendWindow: DEFAULT_TREND_WINDOW,
+  trendThreshold: DEFAULT_TREND_THRESHOLD,
 };
 
+// Below this many recorded points in the trend window, history is rebuilt from interactions
+const MIN_TREND_HISTORY = 3;
+const TREND_SAMPLES = 6;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate a (partial) scorer configuration
+ * @param config Configuration to validate
+ * @returns List of validation error messages (empty if valid)
+ */
+export function validateScorerConfig(config: Partial<ScorerConfig>): string[] {
+  const errors: string[] = [];
+  const weightKeys = ['recencyWeight', 'frequencyWeight', 'engagementWeight'] as const;
+
+  for (const key of weightKeys) {
+    const value = config[key];
+    if (value !== undefined && (typeof value !== 'number' || !isFinite(value) || value < 0 || value > 1)) {
+      errors.push(`${key} must be a number between 0 and 1`);
+    }
+  }
+
+  const finalConfig = { ...DEFAULT_CONFIG, ...config };
+  if (finalConfig.recencyWeight + finalConfig.frequencyWeight + finalConfig.engagementWeight <= 0) {
+    errors.push('At least one weight must be greater than 0');
+  }
+
+  if (config.halfLife !== undefined && (typeof config.halfLife !== 'number' || !(config.halfLife > 0))) {
+    errors.push('halfLife must be a positive number of days');
+  }
+
+  if (
+    config.frequencyWindow !== undefined &&
+    (typeof config.frequencyWindow !== 'number' || !(config.frequencyWindow > 0))
+  ) {
+    errors.push('frequencyWindow must be a positive number of days');
+  }
+
+  if (config.cadenceDays !== undefined && (typeof config.cadenceDays !== 'number' || !(config.cadenceDays > 0))) {
+    errors.push('cadenceDays must be a positive number of days');
+  }
+
+  if (config.decay !== undefined) {
+    errors.push(...validateDecayConfig(config.decay));
+  }
+
+  if (config.interactionDecay !== undefined) {
+    errors.push(...validateDecayConfig(config.interactionDecay).map((error) => `interaction ${error}`));
+  }
+
+  if (config.trendWindow !== undefined && (typeof config.trendWindow !== 'number' || !(config.trendWindow > 0))) {
+    errors.push('trendWindow must be a positive number of days');
+  }
+
+  if (
+    config.trendThreshold !== undefined &&
+    (typeof config.trendThreshold !== 'number' || !isFinite(config.trendThreshold) || config.trendThreshold < 0)
+  ) {
+    errors.push('trendThreshold must be a non-negative number');
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a list of scoring profiles
+ * @param profiles Profiles to validate
+ * @returns List of validation error messages (empty if valid)
+ */
+export function validateScoringProfiles(profiles: ScoringProfile[]): string[] {
+  if (!Array.isArray(profiles)) {
+    return ['scoringProfiles must be an array'];
+  }
+
+  const errors: string[] = [];
+  const names = new Set<string>();
+  const isStringArray = (value: unknown) =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+  profiles.forEach((profile, index) => {
+    const path = `scoringProfiles[${index}]`;
+
+    if (!profile || typeof profile !== 'object') {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    if (typeof profile.name !== 'string' || profile.name.trim() === '') {
+      errors.push(`${path}.name is required`);
+    } else if (names.has(profile.name)) {
+      errors.push(`${path}.name "${profile.name}" is used by another profile`);
+    } else {
+      names.add(profile.name);
+    }
+
+    if (profile.tags !== undefined && !isStringArray(profile.tags)) {
+      errors.push(`${path}.tags must be an array of strings`);
+    }
+    if (profile.contactIds !== undefined && !isStringArray(profile.contactIds)) {
+      errors.push(`${path}.contactIds must be an array of strings`);
+    }
+    if (!profile.tags?.length && !profile.contactIds?.length) {
+      errors.push(`${path} needs tags or contactIds to apply to`);
+    }
+
+    errors.push(...validateScorerConfig(profileScorerConfig(profile)).map((error) => `${path}: ${error}`));
+  });
+
+  return errors;
+}
+
 /**
  * Calculate recency score: how recently was the contact last interacted with?
- * Uses exponential decay to give recent interactions much higher scores
+ * Uses exponential decay (or the given decay curve) to give recent interactions much higher scores
  * @param contact Contact to score
  * @param halfLife Days for score to reach 50%
+ * @param now Time to score at (default: now)
+ * @param decay Decay curve (default: exponential with halfLife); an exponential curve without
+ * its own halfLife uses the halfLife argument
  * @returns Score 0-100
  */
-export function calculateRecencyScore(contact: Contact, halfLife: number): number {
+export function calculateRecencyScore(
+  contact: Contact,
+  halfLife: number,
+  now: Date = new Date(),
+  decay?: DecayConfig,
+): number {
   if (!contact.lastContactedAt) {
     return 0; // No contact history = lowest score
   }
 
-  const days = daysSince(contact.lastContactedAt);
+  const days = daysSince(contact.lastContactedAt, now);
+  if (decay) {
+    return applyDecay(days, { ...decay, halfLife: decay.halfLife ?? halfLife });
+  }
   return exponentialDecay(days, halfLife);
 }
 
 /**
  * Calculate frequency score: how often do we interact?
- * Measures interactions per day in the given window
+ * Measures interactions per day in the given window against the expected cadence. With a
+ * decay curve each interaction counts by its weight and the window by its weighted length,
+ * so a steady cadence scores the same while recent interactions count for more than old ones
  * @param interactions Interactions in the time window
  * @param windowDays Size of the time window
+ * @param cadenceDays Expected days between interactions (default: 10)
+ * @param now Time to score at (default: now)
+ * @param decay Interaction weighting by age (default: none, every interaction counts fully)
  * @returns Score 0-100
  */
-export function calculateFrequencyScore(interactions: Interaction[], windowDays: number): number {
+export function calculateFrequencyScore(
+  interactions: Interaction[],
+  windowDays: number,
+  cadenceDays: number = DEFAULT_CONFIG.cadenceDays,
+  now: Date = new Date(),
+  decay?: DecayConfig,
+): number {
   if (interactions.length === 0) {
     return 0;
   }
 
+  const count = decay
+    ? interactions.reduce((sum, i) => sum + interactionWeight(daysSince(i.timestamp, now), decay), 0)
+    : interactions.length;
+  const days = decay ? weightedWindowDays(windowDays, decay) : windowDays;
+  if (days <= 0) {
+    return 0;
+  }
+
   // Interactions per day
-  const interactionsPerDay = interactions.length / windowDays;
+  const interactionsPerDay = count / days;
 
-  // Scale: expect 1-2 interactions per month (0.03-0.06 per day) to be healthy
-  // 1 interaction per week = 0.14 per day = excellent
-  // Score scales: 0.1 per day = 100
-  const score = Math.min(100, interactionsPerDay * 1000);
+  // Scale: one interaction per cadence = 100
+  // Default cadence of 10 days: 0.1 per day = 100, 1-2 interactions per month = 30-60
+  // A quarterly contact (cadence 90) scores 100 with one interaction per quarter
+  const score = Math.min(100, interactionsPerDay * cadenceDays * 100);
 
   return Math.max(0, score);
 }
 
 /**
  * Calculate engagement score: depth and quality of interactions
- * Averages quality scores from interactions
+ * Averages quality scores from interactions, weighted by age when a decay curve is given
  * @param interactions Interactions to score
- * @returns Score 0-100
+ * @param now Time to score at (default: now)
+ * @param decay Interaction weighting by age (default: none, a plain average)
+ * @returns Score 0-100 (0 once every interaction has decayed away)
  */
-export function calculateEngagementScore(interactions: Interaction[]): number {
+export function calculateEngagementScore(
+  interactions: Interaction[],
+  now: Date = new Date(),
+  decay?: DecayConfig,
+): number {
   if (interactions.length === 0) {
     return 0;
   }
 
-  const totalQuality = interactions.reduce((sum, i) => sum + i.quality, 0);
-  const avgQuality = totalQuality / interactions.length;
+  let totalWeight = 0;
+  let totalQuality = 0;
+  for (const i of interactions) {
+    const weight = decay ? interactionWeight(daysSince(i.timestamp, now), decay) : 1;
+    totalWeight += weight;
+    totalQuality += weight * i.quality;
+  }
+  if (totalWeight <= 0) {
+    return 0;
+  }
+
+  const avgQuality = totalQuality / totalWeight;
 
   return Math.min(100, avgQuality);
 }
 
+/**
+ * Length of a window in days, each day counted by the weight of an interaction that old
+ * @param windowDays Size of the time window
+ * @param decay Interaction weighting by age
+ * @returns Weighted number of days (windowDays when nothing decays)
+ */
+function weightedWindowDays(windowDays: number, decay: DecayConfig): number {
+  let days = 0;
+  for (let day = 0; day < windowDays; day++) {
+    days += interactionWeight(day + 0.5, decay) * Math.min(1, windowDays - day);
+  }
+  return days;
+}
+
 /**
  * Calculate overall relationship score from component scores
  * @param recency Recency score 0-100
@@ -92,89 +283,166 @@ export function combineScores(
   engagement: number,
   config: Partial<ScorerConfig> = {},
 ): number {
-  const finalConfig = { ...DEFAULT_CONFIG, ...config };
+  const weights = normalizedWeights({ ...DEFAULT_CONFIG, ...config });
 
-  // Normalize weights to sum to 1.0
-  const totalWeight =
-    finalConfig.recencyWeight + finalConfig.frequencyWeight + finalConfig.engagementWeight;
-  const normalizedRecency = finalConfig.recencyWeight / totalWeight;
-  const normalizedFrequency = finalConfig.frequencyWeight / totalWeight;
-  const normalizedEngagement = finalConfig.engagementWeight / totalWeight;
-
-  const combined =
-    recency * normalizedRecency +
-    frequency * normalizedFrequency +
-    engagement * normalizedEngagement;
+  const combined = recency * weights.recency + frequency * weights.frequency + engagement * weights.engagement;
 
   return Math.min(100, Math.max(0, combined));
 }
 
 /**
  * Calculate complete relationship score for a contact
+ * The trend is the slope of the overall score over the trend window, fitted through the
+ * recorded history plus the new score; when too little history has been recorded, past
+ * scores are recalculated from the interactions instead
  * @param contact Contact to score
  * @param interactions All interactions with this contact
  * @param config Scoring configuration
- * @returns Relationship score object
+ * @param now Time to score at (default: now); later interactions are ignored
+ * @param options Recorded history for the trend, and whether to explain the score
+ * @returns Relationship score object (with an explanation if requested)
  */
+export function calculateRelationshipScore(
+  contact: Contact,
+  interactions: Interaction[],
+  config: Partial<ScorerConfig>,
+  now: Date,
+  options: ScoreOptions & { explain: true },
+): ExplainedRelationshipScore;
+export function calculateRelationshipScore(
+  contact: Contact,
+  interactions: Interaction[],
+  config?: Partial<ScorerConfig>,
+  now?: Date,
+  options?: ScoreOptions,
+): RelationshipScore;
 export function calculateRelationshipScore(
   contact: Contact,
   interactions: Interaction[],
   config: Partial<ScorerConfig> = {},
-): RelationshipScore {
+  now: Date = new Date(),
+  options: ScoreOptions = {},
+): RelationshipScore | ExplainedRelationshipScore {
+  const finalConfig = { ...DEFAULT_CONFIG, ...config };
+  const components = calculateComponentScores(contact, interactions, finalConfig, now);
+  const history = options.history ?? [];
+
+  const windowMs = finalConfig.trendWindow * MS_PER_DAY;
+  const windowStart = new Date(now.getTime() - windowMs);
+
+  let points = history.filter((point) => point.takenAt >= windowStart && point.takenAt < now);
+  if (points.length < MIN_TREND_HISTORY) {
+    points = [];
+    for (let sample = TREND_SAMPLES; sample > 0; sample--) {
+      const at = new Date(now.getTime() - (windowMs * sample) / TREND_SAMPLES);
+      points.push({ takenAt: at, overall: calculateComponentScores(contact, interactions, finalConfig, at).overall });
+    }
+  }
+  points.push({ takenAt: now, overall: components.overall });
+
+  const { trend, slope } = calculateScoreTrend(points, finalConfig.trendWindow, finalConfig.trendThreshold, now);
+
+  const score: RelationshipScore = {
+    contactId: contact.id,
+    ...components,
+    trend,
+    trendSlope: slope,
+    lastUpdated: now,
+  };
+
+  if (!options.explain) {
+    return score;
+  }
+
+  const known = knownFacts(contact, interactions, now);
+  const explanation = explainScore({
+    contact: known.contact,
+    interactions: known.interactions,
+    values: components,
+    weights: normalizedWeights(finalConfig),
+    overall: components.overall,
+    halfLife: finalConfig.halfLife,
+    decay: finalConfig.decay,
+    frequencyWindow: finalConfig.frequencyWindow,
+    cadenceDays: finalConfig.cadenceDays,
+    interactionDecay: finalConfig.interactionDecay,
+    now,
+    overallWith: (interaction) => {
+      const after = { ...contact, lastContactedAt: interaction.timestamp };
+      return calculateComponentScores(after, [...interactions, interaction], finalConfig, now).overall;
+    },
+  });
+
+  return { ...score, explanation };
+}
+
+/**
+ * Component and overall scores of a contact at a point in time, without the trend
+ * @param contact Contact to score
+ * @param interactions All interactions with this contact (later ones are ignored)
+ * @param config Scoring configuration
+ * @param now Time to score at
+ * @returns Overall, recency, frequency and engagement scores
+ */
+export function calculateComponentScores(
+  contact: Contact,
+  interactions: Interaction[],
+  config: Partial<ScorerConfig>,
+  now: Date,
+): Pick<RelationshipScore, 'overall' | 'recency' | 'frequency' | 'engagement'> {
   const finalConfig = { ...DEFAULT_CONFIG, ...config };
+  const { contact: known, interactions: knownInteractions } = knownFacts(contact, interactions, now);
 
   // Filter interactions to frequency window
-  const cutoffDate = new Date();
+  const cutoffDate = new Date(now);
   cutoffDate.setDate(cutoffDate.getDate() - finalConfig.frequencyWindow);
 
-  const recentInteractions = interactions.filter((i) => i.timestamp > cutoffDate);
-  const allTimeInteractions = interactions;
+  const recentInteractions = knownInteractions.filter((i) => i.timestamp > cutoffDate);
 
-  // Calculate component scores
-  const recencyScore = calculateRecencyScore(contact, finalConfig.halfLife);
-  const frequencyScore = calculateFrequencyScore(
+  const recency = calculateRecencyScore(known, finalConfig.halfLife, now, finalConfig.decay);
+  const frequency = calculateFrequencyScore(
     recentInteractions,
     finalConfig.frequencyWindow,
+    finalConfig.cadenceDays,
+    now,
+    finalConfig.interactionDecay,
   );
-  const engagementScore = calculateEngagementScore(allTimeInteractions);
-
-  // Combine into overall score
-  const overallScore = combineScores(
-    recencyScore,
-    frequencyScore,
-    engagementScore,
-    finalConfig,
-  );
+  const engagement = calculateEngagementScore(knownInteractions, now, finalConfig.interactionDecay);
 
-  // Calculate trend (simplified: compare recent vs. older)
-  const trendCutoff = new Date();
-  trendCutoff.setDate(trendCutoff.getDate() - 45); // 45 days ago
-
-  const recentCount = interactions.filter((i) => i.timestamp > trendCutoff).length;
-  const olderCount = interactions.filter((i) => i.timestamp <= trendCutoff).length;
-
-  let trend: 'improving' | 'stable' | 'declining';
-  if (olderCount === 0) {
-    trend = 'improving';
-  } else {
-    const ratio = recentCount / olderCount;
-    if (ratio > 1.2) {
-      trend = 'improving';
-    } else if (ratio < 0.8) {
-      trend = 'declining';
-    } else {
-      trend = 'stable';
-    }
-  }
+  return { overall: combineScores(recency, frequency, engagement, finalConfig), recency, frequency, engagement };
+}
+
+/**
+ * A contact and its interactions as known at a point in time
+ * Interactions after that time had not happened yet; lastContactedAt falls back to the
+ * latest known interaction when the stored one is later
+ */
+function knownFacts(
+  contact: Contact,
+  interactions: Interaction[],
+  now: Date,
+): { contact: Contact; interactions: Interaction[] } {
+  const knownInteractions = interactions.filter((i) => i.timestamp <= now);
+  const lastContactedAt =
+    contact.lastContactedAt && contact.lastContactedAt <= now
+      ? contact.lastContactedAt
+      : knownInteractions.reduce<Date | undefined>(
+          (latest, i) => (!latest || i.timestamp > latest ? i.timestamp : latest),
+          undefined,
+        );
+
+  return { contact: { ...contact, lastContactedAt }, interactions: knownInteractions };
+}
 
+/**
+ * Component weights normalized to sum to 1.0
+ */
+function normalizedWeights(config: ScorerConfig): Record<ScoreComponent, number> {
+  const totalWeight = config.recencyWeight + config.frequencyWeight + config.engagementWeight;
   return {
-    contactId: contact.id,
-    overall: overallScore,
-    recency: recencyScore,
-    frequency: frequencyScore,
-    engagement: engagementScore,
-    trend,
-    lastUpdated: new Date(),
+    recency: config.recencyWeight / totalWeight,
+    frequency: config.frequencyWeight / totalWeight,
+    engagement: config.engagementWeight / totalWeight,
   };
 }
 
@@ -183,15 +451,24 @@ export function calculateRelationshipScore(
  * @param contacts Contacts to score
  * @param interactionsByContact Map of contactId to interactions
  * @param config Scoring configuration
+ * @param now Time to score at (default: now)
+ * @param historyByContact Map of contactId to recorded scores (default: none)
+ * @param profiles Scoring profiles; each contact is scored with its profile, with config on top (default: none)
  * @returns Array of relationship scores
  */
 export function calculateRelationshipScoresBatch(
   contacts: Contact[],
   interactionsByContact: Map<string, Interaction[]>,
   config: Partial<ScorerConfig> = {},
+  now: Date = new Date(),
+  historyByContact: Map<string, TrendPoint[]> = new Map(),
+  profiles: ScoringProfile[] = [],
 ): RelationshipScore[] {
   return contacts.map((contact) => {
     const interactions = interactionsByContact.get(contact.id) ?? [];
-    return calculateRelationshipScore(contact, interactions, config);
+    const history = historyByContact.get(contact.id);
+    return calculateRelationshipScore(contact, interactions, scorerConfigFor(contact, profiles, config), now, {
+      history,
+    });
   });
 }
@@ -1,4 +1,10 @@
-import { Interaction, InteractionType, SignalExtractionResult } from '@keepclos/shared';
+import {
+  Interaction,
+  InteractionType,
+  SignalExtractionResult,
+  getZonedParts,
+  systemTimeZone,
+} from '@keepclos/shared';
 
 /**
  * Signal extraction: parse interaction types, extract context tags, compute quality scores
@@ -54,16 +60,17 @@ export function extractQualityScore(interaction: Interaction): number {
  * Extract context tags from interaction metadata
  * Tags help categorize relationships and inform reminder rules
  * @param interaction Interaction to analyze
+ * @param timeZone Time zone for business-hours tagging (default: the server's zone)
  * @returns Array of extracted tags
  */
-export function extractContextTags(interaction: Interaction): string[] {
+export function extractContextTags(interaction: Interaction, timeZone: string = systemTimeZone()): string[] {
   const tags: string[] = [];
 
   // Type-based tags
   tags.push(`type:${interaction.type}`);
 
   // Time-based tags
-  const hour = interaction.timestamp.getHours();
+  const { hour } = getZonedParts(interaction.timestamp, timeZone);
   if (hour >= 9 && hour < 17) {
     tags.push('time:business-hours');
   } else {
@@ -106,11 +113,12 @@ export function extractContextTags(interaction: Interaction): string[] {
 /**
  * Perform full signal extraction on an interaction
  * @param interaction Interaction to analyze
+ * @param timeZone Time zone for time-based tags (default: the server's zone)
  * @returns Signal extraction result with quality and context
  */
-export function extractSignals(interaction: Interaction): SignalExtractionResult {
+export function extractSignals(interaction: Interaction, timeZone?: string): SignalExtractionResult {
   const qualityScore = extractQualityScore(interaction);
-  const contextTags = extractContextTags(interaction);
+  const contextTags = extractContextTags(interaction, timeZone);
 
   // Confidence based on interaction completeness
   let confidence = 0.5; // Base: 50%
@@ -129,10 +137,11 @@ export function extractSignals(interaction: Interaction): SignalExtractionResult
 /**
  * Batch process interactions to extract signals
  * @param interactions Array of interactions
+ * @param timeZone Time zone for time-based tags (default: the server's zone)
  * @returns Array of extraction results
  */
-export function extractSignalsBatch(interactions: Interaction[]): SignalExtractionResult[] {
-  return interactions.map(extractSignals);
+export function extractSignalsBatch(interactions: Interaction[], timeZone?: string): SignalExtractionResult[] {
+  return interactions.map((interaction) => extractSignals(interaction, timeZone));
 }
 
 /**
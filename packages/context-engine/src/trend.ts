@@ -0,0 +1,82 @@
+import { RelationshipScore } from '@keepclos/shared';
+
+/**
+ * Score trend detection
+ * Fits a least-squares line through a contact's overall scores over a trailing window;
+ * the slope decides whether the relationship is improving, stable or declining
+ */
+
+export interface TrendPoint {
+  takenAt: Date;
+  overall: number;
+}
+
+export interface ScoreTrend {
+  trend: RelationshipScore['trend'];
+  slope: number; // Overall score change per day
+  change: number; // Slope projected over the whole window
+  points: number; // Points the line was fitted through
+}
+
+export const DEFAULT_TREND_WINDOW = 90;
+export const DEFAULT_TREND_THRESHOLD = 5;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Derive a trend from score history
+ * @param points Scores over time (any order); points outside the window are ignored
+ * @param windowDays Days of history to fit the line over (default: 90)
+ * @param threshold Change over the window (in score points) that counts as a trend (default: 5)
+ * @param now End of the window (default: now)
+ * @returns Trend with its slope; stable when fewer than two points fall in the window
+ */
+export function calculateScoreTrend(
+  points: TrendPoint[],
+  windowDays: number = DEFAULT_TREND_WINDOW,
+  threshold: number = DEFAULT_TREND_THRESHOLD,
+  now: Date = new Date(),
+): ScoreTrend {
+  const windowStart = now.getTime() - windowDays * MS_PER_DAY;
+  const inWindow = points.filter(
+    (point) => point.takenAt.getTime() >= windowStart && point.takenAt <= now,
+  );
+
+  const slope = linearSlope(
+    inWindow.map((point) => (point.takenAt.getTime() - windowStart) / MS_PER_DAY),
+    inWindow.map((point) => point.overall),
+  );
+  const change = slope * windowDays;
+
+  let trend: RelationshipScore['trend'] = 'stable';
+  if (change > threshold) {
+    trend = 'improving';
+  } else if (change < -threshold) {
+    trend = 'declining';
+  }
+
+  return { trend, slope, change, points: inWindow.length };
+}
+
+/**
+ * Least-squares slope of y over x
+ * @returns Slope, 0 when there are fewer than two distinct x values
+ */
+function linearSlope(xs: number[], ys: number[]): number {
+  const n = xs.length;
+  if (n < 2) {
+    return 0;
+  }
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    variance += (xs[i] - meanX) ** 2;
+  }
+
+  return variance === 0 ? 0 : covariance / variance;
+}
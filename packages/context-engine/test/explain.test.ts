@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { Contact, Interaction, InteractionType } from '@keepclos/shared';
+import { calculateComponentScores, calculateRelationshipScore } from '../src/scorer.js';
+import { extractQualityScore } from '../src/signals.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * MS_PER_DAY);
+}
+
+function contact(lastContact?: Date): Contact {
+  return {
+    id: 'a',
+    name: 'Ann',
+    tags: [],
+    notes: '',
+    lastContactedAt: lastContact,
+    createdAt: daysAgo(400),
+    updatedAt: daysAgo(400),
+  };
+}
+
+function interaction(id: string, days: number, quality: number, type: InteractionType = 'call'): Interaction {
+  return { id, contactId: 'a', type, timestamp: daysAgo(days), quality };
+}
+
+const interactions = [
+  interaction('old-great', 80, 95, 'meeting'),
+  interaction('recent-poor', 5, 20, 'message'),
+  interaction('recent-call', 12, 70),
+  interaction('mid', 40, 60),
+  interaction('outside-window', 120, 90, 'meeting'),
+  interaction('later', -3, 100, 'meeting'), // After the scoring time
+];
+
+function explain(config = {}, list = interactions, lastContact: Date | undefined = daysAgo(-3)) {
+  return calculateRelationshipScore(contact(lastContact), list, config, NOW, { explain: true });
+}
+
+describe('score explanation components', () => {
+  it.each([
+    ['default weights', {}],
+    ['weights that do not sum to 1', { recencyWeight: 2, frequencyWeight: 1, engagementWeight: 1 }],
+  ])('contribute exactly the overall score with %s', (_case, config) => {
+    const score = explain(config);
+    const { recency, frequency, engagement } = score.explanation.components;
+
+    expect(recency.contribution + frequency.contribution + engagement.contribution).toBeCloseTo(score.overall, 10);
+    expect(recency.weight + frequency.weight + engagement.weight).toBeCloseTo(1, 10);
+    expect(recency.value).toBe(score.recency);
+    expect(recency.contribution).toBeCloseTo(score.recency * recency.weight, 10);
+  });
+
+  it('normalizes the weights', () => {
+    const { components } = explain({ recencyWeight: 2, frequencyWeight: 1, engagementWeight: 1 }).explanation;
+
+    expect([components.recency.weight, components.frequency.weight, components.engagement.weight]).toEqual([
+      0.5, 0.25, 0.25,
+    ]);
+  });
+
+  it('drives recency by the last known contact, ignoring later interactions', () => {
+    const { recency } = explain().explanation.components;
+
+    expect(recency.summary).toBe('last contact 5 days ago (half-life 30 days)');
+    expect(recency.drivers.map((driver) => driver.interactionId)).toEqual(['recent-poor']);
+  });
+
+  it('drives frequency by the interactions in the window, newest first', () => {
+    const { frequency } = explain().explanation.components;
+
+    expect(frequency.summary).toBe('4 interactions in the last 90 days (expected every 10 days)');
+    expect(frequency.drivers.map((driver) => driver.interactionId)).toEqual([
+      'recent-poor',
+      'recent-call',
+      'mid',
+      'old-great',
+    ]);
+  });
+
+  it('drives engagement by quality faded by age, and lists at most five drivers', () => {
+    const { engagement } = explain().explanation.components;
+
+    expect(engagement.summary).toMatch(/^average quality \d+ over 5 interactions, recent ones weighted more/);
+    // With the 180-day interaction half-life, 95 at 80 days still outweighs 70 at 12 days
+    expect(engagement.drivers.map((driver) => driver.interactionId)).toEqual([
+      'old-great',
+      'recent-call',
+      'outside-window',
+      'mid',
+      'recent-poor',
+    ]);
+    expect(engagement.drivers[0]).toEqual({
+      interactionId: 'old-great',
+      type: 'meeting',
+      timestamp: daysAgo(80),
+      quality: 95,
+    });
+
+    const many = Array.from({ length: 8 }, (_, n) => interaction(`n${n}`, n + 1, 50));
+    expect(explain({}, many, daysAgo(1)).explanation.components.engagement.drivers).toHaveLength(5);
+  });
+
+  it('describes a contact without interactions', () => {
+    const { components } = explain({}, [], undefined).explanation;
+
+    expect(components.recency).toMatchObject({ summary: 'no contact yet', drivers: [] });
+    expect(components.engagement).toMatchObject({ summary: 'no interactions yet', drivers: [] });
+  });
+});
+
+describe('best next action', () => {
+  it('is the candidate that raises the overall score the most, with suggestions ranked by gain', () => {
+    const score = explain();
+    const { bestAction, suggestions } = score.explanation;
+
+    expect(suggestions.map((suggestion) => suggestion.description).sort()).toEqual([
+      'a 15-minute call',
+      'a 30-minute call',
+      'a 60-minute meeting',
+      'a message',
+      'an email',
+    ]);
+    expect(suggestions.map((suggestion) => suggestion.gain)).toEqual(
+      [...suggestions.map((suggestion) => suggestion.gain)].sort((a, b) => b - a),
+    );
+    expect(bestAction).toEqual(suggestions[0]);
+    expect(bestAction?.description).toBe('a 60-minute meeting');
+  });
+
+  it('reports the overall score right after the interaction happens now', () => {
+    const score = explain();
+    const best = score.explanation.bestAction!;
+    const happened: Interaction = { id: 'x', contactId: 'a', timestamp: NOW, quality: 0, ...best.interaction };
+    happened.quality = extractQualityScore(happened);
+
+    const after = calculateComponentScores(contact(NOW), [...interactions, happened], {}, NOW);
+
+    expect(best.gain).toBeCloseTo(best.overall - score.overall, 10);
+    expect(best.overall).toBeCloseTo(after.overall, 10);
+  });
+
+  it('is absent when no candidate would raise the score', () => {
+    // In touch today, at the expected cadence, with perfect quality
+    const perfect = Array.from({ length: 10 }, (_, n) => interaction(`p${n}`, n * 9, 100, 'meeting'));
+    const { bestAction, suggestions } = explain({}, perfect, NOW).explanation;
+
+    expect(suggestions.every((suggestion) => suggestion.gain <= 0)).toBe(true);
+    expect(bestAction).toBeUndefined();
+  });
+});
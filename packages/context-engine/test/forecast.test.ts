@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { Contact, Interaction } from '@keepclos/shared';
+import { forecastScore, validateForecastOptions } from '../src/forecast.js';
+import { calculateComponentScores } from '../src/scorer.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const contact: Contact = {
+  id: 'a',
+  name: 'Ann',
+  tags: [],
+  notes: '',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+};
+
+const interactions: Interaction[] = [2, 12, 22, 32].map((days) => ({
+  id: `i-${days}`,
+  contactId: contact.id,
+  type: 'call',
+  timestamp: new Date(NOW.getTime() - days * MS_PER_DAY),
+  quality: 80,
+}));
+
+function overallAt(at: Date): number {
+  return calculateComponentScores(contact, interactions, {}, at).overall;
+}
+
+describe('forecastScore', () => {
+  it('finds the crossing of the projected score to within minutes', () => {
+    const forecast = forecastScore(contact, interactions, 50, {}, NOW);
+
+    expect(forecast.current).toBeCloseTo(overallAt(NOW));
+    expect(forecast.crossesAt).toBeDefined();
+    const crossesAt = forecast.crossesAt!;
+    expect(overallAt(crossesAt)).toBeLessThan(50);
+    expect(overallAt(new Date(crossesAt.getTime() - 2 * 60 * 1000))).toBeGreaterThanOrEqual(50);
+    expect(forecast.daysUntilCrossing).toBeCloseTo((crossesAt.getTime() - NOW.getTime()) / MS_PER_DAY, 1);
+  });
+
+  it('crosses now when the score is already below the threshold', () => {
+    const forecast = forecastScore(contact, interactions, 99, {}, NOW);
+
+    expect(forecast.crossesAt).toEqual(NOW);
+    expect(forecast.daysUntilCrossing).toBe(0);
+  });
+
+  it('reports no crossing beyond the horizon', () => {
+    const forecast = forecastScore(contact, interactions, 50, { horizonDays: 2 }, NOW);
+
+    expect(forecast.crossesAt).toBeUndefined();
+    expect(forecast.daysUntilCrossing).toBeUndefined();
+  });
+
+  it('projects points at the step spacing without later interactions', () => {
+    const later = { ...interactions[0], id: 'later', timestamp: new Date(NOW.getTime() + 7 * MS_PER_DAY) };
+    const forecast = forecastScore(contact, [...interactions, later], 50, { horizonDays: 28, stepDays: 7 }, NOW);
+
+    const days = forecast.points.map((point) => (point.at.getTime() - NOW.getTime()) / MS_PER_DAY);
+    const scores = forecast.points.map((point) => point.overall);
+
+    expect(days).toEqual([0, 7, 14, 21, 28]);
+    expect(scores[1]).toBeCloseTo(overallAt(new Date(NOW.getTime() + 7 * MS_PER_DAY)));
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+});
+
+describe('validateForecastOptions', () => {
+  it('rejects thresholds outside 0-100 and bad horizons or steps', () => {
+    expect(validateForecastOptions(50, { horizonDays: 30, stepDays: 1 })).toEqual([]);
+    expect(validateForecastOptions(101, { horizonDays: 731, stepDays: 0 })).toEqual([
+      'threshold must be a number between 0 and 100',
+      'horizonDays must be a positive integer up to 730',
+      'stepDays must be a positive integer',
+    ]);
+  });
+});
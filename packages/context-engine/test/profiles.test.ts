@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { Contact, ScoringProfile } from '@keepclos/shared';
+import { findScoringProfile, scorerConfigFor } from '../src/profiles.js';
+import { calculateRelationshipScore, validateScoringProfiles } from '../src/scorer.js';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+function contact(id: string, tags: string[]): Contact {
+  const created = new Date('2024-01-01T00:00:00Z');
+  return {
+    id,
+    name: id,
+    tags,
+    notes: '',
+    lastContactedAt: new Date('2025-05-02T12:00:00Z'),
+    createdAt: created,
+    updatedAt: created,
+  };
+}
+
+const profiles: ScoringProfile[] = [
+  { name: 'family', tags: ['family'], halfLife: 14, cadenceDays: 7 },
+  { name: 'work', tags: ['work'], halfLife: 90, cadenceDays: 30, decay: { type: 'linear', maxAge: 180 } },
+  { name: 'mentor', contactIds: ['ann'], cadenceDays: 60 },
+];
+
+describe('scorerConfigFor', () => {
+  it('prefers a profile naming the contact over any tag profile', () => {
+    const ann = contact('ann', ['family']);
+
+    expect(findScoringProfile(ann, profiles)?.name).toBe('mentor');
+    expect(scorerConfigFor(ann, profiles)).toEqual({ cadenceDays: 60 });
+  });
+
+  it('takes the first tag profile in priority order', () => {
+    const both = contact('bob', ['work', 'family']);
+
+    expect(scorerConfigFor(both, profiles)).toEqual({ halfLife: 14, cadenceDays: 7 });
+    expect(scorerConfigFor(both, [profiles[1], profiles[0]])).toEqual({
+      halfLife: 90,
+      cadenceDays: 30,
+      decay: { type: 'linear', maxAge: 180 },
+    });
+  });
+
+  it('leaves contacts without a matching profile on the defaults', () => {
+    expect(findScoringProfile(contact('cy', ['club']), profiles)).toBeUndefined();
+    expect(scorerConfigFor(contact('cy', ['club']), profiles)).toEqual({});
+  });
+
+  it('lets overrides win over the profile', () => {
+    expect(scorerConfigFor(contact('bob', ['family']), profiles, { halfLife: 30, recencyWeight: 1 })).toEqual({
+      halfLife: 30,
+      cadenceDays: 7,
+      recencyWeight: 1,
+    });
+  });
+
+  it('merges the profile over the scorer defaults', () => {
+    const bob = contact('bob', ['family']);
+
+    const score = calculateRelationshipScore(bob, [], scorerConfigFor(bob, profiles), NOW, { explain: true });
+    const { recency, frequency } = score.explanation.components;
+
+    // Profile half-life and cadence, default weights and frequency window
+    expect(recency.summary).toBe('last contact 30 days ago (half-life 14 days)');
+    expect(frequency.summary).toBe('0 interactions in the last 90 days (expected every 7 days)');
+    expect([recency.weight, frequency.weight]).toEqual([0.4, 0.3]);
+    expect(score.recency).toBeCloseTo(100 * Math.pow(0.5, 30 / 14), 5);
+  });
+});
+
+describe('validateScoringProfiles', () => {
+  it('accepts valid profiles', () => {
+    expect(validateScoringProfiles(profiles)).toEqual([]);
+  });
+
+  it.each([
+    [{ cadenceDays: 0 }, 'scoringProfiles[0]: cadenceDays must be a positive number of days'],
+    [{ cadenceDays: '7' }, 'scoringProfiles[0]: cadenceDays must be a positive number of days'],
+    [{ halfLife: -1 }, 'scoringProfiles[0]: halfLife must be a positive number of days'],
+    [{ decay: { type: 'cliff' } }, 'scoringProfiles[0]: decay type must be one of'],
+    [{ decay: { type: 'linear', maxAge: 0 } }, 'scoringProfiles[0]: decay maxAge must be a positive number'],
+    [{ interactionDecay: { type: 'exponential', halfLife: 0 } }, 'interaction decay halfLife must be a positive'],
+    [{ recencyWeight: 1.5 }, 'scoringProfiles[0]: recencyWeight must be a number between 0 and 1'],
+  ])('rejects %j', (settings, message) => {
+    const errors = validateScoringProfiles([{ name: 'p', tags: ['t'], ...settings } as ScoringProfile]);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain(message);
+  });
+
+  it('requires unique names and something to apply to', () => {
+    expect(validateScoringProfiles([{ name: 'p', tags: ['t'] }, { name: 'p', contactIds: [] }])).toEqual([
+      'scoringProfiles[1].name "p" is used by another profile',
+      'scoringProfiles[1] needs tags or contactIds to apply to',
+    ]);
+  });
+});
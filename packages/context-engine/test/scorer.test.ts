@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Contact, Interaction } from '@keepclos/shared';
+import { applyDecay, validateDecayConfig } from '../src/decay.js';
+import {
+  calculateEngagementScore,
+  calculateFrequencyScore,
+  calculateRecencyScore,
+  calculateRelationshipScore,
+  validateScorerConfig,
+} from '../src/scorer.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * MS_PER_DAY);
+}
+
+function contact(lastContactDaysAgo?: number): Contact {
+  return {
+    id: 'a',
+    name: 'Ann',
+    tags: [],
+    notes: '',
+    lastContactedAt: lastContactDaysAgo === undefined ? undefined : daysAgo(lastContactDaysAgo),
+    createdAt: daysAgo(400),
+    updatedAt: daysAgo(400),
+  };
+}
+
+function interaction(days: number, quality = 60): Interaction {
+  return { id: `i-${days}`, contactId: 'a', type: 'call', timestamp: daysAgo(days), quality };
+}
+
+describe('decay curves', () => {
+  it('applies exponential, linear and power-law decay', () => {
+    expect(applyDecay(30, { type: 'exponential', halfLife: 30 })).toBeCloseTo(50);
+    expect(applyDecay(30, { type: 'exponential' })).toBeCloseTo(50);
+    expect(applyDecay(90, { type: 'linear', maxAge: 180 })).toBeCloseTo(50);
+    expect(applyDecay(400, { type: 'linear', maxAge: 180 })).toBe(0);
+    expect(applyDecay(3, { type: 'custom', curve: 1 })).toBeCloseTo(25);
+  });
+
+  it('rejects unknown types and non-positive parameters', () => {
+    expect(validateDecayConfig({ type: 'linear', maxAge: 0 })).toEqual(['decay maxAge must be a positive number']);
+    expect(validateDecayConfig({ type: 'cubic' } as never)).toEqual([
+      'decay type must be one of: exponential, linear, custom',
+    ]);
+    expect(validateScorerConfig({ interactionDecay: { type: 'custom', curve: -1 } })).not.toEqual([]);
+  });
+});
+
+describe('component scores', () => {
+  it('scores recency on the configured curve, with the half-life as the exponential default', () => {
+    expect(calculateRecencyScore(contact(30), 30, NOW)).toBeCloseTo(50);
+    expect(calculateRecencyScore(contact(30), 60, NOW, { type: 'linear', maxAge: 60 })).toBeCloseTo(50);
+    expect(calculateRecencyScore(contact(30), 15, NOW, { type: 'exponential' })).toBeCloseTo(25);
+    expect(calculateRecencyScore(contact(), 30, NOW)).toBe(0);
+  });
+
+  it('scores a steady cadence about the same whether or not interactions decay', () => {
+    const everyTenDays = [5, 15, 25, 35, 45, 55, 65, 75, 85].map((days) => interaction(days));
+
+    expect(calculateFrequencyScore(everyTenDays, 90, 5, NOW)).toBeCloseTo(50);
+    expect(calculateFrequencyScore(everyTenDays, 90, 5, NOW, { type: 'exponential', halfLife: 60 })).toBeCloseTo(50, 0);
+  });
+
+  it('weights recent interactions more when they decay', () => {
+    const interactions = [interaction(2, 90), interaction(200, 10)];
+
+    expect(calculateEngagementScore(interactions, NOW)).toBe(50);
+    expect(calculateEngagementScore(interactions, NOW, { type: 'exponential', halfLife: 30 })).toBeGreaterThan(89);
+    expect(calculateEngagementScore([interaction(200, 10)], NOW, { type: 'linear', maxAge: 100 })).toBe(0);
+  });
+});
+
+describe('calculateRelationshipScore', () => {
+  const interactions = [interaction(3, 80), interaction(20, 70), interaction(45, 60)];
+
+  it('ignores interactions after the scoring time', () => {
+    const later = [...interactions, { ...interaction(0, 100), timestamp: new Date(NOW.getTime() + MS_PER_DAY) }];
+
+    expect(calculateRelationshipScore(contact(3), later, {}, NOW)).toEqual(
+      calculateRelationshipScore(contact(3), interactions, {}, NOW),
+    );
+  });
+
+  it('uses the configured curves', () => {
+    const standard = calculateRelationshipScore(contact(3), interactions, {}, NOW);
+    const slow = calculateRelationshipScore(contact(3), interactions, { decay: { type: 'linear', maxAge: 365 } }, NOW);
+
+    expect(slow.recency).toBeGreaterThan(standard.recency);
+    expect(slow.frequency).toBe(standard.frequency);
+  });
+
+  it('fits the trend through the recorded history', () => {
+    // Three recorded scores 20 days apart, followed by the new score
+    const trend = (scores: number[]) =>
+      calculateRelationshipScore(contact(3), interactions, {}, NOW, {
+        history: scores.map((overall, index) => ({ takenAt: daysAgo(60 - index * 20), overall })),
+      }).trend;
+
+    expect(trend([110, 105, 100])).toBe('declining');
+    expect(trend([10, 20, 30])).toBe('improving');
+  });
+});
@@ -1,4 +1,4 @@
-import { EncryptedRecord, EncryptionError } from '@keepclos/shared';
+import { ContactFieldValue, EncryptedRecord, EncryptionError, PostalAddress } from '@keepclos/shared';
 import { encryptString, decryptString, encryptObject, decryptObject, hashPassword, verifyPassword } from './encrypt.js';
 
 /**
@@ -283,6 +283,14 @@ export class Vault {
   }
 }
 
+/**
+ * Decrypted contact fields: plain strings or multi-value lists (emails, phones, addresses, urls)
+ */
+export type ContactVaultData = Record<string, string | ContactFieldValue<string | PostalAddress>[]>;
+
+// Multi-value contact fields, encrypted as JSON
+const MULTI_VALUE_FIELDS = ['emails', 'phones', 'addresses', 'urls'];
+
 /**
  * Contact field encryption helper
  * Encrypts sensitive contact fields individually
@@ -291,7 +299,10 @@ export class ContactVault {
   private vault: Vault;
   private fieldNames: string[];
 
-  constructor(masterPassword?: string, fieldsToEncrypt: string[] = ['email', 'phone']) {
+  constructor(
+    masterPassword?: string,
+    fieldsToEncrypt: string[] = ['email', 'phone', ...MULTI_VALUE_FIELDS],
+  ) {
     this.vault = new Vault({ masterPassword, enableFieldEncryption: true });
     this.fieldNames = fieldsToEncrypt;
   }
@@ -299,14 +310,20 @@ export class ContactVault {
   /**
    * Store contact with encrypted fields
    * @param contactId Contact ID
-   * @param contact Contact data
+   * @param contact Contact data (multi-value fields are serialized to JSON before encryption)
    */
-  storeContact(contactId: string, contact: Record<string, string>): void {
+  storeContact(contactId: string, contact: Record<string, unknown>): void {
     const dataToStore: Record<string, string> = {};
 
     for (const [key, value] of Object.entries(contact)) {
-      if (this.fieldNames.includes(key) && value) {
-        // These fields will be encrypted by vault.store()
+      if (!this.fieldNames.includes(key) || !value) {
+        continue;
+      }
+
+      // These fields will be encrypted by vault.store()
+      if (MULTI_VALUE_FIELDS.includes(key) && Array.isArray(value)) {
+        dataToStore[key] = JSON.stringify(value);
+      } else if (typeof value === 'string') {
         dataToStore[key] = value;
       }
     }
@@ -319,7 +336,22 @@ export class ContactVault {
    * @param contactId Contact ID
    * @returns Decrypted contact data
    */
-  retrieveContact(contactId: string): Record<string, string> {
-    return this.vault.retrieve(`contact:${contactId}`);
+  retrieveContact(contactId: string): ContactVaultData {
+    const decrypted = this.vault.retrieve(`contact:${contactId}`);
+    const data: ContactVaultData = {};
+
+    for (const [key, value] of Object.entries(decrypted)) {
+      if (MULTI_VALUE_FIELDS.includes(key)) {
+        try {
+          data[key] = JSON.parse(value) as ContactFieldValue<string | PostalAddress>[];
+        } catch (error) {
+          throw new EncryptionError(`Failed to decode field '${key}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+      } else {
+        data[key] = value;
+      }
+    }
+
+    return data;
   }
 }
@@ -0,0 +1,236 @@
+import { Contact, Interaction, InteractionType, RelationshipScore, RuleCondition } from '@keepclos/shared';
+import { daysSince } from '@keepclos/context-engine';
+
+/**
+ * Condition trees for composite rules
+ * AND/OR/NOT groups over tag, inactivity, score and trend conditions. Every node is
+ * evaluated (no short-circuit) so a reminder can explain which conditions held
+ */
+
+export interface ConditionFacts {
+  contact: Contact;
+  interactions: Interaction[];
+  score?: Pick<RelationshipScore, 'overall'> & Partial<Pick<RelationshipScore, 'trend'>>;
+  now?: Date; // Evaluation time (default: now)
+}
+
+export interface ConditionResult {
+  condition: RuleCondition;
+  matched: boolean;
+  description: string; // The condition with the observed value, e.g. "no call in 60 days (last 74 days ago)"
+  children?: ConditionResult[];
+}
+
+const CONDITION_TYPES = ['and', 'or', 'not', 'tags', 'inactive', 'score', 'trend'];
+const INTERACTION_TYPES: InteractionType[] = ['call', 'message', 'meeting', 'email', 'other'];
+const TRENDS = ['improving', 'stable', 'declining'];
+const MAX_DEPTH = 8;
+
+/**
+ * Evaluate a condition tree against a contact
+ * @param condition Condition to evaluate
+ * @param facts Contact, its interactions and relationship score
+ * @returns Result tree with the matched flag and a description for every node
+ */
+export function evaluateCondition(condition: RuleCondition, facts: ConditionFacts): ConditionResult {
+  switch (condition.type) {
+    case 'and':
+    case 'or': {
+      const children = condition.conditions.map((child) => evaluateCondition(child, facts));
+      const matched =
+        condition.type === 'and'
+          ? children.every((child) => child.matched)
+          : children.some((child) => child.matched);
+      return { condition, matched, description: describeCondition(condition), children };
+    }
+
+    case 'not': {
+      const child = evaluateCondition(condition.condition, facts);
+      return { condition, matched: !child.matched, description: describeCondition(condition), children: [child] };
+    }
+
+    case 'tags': {
+      const has = (tag: string) => facts.contact.tags.includes(tag);
+      const matched = condition.match === 'all' ? condition.tags.every(has) : condition.tags.some(has);
+      return { condition, matched, description: describeCondition(condition) };
+    }
+
+    case 'inactive': {
+      const last = lastInteractionDate(facts, condition.interactionType);
+      const days = last ? Math.floor(daysSince(last, facts.now)) : undefined;
+      return {
+        condition,
+        matched: days === undefined || days >= condition.days,
+        description: `${describeCondition(condition)} (${days === undefined ? 'never' : `last ${days} days ago`})`,
+      };
+    }
+
+    case 'score': {
+      const overall = facts.score?.overall ?? 0;
+      const matched =
+        (condition.min === undefined || overall >= condition.min) &&
+        (condition.max === undefined || overall < condition.max);
+      return { condition, matched, description: `${describeCondition(condition)} (${overall})` };
+    }
+
+    case 'trend': {
+      const trend = facts.score?.trend;
+      return {
+        condition,
+        matched: trend === condition.trend,
+        description: `${describeCondition(condition)} (${trend ?? 'unknown'})`,
+      };
+    }
+  }
+}
+
+/**
+ * Describe a condition in words
+ * @param condition Condition to describe
+ * @returns e.g. "tagged family and no call in 60 days"
+ */
+export function describeCondition(condition: RuleCondition): string {
+  switch (condition.type) {
+    case 'and':
+    case 'or':
+      return condition.conditions
+        .map((child) => (isGroup(child) ? `(${describeCondition(child)})` : describeCondition(child)))
+        .join(` ${condition.type} `);
+
+    case 'not': {
+      const inner = describeCondition(condition.condition);
+      return isGroup(condition.condition) ? `not (${inner})` : `not ${inner}`;
+    }
+
+    case 'tags':
+      return `tagged ${condition.tags.join(condition.match === 'all' ? ' and ' : ' or ')}`;
+
+    case 'inactive':
+      return `no ${condition.interactionType ?? 'contact'} in ${condition.days} days`;
+
+    case 'score':
+      if (condition.min !== undefined && condition.max !== undefined) {
+        return `score from ${condition.min} to below ${condition.max}`;
+      }
+      return condition.min !== undefined ? `score at least ${condition.min}` : `score below ${condition.max}`;
+
+    case 'trend':
+      return `score trend ${condition.trend}`;
+  }
+}
+
+/**
+ * Collect the descriptions of the conditions that made a result match
+ * Matching groups contribute their matching children; NOT and leaf conditions themselves
+ * @param result Evaluated condition
+ * @returns Descriptions, empty if the condition did not match
+ */
+export function matchedConditions(result: ConditionResult): string[] {
+  if (!result.matched) {
+    return [];
+  }
+
+  if (result.condition.type === 'and' || result.condition.type === 'or') {
+    return (result.children ?? []).flatMap(matchedConditions);
+  }
+
+  return [result.description];
+}
+
+/**
+ * Validate a condition tree
+ * @param condition Condition to check
+ * @param path Location used in error messages (default: "conditions")
+ * @throws Error describing the first invalid node
+ */
+export function validateCondition(condition: RuleCondition, path: string = 'conditions'): void {
+  validateNode(condition, path, 1);
+}
+
+function validateNode(condition: any, path: string, depth: number): void {
+  if (depth > MAX_DEPTH) {
+    throw new Error(`Conditions may be nested at most ${MAX_DEPTH} levels deep`);
+  }
+
+  if (!condition || typeof condition !== 'object' || !CONDITION_TYPES.includes(condition.type)) {
+    throw new Error(`${path}.type must be one of: ${CONDITION_TYPES.join(', ')}`);
+  }
+
+  switch (condition.type) {
+    case 'and':
+    case 'or':
+      if (!Array.isArray(condition.conditions) || condition.conditions.length === 0) {
+        throw new Error(`${path}.conditions must be a non-empty array`);
+      }
+      condition.conditions.forEach((child: unknown, index: number) =>
+        validateNode(child, `${path}.conditions[${index}]`, depth + 1),
+      );
+      break;
+
+    case 'not':
+      validateNode(condition.condition, `${path}.condition`, depth + 1);
+      break;
+
+    case 'tags':
+      if (
+        !Array.isArray(condition.tags) ||
+        condition.tags.length === 0 ||
+        !condition.tags.every((tag: unknown) => typeof tag === 'string')
+      ) {
+        throw new Error(`${path}.tags must be a non-empty array of strings`);
+      }
+      if (condition.match !== undefined && condition.match !== 'any' && condition.match !== 'all') {
+        throw new Error(`${path}.match must be "any" or "all"`);
+      }
+      break;
+
+    case 'inactive':
+      if (!Number.isInteger(condition.days) || condition.days <= 0) {
+        throw new Error(`${path}.days must be a positive integer`);
+      }
+      if (condition.interactionType !== undefined && !INTERACTION_TYPES.includes(condition.interactionType)) {
+        throw new Error(`${path}.interactionType must be one of: ${INTERACTION_TYPES.join(', ')}`);
+      }
+      break;
+
+    case 'score': {
+      const isScore = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 100;
+      if (condition.min === undefined && condition.max === undefined) {
+        throw new Error(`${path} needs min or max`);
+      }
+      if (
+        (condition.min !== undefined && !isScore(condition.min)) ||
+        (condition.max !== undefined && !isScore(condition.max))
+      ) {
+        throw new Error(`${path}.min and ${path}.max must be between 0 and 100`);
+      }
+      break;
+    }
+
+    case 'trend':
+      if (!TRENDS.includes(condition.trend)) {
+        throw new Error(`${path}.trend must be one of: ${TRENDS.join(', ')}`);
+      }
+      break;
+  }
+}
+
+/**
+ * Most recent interaction (of a type) with a contact
+ * Without a type, the contact's lastContactedAt counts as well
+ */
+function lastInteractionDate(facts: ConditionFacts, type?: InteractionType): Date | undefined {
+  let latest = type ? undefined : facts.contact.lastContactedAt;
+
+  for (const interaction of facts.interactions) {
+    if ((!type || interaction.type === type) && (!latest || interaction.timestamp > latest)) {
+      latest = interaction.timestamp;
+    }
+  }
+
+  return latest;
+}
+
+function isGroup(condition: RuleCondition): boolean {
+  return condition.type === 'and' || condition.type === 'or';
+}
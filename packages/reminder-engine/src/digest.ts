@@ -0,0 +1,301 @@
+import {
+  Contact,
+  DigestPeriod,
+  DigestSettings,
+  RelationshipScore,
+  Reminder,
+  ReminderStatus,
+  RuleType,
+  addZonedDays,
+  formatZonedDate,
+  getZonedParts,
+  startOfZonedDay,
+  zonedDateToInstant,
+} from '@keepclos/shared';
+
+/**
+ * Reminder digests: open reminders grouped into one daily or weekly summary
+ * Groups follow rule type; within a group the strongest relationships come first, then the
+ * longest overdue
+ */
+
+export type DigestGroupType = RuleType | 'manual';
+
+export interface DigestEntry {
+  reminderId: string;
+  contactId: string;
+  contactName: string;
+  message: string;
+  dueDate: Date;
+  status: ReminderStatus;
+  score: number; // Overall relationship score (0 if not scored yet)
+  overdueDays: number; // Calendar days past due (0 if due within the period)
+}
+
+export interface DigestGroup {
+  type: DigestGroupType;
+  label: string;
+  entries: DigestEntry[];
+}
+
+export interface ReminderDigest {
+  period: DigestPeriod;
+  title: string;
+  timeZone: string;
+  generatedAt: Date;
+  periodStart: Date; // Start of today in the time zone
+  periodEnd: Date; // Exclusive; overdue reminders from before periodStart are included
+  total: number;
+  overdue: number;
+  groups: DigestGroup[];
+}
+
+export interface DigestOptions {
+  period: DigestPeriod;
+  timeZone: string;
+  now?: Date;
+}
+
+const GROUP_LABELS: Record<DigestGroupType, string> = {
+  date: 'Important dates',
+  decay: 'Fading relationships',
+  inactivity: 'Time to reconnect',
+  recurring: 'Regular check-ins',
+  composite: 'Matched rules',
+  manual: 'Other reminders',
+};
+
+const GROUP_ORDER: DigestGroupType[] = ['date', 'decay', 'inactivity', 'recurring', 'composite', 'manual'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DIGEST_WEEKDAY = 1;
+
+/**
+ * Build a digest of open (pending or sent) reminders due by the end of the period
+ * A daily digest covers today, a weekly digest today and the next six days; overdue
+ * reminders are always included
+ * @param reminders All reminders (closed and snoozed ones are skipped)
+ * @param contacts Contacts keyed by ID
+ * @param scores Relationship scores keyed by contact ID
+ * @param options Period, time zone and current time
+ * @returns Digest
+ */
+export function buildDigest(
+  reminders: Reminder[],
+  contacts: Map<string, Contact>,
+  scores: Map<string, RelationshipScore>,
+  options: DigestOptions,
+): ReminderDigest {
+  const { period, timeZone } = options;
+  const now = options.now ?? new Date();
+  const periodStart = startOfZonedDay(now, timeZone);
+  const periodEnd = addZonedDays(now, period === 'weekly' ? 7 : 1, timeZone);
+
+  const groups = new Map<DigestGroupType, DigestEntry[]>();
+  let overdue = 0;
+
+  for (const reminder of reminders) {
+    if ((reminder.status !== 'pending' && reminder.status !== 'sent') || reminder.dueDate >= periodEnd) {
+      continue;
+    }
+
+    const entry: DigestEntry = {
+      reminderId: reminder.id,
+      contactId: reminder.contactId,
+      contactName: contacts.get(reminder.contactId)?.name ?? 'Unknown contact',
+      message: reminder.message,
+      dueDate: reminder.dueDate,
+      status: reminder.status,
+      score: scores.get(reminder.contactId)?.overall ?? 0,
+      overdueDays: reminder.dueDate < periodStart ? calendarDaysBetween(reminder.dueDate, now, timeZone) : 0,
+    };
+    if (entry.overdueDays > 0) {
+      overdue++;
+    }
+
+    const type = reminder.rule?.type ?? 'manual';
+    if (!groups.has(type)) {
+      groups.set(type, []);
+    }
+    groups.get(type)!.push(entry);
+  }
+
+  const sortedGroups = GROUP_ORDER.filter((type) => groups.has(type)).map((type) => ({
+    type,
+    label: GROUP_LABELS[type],
+    entries: groups
+      .get(type)!
+      .sort((a, b) => b.score - a.score || b.overdueDays - a.overdueDays || a.dueDate.getTime() - b.dueDate.getTime()),
+  }));
+
+  const lastDay = formatZonedDate(addZonedDays(periodEnd, -1, timeZone), timeZone);
+  const firstDay = formatZonedDate(now, timeZone);
+
+  return {
+    period,
+    title:
+      period === 'weekly'
+        ? `Weekly reminder digest, ${firstDay} to ${lastDay}`
+        : `Daily reminder digest, ${firstDay}`,
+    timeZone,
+    generatedAt: now,
+    periodStart,
+    periodEnd,
+    total: sortedGroups.reduce((sum, group) => sum + group.entries.length, 0),
+    overdue,
+    groups: sortedGroups,
+  };
+}
+
+/**
+ * Render a digest as plain text
+ * @param digest Digest to render
+ * @returns Text with one line per reminder
+ */
+export function renderDigestText(digest: ReminderDigest): string {
+  const lines = [digest.title, summaryLine(digest)];
+
+  for (const group of digest.groups) {
+    lines.push('', `${group.label} (${group.entries.length})`);
+    for (const entry of group.entries) {
+      lines.push(`  - ${entry.contactName}: ${entry.message} [${entryDetail(entry, digest.timeZone)}]`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a digest as a standalone HTML document
+ * @param digest Digest to render
+ * @returns HTML with one list per group
+ */
+export function renderDigestHtml(digest: ReminderDigest): string {
+  const sections = digest.groups.map((group) => {
+    const items = group.entries
+      .map(
+        (entry) =>
+          `<li><strong>${escapeHtml(entry.contactName)}</strong>: ${escapeHtml(entry.message)} ` +
+          `<em>(${escapeHtml(entryDetail(entry, digest.timeZone))})</em></li>`,
+      )
+      .join('\n');
+    return `<h2>${escapeHtml(group.label)} (${group.entries.length})</h2>\n<ul>\n${items}\n</ul>`;
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head><meta charset="utf-8"><title>' + escapeHtml(digest.title) + '</title></head>',
+    '<body>',
+    `<h1>${escapeHtml(digest.title)}</h1>`,
+    `<p>${escapeHtml(summaryLine(digest))}</p>`,
+    ...sections,
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+/**
+ * Most recent scheduled digest time at or before now
+ * @param settings Digest settings
+ * @param now Current time
+ * @param timeZone User's time zone
+ * @returns Scheduled send time of the current period
+ */
+export function lastDigestTime(settings: DigestSettings, now: Date, timeZone: string): Date {
+  const weekday = settings.weekday ?? DEFAULT_DIGEST_WEEKDAY;
+
+  for (let daysBack = 0; daysBack <= 7; daysBack++) {
+    const day = getZonedParts(addZonedDays(now, -daysBack, timeZone), timeZone);
+    if (settings.period === 'weekly' && day.weekday !== weekday) {
+      continue;
+    }
+
+    const scheduled = zonedDateToInstant({ year: day.year, month: day.month, day: day.day, hour: settings.hour }, timeZone);
+    if (scheduled <= now) {
+      return scheduled;
+    }
+  }
+
+  // Unreachable for valid settings: a matching day always lies within the last 8 days
+  return now;
+}
+
+/**
+ * Check whether a digest should be sent now
+ * @param settings Digest settings
+ * @param lastSentAt When the last digest was sent (undefined if never)
+ * @param now Current time
+ * @param timeZone User's time zone
+ * @returns true if the current period's digest has not been sent yet
+ */
+export function isDigestDue(
+  settings: DigestSettings,
+  lastSentAt: Date | undefined,
+  now: Date,
+  timeZone: string,
+): boolean {
+  return !lastSentAt || lastSentAt < lastDigestTime(settings, now, timeZone);
+}
+
+/**
+ * Validate digest settings
+ * @param settings Settings to check
+ * @throws Error describing the first invalid field
+ */
+export function validateDigestSettings(settings: DigestSettings): void {
+  if (settings.period !== 'daily' && settings.period !== 'weekly') {
+    throw new Error("Digest period must be 'daily' or 'weekly'");
+  }
+
+  if (!Number.isInteger(settings.hour) || settings.hour < 0 || settings.hour > 23) {
+    throw new Error('Digest hour must be an integer from 0 to 23');
+  }
+
+  if (
+    settings.weekday !== undefined &&
+    (!Number.isInteger(settings.weekday) || settings.weekday < 0 || settings.weekday > 6)
+  ) {
+    throw new Error('Digest weekday must be an integer from 0 (Sunday) to 6 (Saturday)');
+  }
+}
+
+/**
+ * "12 reminders (3 overdue)"
+ */
+function summaryLine(digest: ReminderDigest): string {
+  const count = `${digest.total} reminder${digest.total === 1 ? '' : 's'}`;
+  return digest.overdue > 0 ? `${count} (${digest.overdue} overdue)` : count;
+}
+
+/**
+ * Due date or overdue age plus relationship score of an entry
+ */
+function entryDetail(entry: DigestEntry, timeZone: string): string {
+  const due =
+    entry.overdueDays > 0
+      ? `${entry.overdueDays} day${entry.overdueDays === 1 ? '' : 's'} overdue`
+      : `due ${formatZonedDate(entry.dueDate, timeZone)}`;
+  return `${due}, score ${Math.round(entry.score)}`;
+}
+
+/**
+ * Calendar days from the day containing one instant to the day containing another
+ */
+function calendarDaysBetween(from: Date, to: Date, timeZone: string): number {
+  const start = getZonedParts(from, timeZone);
+  const end = getZonedParts(to, timeZone);
+  return Math.round(
+    (Date.UTC(end.year, end.month - 1, end.day) - Date.UTC(start.year, start.month - 1, start.day)) / DAY_MS,
+  );
+}
+
+/**
+ * Escape text for HTML element content
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
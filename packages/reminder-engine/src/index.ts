@@ -1,2 +1,8 @@
 export * from './scheduler.js';
 export * from './rules.js';
+export * from './recurrence.js';
+export * from './lifecycle.js';
+export * from './digest.js';
+export * from './policy.js';
+export * from './conditions.js';
+export * from './simulation.js';
@@ -0,0 +1,215 @@
+import { Reminder, ReminderStatus } from '@keepclos/shared';
+
+/**
+ * Reminder lifecycle: a validated state machine over reminder statuses
+ * Open reminders (pending, sent, snoozed) can be snoozed, completed, dismissed or expire;
+ * snoozed reminders return to pending when the snooze passes. completed, dismissed and
+ * expired are terminal
+ */
+
+export const REMINDER_STATUSES: ReminderStatus[] = [
+  'pending',
+  'sent',
+  'snoozed',
+  'completed',
+  'dismissed',
+  'expired',
+];
+
+const TRANSITIONS: Record<ReminderStatus, ReminderStatus[]> = {
+  pending: ['sent', 'snoozed', 'completed', 'dismissed', 'expired'],
+  sent: ['snoozed', 'completed', 'dismissed', 'expired'],
+  snoozed: ['pending', 'sent', 'snoozed', 'completed', 'dismissed', 'expired'],
+  completed: [],
+  dismissed: [],
+  expired: [],
+};
+
+/**
+ * Check whether a status is a known reminder status
+ * @param status Value to check
+ * @returns true if it is a ReminderStatus
+ */
+export function isReminderStatus(status: unknown): status is ReminderStatus {
+  return REMINDER_STATUSES.includes(status as ReminderStatus);
+}
+
+/**
+ * Check whether a reminder can move from one status to another
+ * @param from Current status
+ * @param to Requested status
+ * @returns true if the transition is allowed
+ */
+export function canTransition(from: ReminderStatus, to: ReminderStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether a reminder is still open (not completed, dismissed or expired)
+ * @param reminder Reminder to check
+ * @returns true if the reminder can still change state
+ */
+export function isReminderOpen(reminder: Reminder): boolean {
+  return TRANSITIONS[reminder.status].length > 0;
+}
+
+/**
+ * Move a reminder to a new status, updating its timestamps in place
+ * Requesting the current status is a no-op
+ * Snoozing needs a wake-up time, so 'snoozed' must go through snoozeReminder
+ * @param reminder Reminder to update
+ * @param status Requested status
+ * @param now Current time (default: now)
+ * @returns The updated reminder
+ * @throws Error if the transition is not allowed
+ */
+export function transitionReminder(
+  reminder: Reminder,
+  status: ReminderStatus,
+  now: Date = new Date(),
+): Reminder {
+  if (status === 'snoozed') {
+    throw new Error('Snoozing requires a wake-up time; use snoozeReminder');
+  }
+
+  if (reminder.status === status) {
+    return reminder;
+  }
+
+  if (!canTransition(reminder.status, status)) {
+    throw new Error(`Cannot change reminder status from '${reminder.status}' to '${status}'`);
+  }
+
+  if (reminder.status === 'snoozed') {
+    reminder.snoozedUntil = undefined;
+  }
+
+  reminder.status = status;
+  reminder.updatedAt = now;
+
+  if (status === 'sent' && !reminder.sentAt) {
+    reminder.sentAt = now;
+  }
+  if (status === 'completed') {
+    reminder.completedAt = now;
+  }
+
+  return reminder;
+}
+
+/**
+ * Snooze a reminder until a later time; it returns to pending (due at that time) once it passes
+ * @param reminder Reminder to snooze
+ * @param until Wake-up time
+ * @param now Current time (default: now)
+ * @returns The updated reminder
+ * @throws Error if the reminder is closed or the wake-up time is not in the future
+ */
+export function snoozeReminder(reminder: Reminder, until: Date, now: Date = new Date()): Reminder {
+  if (isNaN(until.getTime()) || until <= now) {
+    throw new Error('Snooze time must be in the future');
+  }
+
+  if (!canTransition(reminder.status, 'snoozed')) {
+    throw new Error(`Cannot snooze a reminder that is '${reminder.status}'`);
+  }
+
+  reminder.status = 'snoozed';
+  reminder.snoozedUntil = until;
+  reminder.updatedAt = now;
+
+  // A reminder snoozed past its expiry would expire the moment it wakes
+  if (reminder.expiresAt && reminder.expiresAt <= until) {
+    reminder.expiresAt = undefined;
+  }
+
+  return reminder;
+}
+
+/**
+ * Mark a reminder as completed (the contact was reached)
+ * @param reminder Reminder to complete
+ * @param now Current time (default: now)
+ * @returns The updated reminder
+ * @throws Error if the reminder is already closed
+ */
+export function completeReminder(reminder: Reminder, now: Date = new Date()): Reminder {
+  if (!isReminderOpen(reminder)) {
+    throw new Error(`Cannot complete a reminder that is '${reminder.status}'`);
+  }
+
+  return transitionReminder(reminder, 'completed', now);
+}
+
+/**
+ * Apply time-based transitions: wake snoozed reminders whose snooze has passed and expire
+ * open reminders past their expiry
+ * @param reminder Reminder to refresh (updated in place)
+ * @param now Current time (default: now)
+ * @returns true if the reminder changed and should be saved
+ */
+export function refreshReminderState(reminder: Reminder, now: Date = new Date()): boolean {
+  let changed = false;
+
+  if (reminder.status === 'snoozed' && reminder.snoozedUntil && reminder.snoozedUntil <= now) {
+    reminder.dueDate = reminder.snoozedUntil;
+    transitionReminder(reminder, 'pending', now);
+    changed = true;
+  }
+
+  if (
+    (reminder.status === 'pending' || reminder.status === 'sent') &&
+    reminder.expiresAt &&
+    reminder.expiresAt <= now
+  ) {
+    transitionReminder(reminder, 'expired', now);
+    changed = true;
+  }
+
+  return changed;
+}
+
+/**
+ * A reminder as it stood at a point in time, as a copy
+ * Completion, dismissal, snoozing, expiry and sending recorded after asOf are rolled back, then snoozes
+ * and expiries due by asOf are applied
+ * @param reminder Stored reminder (not modified)
+ * @param asOf Point in time
+ * @returns Copy of the reminder, or undefined if it did not exist yet
+ */
+export function reminderAsOf(reminder: Reminder, asOf: Date): Reminder | undefined {
+  if (reminder.createdAt > asOf) {
+    return undefined;
+  }
+
+  const copy: Reminder = { ...reminder };
+  const closedAt =
+    copy.status === 'completed'
+      ? copy.completedAt
+      : copy.status === 'dismissed'
+        ? copy.updatedAt
+        : copy.status === 'expired'
+          ? copy.expiresAt
+          : undefined;
+
+  if (closedAt && closedAt > asOf) {
+    copy.status = copy.sentAt && copy.sentAt <= asOf ? 'sent' : 'pending';
+    copy.completedAt = undefined;
+  } else if (copy.status === 'snoozed' && copy.updatedAt > asOf) {
+    // Snoozed later; snoozing leaves the due date alone
+    copy.status = copy.sentAt && copy.sentAt <= asOf ? 'sent' : 'pending';
+    copy.snoozedUntil = undefined;
+  } else if (copy.status === 'sent' && copy.sentAt && copy.sentAt > asOf) {
+    copy.status = 'pending';
+  }
+  if (copy.sentAt && copy.sentAt > asOf) {
+    copy.sentAt = undefined;
+  }
+  if (copy.updatedAt > asOf) {
+    // The latest change still known by then
+    copy.updatedAt = copy.sentAt && copy.sentAt > copy.createdAt ? copy.sentAt : copy.createdAt;
+  }
+
+  refreshReminderState(copy, asOf);
+  return copy;
+}
@@ -0,0 +1,263 @@
+import {
+  Contact,
+  RelationshipScore,
+  Reminder,
+  ReminderPolicy,
+  addZonedDays,
+  getZonedParts,
+  startOfZonedDay,
+} from '@keepclos/shared';
+import { daysBetween } from '@keepclos/context-engine';
+
+/**
+ * Reminder policy: quiet hours, days off and daily/weekly budgets for new reminders
+ * Over budget, candidates are ranked (score drop, days overdue, priority tags) and the rest
+ * are deferred with a recorded reason; deferred reminders are re-evaluated next cycle
+ */
+
+export type DeferralReason = 'quiet_hours' | 'day_off' | 'daily_budget' | 'weekly_budget';
+
+export interface ReminderRanking {
+  priority: number; // Sum of the factors below; higher is created first
+  scoreDrop: number; // Declining trend and distance below a decay threshold
+  daysOverdue: number; // Days past an inactivity/recurring rule's interval (capped at 100)
+  tagBoost: number; // Bonus for contacts with a priority tag
+}
+
+export interface DeferredReminder {
+  contactId: string;
+  ruleId?: string;
+  message: string;
+  reason: DeferralReason;
+  detail: string;
+  ranking: ReminderRanking;
+}
+
+export interface PolicyResult {
+  accepted: Reminder[];
+  deferred: DeferredReminder[];
+}
+
+export interface PolicyContext {
+  contacts: Contact[];
+  relationshipScores: Map<string, RelationshipScore>;
+  reminders?: Reminder[]; // Stored reminders, counted against the budgets
+  timeZone: string;
+}
+
+const DECLINING_TREND_POINTS = 20;
+const PRIORITY_TAG_POINTS = 50;
+const MAX_OVERDUE_POINTS = 100;
+
+/**
+ * Check whether new reminders are paused right now
+ * @param policy Reminder policy
+ * @param now Current time
+ * @param timeZone User's time zone
+ * @returns Reason and detail when paused, otherwise null
+ */
+export function pausedReason(
+  policy: ReminderPolicy,
+  now: Date,
+  timeZone: string,
+): { reason: DeferralReason; detail: string } | null {
+  const { hour, weekday } = getZonedParts(now, timeZone);
+
+  if (policy.daysOff?.includes(weekday)) {
+    return { reason: 'day_off', detail: `Day off (weekday ${weekday})` };
+  }
+
+  const quiet = policy.quietHours;
+  if (quiet && quiet.start !== quiet.end) {
+    const inQuietHours =
+      quiet.start < quiet.end
+        ? hour >= quiet.start && hour < quiet.end
+        : hour >= quiet.start || hour < quiet.end;
+    if (inQuietHours) {
+      const format = (value: number) => `${String(value).padStart(2, '0')}:00`;
+      return { reason: 'quiet_hours', detail: `Quiet hours (${format(quiet.start)}-${format(quiet.end)})` };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Rank a candidate reminder for budgeting
+ * @param reminder Candidate reminder
+ * @param contact Contact it is about
+ * @param score Contact's relationship score
+ * @param policy Reminder policy (priority tags)
+ * @param now Current time
+ * @returns Priority and its factors
+ */
+export function rankReminder(
+  reminder: Reminder,
+  contact: Contact | undefined,
+  score: RelationshipScore | undefined,
+  policy: ReminderPolicy,
+  now: Date,
+): ReminderRanking {
+  const config = reminder.rule?.config ?? {};
+
+  let scoreDrop = score?.trend === 'declining' ? DECLINING_TREND_POINTS : 0;
+  if (reminder.rule?.type === 'decay' && config.scoreThreshold !== undefined) {
+    scoreDrop += Math.max(0, config.scoreThreshold - (score?.overall ?? 0));
+  }
+
+  let daysOverdue = 0;
+  const interval =
+    reminder.rule?.type === 'inactivity'
+      ? config.inactivityDays ?? 30
+      : reminder.rule?.type === 'recurring'
+        ? config.recurringDays ?? 14
+        : undefined;
+  if (interval !== undefined && contact) {
+    const since = daysBetween(contact.lastContactedAt ?? contact.createdAt, now);
+    daysOverdue = Math.min(MAX_OVERDUE_POINTS, Math.max(0, Math.floor(since - interval)));
+  }
+
+  const priorityTags = policy.priorityTags ?? [];
+  const tagBoost = contact?.tags.some((tag) => priorityTags.includes(tag)) ? PRIORITY_TAG_POINTS : 0;
+
+  return {
+    priority: Math.round((scoreDrop + daysOverdue + tagBoost) * 100) / 100,
+    scoreDrop,
+    daysOverdue,
+    tagBoost,
+  };
+}
+
+/**
+ * Apply a reminder policy to newly generated reminders
+ * During quiet hours and days off every candidate is deferred; otherwise the highest ranked
+ * candidates are accepted up to the remaining daily and weekly budgets
+ * @param candidates Reminders generated this cycle
+ * @param policy Reminder policy
+ * @param context Contacts, scores, stored reminders and the user's time zone
+ * @param now Current time (default: now)
+ * @returns Accepted reminders (highest priority first) and deferrals with reasons
+ */
+export function applyReminderPolicy(
+  candidates: Reminder[],
+  policy: ReminderPolicy,
+  context: PolicyContext,
+  now: Date = new Date(),
+): PolicyResult {
+  const contacts = new Map(context.contacts.map((contact) => [contact.id, contact]));
+  const ranked = candidates
+    .map((reminder) => ({
+      reminder,
+      ranking: rankReminder(
+        reminder,
+        contacts.get(reminder.contactId),
+        context.relationshipScores.get(reminder.contactId),
+        policy,
+        now,
+      ),
+      overall: context.relationshipScores.get(reminder.contactId)?.overall ?? 0,
+    }))
+    .sort((a, b) => b.ranking.priority - a.ranking.priority || a.overall - b.overall);
+
+  const defer = (
+    entries: typeof ranked,
+    reason: DeferralReason,
+    detail: string,
+  ): DeferredReminder[] =>
+    entries.map(({ reminder, ranking }) => ({
+      contactId: reminder.contactId,
+      ruleId: reminder.rule?.id,
+      message: reminder.message,
+      reason,
+      detail,
+      ranking,
+    }));
+
+  const paused = pausedReason(policy, now, context.timeZone);
+  if (paused) {
+    return { accepted: [], deferred: defer(ranked, paused.reason, paused.detail) };
+  }
+
+  const { today, week } = countCreatedReminders(context.reminders ?? [], now, context.timeZone);
+  const dailyLeft = policy.maxPerDay !== undefined ? Math.max(0, policy.maxPerDay - today) : Infinity;
+  const weeklyLeft = policy.maxPerWeek !== undefined ? Math.max(0, policy.maxPerWeek - week) : Infinity;
+  const allowed = Math.min(dailyLeft, weeklyLeft);
+
+  if (ranked.length <= allowed) {
+    return { accepted: ranked.map(({ reminder }) => reminder), deferred: [] };
+  }
+
+  const overflow = ranked.slice(allowed);
+  const deferred =
+    weeklyLeft < dailyLeft
+      ? defer(overflow, 'weekly_budget', `Weekly budget of ${policy.maxPerWeek} new reminders reached`)
+      : defer(overflow, 'daily_budget', `Daily budget of ${policy.maxPerDay} new reminders reached`);
+
+  return { accepted: ranked.slice(0, allowed).map(({ reminder }) => reminder), deferred };
+}
+
+/**
+ * Validate a reminder policy
+ * @param policy Policy to check
+ * @throws Error describing the first invalid field
+ */
+export function validateReminderPolicy(policy: ReminderPolicy): void {
+  const isHour = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 23;
+
+  if (policy.quietHours !== undefined) {
+    if (!isHour(policy.quietHours?.start) || !isHour(policy.quietHours?.end)) {
+      throw new Error('quietHours needs start and end hours from 0 to 23');
+    }
+  }
+
+  if (
+    policy.daysOff !== undefined &&
+    (!Array.isArray(policy.daysOff) ||
+      !policy.daysOff.every((day) => Number.isInteger(day) && day >= 0 && day <= 6))
+  ) {
+    throw new Error('daysOff must be an array of weekdays from 0 (Sunday) to 6 (Saturday)');
+  }
+
+  for (const field of ['maxPerDay', 'maxPerWeek'] as const) {
+    const value = policy[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new Error(`${field} must be a non-negative integer`);
+    }
+  }
+
+  if (
+    policy.priorityTags !== undefined &&
+    (!Array.isArray(policy.priorityTags) || !policy.priorityTags.every((tag) => typeof tag === 'string'))
+  ) {
+    throw new Error('priorityTags must be an array of strings');
+  }
+}
+
+/**
+ * Count scheduler reminders created today and this week (from Monday) in a time zone
+ */
+function countCreatedReminders(
+  reminders: Reminder[],
+  now: Date,
+  timeZone: string,
+): { today: number; week: number } {
+  const startOfToday = startOfZonedDay(now, timeZone);
+  const daysSinceMonday = (getZonedParts(now, timeZone).weekday + 6) % 7;
+  const startOfWeek = addZonedDays(now, -daysSinceMonday, timeZone);
+
+  let today = 0;
+  let week = 0;
+  for (const reminder of reminders) {
+    if (!reminder.rule) {
+      continue;
+    }
+    if (reminder.createdAt >= startOfWeek) {
+      week++;
+    }
+    if (reminder.createdAt >= startOfToday) {
+      today++;
+    }
+  }
+
+  return { today, week };
+}
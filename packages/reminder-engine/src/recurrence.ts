@@ -0,0 +1,610 @@
+import cronParser from 'cron-parser';
+import {
+  addZonedDays,
+  getZonedParts,
+  isValidTimeZone,
+  startOfZonedDay,
+  systemTimeZone,
+  zonedDateToInstant,
+} from '@keepclos/shared';
+
+/**
+ * Recurrence schedules for date rules
+ * A datePattern is one of:
+ * - annual date: "MM-DD" or "MM-DD HH:MM" (e.g. "06-15")
+ * - cron expression: 5 or 6 fields (e.g. "0 9 * * 2#2" for the second Tuesday of each month)
+ * - iCalendar RRULE: "FREQ=MONTHLY;BYDAY=-1FR", optionally prefixed with "RRULE:" and preceded by
+ *   a "DTSTART:20240102T090000" line
+ * Times are wall-clock times in the schedule's time zone (a DTSTART;TZID=... zone wins)
+ */
+
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6; // Sunday = 0
+
+export interface RecurrenceDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  dateOnly: boolean; // DATE value without a time
+  utc: boolean; // Trailing "Z"
+  timeZone?: string; // TZID parameter
+}
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  byDay: Array<{ weekday: Weekday; ordinal?: number }>; // ordinal: 2 = second, -1 = last
+  byMonth: number[];
+  byMonthDay: number[]; // negative values count from the end of the month
+  count?: number;
+  until?: RecurrenceDateTime;
+  dtstart?: RecurrenceDateTime;
+}
+
+export type Schedule =
+  | { kind: 'annual'; month: number; day: number; hour: number; minute: number }
+  | { kind: 'cron'; expression: string }
+  | { kind: 'rrule'; rule: RecurrenceRule };
+
+export interface OccurrenceOptions {
+  anchor?: Date; // Start of an RRULE without DTSTART (e.g. the rule's creation date)
+  timeZone?: string; // IANA zone of the schedule (default: the server's zone)
+}
+
+const WEEKDAYS: Record<string, Weekday> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+const FREQUENCIES: RecurrenceRule['freq'][] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on days scanned when looking for an RRULE occurrence (covers Feb 29 yearly rules)
+const MAX_SCAN_DAYS = 366 * 9;
+// Years searched for an annual date (Feb 29 recurs within 8 years, even across 2100)
+const MAX_ANNUAL_YEARS = 8;
+
+// Occurrences per pattern, anchor, zone and day: every contact of a rule shares them
+const occurrencesByDay = new Map<string, Date | undefined>();
+const MAX_CACHED_OCCURRENCES = 10_000;
+
+/**
+ * Parse a date rule pattern into a schedule
+ * @param pattern Annual date, cron expression or RRULE
+ * @returns Parsed schedule
+ * @throws Error if the pattern is not valid
+ */
+export function parseSchedule(pattern: string): Schedule {
+  const trimmed = pattern.trim();
+
+  if (/(^|\s)(RRULE:|DTSTART)|^FREQ=/i.test(trimmed)) {
+    return { kind: 'rrule', rule: parseRecurrenceRule(trimmed) };
+  }
+
+  const annual = trimmed.match(/^(\d{1,2})-(\d{1,2})(?:\s+(\d{1,2}):(\d{2}))?$/);
+  if (annual) {
+    const [month, day, hour, minute] = [annual[1], annual[2], annual[3] ?? '0', annual[4] ?? '0'].map(Number);
+    // Leap year 2000 allows Feb 29
+    if (month < 1 || month > 12 || day < 1 || day > daysInMonth(calendarDay(2000, month, 1))) {
+      throw new Error(`Invalid date pattern "${pattern}": no such month and day`);
+    }
+    if (hour > 23 || minute > 59) {
+      throw new Error(`Invalid date pattern "${pattern}": time must be between 00:00 and 23:59`);
+    }
+    return { kind: 'annual', month, day, hour, minute };
+  }
+
+  const expression = trimmed;
+  const fields = expression.split(/\s+/);
+  if (fields.length < 5 || fields.length > 6) {
+    throw new Error(`Invalid date pattern "${pattern}": expected MM-DD, a cron expression or an RRULE`);
+  }
+
+  try {
+    cronParser.parseExpression(expression).next();
+  } catch (error) {
+    throw new Error(
+      `Invalid date pattern "${pattern}": ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  return { kind: 'cron', expression };
+}
+
+/**
+ * Parse an iCalendar recurrence rule (RFC 5545 subset)
+ * Supports FREQ, INTERVAL, COUNT, UNTIL, BYDAY (with ordinals), BYMONTH and BYMONTHDAY
+ * @param value RRULE value, optionally with "RRULE:" prefix and a DTSTART line
+ * @returns Recurrence rule
+ * @throws Error if the rule is not valid or uses unsupported parts
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  let dtstart: RecurrenceDateTime | undefined;
+  let ruleText: string | undefined;
+
+  for (const line of value.split(/\s+/).filter((part) => part.length > 0)) {
+    const upper = line.toUpperCase();
+    if (upper.startsWith('DTSTART')) {
+      const separator = line.lastIndexOf(':');
+      const tzid = line.slice(0, Math.max(separator, 0)).match(/;TZID=([^;:]+)/i);
+      dtstart = parseICalDate(line.slice(separator + 1), tzid?.[1]);
+    } else {
+      ruleText = upper.replace(/^RRULE:/, '');
+    }
+  }
+
+  if (!ruleText) {
+    throw new Error('RRULE is missing');
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of ruleText.split(';').filter((entry) => entry.length > 0)) {
+    const [key, partValue] = part.split('=');
+    if (!key || partValue === undefined) {
+      throw new Error(`Invalid RRULE part "${part}"`);
+    }
+    parts.set(key, partValue);
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceRule['freq'];
+  if (!FREQUENCIES.includes(freq)) {
+    throw new Error(`RRULE FREQ must be one of: ${FREQUENCIES.join(', ')}`);
+  }
+
+  const unsupported = [...parts.keys()].filter(
+    (key) => !['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTH', 'BYMONTHDAY', 'WKST'].includes(key),
+  );
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported RRULE parts: ${unsupported.join(', ')}`);
+  }
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: parsePositiveInteger(parts.get('INTERVAL') ?? '1', 'INTERVAL'),
+    byDay: parseList(parts.get('BYDAY')).map(parseByDay),
+    byMonth: parseList(parts.get('BYMONTH')).map((month) => parseIntegerInRange(month, 'BYMONTH', 1, 12)),
+    byMonthDay: parseList(parts.get('BYMONTHDAY')).map((day) => parseIntegerInRange(day, 'BYMONTHDAY', -31, 31)),
+    dtstart,
+  };
+
+  if (rule.byMonthDay.includes(0)) {
+    throw new Error('RRULE BYMONTHDAY must not be 0');
+  }
+
+  if (rule.byDay.some((day) => day.ordinal !== undefined) && (freq === 'DAILY' || freq === 'WEEKLY')) {
+    throw new Error('RRULE BYDAY ordinals are only allowed with FREQ=MONTHLY or FREQ=YEARLY');
+  }
+
+  if (parts.has('COUNT') && parts.has('UNTIL')) {
+    throw new Error('RRULE must not contain both COUNT and UNTIL');
+  }
+  if (parts.has('COUNT')) {
+    rule.count = parsePositiveInteger(parts.get('COUNT')!, 'COUNT');
+  }
+  if (parts.has('UNTIL')) {
+    rule.until = parseICalDate(parts.get('UNTIL')!);
+  }
+
+  return rule;
+}
+
+/**
+ * Check whether a date rule pattern is valid
+ * @param pattern Pattern to validate
+ * @returns true if valid
+ */
+export function isValidSchedule(pattern: string): boolean {
+  try {
+    parseSchedule(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the next occurrence strictly after a point in time
+ * @param pattern Annual date, cron expression or RRULE
+ * @param after Point in time to search from
+ * @param options Anchor for RRULEs without DTSTART and the schedule's time zone
+ * @returns Next occurrence, or undefined if the schedule has ended
+ */
+export function nextOccurrence(
+  pattern: string,
+  after: Date,
+  options: OccurrenceOptions = {},
+): Date | undefined {
+  const schedule = parseSchedule(pattern);
+  const timeZone = options.timeZone ?? systemTimeZone();
+
+  if (schedule.kind === 'annual') {
+    return nextAnnualDate(schedule, after, timeZone);
+  }
+
+  if (schedule.kind === 'cron') {
+    const expression = cronParser.parseExpression(schedule.expression, { currentDate: after, tz: timeZone });
+    return expression.hasNext() ? expression.next().toDate() : undefined;
+  }
+
+  return nextRecurrence(schedule.rule, after, options.anchor ?? after, timeZone);
+}
+
+/**
+ * Find the first occurrence on the calendar day of a date
+ * Results are cached per pattern, anchor, zone and day, so evaluating a rule for many
+ * contacts (and again for due dates and messages) computes the occurrence once
+ * @param pattern Annual date, cron expression or RRULE
+ * @param day Any time on the day to check
+ * @param options Anchor for RRULEs without DTSTART and the time zone the day is taken in
+ * @returns First occurrence that day, or undefined if the schedule does not fire that day
+ */
+export function firstOccurrenceOn(
+  pattern: string,
+  day: Date,
+  options: OccurrenceOptions = {},
+): Date | undefined {
+  const timeZone = options.timeZone ?? systemTimeZone();
+  const start = startOfZonedDay(day, timeZone);
+  const key = [pattern, options.anchor?.getTime() ?? '', timeZone, start.getTime()].join('|');
+  if (occurrencesByDay.has(key)) {
+    return occurrencesByDay.get(key);
+  }
+
+  const end = addZonedDays(day, 1, timeZone);
+  const next = nextOccurrence(pattern, new Date(start.getTime() - 1), { ...options, timeZone });
+  const occurrence = next && next.getTime() < end.getTime() ? next : undefined;
+
+  if (occurrencesByDay.size >= MAX_CACHED_OCCURRENCES) {
+    occurrencesByDay.clear();
+  }
+  occurrencesByDay.set(key, occurrence);
+  return occurrence;
+}
+
+/**
+ * Next occurrence of an annual date after a point in time
+ * Builds each year's date directly; Feb 29 only occurs in leap years
+ * @param schedule Annual schedule
+ * @param after Point in time to search from
+ * @param timeZone Zone of the wall-clock time
+ */
+function nextAnnualDate(
+  schedule: Extract<Schedule, { kind: 'annual' }>,
+  after: Date,
+  timeZone: string,
+): Date | undefined {
+  const { year } = getZonedParts(after, timeZone);
+
+  for (let candidate = year; candidate <= year + MAX_ANNUAL_YEARS; candidate++) {
+    if (schedule.day > daysInMonth(calendarDay(candidate, schedule.month, 1))) {
+      continue;
+    }
+
+    const occurrence = zonedDateToInstant({ ...schedule, year: candidate }, timeZone);
+    if (occurrence.getTime() > after.getTime()) {
+      return occurrence;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Next occurrence of a recurrence rule after a point in time
+ * Scans calendar days from DTSTART (or the anchor) so INTERVAL and COUNT line up with the start;
+ * months that cannot match are skipped and only matching days are converted to instants
+ * @param rule Recurrence rule
+ * @param after Point in time to search from
+ * @param anchor Start when the rule has no DTSTART
+ * @param defaultTimeZone Zone for floating times (DTSTART;TZID overrides it)
+ */
+function nextRecurrence(
+  rule: RecurrenceRule,
+  after: Date,
+  anchor: Date,
+  defaultTimeZone: string,
+): Date | undefined {
+  const timeZone = rule.dtstart?.timeZone ?? defaultTimeZone;
+
+  // Wall-clock start in the rule's zone
+  const start = rule.dtstart
+    ? getZonedParts(resolveDateTime(rule.dtstart, timeZone), timeZone)
+    : { ...getZonedParts(anchor, timeZone), hour: 0, minute: 0, second: 0 };
+  const startInstant = zonedDateToInstant(start, timeZone);
+  const startDay = calendarDay(start.year, start.month, start.day);
+  const until = rule.until ? resolveDateTime(rule.until, timeZone, true) : undefined;
+
+  // With COUNT every occurrence from the start must be counted
+  const afterParts = getZonedParts(after, timeZone);
+  const afterDay = calendarDay(afterParts.year, afterParts.month, afterParts.day);
+  let day = rule.count !== undefined ? startDay : new Date(Math.max(afterDay.getTime(), startDay.getTime()));
+  const lastDay = addDays(afterDay, MAX_SCAN_DAYS);
+  let seen = 0;
+
+  while (day.getTime() <= lastDay.getTime()) {
+    const candidate = nextCandidateMonth(rule, day, startDay);
+    if (candidate.getTime() !== day.getTime()) {
+      day = candidate;
+      continue;
+    }
+
+    if (!matchesDay(rule, day, startDay)) {
+      day = addDays(day, 1);
+      continue;
+    }
+
+    const occurrence = zonedDateToInstant(
+      {
+        year: day.getUTCFullYear(),
+        month: day.getUTCMonth() + 1,
+        day: day.getUTCDate(),
+        hour: start.hour,
+        minute: start.minute,
+        second: start.second,
+      },
+      timeZone,
+    );
+
+    if (until && occurrence.getTime() > until.getTime()) {
+      return undefined;
+    }
+
+    if (occurrence.getTime() >= startInstant.getTime()) {
+      seen += 1;
+      if (rule.count !== undefined && seen > rule.count) {
+        return undefined;
+      }
+      if (occurrence.getTime() > after.getTime()) {
+        return occurrence;
+      }
+    }
+
+    day = addDays(day, 1);
+  }
+
+  return undefined;
+}
+
+/**
+ * First day, from a day on, in a month a MONTHLY or YEARLY rule can fire in
+ * @param rule Recurrence rule
+ * @param day Calendar day (UTC midnight carrier)
+ * @param start DTSTART calendar day
+ * @returns The day itself when its month is a candidate, otherwise the first of a later month
+ */
+function nextCandidateMonth(rule: RecurrenceRule, day: Date, start: Date): Date {
+  if (rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+    return day;
+  }
+
+  // Without BY* parts a YEARLY rule fires in the start's month only
+  const months =
+    rule.byMonth.length > 0
+      ? rule.byMonth
+      : rule.freq === 'YEARLY' && rule.byDay.length === 0 && rule.byMonthDay.length === 0
+        ? [start.getUTCMonth() + 1]
+        : undefined;
+
+  const year = day.getUTCFullYear();
+  if (rule.freq === 'YEARLY' && periodsBetween('YEARLY', start, day) % rule.interval !== 0) {
+    return calendarDay(year + (rule.interval - (periodsBetween('YEARLY', start, day) % rule.interval)), 1, 1);
+  }
+  if (
+    (rule.freq === 'MONTHLY' && periodsBetween('MONTHLY', start, day) % rule.interval !== 0) ||
+    (months && !months.includes(day.getUTCMonth() + 1))
+  ) {
+    return calendarDay(year, day.getUTCMonth() + 2, 1);
+  }
+
+  return day;
+}
+
+/**
+ * Whether a recurrence rule fires on a calendar day
+ * @param rule Recurrence rule
+ * @param day Calendar day (UTC midnight carrier)
+ * @param start DTSTART calendar day
+ */
+function matchesDay(rule: RecurrenceRule, day: Date, start: Date): boolean {
+  if (periodsBetween(rule.freq, start, day) % rule.interval !== 0) {
+    return false;
+  }
+
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(day.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  if (rule.byMonthDay.length > 0 && !rule.byMonthDay.some((monthDay) => isMonthDay(day, monthDay))) {
+    return false;
+  }
+
+  if (rule.byDay.length > 0) {
+    // Ordinals count within the month, or within the year for YEARLY rules without BYMONTH
+    const withinYear = rule.freq === 'YEARLY' && rule.byMonth.length === 0;
+    return rule.byDay.some(
+      ({ weekday, ordinal }) =>
+        day.getUTCDay() === weekday && (ordinal === undefined || weekdayOrdinals(day, withinYear).includes(ordinal)),
+    );
+  }
+
+  // Without BY* parts the rule repeats on the start's weekday, day of month or date
+  switch (rule.freq) {
+    case 'WEEKLY':
+      return day.getUTCDay() === start.getUTCDay();
+    case 'MONTHLY':
+      return rule.byMonthDay.length > 0 || day.getUTCDate() === start.getUTCDate();
+    case 'YEARLY':
+      if (rule.byMonthDay.length > 0) {
+        return true;
+      }
+      return (
+        day.getUTCDate() === start.getUTCDate() &&
+        (rule.byMonth.length > 0 || day.getUTCMonth() === start.getUTCMonth())
+      );
+    default:
+      return true;
+  }
+}
+
+/**
+ * Number of whole recurrence periods (days, weeks, months or years) from start to day
+ */
+function periodsBetween(freq: RecurrenceRule['freq'], start: Date, day: Date): number {
+  switch (freq) {
+    case 'DAILY':
+      return Math.round((day.getTime() - start.getTime()) / DAY_MS);
+    case 'WEEKLY': {
+      // Weeks start on Monday (WKST=MO)
+      const weekStart = (date: Date) => addDays(date, -((date.getUTCDay() + 6) % 7));
+      return Math.round((weekStart(day).getTime() - weekStart(start).getTime()) / (7 * DAY_MS));
+    }
+    case 'MONTHLY':
+      return (day.getUTCFullYear() - start.getUTCFullYear()) * 12 + day.getUTCMonth() - start.getUTCMonth();
+    case 'YEARLY':
+      return day.getUTCFullYear() - start.getUTCFullYear();
+  }
+}
+
+/**
+ * Whether a day matches a BYMONTHDAY value (negative counts from the end of the month)
+ */
+function isMonthDay(day: Date, monthDay: number): boolean {
+  if (monthDay > 0) {
+    return day.getUTCDate() === monthDay;
+  }
+  return day.getUTCDate() === daysInMonth(day) + monthDay + 1;
+}
+
+/**
+ * Ordinals of a day among the same weekdays of its month or year, from the start and the end
+ * @returns e.g. [2, -4] for the second (and fourth-last) Tuesday of a month
+ */
+function weekdayOrdinals(day: Date, withinYear: boolean): [number, number] {
+  if (withinYear) {
+    const year = day.getUTCFullYear();
+    const dayOfYear = Math.round((day.getTime() - Date.UTC(year, 0, 1)) / DAY_MS);
+    const daysInYear = Math.round((Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY_MS);
+    return [Math.floor(dayOfYear / 7) + 1, -(Math.floor((daysInYear - dayOfYear - 1) / 7) + 1)];
+  }
+
+  return [
+    Math.floor((day.getUTCDate() - 1) / 7) + 1,
+    -(Math.floor((daysInMonth(day) - day.getUTCDate()) / 7) + 1),
+  ];
+}
+
+/**
+ * Parse a BYDAY entry such as "TU", "2TU" or "-1FR"
+ */
+function parseByDay(value: string): { weekday: Weekday; ordinal?: number } {
+  const match = value.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+  if (!match) {
+    throw new Error(`Invalid RRULE BYDAY value "${value}"`);
+  }
+
+  const weekday = WEEKDAYS[match[2]];
+  if (match[1] === undefined) {
+    return { weekday };
+  }
+
+  const ordinal = Number(match[1]);
+  if (ordinal === 0 || Math.abs(ordinal) > 53) {
+    throw new Error(`Invalid RRULE BYDAY ordinal "${value}"`);
+  }
+  return { weekday, ordinal };
+}
+
+/**
+ * Parse an iCalendar DATE or DATE-TIME (YYYYMMDD, YYYYMMDDTHHMMSS, trailing Z for UTC)
+ * @param value Date value
+ * @param timeZone TZID parameter of the property
+ */
+function parseICalDate(value: string, timeZone?: string): RecurrenceDateTime {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i);
+  if (!match) {
+    throw new Error(`Invalid iCalendar date "${value}"`);
+  }
+
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone "${timeZone}"`);
+  }
+
+  return {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: Number(match[4] ?? 0),
+    minute: Number(match[5] ?? 0),
+    second: Number(match[6] ?? 0),
+    dateOnly: match[4] === undefined,
+    utc: match[7] !== undefined,
+    timeZone,
+  };
+}
+
+/**
+ * Instant of an iCalendar date-time
+ * @param value Parsed date-time
+ * @param timeZone Zone for floating values
+ * @param endOfDay Treat a DATE value as the end of that day (for UNTIL)
+ */
+function resolveDateTime(value: RecurrenceDateTime, timeZone: string, endOfDay: boolean = false): Date {
+  if (value.utc) {
+    return new Date(Date.UTC(value.year, value.month - 1, value.day, value.hour, value.minute, value.second));
+  }
+
+  const zone = value.timeZone ?? timeZone;
+  if (value.dateOnly && endOfDay) {
+    return new Date(addZonedDays(zonedDateToInstant(value, zone), 1, zone).getTime() - 1);
+  }
+
+  return zonedDateToInstant(value, zone);
+}
+
+/**
+ * Split a comma-separated RRULE list
+ */
+function parseList(value: string | undefined): string[] {
+  return value ? value.split(',').filter((entry) => entry.length > 0) : [];
+}
+
+/**
+ * Parse a positive integer RRULE value
+ */
+function parsePositiveInteger(value: string, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`RRULE ${name} must be a positive integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse an integer RRULE value within a range
+ */
+function parseIntegerInRange(value: string, name: string, min: number, max: number): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new Error(`RRULE ${name} values must be integers between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+/**
+ * Calendar day carrier: UTC midnight of a date, so day arithmetic is free of DST
+ */
+function calendarDay(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Add calendar days to a day carrier
+ */
+function addDays(day: Date, days: number): Date {
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate() + days));
+}
+
+/**
+ * Number of days in the month of a day carrier
+ */
+function daysInMonth(day: Date): number {
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+}
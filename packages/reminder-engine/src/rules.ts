@@ -1,5 +1,20 @@
-import { Contact, Interaction, Rule, RuleConfig, RuleType } from '@keepclos/shared';
-import { daysSince } from '@keepclos/context-engine';
+import {
+  Contact,
+  ImportantDate,
+  ImportantDateType,
+  Interaction,
+  RelationshipScore,
+  Rule,
+  RuleCondition,
+  RuleConfig,
+  RuleType,
+  formatZonedDate,
+  getZonedParts,
+  systemTimeZone,
+} from '@keepclos/shared';
+import { MAX_FORECAST_DAYS, ScorerConfig, daysSince, forecastScore } from '@keepclos/context-engine';
+import { firstOccurrenceOn, isValidSchedule, parseSchedule } from './recurrence.js';
+import { ConditionResult, evaluateCondition, matchedConditions, validateCondition } from './conditions.js';
 
 /**
  * Rule definitions for reminder triggers
@@ -11,12 +26,14 @@ import { daysSince } from '@keepclos/context-engine';
  * @param contact Contact to evaluate
  * @param rule Rule configuration
  * @param interactions Interactions with this contact
+ * @param now Evaluation time (default: now)
  * @returns true if reminder should trigger
  */
 export function evaluateInactivityRule(
   contact: Contact,
   rule: Rule,
   interactions: Interaction[],
+  now: Date = new Date(),
 ): boolean {
   const inactivityDays = rule.config.inactivityDays ?? 30;
 
@@ -24,7 +41,7 @@ export function evaluateInactivityRule(
     return true; // Never contacted = always trigger
   }
 
-  const daysSinceContact = daysSince(contact.lastContactedAt);
+  const daysSinceContact = daysSince(contact.lastContactedAt, now);
   return daysSinceContact >= inactivityDays;
 }
 
@@ -34,12 +51,14 @@ export function evaluateInactivityRule(
  * @param contact Contact to evaluate
  * @param rule Rule configuration
  * @param interactions Interactions with this contact
+ * @param now Evaluation time (default: now)
  * @returns true if reminder should trigger based on schedule
  */
 export function evaluateRecurringRule(
   contact: Contact,
   rule: Rule,
   interactions: Interaction[],
+  now: Date = new Date(),
 ): boolean {
   const recurringDays = rule.config.recurringDays ?? 14;
 
@@ -55,50 +74,215 @@ export function evaluateRecurringRule(
     : null;
 
   const referenceDate = mostRecentInteraction?.timestamp ?? contact.lastContactedAt;
-  const daysSinceReference = daysSince(referenceDate);
+  const daysSinceReference = daysSince(referenceDate, now);
 
   return daysSinceReference >= recurringDays;
 }
 
+const IMPORTANT_DATE_TYPES: ImportantDateType[] = ['birthday', 'anniversary', 'custom'];
+export const DEFAULT_FORECAST_LEAD_DAYS = 7;
+
+/**
+ * Time zone that a contact's days are evaluated in
+ * @param contact Contact
+ * @param defaultTimeZone User's time zone (default: the server's zone)
+ * @returns The contact's own zone if set, otherwise the default
+ */
+export function contactTimeZone(contact: Contact, defaultTimeZone?: string): string {
+  return contact.timeZone ?? defaultTimeZone ?? systemTimeZone();
+}
+
 /**
  * DateRule: reminds on specific dates (like birthdays)
- * Uses a date pattern to match recurring dates
+ * Uses a date pattern (MM-DD, cron expression or RRULE) to match recurring dates, or with
+ * dateSource 'contact' each contact's own important dates
  * @param contact Contact to evaluate
  * @param rule Rule configuration
- * @returns true if today matches the pattern
+ * @param timeZone Time zone that "today" is taken in (default: the contact's zone)
+ * @param now Evaluation time (default: now)
+ * @returns true if the pattern has an occurrence today
  */
-export function evaluateDateRule(contact: Contact, rule: Rule): boolean {
+export function evaluateDateRule(
+  contact: Contact,
+  rule: Rule,
+  timeZone: string = contactTimeZone(contact),
+  now: Date = new Date(),
+): boolean {
+  if (rule.config.dateSource === 'contact') {
+    return importantDatesOn(contact, rule, now, timeZone).length > 0;
+  }
+
   const datePattern = rule.config.datePattern;
   if (!datePattern) {
     return false;
   }
 
-  // Simple date pattern format: "MM-DD" for annual dates (e.g., "06-15" for June 15)
-  // Also supports: "MM-DD HH:MM" for specific times
-  const parts = datePattern.split(' ');
-  const datePart = parts[0];
+  try {
+    return firstOccurrenceOn(datePattern, now, { anchor: rule.createdAt, timeZone }) !== undefined;
+  } catch {
+    return false; // Invalid patterns never fire
+  }
+}
+
+/**
+ * Get a contact's important dates that fall on a day
+ * Feb 29 dates fall on Feb 28 in non-leap years
+ * @param contact Contact to check
+ * @param rule Date rule (dateTypes limits the date types)
+ * @param date Day to check (default: today)
+ * @param timeZone Time zone the day is taken in (default: the contact's zone)
+ * @returns Matching important dates
+ */
+export function importantDatesOn(
+  contact: Contact,
+  rule: Rule,
+  date: Date = new Date(),
+  timeZone: string = contactTimeZone(contact),
+): ImportantDate[] {
+  const types = rule.config.dateTypes ?? [];
+  const { year, month, day } = getZonedParts(date, timeZone);
+
+  return (contact.importantDates ?? []).filter(
+    (important) =>
+      (types.length === 0 || types.includes(important.type)) && occursOn(important, year, month, day),
+  );
+}
+
+/**
+ * Whole years between an important date and a day (age or years together)
+ * @param important Important date
+ * @param date Day of the anniversary (default: today)
+ * @param timeZone Time zone the day is taken in (default: the server's zone)
+ * @returns Number of years, or undefined if the year is unknown
+ */
+export function yearsSinceImportantDate(
+  important: ImportantDate,
+  date: Date = new Date(),
+  timeZone: string = systemTimeZone(),
+): number | undefined {
+  if (important.year === undefined) {
+    return undefined;
+  }
+
+  const { year, month, day } = getZonedParts(date, timeZone);
+  const years = year - important.year;
+  const anniversaryDay = anniversaryDayIn(important, year);
+  const beforeAnniversary = month < important.month || (month === important.month && day < anniversaryDay);
 
-  const today = new Date();
-  const [month, day] = datePart.split('-').map(Number);
+  return Math.max(beforeAnniversary ? years - 1 : years, 0);
+}
 
-  return today.getMonth() + 1 === month && today.getDate() === day;
+/**
+ * Whether an important date recurs on a calendar day
+ */
+function occursOn(important: ImportantDate, year: number, month: number, day: number): boolean {
+  return month === important.month && day === anniversaryDayIn(important, year);
+}
+
+/**
+ * Day of the month an important date recurs on in a year (Feb 29 moves to Feb 28 outside leap years)
+ */
+function anniversaryDayIn(important: ImportantDate, year: number): number {
+  return important.month === 2 && important.day === 29 && !isLeapYear(year) ? 28 : important.day;
+}
+
+/**
+ * Gregorian leap year check
+ */
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+/**
+ * Describe an important date for a reminder message
+ * @param contactName Contact name
+ * @param important Important date falling today
+ * @param timeZone Time zone "today" is taken in
+ * @param now Evaluation time
+ * @returns Message fragment
+ */
+function describeImportantDate(
+  contactName: string,
+  important: ImportantDate,
+  timeZone: string,
+  now: Date,
+): string {
+  const years = yearsSinceImportantDate(important, now, timeZone);
+
+  switch (important.type) {
+    case 'birthday':
+      return years !== undefined
+        ? `Birthday reminder: ${contactName} turns ${years} today!`
+        : `Birthday reminder: ${contactName}!`;
+
+    case 'anniversary':
+      return years !== undefined
+        ? `Anniversary reminder: ${contactName} - ${years} ${years === 1 ? 'year' : 'years'} together today!`
+        : `Anniversary reminder: ${contactName}!`;
+
+    default: {
+      const label = important.label ?? 'Important date';
+      return years !== undefined
+        ? `${label} reminder: ${contactName} (${years} ${years === 1 ? 'year' : 'years'} ago today)`
+        : `${label} reminder: ${contactName}`;
+    }
+  }
 }
 
 /**
  * DecayRule: reminds when relationship score drops below threshold
- * Useful for maintaining minimum relationship health
+ * Useful for maintaining minimum relationship health. In forecast mode it also reminds
+ * when, without new interactions, the score is projected to cross within the lead days
  * @param contact Contact to evaluate
  * @param rule Rule configuration
  * @param currentScore Current relationship score (0-100)
- * @returns true if score is below threshold
+ * @param interactions Interactions with contact (used by forecast mode)
+ * @param now Evaluation time (default: now)
+ * @param scorerConfig Scoring configuration for the forecast (default: the scorer's)
+ * @returns true if score is (or, in forecast mode, soon will be) below threshold
  */
 export function evaluateDecayRule(
   contact: Contact,
   rule: Rule,
   currentScore: number,
+  interactions: Interaction[] = [],
+  now: Date = new Date(),
+  scorerConfig: Partial<ScorerConfig> = {},
 ): boolean {
   const scoreThreshold = rule.config.scoreThreshold ?? 30;
-  return currentScore < scoreThreshold;
+  if (currentScore < scoreThreshold) {
+    return true;
+  }
+
+  return (
+    rule.config.decayMode === 'forecast' && decayForecast(contact, rule, interactions, now, scorerConfig) !== undefined
+  );
+}
+
+/**
+ * Projected time a contact's score drops below a decay rule's threshold, within its lead days
+ * @returns Crossing time and days until then, or undefined if not within the lead days
+ */
+function decayForecast(
+  contact: Contact,
+  rule: Rule,
+  interactions: Interaction[],
+  now: Date,
+  scorerConfig: Partial<ScorerConfig>,
+): DecayForecast | undefined {
+  const leadDays = rule.config.forecastLeadDays ?? DEFAULT_FORECAST_LEAD_DAYS;
+  const threshold = rule.config.scoreThreshold ?? 30;
+  const forecast = forecastScore(
+    contact,
+    interactions,
+    threshold,
+    { horizonDays: leadDays, config: scorerConfig },
+    now,
+  );
+
+  return forecast.crossesAt && forecast.daysUntilCrossing !== undefined
+    ? { crossesAt: forecast.crossesAt, days: forecast.daysUntilCrossing }
+    : undefined;
 }
 
 /**
@@ -108,57 +292,179 @@ export function evaluateDecayRule(
  * @returns true if rule applies to this contact
  */
 export function ruleAppliesToContact(contact: Contact, rule: Rule): boolean {
-  // If no tag filters, rule applies to all contacts
-  if (!rule.config.tags || rule.config.tags.length === 0) {
-    return true;
-  }
+  return ruleFilters(rule).every((condition) => evaluateCondition(condition, { contact, interactions: [] }).matched);
+}
+
+export interface RuleEvaluation {
+  fires: boolean;
+  matched: string[]; // Descriptions of the checks that held, for explaining the reminder
+  trigger?: TriggerResult; // The rule type's own check (none for composite rules)
+  conditions: ConditionResult[]; // Tag and score filters, then the rule's condition tree
+}
 
-  // Check if contact has any of the rule's tags
-  return rule.config.tags.some((tag) => contact.tags.includes(tag));
+export interface TriggerResult {
+  matched: boolean;
+  description: string;
+  forecast?: DecayForecast; // Forecast-mode decay rules: the projected crossing within the lead days
+}
+
+export interface DecayForecast {
+  crossesAt: Date; // When the score is projected to drop below the rule's threshold
+  days: number; // Days from the evaluation time until then
 }
 
 /**
  * Evaluate a single rule against a contact
+ * Every check is evaluated so the result can explain both matches and misses
  * @param contact Contact to evaluate
  * @param rule Rule to apply
  * @param interactions Interactions with contact
- * @param relationshipScore Current relationship score
- * @returns true if reminder should trigger
+ * @param relationshipScore Current relationship score (overall, or the full score for trend conditions)
+ * @param timeZone User's time zone, used when the contact has none (default: the server's zone)
+ * @param now Evaluation time (default: now)
+ * @param scorerConfig Contact's scoring configuration, for forecasting decay rules (default: the scorer's)
+ * @returns Whether a reminder should trigger and which checks matched
  */
 export function evaluateRule(
   contact: Contact,
   rule: Rule,
   interactions: Interaction[],
-  relationshipScore: number,
-): boolean {
-  // First check if rule applies to this contact
-  if (!ruleAppliesToContact(contact, rule)) {
-    return false;
+  relationshipScore: number | RelationshipScore,
+  timeZone?: string,
+  now: Date = new Date(),
+  scorerConfig: Partial<ScorerConfig> = {},
+): RuleEvaluation {
+  const score = typeof relationshipScore === 'number' ? { overall: relationshipScore } : relationshipScore;
+  const facts = { contact, interactions, score, now };
+
+  const checks = ruleFilters(rule);
+  if (rule.config.conditions) {
+    checks.push(rule.config.conditions);
+  }
+  const conditions = checks.map((condition) => evaluateCondition(condition, facts));
+
+  const trigger =
+    rule.type === 'composite'
+      ? undefined
+      : evaluateTrigger(
+          contact,
+          rule,
+          interactions,
+          score.overall,
+          contactTimeZone(contact, timeZone),
+          now,
+          scorerConfig,
+        );
+
+  const fires =
+    (trigger?.matched ?? rule.config.conditions !== undefined) && conditions.every((result) => result.matched);
+  const matched = [
+    ...(trigger?.matched ? [trigger.description] : []),
+    ...conditions.flatMap(matchedConditions),
+  ];
+
+  return { fires, matched, trigger, conditions };
+}
+
+/**
+ * Tag and score filters from a rule's general configuration, as conditions
+ */
+function ruleFilters(rule: Rule): RuleCondition[] {
+  const filters: RuleCondition[] = [];
+
+  if (rule.config.tags && rule.config.tags.length > 0) {
+    filters.push({ type: 'tags', tags: rule.config.tags, match: rule.config.tagMatch });
+  }
+
+  if (rule.config.excludeTags && rule.config.excludeTags.length > 0) {
+    filters.push({ type: 'not', condition: { type: 'tags', tags: rule.config.excludeTags } });
   }
 
-  // Check minimum relationship score threshold
   if (rule.config.minRelationshipScore !== undefined) {
-    if (relationshipScore < rule.config.minRelationshipScore) {
-      return false;
-    }
+    filters.push({ type: 'score', min: rule.config.minRelationshipScore });
   }
 
-  // Evaluate based on rule type
+  return filters;
+}
+
+/**
+ * Evaluate and describe the check of a rule's own type
+ * @param contact Contact to evaluate
+ * @param rule Inactivity, recurring, date or decay rule
+ * @param interactions Interactions with contact
+ * @param score Overall relationship score
+ * @param timeZone Time zone that "today" is taken in
+ * @param now Evaluation time
+ * @param scorerConfig Scoring configuration for decay forecasts
+ * @returns Whether the check holds and a description
+ */
+function evaluateTrigger(
+  contact: Contact,
+  rule: Rule,
+  interactions: Interaction[],
+  score: number,
+  timeZone: string,
+  now: Date,
+  scorerConfig: Partial<ScorerConfig>,
+): TriggerResult {
+  const since = (date: Date | undefined) => (date ? `last ${Math.floor(daysSince(date, now))} days ago` : 'never');
+
   switch (rule.type) {
     case 'inactivity':
-      return evaluateInactivityRule(contact, rule, interactions);
+      return {
+        matched: evaluateInactivityRule(contact, rule, interactions, now),
+        description: `no contact in ${rule.config.inactivityDays ?? 30} days (${since(contact.lastContactedAt)})`,
+      };
 
-    case 'recurring':
-      return evaluateRecurringRule(contact, rule, interactions);
+    case 'recurring': {
+      const latest = interactions.reduce<Date | undefined>(
+        (max, interaction) => (!max || interaction.timestamp > max ? interaction.timestamp : max),
+        undefined,
+      );
+      const days = rule.config.recurringDays ?? 14;
+      return {
+        matched: evaluateRecurringRule(contact, rule, interactions, now),
+        description: `check-in every ${days} days (${since(latest ?? contact.lastContactedAt)})`,
+      };
+    }
 
-    case 'date':
-      return evaluateDateRule(contact, rule);
+    case 'date': {
+      if (rule.config.dateSource === 'contact') {
+        const dates = importantDatesOn(contact, rule, now, timeZone);
+        const labels = dates.map((important) => important.label ?? important.type);
+        return {
+          matched: dates.length > 0,
+          description: `${labels.length > 0 ? labels.join(', ') : 'important date'} today`,
+        };
+      }
+      return {
+        matched: evaluateDateRule(contact, rule, timeZone, now),
+        description: `date pattern ${rule.config.datePattern} today`,
+      };
+    }
 
-    case 'decay':
-      return evaluateDecayRule(contact, rule, relationshipScore);
+    case 'decay': {
+      const threshold = rule.config.scoreThreshold ?? 30;
+      if (rule.config.decayMode === 'forecast' && score >= threshold) {
+        const forecast = decayForecast(contact, rule, interactions, now, scorerConfig);
+        const leadDays = rule.config.forecastLeadDays ?? DEFAULT_FORECAST_LEAD_DAYS;
+        return {
+          matched: forecast !== undefined,
+          description: forecast
+            ? `score forecast to drop below ${threshold} in ${Math.ceil(forecast.days)} days, ` +
+              `on ${formatZonedDate(forecast.crossesAt, timeZone)} (${score})`
+            : `score not forecast to drop below ${threshold} within ${leadDays} days (${score})`,
+          forecast,
+        };
+      }
+      return {
+        matched: evaluateDecayRule(contact, rule, score, interactions, now, scorerConfig),
+        description: `score below ${threshold} (${score})`,
+      };
+    }
 
     default:
-      return false;
+      return { matched: false, description: `unknown rule type ${rule.type}` };
   }
 }
 
@@ -166,9 +472,18 @@ export function evaluateRule(
  * Generate reminder message from a contact and rule
  * @param contact Contact to remind about
  * @param rule Rule that triggered
+ * @param timeZone Time zone that "today" is taken in (default: the contact's zone)
+ * @param now Evaluation time (default: now)
+ * @param forecast Projected crossing of a forecast-mode decay rule (from evaluateRule)
  * @returns Reminder message
  */
-export function generateReminderMessage(contact: Contact, rule: Rule): string {
+export function generateReminderMessage(
+  contact: Contact,
+  rule: Rule,
+  timeZone: string = contactTimeZone(contact),
+  now: Date = new Date(),
+  forecast?: DecayForecast,
+): string {
   const contactName = contact.name;
 
   switch (rule.type) {
@@ -183,7 +498,18 @@ export function generateReminderMessage(contact: Contact, rule: Rule): string {
     }
 
     case 'date': {
-      if (rule.config.datePattern?.includes('birthday') || contact.notes.includes('birthday')) {
+      if (rule.config.dateSource === 'contact') {
+        const dates = importantDatesOn(contact, rule, now, timeZone);
+        if (dates.length > 0) {
+          return dates.map((important) => describeImportantDate(contactName, important, timeZone, now)).join(' ');
+        }
+      }
+
+      const [month, day] = (rule.config.datePattern ?? '').split(' ')[0].split('-').map(Number);
+      const isBirthday = contact.importantDates?.some(
+        (important) => important.type === 'birthday' && important.month === month && important.day === day,
+      );
+      if (rule.config.datePattern?.includes('birthday') || isBirthday) {
         return `Birthday reminder: ${contactName}!`;
       }
       return `Scheduled reminder: ${contactName}`;
@@ -191,9 +517,21 @@ export function generateReminderMessage(contact: Contact, rule: Rule): string {
 
     case 'decay': {
       const threshold = rule.config.scoreThreshold ?? 30;
+      if (rule.config.decayMode === 'forecast' && forecast) {
+        return (
+          `Reach out to ${contactName} soon: your relationship score is forecast to drop below ${threshold} ` +
+          `on ${formatZonedDate(forecast.crossesAt, timeZone)}`
+        );
+      }
+      if (rule.config.decayMode === 'forecast') {
+        return `Reach out to ${contactName} soon: your relationship score is about to drop below ${threshold}`;
+      }
       return `Your relationship with ${contactName} needs attention (score dropping below ${threshold})`;
     }
 
+    case 'composite':
+      return `${rule.name}: time to reach out to ${contactName}`;
+
     default:
       return `Reminder: reach out to ${contactName}`;
   }
@@ -222,18 +560,60 @@ export function createRule(type: RuleType, name: string, config: RuleConfig): Ru
       break;
 
     case 'date':
-      if (!config.datePattern || !isValidDatePattern(config.datePattern)) {
-        throw new Error('datePattern must be in MM-DD format (e.g., "06-15")');
+      if (config.dateSource !== undefined && config.dateSource !== 'pattern' && config.dateSource !== 'contact') {
+        throw new Error('dateSource must be "pattern" or "contact"');
       }
+      if (config.dateSource === 'contact') {
+        const dateTypes = config.dateTypes ?? [];
+        if (!Array.isArray(dateTypes) || !dateTypes.every((type) => IMPORTANT_DATE_TYPES.includes(type))) {
+          throw new Error(`dateTypes must only contain: ${IMPORTANT_DATE_TYPES.join(', ')}`);
+        }
+        break;
+      }
+      if (!config.datePattern) {
+        throw new Error('datePattern is required: MM-DD (e.g., "06-15"), a cron expression or an RRULE');
+      }
+      parseSchedule(config.datePattern);
       break;
 
     case 'decay':
       if (config.scoreThreshold === undefined || config.scoreThreshold < 0 || config.scoreThreshold > 100) {
         throw new Error('scoreThreshold must be between 0 and 100');
       }
+      if (config.decayMode !== undefined && config.decayMode !== 'threshold' && config.decayMode !== 'forecast') {
+        throw new Error('decayMode must be "threshold" or "forecast"');
+      }
+      if (
+        config.forecastLeadDays !== undefined &&
+        (!Number.isInteger(config.forecastLeadDays) ||
+          config.forecastLeadDays <= 0 ||
+          config.forecastLeadDays > MAX_FORECAST_DAYS)
+      ) {
+        throw new Error(`forecastLeadDays must be a positive integer up to ${MAX_FORECAST_DAYS}`);
+      }
+      break;
+
+    case 'composite':
+      if (config.conditions === undefined) {
+        throw new Error('conditions are required for composite rules');
+      }
       break;
   }
 
+  // General filters apply to every type
+  if (config.conditions !== undefined) {
+    validateCondition(config.conditions);
+  }
+  if (config.tagMatch !== undefined && config.tagMatch !== 'any' && config.tagMatch !== 'all') {
+    throw new Error('tagMatch must be "any" or "all"');
+  }
+  for (const field of ['tags', 'excludeTags'] as const) {
+    const tags = config[field];
+    if (tags !== undefined && (!Array.isArray(tags) || !tags.every((tag) => typeof tag === 'string'))) {
+      throw new Error(`${field} must be an array of strings`);
+    }
+  }
+
   return {
     id: generateId(),
     type,
@@ -247,23 +627,12 @@ export function createRule(type: RuleType, name: string, config: RuleConfig): Ru
 }
 
 /**
- * Validate date pattern format
+ * Validate date pattern format (MM-DD, cron expression or RRULE)
  * @param pattern Pattern to validate
  * @returns true if valid
  */
 export function isValidDatePattern(pattern: string): boolean {
-  const parts = pattern.split(' ');
-  const datePart = parts[0];
-  const dateParts = datePart.split('-');
-
-  if (dateParts.length !== 2) {
-    return false;
-  }
-
-  const month = parseInt(dateParts[0], 10);
-  const day = parseInt(dateParts[1], 10);
-
-  return month >= 1 && month <= 12 && day >= 1 && day <= 31;
+  return isValidSchedule(pattern);
 }
 
 /**
@@ -1,5 +1,24 @@
-import { Contact, Interaction, Reminder, Rule, RelationshipScore } from '@keepclos/shared';
-import { evaluateRule, generateReminderMessage } from './rules.js';
+import {
+  Contact,
+  Interaction,
+  Reminder,
+  ReminderPolicy,
+  Rule,
+  RelationshipScore,
+  ScoringProfile,
+  addZonedDays,
+  systemTimeZone,
+} from '@keepclos/shared';
+import { scorerConfigFor } from '@keepclos/context-engine';
+import {
+  DEFAULT_FORECAST_LEAD_DAYS,
+  DecayForecast,
+  contactTimeZone,
+  evaluateRule,
+  generateReminderMessage,
+} from './rules.js';
+import { firstOccurrenceOn, nextOccurrence } from './recurrence.js';
+import { DeferredReminder, PolicyResult, applyReminderPolicy } from './policy.js';
 
 /**
  * Scheduler: evaluates all contacts against rules periodically
@@ -10,6 +29,7 @@ export interface SchedulerConfig {
   evaluationIntervalMs: number; // How often to run evaluations (default: 5 minutes)
   batchSize: number; // How many contacts to process per batch (default: 100)
   enableLogging: boolean; // Whether to log evaluation results (default: false)
+  clock?: () => Date; // Time source for cycles (default: the system clock)
 }
 
 const DEFAULT_CONFIG: SchedulerConfig = {
@@ -24,6 +44,11 @@ export interface SchedulerContext {
   rules: Rule[];
   relationshipScores: Map<string, RelationshipScore>;
   existingReminders: Map<string, Reminder>; // Map of "contactId:ruleId" to recent reminder
+  timeZone?: string; // User's IANA time zone; contacts may override it (default: the server's zone)
+  policy?: ReminderPolicy; // Quiet hours, days off and budgets for new reminders
+  reminders?: Reminder[]; // Stored reminders, counted against the policy's budgets
+  now?: Date; // Evaluation time (default: now); lets simulations replay past days
+  scoringProfiles?: ScoringProfile[]; // Per-tag or per-contact scorer settings, used by score forecasts
 }
 
 /**
@@ -42,6 +67,32 @@ export function evaluateAllContacts(context: SchedulerContext): Reminder[] {
   return newReminders;
 }
 
+/**
+ * Evaluate all contacts and apply the context's reminder policy
+ * @param context Evaluation context
+ * @param now Current time (default: the context's time, otherwise now)
+ * @returns Reminders to create and deferred candidates with reasons
+ */
+export function scheduleReminders(context: SchedulerContext, now: Date = context.now ?? new Date()): PolicyResult {
+  const candidates = evaluateAllContacts(context);
+
+  if (!context.policy) {
+    return { accepted: candidates, deferred: [] };
+  }
+
+  return applyReminderPolicy(
+    candidates,
+    context.policy,
+    {
+      contacts: context.contacts,
+      relationshipScores: context.relationshipScores,
+      reminders: context.reminders,
+      timeZone: context.timeZone ?? systemTimeZone(),
+    },
+    now,
+  );
+}
+
 /**
  * Evaluate a single contact against all enabled rules
  * @param contact Contact to evaluate
@@ -52,6 +103,8 @@ export function evaluateContact(contact: Contact, context: SchedulerContext): Re
   const reminders: Reminder[] = [];
   const interactions = context.interactions.get(contact.id) ?? [];
   const score = context.relationshipScores.get(contact.id) ?? { overall: 0 } as RelationshipScore;
+  const now = context.now ?? new Date();
+  const scorerConfig = scorerConfigFor(contact, context.scoringProfiles ?? []);
 
   for (const rule of context.rules) {
     if (!rule.enabled) {
@@ -63,13 +116,21 @@ export function evaluateContact(contact: Contact, context: SchedulerContext): Re
     const recentReminder = context.existingReminders.get(recentReminderKey);
 
     // Don't create duplicate reminders within 24 hours
-    if (recentReminder && !isDismissedOrOld(recentReminder)) {
+    if (recentReminder && !isDismissedOrOld(recentReminder, now)) {
       continue;
     }
 
     // Evaluate rule
-    if (evaluateRule(contact, rule, interactions, score.overall)) {
-      const reminder = createReminder(contact, rule);
+    const evaluation = evaluateRule(contact, rule, interactions, score, context.timeZone, now, scorerConfig);
+    if (evaluation.fires) {
+      const reminder = createReminder(
+        contact,
+        rule,
+        context.timeZone,
+        evaluation.matched,
+        now,
+        evaluation.trigger?.forecast,
+      );
       reminders.push(reminder);
     }
   }
@@ -81,30 +142,48 @@ export function evaluateContact(contact: Contact, context: SchedulerContext): Re
  * Create a reminder object
  * @param contact Contact to remind about
  * @param rule Rule that triggered
+ * @param timeZone User's time zone, used when the contact has none (default: the server's zone)
+ * @param reasons Rule checks that matched (from evaluateRule)
+ * @param now Creation time (default: now)
+ * @param forecast Projected crossing of a forecast-mode decay rule (from evaluateRule)
  * @returns New reminder
  */
-export function createReminder(contact: Contact, rule: Rule): Reminder {
-  const dueDate = calculateDueDate(rule);
+export function createReminder(
+  contact: Contact,
+  rule: Rule,
+  timeZone?: string,
+  reasons?: string[],
+  now: Date = new Date(),
+  forecast?: DecayForecast,
+): Reminder {
+  const zone = contactTimeZone(contact, timeZone);
+  const dueDate = calculateDueDate(rule, zone, now, forecast);
 
   return {
     id: generateId(),
     contactId: contact.id,
-    message: generateReminderMessage(contact, rule),
+    message: generateReminderMessage(contact, rule, zone, now, forecast),
     dueDate,
     status: 'pending',
     rule,
-    createdAt: new Date(),
-    updatedAt: new Date(),
+    createdAt: now,
+    updatedAt: now,
+    // Date reminders are about one day; they expire once it is over
+    expiresAt: rule.type === 'date' ? addZonedDays(dueDate, 1, zone) : undefined,
+    reasons,
   };
 }
 
 /**
  * Calculate due date for a reminder based on rule type
  * @param rule Rule to base calculation on
+ * @param timeZone Time zone the rule's schedule runs in
+ * @param now Evaluation time
+ * @param forecast Projected crossing of a forecast-mode decay rule
  * @returns Due date
  */
-function calculateDueDate(rule: Rule): Date {
-  const dueDate = new Date();
+function calculateDueDate(rule: Rule, timeZone: string, now: Date, forecast?: DecayForecast): Date {
+  let dueDate = now;
 
   switch (rule.type) {
     case 'inactivity':
@@ -113,21 +192,36 @@ function calculateDueDate(rule: Rule): Date {
       break;
 
     case 'date': {
-      // For date rules, set due date to that date
+      // Contact dates fire on the day itself
+      if (rule.config.dateSource === 'contact') {
+        break;
+      }
+
+      // Today's occurrence when the rule fires today, otherwise the next one
       const pattern = rule.config.datePattern ?? '01-01';
-      const [month, day] = pattern.split('-').map(Number);
-      dueDate.setMonth(month - 1);
-      dueDate.setDate(day);
+      const options = { anchor: rule.createdAt, timeZone };
+      try {
+        dueDate = firstOccurrenceOn(pattern, dueDate, options)
+          ?? nextOccurrence(pattern, dueDate, options)
+          ?? dueDate;
+      } catch {
+        // Invalid pattern: remind immediately
+      }
+      break;
+    }
 
-      // If the date is in the past, set for next year
-      if (dueDate < new Date()) {
-        dueDate.setFullYear(dueDate.getFullYear() + 1);
+    case 'decay': {
+      // Forecasts are due the lead days before the crossing, or immediately once that has passed
+      if (forecast) {
+        const leadDays = rule.config.forecastLeadDays ?? DEFAULT_FORECAST_LEAD_DAYS;
+        const remindAt = new Date(forecast.crossesAt.getTime() - leadDays * 24 * 60 * 60 * 1000);
+        dueDate = remindAt > now ? remindAt : now;
       }
       break;
     }
 
-    case 'decay':
-      // Remind immediately for decay rule
+    case 'composite':
+      // Remind immediately for composite rules
       break;
 
     default:
@@ -139,36 +233,64 @@ function calculateDueDate(rule: Rule): Date {
 
 /**
  * Check if a reminder was dismissed or is old enough to be recreated
+ * Snoozed reminders are still being handled and are never recreated
  * @param reminder Reminder to check
+ * @param now Evaluation time
  * @param hoursOld Minimum age in hours to be considered "old" (default: 24)
- * @returns true if reminder is dismissed or old
+ * @returns true if reminder is dismissed, expired or old
  */
-function isDismissedOrOld(reminder: Reminder, hoursOld: number = 24): boolean {
-  if (reminder.status === 'dismissed') {
+function isDismissedOrOld(reminder: Reminder, now: Date, hoursOld: number = 24): boolean {
+  if (reminder.status === 'snoozed') {
+    return false;
+  }
+
+  if (reminder.status === 'dismissed' || reminder.status === 'expired') {
     return true;
   }
 
-  const ageHours = (new Date().getTime() - reminder.createdAt.getTime()) / (1000 * 60 * 60);
+  const ageHours = (now.getTime() - reminder.createdAt.getTime()) / (1000 * 60 * 60);
   return ageHours >= hoursOld;
 }
 
+/**
+ * Supplies a fresh evaluation context for each cycle (e.g. loaded from storage)
+ */
+export type SchedulerContextProvider = () => SchedulerContext | Promise<SchedulerContext>;
+
+export interface SchedulerRunSummary {
+  startedAt: Date;
+  finishedAt: Date;
+  contactsEvaluated: number;
+  remindersGenerated: number;
+  remindersDeferred: number;
+  deferred: DeferredReminder[]; // Candidates held back by the reminder policy, with reasons
+  error?: string;
+}
+
 /**
  * Scheduler class for periodic evaluation
  */
 export class ReminderScheduler {
-  private context: SchedulerContext;
+  private context: SchedulerContext | SchedulerContextProvider;
   private config: SchedulerConfig;
   private intervalId: NodeJS.Timeout | null = null;
   private isRunning: boolean = false;
+  private callback: ((reminders: Reminder[]) => Promise<void>) | null = null;
+  private currentRun: Promise<Reminder[]> | null = null;
+  private lastRun: SchedulerRunSummary | null = null;
 
-  constructor(context: SchedulerContext, config: Partial<SchedulerConfig> = {}) {
+  /**
+   * @param context Static context snapshot, or a provider called at the start of every cycle
+   * @param config Scheduler configuration
+   */
+  constructor(context: SchedulerContext | SchedulerContextProvider, config: Partial<SchedulerConfig> = {}) {
     this.context = context;
     this.config = { ...DEFAULT_CONFIG, ...config };
   }
 
   /**
    * Start the scheduler
-   * @param callback Function to call with generated reminders
+   * @param callback Function to call with generated reminders after every cycle
    */
   start(callback: (reminders: Reminder[]) => Promise<void>): void {
     if (this.isRunning) {
@@ -176,39 +298,66 @@ export class ReminderScheduler {
     }
 
     this.isRunning = true;
+    this.callback = callback;
 
     // Run evaluation immediately
-    this.runEvaluation(callback);
+    this.runEvaluation();
 
     // Schedule periodic evaluations
-    this.intervalId = setInterval(() => this.runEvaluation(callback), this.config.evaluationIntervalMs);
+    this.intervalId = setInterval(() => this.runEvaluation(), this.config.evaluationIntervalMs);
   }
 
   /**
    * Stop the scheduler
+   * Resolves once any in-flight evaluation cycle has finished
    */
-  stop(): void {
+  async stop(): Promise<void> {
     if (this.intervalId) {
       clearInterval(this.intervalId);
       this.intervalId = null;
     }
     this.isRunning = false;
+
+    if (this.currentRun) {
+      await this.currentRun.catch(() => undefined);
+    }
   }
 
   /**
-   * Run a single evaluation cycle
-   * @param callback Function to call with generated reminders
+   * Run a single evaluation cycle on demand
+   * Waits for an in-flight cycle instead of starting an overlapping one; concurrent callers
+   * run one after another, each seeing the reminders the previous cycle handed to its callback
+   * @param callback Function to call with generated reminders (default: the one passed to start)
+   * @returns Reminders generated by the cycle
    */
-  private async runEvaluation(callback: (reminders: Reminder[]) => Promise<void>): Promise<void> {
-    try {
-      const reminders = evaluateAllContacts(this.context);
+  async runOnce(callback?: (reminders: Reminder[]) => Promise<void>): Promise<Reminder[]> {
+    // Another waiter may have started its cycle by the time this one resumes
+    while (this.currentRun) {
+      await this.currentRun.catch(() => undefined);
+    }
 
-      if (reminders.length > 0) {
-        if (this.config.enableLogging) {
-          console.log(`[ReminderScheduler] Generated ${reminders.length} reminders`);
-        }
-        await callback(reminders);
+    const run = this.evaluate(callback ?? this.callback);
+    this.currentRun = run;
+
+    try {
+      return await run;
+    } finally {
+      if (this.currentRun === run) {
+        this.currentRun = null;
       }
+    }
+  }
+
+  /**
+   * Run a scheduled evaluation cycle, skipping it if the previous one is still running
+   */
+  private async runEvaluation(): Promise<void> {
+    if (this.currentRun) {
+      return;
+    }
+
+    try {
+      await this.runOnce();
     } catch (error) {
       if (this.config.enableLogging) {
         console.error('[ReminderScheduler] Evaluation error:', error);
@@ -216,11 +365,76 @@ export class ReminderScheduler {
     }
   }
 
+  /**
+   * Evaluate the current context and hand generated reminders to the callback
+   * Candidates the reminder policy defers are recorded in the run summary
+   * @param callback Function to call with generated reminders
+   * @returns Generated reminders
+   */
+  private async evaluate(
+    callback: ((reminders: Reminder[]) => Promise<void>) | null,
+  ): Promise<Reminder[]> {
+    const startedAt = this.now();
+    let contactsEvaluated = 0;
+
+    try {
+      const context = typeof this.context === 'function' ? await this.context() : this.context;
+      contactsEvaluated = context.contacts.length;
+
+      const { accepted: reminders, deferred } = scheduleReminders({ ...context, now: context.now ?? startedAt });
+
+      if (reminders.length > 0 && this.config.enableLogging) {
+        console.log(`[ReminderScheduler] Generated ${reminders.length} reminders`);
+      }
+      if (deferred.length > 0 && this.config.enableLogging) {
+        console.log(`[ReminderScheduler] Deferred ${deferred.length} reminders (${deferred[0].detail})`);
+      }
+
+      // Called every cycle (possibly with no reminders) so per-cycle work such as delivery runs
+      if (callback) {
+        await callback(reminders);
+      }
+
+      this.lastRun = {
+        startedAt,
+        finishedAt: this.now(),
+        contactsEvaluated,
+        remindersGenerated: reminders.length,
+        remindersDeferred: deferred.length,
+        deferred,
+      };
+
+      return reminders;
+    } catch (error) {
+      this.lastRun = {
+        startedAt,
+        finishedAt: this.now(),
+        contactsEvaluated,
+        remindersGenerated: 0,
+        remindersDeferred: 0,
+        deferred: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+      throw error;
+    }
+  }
+
+  /**
+   * Current time from the configured clock
+   */
+  private now(): Date {
+    return this.config.clock ? this.config.clock() : new Date();
+  }
+
   /**
    * Update context with new data
+   * Only supported for schedulers created with a static context
    * @param newContext New context data
    */
   updateContext(newContext: Partial<SchedulerContext>): void {
+    if (typeof this.context === 'function') {
+      throw new Error('Cannot update context of a scheduler that uses a context provider');
+    }
     this.context = { ...this.context, ...newContext };
   }
 
@@ -230,6 +444,13 @@ export class ReminderScheduler {
   isActive(): boolean {
     return this.isRunning;
   }
+
+  /**
+   * Get a summary of the most recent evaluation cycle
+   */
+  getLastRun(): SchedulerRunSummary | null {
+    return this.lastRun;
+  }
 }
 
 /**
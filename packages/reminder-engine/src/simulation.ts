@@ -0,0 +1,256 @@
+import {
+  Contact,
+  Interaction,
+  Reminder,
+  RelationshipScore,
+  Rule,
+  ScoringProfile,
+  formatZonedDate,
+  systemTimeZone,
+} from '@keepclos/shared';
+import { TrendPoint, calculateRelationshipScore, scorerConfigFor } from '@keepclos/context-engine';
+import { evaluateAllContacts } from './scheduler.js';
+
+/**
+ * Rule backtesting
+ * Replays a date range day by day over stored interactions: on each day the contacts'
+ * history is cut off at that day, scores are recalculated as of that day, the rules run
+ * through evaluateAllContacts with the clock set to that day, and every reminder that
+ * would have fired is checked for a real interaction within the follow-up window. Each
+ * day's scores become the score history the following days' trends are fitted through,
+ * as the daily snapshots are in the live system
+ */
+
+export interface SimulationInput {
+  contacts: Contact[];
+  interactions: Map<string, Interaction[]>; // Interactions by contact ID
+  rules: Rule[]; // Evaluated whether enabled or not
+  timeZone?: string; // User's IANA time zone (default: the server's zone)
+  scoringProfiles?: ScoringProfile[]; // Per-tag or per-contact scorer settings (default: none)
+}
+
+export interface SimulationOptions {
+  from: Date;
+  to: Date;
+  followUpDays?: number; // An interaction within this many days counts as a follow-up (default: 7)
+  includeReminders?: boolean; // Return every simulated reminder (default: false)
+  // Relationship score of a contact at a point in time (default: the scorer as of that time)
+  scoreAt?: (contact: Contact, interactions: Interaction[], at: Date) => RelationshipScore | undefined;
+}
+
+export interface SimulatedReminder {
+  contactId: string;
+  ruleId: string;
+  firedAt: Date;
+  message: string;
+  reasons: string[];
+  followedUpAt?: Date; // First interaction within the follow-up window
+}
+
+export interface SimulationTally {
+  fired: number; // Reminders that would have been created
+  followedUp: number;
+  followUpRate: number; // followedUp / fired, 0 when nothing fired
+}
+
+export interface SimulationReport extends SimulationTally {
+  from: Date;
+  to: Date;
+  days: number;
+  followUpDays: number;
+  byRule: Array<SimulationTally & { ruleId: string; ruleName: string; contacts: number }>;
+  byContact: Array<SimulationTally & { contactId: string; contactName: string }>;
+  byDay: Array<{ date: string; fired: number }>;
+  reminders?: SimulatedReminder[];
+}
+
+export const MAX_SIMULATION_DAYS = 366;
+const DEFAULT_FOLLOW_UP_DAYS = 7;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Simulate a rule set over a past date range
+ * Tags and other contact fields are taken as they are now; lastContactedAt is rebuilt
+ * from the interaction history of each simulated day
+ * @param input Contacts, interactions and rules
+ * @param options Date range, follow-up window and scoring
+ * @returns Reminder counts per rule, contact and day with follow-up rates
+ * @throws Error if the range is invalid or longer than MAX_SIMULATION_DAYS
+ */
+export function simulateRules(input: SimulationInput, options: SimulationOptions): SimulationReport {
+  validateSimulationOptions(options);
+
+  const timeZone = input.timeZone ?? systemTimeZone();
+  const followUpDays = options.followUpDays ?? DEFAULT_FOLLOW_UP_DAYS;
+  const days = Math.floor((options.to.getTime() - options.from.getTime()) / MS_PER_DAY) + 1;
+  // Schedules without a DTSTART start at the rule's creation; a rule created after the
+  // range start (such as an unsaved one) is anchored to the start instead
+  const rules = input.rules.map((rule) => ({
+    ...rule,
+    enabled: true,
+    createdAt: rule.createdAt < options.from ? rule.createdAt : options.from,
+  }));
+
+  // Oldest first, so each day's history is a prefix
+  const histories = new Map<string, Interaction[]>();
+  for (const contact of input.contacts) {
+    const history = [...(input.interactions.get(contact.id) ?? [])];
+    histories.set(contact.id, history.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()));
+  }
+
+  const scoreHistories = new Map<string, TrendPoint[]>();
+  const existingReminders = new Map<string, Reminder>();
+  const simulated: SimulatedReminder[] = [];
+  const byDay: SimulationReport['byDay'] = [];
+
+  for (let day = 0; day < days; day++) {
+    const at = new Date(options.from.getTime() + day * MS_PER_DAY);
+    const contacts: Contact[] = [];
+    const interactions = new Map<string, Interaction[]>();
+    const relationshipScores = new Map<string, RelationshipScore>();
+
+    for (const contact of input.contacts) {
+      const history = (histories.get(contact.id) ?? []).filter((interaction) => interaction.timestamp <= at);
+      const state = contactAt(contact, history, at);
+      if (!state) {
+        continue;
+      }
+
+      contacts.push(state);
+      interactions.set(contact.id, history);
+
+      const scoreHistory = scoreHistories.get(contact.id) ?? [];
+      const score = options.scoreAt
+        ? options.scoreAt(state, history, at)
+        : calculateRelationshipScore(state, history, scorerConfigFor(state, input.scoringProfiles ?? []), at, {
+            history: scoreHistory,
+          });
+      if (score) {
+        relationshipScores.set(contact.id, score);
+        scoreHistories.set(contact.id, [...scoreHistory, { takenAt: at, overall: score.overall }]);
+      }
+    }
+
+    const reminders = evaluateAllContacts({
+      contacts,
+      interactions,
+      rules,
+      relationshipScores,
+      existingReminders,
+      timeZone,
+      now: at,
+      scoringProfiles: input.scoringProfiles,
+    });
+
+    for (const reminder of reminders) {
+      existingReminders.set(`${reminder.contactId}:${reminder.rule?.id}`, reminder);
+      simulated.push({
+        contactId: reminder.contactId,
+        ruleId: reminder.rule?.id ?? '',
+        firedAt: at,
+        message: reminder.message,
+        reasons: reminder.reasons ?? [],
+        followedUpAt: firstFollowUp(histories.get(reminder.contactId) ?? [], at, followUpDays),
+      });
+    }
+
+    byDay.push({ date: formatZonedDate(at, timeZone), fired: reminders.length });
+  }
+
+  const contactNames = new Map(input.contacts.map((contact) => [contact.id, contact.name]));
+
+  return {
+    from: options.from,
+    to: options.to,
+    days,
+    followUpDays,
+    ...tally(simulated),
+    byRule: rules.map((rule) => {
+      const fired = simulated.filter((reminder) => reminder.ruleId === rule.id);
+      return {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        contacts: new Set(fired.map((reminder) => reminder.contactId)).size,
+        ...tally(fired),
+      };
+    }),
+    byContact: [...groupBy(simulated, (reminder) => reminder.contactId)]
+      .map(([contactId, fired]) => ({ contactId, contactName: contactNames.get(contactId) ?? '', ...tally(fired) }))
+      .sort((a, b) => b.fired - a.fired),
+    byDay,
+    reminders: options.includeReminders ? simulated : undefined,
+  };
+}
+
+/**
+ * Validate a simulation's date range and follow-up window
+ * @param options Simulation options
+ * @throws Error describing the first invalid option
+ */
+export function validateSimulationOptions(options: SimulationOptions): void {
+  if (!(options.from instanceof Date) || isNaN(options.from.getTime())) {
+    throw new Error('from must be a valid date');
+  }
+  if (!(options.to instanceof Date) || isNaN(options.to.getTime())) {
+    throw new Error('to must be a valid date');
+  }
+  if (options.to < options.from) {
+    throw new Error('to must not be before from');
+  }
+  if ((options.to.getTime() - options.from.getTime()) / MS_PER_DAY >= MAX_SIMULATION_DAYS) {
+    throw new Error(`Simulations cover at most ${MAX_SIMULATION_DAYS} days`);
+  }
+  if (
+    options.followUpDays !== undefined &&
+    (!Number.isInteger(options.followUpDays) || options.followUpDays <= 0)
+  ) {
+    throw new Error('followUpDays must be a positive integer');
+  }
+}
+
+/**
+ * A contact as it was at a point in time
+ * @returns The contact with lastContactedAt from its history, or undefined if it did not exist yet
+ */
+function contactAt(contact: Contact, history: Interaction[], at: Date): Contact | undefined {
+  const lastInteraction = history.length > 0 ? history[history.length - 1].timestamp : undefined;
+  if (contact.createdAt > at && !lastInteraction) {
+    return undefined;
+  }
+
+  // lastContactedAt may also have been set without an interaction
+  const stored = contact.lastContactedAt && contact.lastContactedAt <= at ? contact.lastContactedAt : undefined;
+  const lastContactedAt =
+    stored && (!lastInteraction || stored > lastInteraction) ? stored : lastInteraction;
+
+  return { ...contact, lastContactedAt };
+}
+
+/**
+ * First interaction after a reminder fired, within the follow-up window
+ */
+function firstFollowUp(history: Interaction[], firedAt: Date, followUpDays: number): Date | undefined {
+  const until = firedAt.getTime() + followUpDays * MS_PER_DAY;
+  return history.find(
+    (interaction) => interaction.timestamp > firedAt && interaction.timestamp.getTime() <= until,
+  )?.timestamp;
+}
+
+function tally(reminders: SimulatedReminder[]): SimulationTally {
+  const followedUp = reminders.filter((reminder) => reminder.followedUpAt).length;
+  return {
+    fired: reminders.length,
+    followedUp,
+    followUpRate: reminders.length > 0 ? Math.round((followedUp / reminders.length) * 100) / 100 : 0,
+  };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(key(item)) ?? [];
+    group.push(item);
+    groups.set(key(item), group);
+  }
+  return groups;
+}
@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest';
+import { Contact, Interaction, InteractionType, RelationshipScore, RuleCondition } from '@keepclos/shared';
+import {
+  ConditionFacts,
+  describeCondition,
+  evaluateCondition,
+  matchedConditions,
+  validateCondition,
+} from '../src/conditions.js';
+import { evaluateRule } from '../src/rules.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-04-01T12:00:00Z');
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * MS_PER_DAY);
+}
+
+function interaction(type: InteractionType, days: number): Interaction {
+  return { id: `${type}-${days}`, contactId: 'a', type, timestamp: daysAgo(days), quality: 70 };
+}
+
+function facts(tags: string[], interactions: Interaction[], trend: RelationshipScore['trend']): ConditionFacts {
+  const contact: Contact = {
+    id: 'a',
+    name: 'Ann',
+    tags,
+    notes: '',
+    lastContactedAt: interactions.length > 0 ? interactions[0].timestamp : undefined,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+  };
+  return { contact, interactions, score: { overall: 42, trend }, now: NOW };
+}
+
+// tag=family AND inactive >= 21 days AND trend = declining
+const driftingFamily: RuleCondition = {
+  type: 'and',
+  conditions: [
+    { type: 'tags', tags: ['family'] },
+    { type: 'inactive', days: 21 },
+    { type: 'trend', trend: 'declining' },
+  ],
+};
+
+describe('evaluateCondition', () => {
+  it('matches an AND group when every child holds, describing the observed values', () => {
+    const result = evaluateCondition(driftingFamily, facts(['family'], [interaction('call', 25)], 'declining'));
+
+    expect(result.matched).toBe(true);
+    expect(result.description).toBe('tagged family and no contact in 21 days and score trend declining');
+    expect(result.children?.map((child) => child.description)).toEqual([
+      'tagged family',
+      'no contact in 21 days (last 25 days ago)',
+      'score trend declining (declining)',
+    ]);
+  });
+
+  it('evaluates every child of a failing group so misses can be explained', () => {
+    const result = evaluateCondition(driftingFamily, facts(['family'], [interaction('call', 10)], 'stable'));
+
+    expect(result.matched).toBe(false);
+    expect(result.children?.map((child) => [child.matched, child.description])).toEqual([
+      [true, 'tagged family'],
+      [false, 'no contact in 21 days (last 10 days ago)'],
+      [false, 'score trend declining (stable)'],
+    ]);
+  });
+
+  it('negates with NOT', () => {
+    const notArchived: RuleCondition = { type: 'not', condition: { type: 'tags', tags: ['archived'] } };
+
+    expect(evaluateCondition(notArchived, facts(['family'], [], 'stable')).matched).toBe(true);
+    expect(evaluateCondition(notArchived, facts(['family', 'archived'], [], 'stable')).matched).toBe(false);
+  });
+
+  it('requires every tag with match all and any tag by default', () => {
+    const all: RuleCondition = { type: 'tags', tags: ['family', 'close'], match: 'all' };
+    const any: RuleCondition = { type: 'tags', tags: ['family', 'close'] };
+
+    expect(evaluateCondition(all, facts(['family'], [], 'stable')).matched).toBe(false);
+    expect(evaluateCondition(all, facts(['close', 'family'], [], 'stable')).matched).toBe(true);
+    expect(evaluateCondition(any, facts(['close'], [], 'stable')).matched).toBe(true);
+  });
+
+  it('only counts interactions of the condition’s type', () => {
+    const noCall: RuleCondition = { type: 'inactive', days: 60, interactionType: 'call' };
+    const recentMessage = [interaction('message', 5), interaction('call', 74)];
+
+    expect(evaluateCondition(noCall, facts([], recentMessage, 'stable'))).toMatchObject({
+      matched: true,
+      description: 'no call in 60 days (last 74 days ago)',
+    });
+    expect(evaluateCondition(noCall, facts([], [interaction('message', 5)], 'stable'))).toMatchObject({
+      matched: true,
+      description: 'no call in 60 days (never)',
+    });
+    expect(evaluateCondition(noCall, facts([], [interaction('call', 59)], 'stable')).matched).toBe(false);
+  });
+
+  it('compares scores as min <= overall < max', () => {
+    const band: RuleCondition = { type: 'score', min: 40, max: 42 };
+
+    expect(evaluateCondition(band, facts([], [], 'stable'))).toMatchObject({
+      matched: false,
+      description: 'score from 40 to below 42 (42)',
+    });
+    expect(evaluateCondition({ type: 'score', min: 42 }, facts([], [], 'stable')).matched).toBe(true);
+  });
+});
+
+describe('matchedConditions', () => {
+  it('lists the leaves that made a group match', () => {
+    const anyOf: RuleCondition = {
+      type: 'or',
+      conditions: [
+        { type: 'not', condition: { type: 'tags', tags: ['archived'] } },
+        { type: 'trend', trend: 'improving' },
+      ],
+    };
+    const result = evaluateCondition(anyOf, facts([], [], 'declining'));
+
+    expect(matchedConditions(result)).toEqual(['not tagged archived']);
+  });
+
+  it('is empty when the condition does not match', () => {
+    const result = evaluateCondition(driftingFamily, facts([], [], 'declining'));
+
+    expect(matchedConditions(result)).toEqual([]);
+  });
+});
+
+describe('describeCondition', () => {
+  it('parenthesizes nested groups', () => {
+    const lowOrA: RuleCondition = {
+      type: 'or',
+      conditions: [
+        { type: 'score', max: 30 },
+        { type: 'tags', tags: ['a'] },
+      ],
+    };
+    const condition: RuleCondition = { type: 'or', conditions: [driftingFamily, { type: 'not', condition: lowOrA }] };
+
+    expect(describeCondition(condition)).toBe(
+      '(tagged family and no contact in 21 days and score trend declining) or not (score below 30 or tagged a)',
+    );
+  });
+});
+
+describe('validateCondition', () => {
+  function nested(depth: number): RuleCondition {
+    let condition: RuleCondition = { type: 'tags', tags: ['family'] };
+    for (let level = 1; level < depth; level++) {
+      condition = { type: 'not', condition };
+    }
+    return condition;
+  }
+
+  it('accepts valid trees up to the depth limit', () => {
+    expect(() => validateCondition(driftingFamily)).not.toThrow();
+    expect(() => validateCondition(nested(8))).not.toThrow();
+    expect(() => validateCondition(nested(9))).toThrow('Conditions may be nested at most 8 levels deep');
+  });
+
+  it.each([
+    [{ type: 'xor' }, 'conditions.type must be one of: and, or, not, tags, inactive, score, trend'],
+    [{ type: 'and', conditions: [] }, 'conditions.conditions must be a non-empty array'],
+    [{ type: 'or', conditions: [{ type: 'inactive', days: 0 }] }, 'conditions.conditions[0].days must be a positive'],
+    [{ type: 'not', condition: { type: 'tags', tags: [] } }, 'conditions.condition.tags must be a non-empty array'],
+    [{ type: 'tags', tags: ['a'], match: 'some' }, 'conditions.match must be "any" or "all"'],
+    [{ type: 'inactive', days: 5, interactionType: 'fax' }, 'conditions.interactionType must be one of'],
+    [{ type: 'score' }, 'conditions needs min or max'],
+    [{ type: 'score', min: -1 }, 'conditions.min and conditions.max must be between 0 and 100'],
+    [{ type: 'trend', trend: 'up' }, 'conditions.trend must be one of: improving, stable, declining'],
+  ])('rejects %j', (condition, message) => {
+    expect(() => validateCondition(condition as RuleCondition)).toThrow(message);
+  });
+});
+
+describe('composite rules', () => {
+  it('fire on their condition tree together with the rule’s tag filters', () => {
+    const rule = {
+      id: 'drift',
+      type: 'composite' as const,
+      name: 'Drifting family',
+      enabled: true,
+      config: { conditions: driftingFamily, excludeTags: ['archived'] },
+      createdAt: NOW,
+      updatedAt: NOW,
+    };
+    const drifting = facts(['family'], [interaction('call', 25)], 'declining');
+    const score: RelationshipScore = {
+      contactId: 'a',
+      overall: 42,
+      recency: 0,
+      frequency: 0,
+      engagement: 0,
+      trend: 'declining',
+      lastUpdated: NOW,
+    };
+
+    const evaluation = evaluateRule(drifting.contact, rule, drifting.interactions, score, 'UTC', NOW);
+    const archived = { ...drifting.contact, tags: ['family', 'archived'] };
+
+    expect(evaluation.fires).toBe(true);
+    expect(evaluation.matched).toEqual([
+      'not tagged archived',
+      'tagged family',
+      'no contact in 21 days (last 25 days ago)',
+      'score trend declining (declining)',
+    ]);
+    expect(evaluateRule(archived, rule, drifting.interactions, score, 'UTC', NOW).fires).toBe(false);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { Contact, RelationshipScore, Reminder, ReminderStatus, RuleType } from '@keepclos/shared';
+import {
+  buildDigest,
+  isDigestDue,
+  lastDigestTime,
+  renderDigestHtml,
+  renderDigestText,
+  validateDigestSettings,
+} from '../src/digest.js';
+
+const TIME_ZONE = 'America/New_York';
+// Wednesday 09:00 in New York
+const NOW = new Date('2025-03-05T14:00:00Z');
+
+function contact(id: string, name: string): Contact {
+  return { id, name, tags: [], notes: '', createdAt: NOW, updatedAt: NOW };
+}
+
+function score(contactId: string, overall: number): RelationshipScore {
+  return { contactId, overall, recency: 0, frequency: 0, engagement: 0, trend: 'stable', lastUpdated: NOW };
+}
+
+function reminder(
+  id: string,
+  contactId: string,
+  type: RuleType | null,
+  due: string,
+  status: ReminderStatus = 'pending',
+): Reminder {
+  return {
+    id,
+    contactId,
+    message: `${id} message`,
+    dueDate: new Date(due),
+    status,
+    rule: type ? { id: type, type, name: type, enabled: true, config: {}, createdAt: NOW, updatedAt: NOW } : undefined,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+const contacts = new Map(
+  [contact('ann', 'Ann'), contact('bob', 'Bob'), contact('cy', 'Cy'), contact('dee', 'Dee')].map((entry) => [
+    entry.id,
+    entry,
+  ]),
+);
+const scores = new Map(
+  [score('ann', 80), score('bob', 20), score('cy', 60), score('dee', 60)].map((entry) => [entry.contactId, entry]),
+);
+
+const reminders = [
+  reminder('birthday', 'ann', 'date', '2025-03-05T15:00:00Z'),
+  reminder('fading-bob', 'bob', 'decay', '2025-03-02T15:00:00Z'), // 3 days overdue
+  reminder('fading-dee', 'dee', 'decay', '2025-03-05T13:00:00Z'), // due today
+  reminder('fading-cy', 'cy', 'decay', '2025-03-04T04:00:00Z'), // Mar 3 23:00 in New York: 2 days overdue
+  reminder('manual', 'ghost', null, '2025-03-05T16:00:00Z', 'sent'),
+  reminder('reconnect', 'ann', 'inactivity', '2025-03-08T15:00:00Z'),
+  reminder('late-tuesday', 'bob', 'inactivity', '2025-03-12T03:30:00Z'), // Tuesday 23:30 in New York
+  reminder('next-week', 'bob', 'inactivity', '2025-03-12T15:00:00Z'),
+  reminder('done', 'ann', 'date', '2025-03-05T15:00:00Z', 'completed'),
+  reminder('later', 'ann', 'date', '2025-03-05T15:00:00Z', 'snoozed'),
+];
+
+describe('buildDigest', () => {
+  it('groups today’s open and overdue reminders by rule type, strongest relationships first', () => {
+    const digest = buildDigest(reminders, contacts, scores, { period: 'daily', timeZone: TIME_ZONE, now: NOW });
+
+    expect(digest.title).toBe('Daily reminder digest, 2025-03-05');
+    expect(digest.periodStart.toISOString()).toBe('2025-03-05T05:00:00.000Z');
+    expect(digest.periodEnd.toISOString()).toBe('2025-03-06T05:00:00.000Z');
+    expect(digest.groups.map((group) => [group.label, group.entries.map((entry) => entry.reminderId)])).toEqual([
+      ['Important dates', ['birthday']],
+      ['Fading relationships', ['fading-cy', 'fading-dee', 'fading-bob']],
+      ['Other reminders', ['manual']],
+    ]);
+    expect(digest.total).toBe(5);
+    expect(digest.overdue).toBe(2);
+  });
+
+  it('counts overdue days in calendar days of the time zone', () => {
+    const digest = buildDigest(reminders, contacts, scores, { period: 'daily', timeZone: TIME_ZONE, now: NOW });
+    const fading = digest.groups.find((group) => group.type === 'decay')!.entries;
+
+    expect(fading.map((entry) => [entry.contactName, entry.score, entry.overdueDays])).toEqual([
+      ['Cy', 60, 2],
+      ['Dee', 60, 0],
+      ['Bob', 20, 3],
+    ]);
+    expect(digest.groups.at(-1)?.entries[0]).toMatchObject({ contactName: 'Unknown contact', score: 0 });
+  });
+
+  it('covers today and the next six days in a weekly digest', () => {
+    const digest = buildDigest(reminders, contacts, scores, { period: 'weekly', timeZone: TIME_ZONE, now: NOW });
+
+    const reconnect = digest.groups.find((group) => group.type === 'inactivity')!;
+
+    expect(digest.title).toBe('Weekly reminder digest, 2025-03-05 to 2025-03-11');
+    expect(reconnect.entries.map((entry) => entry.reminderId)).toEqual(['reconnect', 'late-tuesday']);
+    expect(digest.total).toBe(7);
+  });
+});
+
+describe('digest rendering', () => {
+  it('renders one text line per reminder with its due date or overdue age', () => {
+    const digest = buildDigest(reminders, contacts, scores, { period: 'daily', timeZone: TIME_ZONE, now: NOW });
+    const text = renderDigestText(digest);
+
+    expect(text.split('\n').slice(0, 5)).toEqual([
+      'Daily reminder digest, 2025-03-05',
+      '5 reminders (2 overdue)',
+      '',
+      'Important dates (1)',
+      '  - Ann: birthday message [due 2025-03-05, score 80]',
+    ]);
+    expect(text).toContain('  - Bob: fading-bob message [3 days overdue, score 20]');
+  });
+
+  it('escapes names and messages in HTML', () => {
+    const names = new Map([['ann', contact('ann', '<Ann & "Bo">')]]);
+    const html = renderDigestHtml(
+      buildDigest(
+        [{ ...reminders[0], message: '<script>alert(1)</script>' }],
+        names,
+        scores,
+        { period: 'daily', timeZone: TIME_ZONE, now: NOW },
+      ),
+    );
+
+    expect(html).toContain('<strong>&lt;Ann &amp; &quot;Bo&quot;&gt;</strong>: &lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('<title>Daily reminder digest, 2025-03-05</title>');
+  });
+});
+
+describe('digest schedule', () => {
+  const weekly = { period: 'weekly' as const, hour: 8, weekday: 1 };
+  const daily = { period: 'daily' as const, hour: 8 };
+
+  it('finds the latest weekly send time on the weekday and hour in the user’s zone', () => {
+    // Monday 08:00 EST, then 08:00 EDT after the switch to daylight time on March 9
+    expect(lastDigestTime(weekly, NOW, TIME_ZONE).toISOString()).toBe('2025-03-03T13:00:00.000Z');
+    expect(lastDigestTime(weekly, new Date('2025-03-03T12:59:00Z'), TIME_ZONE).toISOString()).toBe(
+      '2025-02-24T13:00:00.000Z',
+    );
+    expect(lastDigestTime(weekly, new Date('2025-03-12T12:00:00Z'), TIME_ZONE).toISOString()).toBe(
+      '2025-03-10T12:00:00.000Z',
+    );
+  });
+
+  it('finds today’s or yesterday’s daily send time', () => {
+    expect(lastDigestTime(daily, NOW, TIME_ZONE).toISOString()).toBe('2025-03-05T13:00:00.000Z');
+    expect(lastDigestTime(daily, new Date('2025-03-05T12:00:00Z'), TIME_ZONE).toISOString()).toBe(
+      '2025-03-04T13:00:00.000Z',
+    );
+  });
+
+  it('is due once per period', () => {
+    expect(isDigestDue(weekly, undefined, NOW, TIME_ZONE)).toBe(true);
+    expect(isDigestDue(weekly, new Date('2025-03-03T13:00:05Z'), NOW, TIME_ZONE)).toBe(false);
+    expect(isDigestDue(weekly, new Date('2025-02-24T13:00:05Z'), NOW, TIME_ZONE)).toBe(true);
+    expect(isDigestDue(daily, new Date('2025-03-04T13:00:05Z'), NOW, TIME_ZONE)).toBe(true);
+  });
+
+  it('validates the settings', () => {
+    expect(() => validateDigestSettings(weekly)).not.toThrow();
+    expect(() => validateDigestSettings({ ...daily, hour: 24 })).toThrow('Digest hour');
+    expect(() => validateDigestSettings({ ...weekly, weekday: 7 })).toThrow('Digest weekday');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { Contact, ImportantDate, Rule } from '@keepclos/shared';
+import { generateReminderMessage, importantDatesOn, yearsSinceImportantDate } from '../src/rules.js';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const leapling: ImportantDate = { type: 'birthday', month: 2, day: 29, year: 1988 };
+
+const contact: Contact = {
+  id: 'a',
+  name: 'Ann',
+  importantDates: [
+    leapling,
+    { type: 'anniversary', month: 6, day: 15, year: 2015 },
+    { type: 'custom', label: 'Graduation', month: 6, day: 15 },
+  ],
+  tags: [],
+  notes: '',
+  createdAt: NOW,
+  updatedAt: NOW,
+};
+
+function dateRule(dateTypes?: Rule['config']['dateTypes']): Rule {
+  const config = dateTypes ? { dateSource: 'contact' as const, dateTypes } : { dateSource: 'contact' as const };
+  return { id: 'dates', type: 'date', name: 'Dates', enabled: true, config, createdAt: NOW, updatedAt: NOW };
+}
+
+describe('importantDatesOn', () => {
+  it('moves Feb 29 dates to Feb 28 outside leap years only', () => {
+    expect(importantDatesOn(contact, dateRule(), new Date('2026-02-28T12:00:00Z'), 'UTC')).toEqual([leapling]);
+    expect(importantDatesOn(contact, dateRule(), new Date('2028-02-28T12:00:00Z'), 'UTC')).toEqual([]);
+    expect(importantDatesOn(contact, dateRule(), new Date('2028-02-29T12:00:00Z'), 'UTC')).toEqual([leapling]);
+  });
+
+  it('limits the dates to the rule’s dateTypes', () => {
+    const june15 = new Date('2026-06-15T12:00:00Z');
+
+    expect(importantDatesOn(contact, dateRule(), june15, 'UTC').map((date) => date.type)).toEqual([
+      'anniversary',
+      'custom',
+    ]);
+    expect(importantDatesOn(contact, dateRule(['custom']), june15, 'UTC')).toEqual([contact.importantDates![2]]);
+    expect(importantDatesOn(contact, dateRule(['birthday']), june15, 'UTC')).toEqual([]);
+  });
+
+  it('takes the day in the given time zone', () => {
+    // 23:30 UTC on June 14 is already June 15 in Berlin
+    const lateEvening = new Date('2026-06-14T23:30:00Z');
+
+    expect(importantDatesOn(contact, dateRule(['anniversary']), lateEvening, 'UTC')).toEqual([]);
+    expect(importantDatesOn(contact, dateRule(['anniversary']), lateEvening, 'Europe/Berlin')).toHaveLength(1);
+  });
+});
+
+describe('yearsSinceImportantDate', () => {
+  it('counts a Feb 29 birthday as reached on Feb 28 in non-leap years', () => {
+    expect(yearsSinceImportantDate(leapling, new Date('2026-02-27T12:00:00Z'), 'UTC')).toBe(37);
+    expect(yearsSinceImportantDate(leapling, new Date('2026-02-28T12:00:00Z'), 'UTC')).toBe(38);
+    expect(yearsSinceImportantDate(leapling, new Date('2028-02-28T12:00:00Z'), 'UTC')).toBe(39);
+    expect(yearsSinceImportantDate(leapling, new Date('2028-02-29T12:00:00Z'), 'UTC')).toBe(40);
+  });
+
+  it('is undefined without a year and never negative', () => {
+    expect(yearsSinceImportantDate({ type: 'birthday', month: 3, day: 1 }, NOW, 'UTC')).toBeUndefined();
+    expect(yearsSinceImportantDate({ type: 'birthday', month: 3, day: 1, year: 2030 }, NOW, 'UTC')).toBe(0);
+  });
+});
+
+describe('important date messages', () => {
+  it('gives the age a leapling turns on Feb 28', () => {
+    const message = generateReminderMessage(contact, dateRule(), 'UTC', new Date('2026-02-28T12:00:00Z'));
+
+    expect(message).toBe('Birthday reminder: Ann turns 38 today!');
+  });
+
+  it('describes every date falling on the day', () => {
+    const message = generateReminderMessage(contact, dateRule(), 'UTC', new Date('2026-06-15T12:00:00Z'));
+
+    expect(message).toBe('Anniversary reminder: Ann - 11 years together today! Graduation reminder: Ann');
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { Reminder, ReminderStatus } from '@keepclos/shared';
+import {
+  REMINDER_STATUSES,
+  canTransition,
+  completeReminder,
+  isReminderOpen,
+  refreshReminderState,
+  reminderAsOf,
+  snoozeReminder,
+  transitionReminder,
+} from '../src/lifecycle.js';
+
+const CREATED = new Date('2025-05-01T09:00:00Z');
+
+function reminder(overrides: Partial<Reminder> = {}): Reminder {
+  return {
+    id: 'r1',
+    contactId: 'a',
+    message: 'Call Ann',
+    dueDate: CREATED,
+    status: 'pending',
+    createdAt: CREATED,
+    updatedAt: CREATED,
+    ...overrides,
+  };
+}
+
+function at(hours: number): Date {
+  return new Date(CREATED.getTime() + hours * 60 * 60 * 1000);
+}
+
+describe('transitionReminder', () => {
+  it.each<[ReminderStatus, ReminderStatus]>([
+    ['pending', 'sent'],
+    ['pending', 'completed'],
+    ['sent', 'dismissed'],
+    ['snoozed', 'pending'],
+    ['snoozed', 'expired'],
+  ])('moves %s reminders to %s', (from, to) => {
+    const snoozedUntil = from === 'snoozed' ? at(5) : undefined;
+    const updated = transitionReminder(reminder({ status: from, snoozedUntil }), to, at(1));
+
+    expect(updated.status).toBe(to);
+    expect(updated.updatedAt).toEqual(at(1));
+    expect(updated.snoozedUntil).toBeUndefined();
+  });
+
+  it.each<[ReminderStatus, ReminderStatus]>([
+    ['sent', 'pending'],
+    ['completed', 'pending'],
+    ['dismissed', 'sent'],
+    ['expired', 'completed'],
+  ])('rejects %s to %s', (from, to) => {
+    expect(() => transitionReminder(reminder({ status: from }), to, at(1))).toThrow(
+      `Cannot change reminder status from '${from}' to '${to}'`,
+    );
+  });
+
+  it('closes completed, dismissed and expired reminders for good', () => {
+    for (const closed of ['completed', 'dismissed', 'expired'] as const) {
+      expect(isReminderOpen(reminder({ status: closed }))).toBe(false);
+      expect(REMINDER_STATUSES.some((status) => canTransition(closed, status))).toBe(false);
+    }
+  });
+
+  it('stamps sentAt once and completedAt on completion', () => {
+    const sent = transitionReminder(reminder(), 'sent', at(1));
+    transitionReminder(sent, 'sent', at(2));
+    completeReminder(sent, at(3));
+
+    expect(sent).toMatchObject({ status: 'completed', sentAt: at(1), completedAt: at(3), updatedAt: at(3) });
+    expect(() => completeReminder(sent, at(4))).toThrow("Cannot complete a reminder that is 'completed'");
+  });
+
+  it('leaves snoozing to snoozeReminder', () => {
+    expect(() => transitionReminder(reminder(), 'snoozed', at(1))).toThrow('use snoozeReminder');
+  });
+});
+
+describe('snoozeReminder', () => {
+  it('snoozes open reminders until a later time', () => {
+    const snoozed = snoozeReminder(reminder({ status: 'sent' }), at(24), at(1));
+
+    expect(snoozed).toMatchObject({ status: 'snoozed', snoozedUntil: at(24), updatedAt: at(1) });
+    expect(snoozeReminder(snoozed, at(48), at(2)).snoozedUntil).toEqual(at(48));
+  });
+
+  it('drops an expiry the snooze would run past', () => {
+    expect(snoozeReminder(reminder({ expiresAt: at(12) }), at(24), at(1)).expiresAt).toBeUndefined();
+    expect(snoozeReminder(reminder({ expiresAt: at(48) }), at(24), at(1)).expiresAt).toEqual(at(48));
+  });
+
+  it('rejects past wake-up times and closed reminders', () => {
+    expect(() => snoozeReminder(reminder(), at(1), at(1))).toThrow('Snooze time must be in the future');
+    expect(() => snoozeReminder(reminder(), new Date(NaN), at(1))).toThrow('Snooze time must be in the future');
+    expect(() => snoozeReminder(reminder({ status: 'dismissed' }), at(24), at(1))).toThrow(
+      "Cannot snooze a reminder that is 'dismissed'",
+    );
+  });
+});
+
+describe('refreshReminderState', () => {
+  it('wakes snoozed reminders as pending, due at the wake-up time', () => {
+    const snoozed = reminder({ status: 'snoozed', snoozedUntil: at(24) });
+
+    expect(refreshReminderState(snoozed, at(23))).toBe(false);
+    expect(refreshReminderState(snoozed, at(25))).toBe(true);
+    expect(snoozed).toMatchObject({ status: 'pending', dueDate: at(24), snoozedUntil: undefined, updatedAt: at(25) });
+  });
+
+  it('expires open reminders past their expiry', () => {
+    const sent = reminder({ status: 'sent', sentAt: at(1), expiresAt: at(24) });
+
+    expect(refreshReminderState(sent, at(24))).toBe(true);
+    expect(sent.status).toBe('expired');
+    expect(refreshReminderState(sent, at(25))).toBe(false);
+  });
+});
+
+describe('reminderAsOf', () => {
+  it('rolls back changes recorded after the point in time', () => {
+    const stored = reminder({ status: 'completed', sentAt: at(2), completedAt: at(5), updatedAt: at(5) });
+
+    expect(reminderAsOf(stored, at(-1))).toBeUndefined();
+    expect(reminderAsOf(stored, at(1))).toMatchObject({ status: 'pending', sentAt: undefined });
+    expect(reminderAsOf(stored, at(3))).toMatchObject({ status: 'sent', sentAt: at(2), completedAt: undefined });
+    expect(reminderAsOf(stored, at(6))?.status).toBe('completed');
+    expect(stored.status).toBe('completed');
+  });
+
+  it('undoes a snooze recorded after the point in time', () => {
+    const stored = snoozeReminder(reminder({ status: 'sent', sentAt: at(1) }), at(48), at(10));
+
+    expect(reminderAsOf(stored, at(5))).toMatchObject({
+      status: 'sent',
+      dueDate: CREATED,
+      snoozedUntil: undefined,
+      updatedAt: at(1),
+    });
+    expect(reminderAsOf(stored, at(12))).toMatchObject({ status: 'snoozed', snoozedUntil: at(48) });
+    expect(reminderAsOf(stored, at(50))).toMatchObject({ status: 'pending', dueDate: at(48) });
+    expect(stored.status).toBe('snoozed');
+  });
+
+  it('gives the same copy for the same point in time however often it is asked', () => {
+    const stored = reminder({ status: 'dismissed', sentAt: at(2), updatedAt: at(8) });
+
+    expect(reminderAsOf(stored, at(4))).toEqual(reminderAsOf(stored, at(4)));
+    expect(reminderAsOf(stored, at(4))?.status).toBe('sent');
+    expect(reminderAsOf(stored, at(8))?.status).toBe('dismissed');
+  });
+
+  it('applies expiries due by then', () => {
+    const stored = reminder({ status: 'pending', expiresAt: at(24) });
+
+    expect(reminderAsOf(stored, at(30))?.status).toBe('expired');
+    expect(stored.status).toBe('pending');
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import { Contact, RelationshipScore, Reminder, Rule, RuleConfig, RuleType } from '@keepclos/shared';
+import { applyReminderPolicy, pausedReason, validateReminderPolicy } from '../src/policy.js';
+import { ReminderScheduler } from '../src/scheduler.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// A Wednesday, mid-afternoon in New York
+const NOW = new Date('2025-03-05T19:00:00Z');
+
+function contact(id: string, lastContactDaysAgo: number, tags: string[] = []): Contact {
+  return {
+    id,
+    name: id,
+    tags,
+    notes: '',
+    lastContactedAt: new Date(NOW.getTime() - lastContactDaysAgo * MS_PER_DAY),
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+  };
+}
+
+function rule(type: RuleType, config: RuleConfig): Rule {
+  return { id: type, type, name: type, enabled: true, config, createdAt: NOW, updatedAt: NOW };
+}
+
+function score(contactId: string, overall: number, trend: RelationshipScore['trend'] = 'stable'): RelationshipScore {
+  return { contactId, overall, recency: overall, frequency: overall, engagement: overall, trend, lastUpdated: NOW };
+}
+
+function candidate(contactId: string, reminderRule: Rule, createdAt: Date = NOW): Reminder {
+  return {
+    id: `${contactId}-${reminderRule.id}`,
+    contactId,
+    message: `Reach out to ${contactId}`,
+    dueDate: createdAt,
+    status: 'pending',
+    rule: reminderRule,
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+// Four candidates whose rankings differ by one factor each
+const contacts = [
+  contact('decaying', 3),
+  contact('overdue', 70),
+  contact('family', 3, ['family']),
+  contact('plain', 3),
+];
+const scores = new Map([
+  ['decaying', score('decaying', 20, 'declining')],
+  ['overdue', score('overdue', 55)],
+  ['family', score('family', 60)],
+  ['plain', score('plain', 65)],
+]);
+const candidates = [
+  candidate('plain', rule('recurring', { recurringDays: 14 })),
+  candidate('overdue', rule('inactivity', { inactivityDays: 30 })),
+  candidate('family', rule('recurring', { recurringDays: 14 })),
+  candidate('decaying', rule('decay', { scoreThreshold: 50 })),
+];
+const context = { contacts, relationshipScores: scores, timeZone: 'America/New_York' };
+
+describe('applyReminderPolicy budgets', () => {
+  it('accepts the highest ranked candidates and defers the rest with their rankings', () => {
+    const result = applyReminderPolicy(candidates, { maxPerDay: 2, priorityTags: ['family'] }, context, NOW);
+
+    // Score drop (20 declining + 30 below threshold) ties the family tag boost; the lower score goes first
+    expect(result.accepted.map((reminder) => reminder.contactId)).toEqual(['decaying', 'family']);
+    expect(result.deferred).toEqual([
+      {
+        contactId: 'overdue',
+        ruleId: 'inactivity',
+        message: 'Reach out to overdue',
+        reason: 'daily_budget',
+        detail: 'Daily budget of 2 new reminders reached',
+        ranking: { priority: 40, scoreDrop: 0, daysOverdue: 40, tagBoost: 0 },
+      },
+      {
+        contactId: 'plain',
+        ruleId: 'recurring',
+        message: 'Reach out to plain',
+        reason: 'daily_budget',
+        detail: 'Daily budget of 2 new reminders reached',
+        ranking: { priority: 0, scoreDrop: 0, daysOverdue: 0, tagBoost: 0 },
+      },
+    ]);
+  });
+
+  it('ranks days overdue above an untagged contact without priority tags configured', () => {
+    const result = applyReminderPolicy(candidates, { maxPerDay: 2 }, context, NOW);
+
+    expect(result.accepted.map((reminder) => reminder.contactId)).toEqual(['decaying', 'overdue']);
+    expect(result.deferred.map((deferral) => deferral.contactId)).toEqual(['family', 'plain']);
+  });
+
+  it('counts stored scheduler reminders from Monday against the weekly budget', () => {
+    const monday = new Date('2025-03-03T15:00:00Z');
+    const lastSunday = new Date('2025-03-03T03:00:00Z'); // Sunday evening in New York
+    const reminders = [
+      candidate('x', rule('recurring', {}), monday),
+      candidate('y', rule('recurring', {}), monday),
+      candidate('z', rule('recurring', {}), lastSunday),
+      { ...candidate('manual', rule('recurring', {}), monday), rule: undefined },
+    ];
+
+    const result = applyReminderPolicy(candidates, { maxPerDay: 3, maxPerWeek: 3 }, { ...context, reminders }, NOW);
+
+    expect(result.accepted.map((reminder) => reminder.contactId)).toEqual(['decaying']);
+    expect(result.deferred.map((deferral) => [deferral.contactId, deferral.reason])).toEqual([
+      ['overdue', 'weekly_budget'],
+      ['family', 'weekly_budget'],
+      ['plain', 'weekly_budget'],
+    ]);
+    expect(result.deferred[0].detail).toBe('Weekly budget of 3 new reminders reached');
+  });
+
+  it('accepts everything within the budgets', () => {
+    const result = applyReminderPolicy(candidates, { maxPerDay: 10 }, context, NOW);
+
+    expect(result.accepted).toHaveLength(4);
+    expect(result.deferred).toEqual([]);
+  });
+});
+
+describe('quiet hours and days off', () => {
+  const policy = { quietHours: { start: 22, end: 7 } };
+
+  it.each([
+    ['2025-03-05T03:30:00Z', 'quiet_hours'], // 22:30 in New York
+    ['2025-03-05T09:00:00Z', 'quiet_hours'], // 04:00, after midnight
+    ['2025-03-05T11:59:00Z', 'quiet_hours'], // 06:59
+    ['2025-03-05T12:00:00Z', null], // 07:00
+    ['2025-03-05T02:30:00Z', null], // 21:30, though already quiet in UTC
+  ])('takes quiet hours across midnight in the user’s zone at %s', (at, reason) => {
+    expect(pausedReason(policy, new Date(at), 'America/New_York')?.reason ?? null).toBe(reason);
+  });
+
+  it('defers every candidate with the quiet hours recorded', () => {
+    const result = applyReminderPolicy(candidates, policy, context, new Date('2025-03-05T09:00:00Z'));
+
+    expect(result.accepted).toEqual([]);
+    expect(result.deferred).toHaveLength(4);
+    expect(result.deferred.every((deferral) => deferral.detail === 'Quiet hours (22:00-07:00)')).toBe(true);
+  });
+
+  it('pauses on days off in the user’s zone', () => {
+    // Thursday 01:00 UTC is still Wednesday in New York
+    expect(pausedReason({ daysOff: [3] }, new Date('2025-03-06T01:00:00Z'), 'America/New_York')).toEqual({
+      reason: 'day_off',
+      detail: 'Day off (weekday 3)',
+    });
+    expect(pausedReason({ daysOff: [3] }, new Date('2025-03-06T01:00:00Z'), 'UTC')).toBeNull();
+  });
+
+  it('records deferrals in the scheduler run summary', async () => {
+    const scheduler = new ReminderScheduler({
+      contacts: [contact('overdue', 70)],
+      interactions: new Map(),
+      rules: [rule('inactivity', { inactivityDays: 30 })],
+      relationshipScores: new Map(),
+      existingReminders: new Map(),
+      timeZone: 'America/New_York',
+      policy,
+      now: new Date('2025-03-05T09:00:00Z'),
+    });
+
+    expect(await scheduler.runOnce()).toEqual([]);
+    expect(scheduler.getLastRun()).toMatchObject({
+      remindersGenerated: 0,
+      remindersDeferred: 1,
+      deferred: [{ contactId: 'overdue', reason: 'quiet_hours', detail: 'Quiet hours (22:00-07:00)' }],
+    });
+  });
+});
+
+describe('validateReminderPolicy', () => {
+  it('rejects malformed fields', () => {
+    expect(() => validateReminderPolicy({ quietHours: { start: 22, end: 7 }, maxPerDay: 0 })).not.toThrow();
+    expect(() => validateReminderPolicy({ quietHours: { start: 22, end: 24 } })).toThrow('quietHours');
+    expect(() => validateReminderPolicy({ daysOff: [7] })).toThrow('daysOff');
+    expect(() => validateReminderPolicy({ maxPerWeek: 1.5 })).toThrow('maxPerWeek must be a non-negative integer');
+    expect(() => validateReminderPolicy({ priorityTags: [1] as unknown as string[] })).toThrow('priorityTags');
+  });
+});
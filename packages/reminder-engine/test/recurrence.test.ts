@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { firstOccurrenceOn, isValidSchedule, nextOccurrence, parseSchedule } from '../src/recurrence.js';
+
+const BERLIN = { timeZone: 'Europe/Berlin' };
+
+describe('parseSchedule', () => {
+  it('recognizes annual dates, cron expressions and RRULEs', () => {
+    expect(parseSchedule('06-15')).toEqual({ kind: 'annual', month: 6, day: 15, hour: 0, minute: 0 });
+    expect(parseSchedule('12-24 18:30')).toEqual({ kind: 'annual', month: 12, day: 24, hour: 18, minute: 30 });
+    expect(parseSchedule('0 9 * * 2#2')).toEqual({ kind: 'cron', expression: '0 9 * * 2#2' });
+    expect(parseSchedule('RRULE:FREQ=MONTHLY;BYDAY=-1FR')).toMatchObject({
+      kind: 'rrule',
+      rule: { freq: 'MONTHLY', interval: 1, byDay: [{ weekday: 5, ordinal: -1 }] },
+    });
+  });
+
+  it.each([
+    '02-30',
+    '13-01',
+    '06-15 24:00',
+    'FREQ=HOURLY',
+    'FREQ=WEEKLY;BYDAY=2TU',
+    'FREQ=DAILY;COUNT=2;UNTIL=20250101',
+    'x',
+  ])('rejects %s', (pattern) => {
+    expect(isValidSchedule(pattern)).toBe(false);
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('finds annual dates in the schedule time zone', () => {
+    expect(nextOccurrence('06-15', new Date('2025-03-01T00:00:00Z'), BERLIN)?.toISOString()).toBe(
+      '2025-06-14T22:00:00.000Z',
+    );
+    expect(nextOccurrence('06-15 09:00', new Date('2025-06-15T08:00:00Z'), BERLIN)?.toISOString()).toBe(
+      '2026-06-15T07:00:00.000Z',
+    );
+  });
+
+  it('skips to the next leap year for Feb 29', () => {
+    expect(nextOccurrence('02-29', new Date('2025-01-01T00:00:00Z'), BERLIN)?.toISOString()).toBe(
+      '2028-02-28T23:00:00.000Z',
+    );
+    expect(nextOccurrence('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29', new Date('2025-01-01T00:00:00Z'), BERLIN)).toEqual(
+      new Date('2028-02-28T23:00:00.000Z'),
+    );
+  });
+
+  it('moves annual times skipped by DST forward', () => {
+    expect(nextOccurrence('03-31 02:30', new Date('2024-01-01T00:00:00Z'), BERLIN)?.toISOString()).toBe(
+      '2024-03-31T01:30:00.000Z',
+    );
+  });
+
+  it('follows cron expressions', () => {
+    // Second Tuesday of the month at 09:00
+    expect(nextOccurrence('0 9 * * 2#2', new Date('2025-03-01T00:00:00Z'), BERLIN)?.toISOString()).toBe(
+      '2025-03-11T08:00:00.000Z',
+    );
+  });
+
+  it('finds the last Friday of the month', () => {
+    expect(nextOccurrence('FREQ=MONTHLY;BYDAY=-1FR', new Date('2025-03-01T00:00:00Z'), BERLIN)?.toISOString()).toBe(
+      '2025-03-27T23:00:00.000Z',
+    );
+  });
+
+  it('counts intervals from DTSTART', () => {
+    const pattern = 'DTSTART;TZID=America/New_York:20230115T093000\nRRULE:FREQ=MONTHLY;INTERVAL=7';
+
+    // August 2023, March 2024 (EDT), October 2024 (EDT), May 2025
+    expect(nextOccurrence(pattern, new Date('2024-01-01T00:00:00Z'))?.toISOString()).toBe('2024-03-15T13:30:00.000Z');
+    expect(nextOccurrence(pattern, new Date('2024-03-15T13:30:00Z'))?.toISOString()).toBe('2024-10-15T13:30:00.000Z');
+  });
+
+  it('counts intervals from the anchor when there is no DTSTART', () => {
+    const options = { ...BERLIN, anchor: new Date('2025-01-06T10:00:00Z') }; // A Monday
+
+    expect(nextOccurrence('FREQ=WEEKLY;INTERVAL=2', new Date('2025-01-07T00:00:00Z'), options)?.toISOString()).toBe(
+      '2025-01-19T23:00:00.000Z',
+    );
+  });
+
+  it('finds years several intervals ahead', () => {
+    const pattern = 'DTSTART:20200704T120000Z\nRRULE:FREQ=YEARLY;INTERVAL=3';
+
+    expect(nextOccurrence(pattern, new Date('2024-01-01T00:00:00Z'))?.toISOString()).toBe('2026-07-04T12:00:00.000Z');
+  });
+
+  it('stops after COUNT occurrences and after UNTIL', () => {
+    const counted = 'DTSTART:20250101T090000Z\nRRULE:FREQ=DAILY;COUNT=3';
+    expect(nextOccurrence(counted, new Date('2025-01-02T12:00:00Z'))?.toISOString()).toBe('2025-01-03T09:00:00.000Z');
+    expect(nextOccurrence(counted, new Date('2025-01-03T12:00:00Z'))).toBeUndefined();
+
+    const until = 'DTSTART:20250101T090000Z\nRRULE:FREQ=WEEKLY;UNTIL=20250115';
+    expect(nextOccurrence(until, new Date('2025-01-09T00:00:00Z'))?.toISOString()).toBe('2025-01-15T09:00:00.000Z');
+    expect(nextOccurrence(until, new Date('2025-01-15T10:00:00Z'))).toBeUndefined();
+  });
+});
+
+describe('firstOccurrenceOn', () => {
+  it('returns the occurrence on a matching day and nothing on other days', () => {
+    expect(firstOccurrenceOn('06-15 09:00', new Date('2025-06-15T20:00:00Z'), BERLIN)?.toISOString()).toBe(
+      '2025-06-15T07:00:00.000Z',
+    );
+    expect(firstOccurrenceOn('06-15 09:00', new Date('2025-06-16T20:00:00Z'), BERLIN)).toBeUndefined();
+  });
+
+  it('takes the day in the given time zone', () => {
+    // 23:30 UTC on June 14 is already June 15 in Berlin
+    const lateEvening = new Date('2025-06-14T23:30:00Z');
+
+    expect(firstOccurrenceOn('06-15', lateEvening, BERLIN)).toBeDefined();
+    expect(firstOccurrenceOn('06-15', lateEvening, { timeZone: 'America/New_York' })).toBeUndefined();
+  });
+
+  it('returns the same occurrence for repeated lookups of a day', () => {
+    const day = new Date('2025-03-28T12:00:00Z');
+    const first = firstOccurrenceOn('FREQ=MONTHLY;BYDAY=-1FR', day, BERLIN);
+
+    expect(first?.toISOString()).toBe('2025-03-27T23:00:00.000Z');
+    expect(firstOccurrenceOn('FREQ=MONTHLY;BYDAY=-1FR', new Date('2025-03-28T18:00:00Z'), BERLIN)).toEqual(first);
+    expect(firstOccurrenceOn('FREQ=MONTHLY;BYDAY=-1FR', day, { timeZone: 'Asia/Tokyo' })?.toISOString()).toBe(
+      '2025-03-27T15:00:00.000Z',
+    );
+  });
+
+  it('finds days where DST skips midnight', () => {
+    const occurrence = firstOccurrenceOn('03-31', new Date('2024-03-31T12:00:00Z'), { timeZone: 'Asia/Beirut' });
+
+    expect(occurrence?.toISOString()).toBe('2024-03-30T22:00:00.000Z');
+  });
+
+  it('answers quickly for rare dates', () => {
+    const started = performance.now();
+    for (let day = 0; day < 100; day++) {
+      firstOccurrenceOn('02-29', new Date(Date.UTC(2025, 0, 1 + day)), BERLIN);
+      firstOccurrenceOn('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29', new Date(Date.UTC(2025, 0, 1 + day)), BERLIN);
+    }
+
+    expect(performance.now() - started).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Contact, Interaction, Reminder, Rule } from '@keepclos/shared';
+import { calculateRelationshipScore } from '@keepclos/context-engine';
+import { ReminderScheduler, SchedulerContext, createReminder, evaluateContact } from '../src/scheduler.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+const contact: Contact = {
+  id: 'a',
+  name: 'Ann',
+  tags: [],
+  notes: '',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+};
+
+// Weekly calls that stopped five days ago: a score in the mid 70s, falling
+const interactions: Interaction[] = [5, 15, 25, 35].map((days) => ({
+  id: `call-${days}`,
+  contactId: contact.id,
+  type: 'call',
+  timestamp: new Date(NOW.getTime() - days * MS_PER_DAY),
+  quality: 80,
+}));
+
+function decayRule(config: Rule['config']): Rule {
+  return { id: 'decay', type: 'decay', name: 'Decay', enabled: true, config, createdAt: NOW, updatedAt: NOW };
+}
+
+function evaluate(rule: Rule) {
+  return evaluateContact(contact, {
+    contacts: [contact],
+    interactions: new Map([[contact.id, interactions]]),
+    rules: [rule],
+    relationshipScores: new Map([[contact.id, calculateRelationshipScore(contact, interactions, {}, NOW)]]),
+    existingReminders: new Map(),
+    timeZone: 'UTC',
+    now: NOW,
+  });
+}
+
+describe('decay reminders', () => {
+  it('names the projected crossing of forecast-mode rules', () => {
+    const [reminder] = evaluate(decayRule({ scoreThreshold: 72, decayMode: 'forecast', forecastLeadDays: 7 }));
+
+    expect(reminder.message).toBe(
+      'Reach out to Ann soon: your relationship score is forecast to drop below 72 on 2025-03-04',
+    );
+    expect(reminder.reasons?.[0]).toMatch(/^score forecast to drop below 72 in 3 days, on 2025-03-04 \(74\.\d+\)$/);
+    // The crossing is within the lead days, so the lead time has already started
+    expect(reminder.dueDate).toEqual(NOW);
+  });
+
+  it('is due the lead days before a forecast crossing', () => {
+    const rule = decayRule({ scoreThreshold: 50, decayMode: 'forecast', forecastLeadDays: 7 });
+    const crossesAt = new Date('2025-03-20T06:00:00Z');
+    const reminder = createReminder(contact, rule, 'UTC', [], NOW, { crossesAt, days: 18.75 });
+
+    expect(reminder.dueDate.toISOString()).toBe('2025-03-13T06:00:00.000Z');
+    expect(reminder.message).toContain('on 2025-03-20');
+  });
+
+  it('reminds immediately below the threshold', () => {
+    const [reminder] = evaluate(decayRule({ scoreThreshold: 80 }));
+
+    expect(reminder.dueDate).toEqual(NOW);
+    expect(reminder.message).toBe('Your relationship with Ann needs attention (score dropping below 80)');
+  });
+});
+
+describe('ReminderScheduler.runOnce', () => {
+  it('runs concurrent calls one after another without duplicating reminders', async () => {
+    const stored: Reminder[] = [];
+    const rule: Rule = {
+      id: 'inactive',
+      type: 'inactivity',
+      name: 'Inactive',
+      enabled: true,
+      config: { inactivityDays: 30 },
+      createdAt: NOW,
+      updatedAt: NOW,
+    };
+    const contacts: Contact[] = [];
+    const context = (): SchedulerContext => ({
+      contacts: [...contacts],
+      interactions: new Map(),
+      rules: [rule],
+      relationshipScores: new Map(),
+      existingReminders: new Map(stored.map((reminder) => [`${reminder.contactId}:${reminder.rule?.id}`, reminder])),
+      timeZone: 'UTC',
+      now: NOW,
+    });
+    let active = 0;
+    let overlapped = false;
+    const scheduler = new ReminderScheduler(context);
+    const save = async (reminders: Reminder[]) => {
+      overlapped ||= active > 0;
+      active++;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      stored.push(...reminders);
+      active--;
+    };
+
+    // The contact arrives while a cycle is in flight; both waiting callers would otherwise remind about it
+    const inFlight = scheduler.runOnce(save);
+    contacts.push(contact);
+    const runs = await Promise.all([inFlight, scheduler.runOnce(save), scheduler.runOnce(save)]);
+
+    expect(runs.map((reminders) => reminders.length)).toEqual([0, 1, 0]);
+    expect(stored).toHaveLength(1);
+    expect(overlapped).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Contact, Interaction, Rule } from '@keepclos/shared';
+import { MAX_SIMULATION_DAYS, SimulationInput, simulateRules } from '../src/simulation.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function contact(id: string): Contact {
+  return {
+    id,
+    name: `Contact ${id}`,
+    tags: [],
+    notes: '',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+  };
+}
+
+function interaction(contactId: string, timestamp: string): Interaction {
+  return { id: `${contactId}-${timestamp}`, contactId, type: 'call', timestamp: new Date(timestamp), quality: 80 };
+}
+
+function rule(id: string, type: Rule['type'], config: Rule['config'], createdAt = new Date()): Rule {
+  return { id, type, name: id, enabled: false, config, createdAt, updatedAt: createdAt };
+}
+
+function input(rules: Rule[], interactions: Interaction[] = []): SimulationInput {
+  const byContact = new Map<string, Interaction[]>();
+  for (const item of interactions) {
+    byContact.set(item.contactId, [...(byContact.get(item.contactId) ?? []), item]);
+  }
+
+  return { contacts: [contact('a')], interactions: byContact, rules, timeZone: 'UTC' };
+}
+
+describe('simulateRules', () => {
+  it('anchors schedules without DTSTART to the range start for rules created later', () => {
+    const report = simulateRules(input([rule('monthly', 'date', { datePattern: 'FREQ=MONTHLY;BYMONTHDAY=15' })]), {
+      from: new Date('2025-03-01T00:00:00Z'),
+      to: new Date('2025-04-30T00:00:00Z'),
+      includeReminders: true,
+    });
+
+    expect(report.fired).toBe(2);
+    expect(report.reminders?.map((reminder) => reminder.firedAt.toISOString().slice(0, 10))).toEqual([
+      '2025-03-15',
+      '2025-04-15',
+    ]);
+  });
+
+  it('keeps the creation date as the anchor of rules created before the range', () => {
+    const created = new Date('2025-01-06T00:00:00Z');
+    const biweekly = rule('biweekly', 'date', { datePattern: 'FREQ=WEEKLY;INTERVAL=2' }, created);
+    const report = simulateRules(input([biweekly]), {
+      from: new Date('2025-03-01T00:00:00Z'),
+      to: new Date('2025-03-31T00:00:00Z'),
+      includeReminders: true,
+    });
+
+    expect(report.reminders?.map((reminder) => reminder.firedAt.toISOString().slice(0, 10))).toEqual([
+      '2025-03-03',
+      '2025-03-17',
+      '2025-03-31',
+    ]);
+  });
+
+  it('counts interactions within the follow-up window', () => {
+    const report = simulateRules(
+      input(
+        [rule('inactive', 'inactivity', { inactivityDays: 30 })],
+        [interaction('a', '2025-01-01T12:00:00Z'), interaction('a', '2025-02-05T12:00:00Z')],
+      ),
+      {
+        from: new Date('2025-02-01T00:00:00Z'),
+        to: new Date('2025-02-10T00:00:00Z'),
+        followUpDays: 2,
+        includeReminders: true,
+      },
+    );
+
+    // Fires daily until the contact is reached on Feb 5; only the last two were followed up in time
+    expect(report.fired).toBe(5);
+    expect(report.followedUp).toBe(2);
+    expect(report.followUpRate).toBe(0.4);
+    expect(report.reminders?.map((reminder) => reminder.followedUpAt?.toISOString())).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      '2025-02-05T12:00:00.000Z',
+      '2025-02-05T12:00:00.000Z',
+    ]);
+    expect(report.byRule[0]).toMatchObject({ ruleId: 'inactive', fired: 5, followedUp: 2, contacts: 1 });
+  });
+
+  it('rejects ranges longer than the limit and invalid options', () => {
+    const from = new Date('2025-01-01T00:00:00Z');
+    const tooLong = new Date(from.getTime() + MAX_SIMULATION_DAYS * MS_PER_DAY);
+
+    expect(() => simulateRules(input([]), { from, to: tooLong })).toThrow(`at most ${MAX_SIMULATION_DAYS} days`);
+    expect(() => simulateRules(input([]), { from, to: new Date('2024-12-31T00:00:00Z') })).toThrow(
+      'to must not be before from',
+    );
+    expect(() => simulateRules(input([]), { from: new Date(NaN), to: from })).toThrow('from must be a valid date');
+    expect(() => simulateRules(input([]), { from, to: from, followUpDays: 0 })).toThrow('followUpDays');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * IANA time zone helpers built on Intl
+ * Calendar days ("today", birthdays, business hours) are computed in a zone, never in the
+ * server's local time, and conversions follow DST transitions
+ */
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+export type ZonedDateInput = Pick<ZonedDateParts, 'year' | 'month' | 'day'> &
+  Partial<Pick<ZonedDateParts, 'hour' | 'minute' | 'second'>>;
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Time zone of the server process (used when no zone is configured)
+ */
+export function systemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Check whether a string is a valid IANA time zone (e.g. "Europe/Berlin")
+ * @param timeZone Time zone name
+ * @returns true if the runtime knows the zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (typeof timeZone !== 'string' || timeZone.length === 0) {
+    return false;
+  }
+
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ * @param date Instant
+ * @param timeZone IANA time zone
+ * @returns Date parts in the zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const values: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    values[part.type] = part.value;
+  }
+
+  return {
+    year: Number(values.year),
+    month: Number(values.month),
+    day: Number(values.day),
+    hour: Number(values.hour) % 24,
+    minute: Number(values.minute),
+    second: Number(values.second),
+    weekday: WEEKDAY_NAMES.indexOf(values.weekday),
+  };
+}
+
+/**
+ * Instant of a wall-clock date and time in a time zone
+ * Times skipped by a DST transition move forward by the length of the gap (e.g. 02:30
+ * becomes 03:30); repeated times resolve to the earlier instant
+ * @param input Wall-clock date (time defaults to midnight)
+ * @param timeZone IANA time zone
+ * @returns Instant
+ */
+export function zonedDateToInstant(input: ZonedDateInput, timeZone: string): Date {
+  const wallClock = Date.UTC(
+    input.year,
+    input.month - 1,
+    input.day,
+    input.hour ?? 0,
+    input.minute ?? 0,
+    input.second ?? 0,
+  );
+
+  // Offsets in force a day either side: equal unless a transition lies in between
+  const offsetBefore = offsetAt(wallClock - MS_PER_DAY, timeZone);
+  const offsetAfter = offsetAt(wallClock + MS_PER_DAY, timeZone);
+
+  // A candidate is real when the zone's offset at it is the one it was built with
+  const candidates = [wallClock - offsetBefore, wallClock - offsetAfter].filter(
+    (instant, index) => offsetAt(instant, timeZone) === (index === 0 ? offsetBefore : offsetAfter),
+  );
+  if (candidates.length > 0) {
+    return new Date(Math.min(...candidates));
+  }
+
+  // Skipped time: read it with the offset before the jump, which lands after the transition
+  return new Date(wallClock - offsetBefore);
+}
+
+/**
+ * Start of the calendar day containing an instant, in a time zone
+ * Where a DST transition skips midnight (e.g. Asia/Beirut, Africa/Cairo) the day starts at
+ * the transition, the first instant whose local date is that day
+ * @param date Instant
+ * @param timeZone IANA time zone
+ * @returns First instant of that day in the zone
+ */
+export function startOfZonedDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedDateToInstant({ year, month, day }, timeZone);
+}
+
+/**
+ * Start of the calendar day a number of days after the day containing an instant
+ * Days are calendar days, so 23 and 25 hour days around DST transitions are handled
+ * @param date Instant
+ * @param days Days to add (may be negative)
+ * @param timeZone IANA time zone
+ * @returns First instant of the resulting day in the zone
+ */
+export function addZonedDays(date: Date, days: number, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  const target = new Date(Date.UTC(year, month - 1, day + days));
+
+  return zonedDateToInstant(
+    { year: target.getUTCFullYear(), month: target.getUTCMonth() + 1, day: target.getUTCDate() },
+    timeZone,
+  );
+}
+
+/**
+ * Calendar date of an instant in a time zone
+ * @param date Instant
+ * @param timeZone IANA time zone
+ * @returns Date as YYYY-MM-DD
+ */
+export function formatZonedDate(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return [String(year).padStart(4, '0'), String(month).padStart(2, '0'), String(day).padStart(2, '0')].join('-');
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function offsetAt(instant: number, timeZone: string): number {
+  const seconds = Math.floor(instant / 1000) * 1000;
+  const parts = getZonedParts(new Date(seconds), timeZone);
+
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - seconds;
+}
+
+/**
+ * Cached formatter for a time zone
+ * @throws RangeError if the zone is unknown
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
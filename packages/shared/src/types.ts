@@ -5,8 +5,14 @@
 export interface Contact {
   id: string;
   name: string;
-  email?: string;
-  phone?: string;
+  email?: string; // Primary email (mirrors the primary entry in emails)
+  phone?: string; // Primary phone (mirrors the primary entry in phones)
+  emails?: ContactFieldValue[];
+  phones?: ContactFieldValue[];
+  addresses?: ContactFieldValue<PostalAddress>[];
+  urls?: ContactFieldValue[];
+  importantDates?: ImportantDate[];
+  timeZone?: string; // IANA zone (e.g. "Europe/Berlin"); overrides the user's zone for this contact
   tags: string[];
   notes: string;
   lastContactedAt?: Date;
@@ -14,6 +20,75 @@ export interface Contact {
   updatedAt: Date;
 }
 
+export interface ContactFieldValue<T = string> {
+  label: string; // e.g. "home", "work", "mobile", "other"
+  value: T;
+  primary: boolean; // At most one primary entry per field
+}
+
+export interface PostalAddress {
+  street?: string;
+  city?: string;
+  region?: string; // State or province
+  postalCode?: string;
+  country?: string;
+}
+
+export interface ImportantDate {
+  type: ImportantDateType;
+  label?: string; // Name of a custom date, e.g. "Graduation"
+  month: number; // 1-12
+  day: number; // 1-31
+  year?: number; // Omitted when unknown (no age / years-together in reminders)
+}
+
+export type ImportantDateType = 'birthday' | 'anniversary' | 'custom';
+
+export interface UserProfile {
+  name?: string;
+  timeZone: string; // IANA zone for "today", due dates and rule evaluation
+  digest?: DigestSettings; // When set, reminders are delivered as digests instead of one by one
+  reminderPolicy?: ReminderPolicy; // Limits on when and how many reminders the scheduler creates
+  scoringProfiles?: ScoringProfile[]; // Scoring settings per group of relationships
+  lastDigestAt?: Date; // When the last digest was delivered
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Scoring settings for a group of relationships, e.g. close family vs. quarterly business
+ * contacts. A profile listing a contact's ID wins; otherwise the first profile sharing one
+ * of the contact's tags applies. Unset fields keep the scorer defaults
+ */
+export interface ScoringProfile {
+  name: string;
+  tags?: string[];
+  contactIds?: string[];
+  recencyWeight?: number;
+  frequencyWeight?: number;
+  engagementWeight?: number;
+  halfLife?: number; // Days for recency to halve
+  cadenceDays?: number; // Expected days between interactions; keeping it up scores 100 on frequency
+  decay?: DecayConfig; // Recency decay curve (default: exponential with halfLife)
+  interactionDecay?: DecayConfig; // How fast interactions lose weight in frequency and engagement
+}
+
+export interface DigestSettings {
+  period: DigestPeriod;
+  hour: number; // 0-23, local hour in the user's time zone when the digest is sent
+  weekday?: number; // Weekly digests: 0 = Sunday (default: 1, Monday)
+}
+
+export type DigestPeriod = 'daily' | 'weekly';
+
+export interface ReminderPolicy {
+  quietHours?: { start: number; end: number }; // Local hours [start, end); wraps midnight when start > end
+  daysOff?: number[]; // Weekdays without new reminders, 0 = Sunday
+  maxPerDay?: number; // New scheduler reminders per calendar day
+  maxPerWeek?: number; // New scheduler reminders per calendar week (Monday to Sunday)
+  priorityTags?: string[]; // Contacts with these tags are ranked first when over budget
+}
+
 export interface Interaction {
   id: string;
   contactId: string;
@@ -32,10 +107,25 @@ export interface RelationshipScore {
   recency: number; // 0-100: based on exponential decay from last contact
   frequency: number; // 0-100: interactions per time window
   engagement: number; // 0-100: depth of interactions (notes, duration)
-  trend: 'improving' | 'stable' | 'declining'; // trend over past 90 days
+  trend: 'improving' | 'stable' | 'declining'; // slope of the overall score over the trend window
+  trendSlope?: number; // Overall score change per day over the trend window
   lastUpdated: Date;
 }
 
+/**
+ * A contact's relationship score as recorded on one calendar day
+ * At most one snapshot is kept per contact and day; a later one replaces it
+ */
+export interface ScoreSnapshot {
+  contactId: string;
+  date: string; // YYYY-MM-DD in the user's time zone
+  takenAt: Date;
+  overall: number;
+  recency: number;
+  frequency: number;
+  engagement: number;
+}
+
 export interface Reminder {
   id: string;
   contactId: string;
@@ -46,9 +136,23 @@ export interface Reminder {
   createdAt: Date;
   updatedAt: Date;
   sentAt?: Date;
+  snoozedUntil?: Date; // While snoozed: when the reminder becomes pending again
+  completedAt?: Date;
+  expiresAt?: Date; // Pending or sent reminders still open at this time expire
+  interactionId?: string; // Interaction logged when the reminder was completed
+  deliveryAttempts?: DeliveryAttempt[]; // Oldest first; only the most recent are kept
+  reasons?: string[]; // Rule conditions that matched when the reminder was created
+}
+
+export interface DeliveryAttempt {
+  channel: string; // e.g. "smtp", "webhook", "log"
+  attempt: number; // 1-based attempt number within a delivery round
+  attemptedAt: Date;
+  success: boolean;
+  error?: string;
 }
 
-export type ReminderStatus = 'pending' | 'sent' | 'dismissed';
+export type ReminderStatus = 'pending' | 'sent' | 'snoozed' | 'completed' | 'dismissed' | 'expired';
 
 export interface Rule {
   id: string;
@@ -61,7 +165,7 @@ export interface Rule {
   updatedAt: Date;
 }
 
-export type RuleType = 'inactivity' | 'recurring' | 'date' | 'decay';
+export type RuleType = 'inactivity' | 'recurring' | 'date' | 'decay' | 'composite';
 
 export interface RuleConfig {
   // InactivityRule: days of inactivity before reminder
@@ -70,17 +174,38 @@ export interface RuleConfig {
   // RecurringRule: days between reminders
   recurringDays?: number;
 
-  // DateRule: cron-like date patterns
-  datePattern?: string; // e.g., "0 0 * 6 15" for June 15 each year (birthday)
+  // DateRule: "MM-DD", a cron expression ("0 9 15 6 *") or an RRULE ("FREQ=MONTHLY;BYDAY=-1FR")
+  datePattern?: string;
+  dateSource?: 'pattern' | 'contact'; // 'contact' reminds on each contact's own important dates
+  dateTypes?: ImportantDateType[]; // With dateSource 'contact': date types to include (default: all)
 
   // DecayRule: score threshold below which to remind
   scoreThreshold?: number;
+  decayMode?: 'threshold' | 'forecast'; // 'forecast' also reminds before the projected crossing (default: threshold)
+  forecastLeadDays?: number; // With decayMode 'forecast': remind this many days before the crossing (default: 7)
+
+  // CompositeRule: fires when the condition tree matches; other types use it as an extra filter
+  conditions?: RuleCondition;
 
   // General
   tags?: string[]; // Apply rule to contacts with these tags
+  tagMatch?: 'any' | 'all'; // Whether contacts need any or all of the tags (default: any)
+  excludeTags?: string[]; // Never apply to contacts with any of these tags
   minRelationshipScore?: number; // Only apply to relationships above this score
 }
 
+/**
+ * Condition tree for rules, e.g.
+ * { type: 'and', conditions: [{ type: 'tags', tags: ['family'] }, { type: 'inactive', days: 21 }] }
+ */
+export type RuleCondition =
+  | { type: 'and' | 'or'; conditions: RuleCondition[] }
+  | { type: 'not'; condition: RuleCondition }
+  | { type: 'tags'; tags: string[]; match?: 'any' | 'all' } // default: any
+  | { type: 'inactive'; days: number; interactionType?: InteractionType } // No (matching) interaction in N days
+  | { type: 'score'; min?: number; max?: number } // min <= overall score < max
+  | { type: 'trend'; trend: RelationshipScore['trend'] };
+
 export interface EncryptedRecord {
   encryptedData: string;
   iv: string; // base64-encoded initialization vector
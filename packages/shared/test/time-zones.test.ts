@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addZonedDays,
+  formatZonedDate,
+  getZonedParts,
+  startOfZonedDay,
+  zonedDateToInstant,
+} from '../src/time-zones.js';
+
+describe('zonedDateToInstant', () => {
+  it('converts ordinary wall-clock times', () => {
+    expect(zonedDateToInstant({ year: 2024, month: 6, day: 1, hour: 12 }, 'Europe/Berlin').toISOString()).toBe(
+      '2024-06-01T10:00:00.000Z',
+    );
+    expect(zonedDateToInstant({ year: 2024, month: 1, day: 15, hour: 9 }, 'America/New_York').toISOString()).toBe(
+      '2024-01-15T14:00:00.000Z',
+    );
+  });
+
+  describe('spring-forward gaps move forward by the gap', () => {
+    it.each([
+      ['Europe/Berlin', { year: 2024, month: 3, day: 31, hour: 2, minute: 30 }, '2024-03-31T01:30:00.000Z'],
+      ['America/New_York', { year: 2024, month: 3, day: 10, hour: 2, minute: 30 }, '2024-03-10T07:30:00.000Z'],
+      ['Australia/Sydney', { year: 2024, month: 10, day: 6, hour: 2, minute: 30 }, '2024-10-05T16:30:00.000Z'],
+      ['America/Sao_Paulo', { year: 2018, month: 11, day: 4, hour: 0, minute: 30 }, '2018-11-04T03:30:00.000Z'],
+    ])('%s', (timeZone, input, expected) => {
+      const instant = zonedDateToInstant(input, timeZone);
+
+      expect(instant.toISOString()).toBe(expected);
+      expect(getZonedParts(instant, timeZone)).toMatchObject({ day: input.day, hour: input.hour + 1, minute: 30 });
+    });
+  });
+
+  describe('fall-back overlaps resolve to the earlier instant', () => {
+    it.each([
+      ['Europe/Berlin', { year: 2024, month: 10, day: 27, hour: 2, minute: 30 }, '2024-10-27T00:30:00.000Z'],
+      ['America/New_York', { year: 2024, month: 11, day: 3, hour: 1, minute: 30 }, '2024-11-03T05:30:00.000Z'],
+      ['Australia/Sydney', { year: 2024, month: 4, day: 7, hour: 2, minute: 30 }, '2024-04-06T15:30:00.000Z'],
+    ])('%s', (timeZone, input, expected) => {
+      const instant = zonedDateToInstant(input, timeZone);
+
+      expect(instant.toISOString()).toBe(expected);
+      expect(getZonedParts(instant, timeZone)).toMatchObject({ hour: input.hour, minute: 30 });
+      // One hour later the same wall-clock time comes round again
+      expect(getZonedParts(new Date(instant.getTime() + 60 * 60 * 1000), timeZone)).toMatchObject({
+        hour: input.hour,
+        minute: 30,
+      });
+    });
+  });
+
+  it('round-trips every hour around transitions', () => {
+    for (const timeZone of ['Europe/Berlin', 'America/New_York', 'Australia/Sydney']) {
+      for (let hour = 0; hour < 72; hour++) {
+        const instant = new Date(Date.UTC(2024, 2, 29) + hour * 60 * 60 * 1000);
+        const parts = getZonedParts(instant, timeZone);
+        const back = zonedDateToInstant(parts, timeZone);
+
+        expect(getZonedParts(back, timeZone)).toEqual(parts);
+        expect(back.getTime()).toBeLessThanOrEqual(instant.getTime());
+      }
+    }
+  });
+});
+
+describe('startOfZonedDay', () => {
+  it.each([
+    ['Europe/Berlin', '2024-06-01T15:00:00Z', '2024-05-31T22:00:00.000Z'],
+    ['America/New_York', '2024-03-10T15:00:00Z', '2024-03-10T05:00:00.000Z'],
+    ['Europe/Berlin', '2024-10-27T15:00:00Z', '2024-10-26T22:00:00.000Z'],
+  ])('starts %s days at local midnight', (timeZone, at, expected) => {
+    expect(startOfZonedDay(new Date(at), timeZone).toISOString()).toBe(expected);
+  });
+
+  // These zones spring forward at midnight: the day starts at 01:00
+  it.each([
+    ['Asia/Beirut', '2024-03-31T12:00:00Z', '2024-03-30T22:00:00.000Z'],
+    ['Africa/Cairo', '2024-04-26T12:00:00Z', '2024-04-25T22:00:00.000Z'],
+    ['America/Santiago', '2024-09-08T12:00:00Z', '2024-09-08T04:00:00.000Z'],
+    ['America/Havana', '2024-03-10T12:00:00Z', '2024-03-10T05:00:00.000Z'],
+  ])('starts %s days at the transition when midnight is skipped', (timeZone, at, expected) => {
+    const start = startOfZonedDay(new Date(at), timeZone);
+
+    expect(start.toISOString()).toBe(expected);
+    expect(formatZonedDate(start, timeZone)).toBe(formatZonedDate(new Date(at), timeZone));
+    expect(getZonedParts(start, timeZone)).toMatchObject({ hour: 1, minute: 0 });
+    expect(formatZonedDate(new Date(start.getTime() - 1000), timeZone)).not.toBe(formatZonedDate(start, timeZone));
+  });
+});
+
+describe('addZonedDays', () => {
+  it('steps calendar days across DST transitions', () => {
+    const saturday = new Date('2024-03-30T11:00:00Z');
+
+    expect(addZonedDays(saturday, 1, 'Europe/Berlin').toISOString()).toBe('2024-03-30T23:00:00.000Z');
+    expect(addZonedDays(saturday, 2, 'Europe/Berlin').toISOString()).toBe('2024-03-31T22:00:00.000Z');
+    expect(formatZonedDate(addZonedDays(saturday, -1, 'America/New_York'), 'America/New_York')).toBe('2024-03-29');
+  });
+
+  it('lands on the right day where midnight is skipped', () => {
+    const start = addZonedDays(new Date('2024-03-30T12:00:00Z'), 1, 'Asia/Beirut');
+
+    expect(start.toISOString()).toBe('2024-03-30T22:00:00.000Z');
+    expect(formatZonedDate(start, 'Asia/Beirut')).toBe('2024-03-31');
+  });
+});
@@ -0,0 +1,22 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+const source = (path: string) => fileURLToPath(new URL(path, import.meta.url));
+
+/**
+ * Tests run against the workspace sources, mirroring the tsconfig path aliases
+ */
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@keepclos/shared': source('./packages/shared/src/index.ts'),
+      '@keepclos/context-engine': source('./packages/context-engine/src/index.ts'),
+      '@keepclos/reminder-engine': source('./packages/reminder-engine/src/index.ts'),
+      '@keepclos/contact-sync': source('./packages/contact-sync/src/index.ts'),
+      '@keepclos/privacy-vault': source('./packages/privacy-vault/src/index.ts'),
+    },
+  },
+  test: {
+    include: ['apps/*/test/**/*.test.ts', 'packages/*/test/**/*.test.ts'],
+  },
+});